@@ -882,11 +882,11 @@ class ChatRepositoryImpl @Inject constructor(
             )
         }
 
-        // Build system context (journal entries, agenda items)
-        val recentEntries = journalEntryDao.getRecentEntriesSync(userId, 5)
+        // Build system context (agenda items). The server adds the recent journal entries itself,
+        // so its audit log records which entries were sent to the coach
         val agendaNow = Instant.now()
         val upcomingAgendaItems = agendaItemDao.getUpcomingItemsSync(userId, agendaNow.toEpochMilli(), 10)
-        val systemContext = CoachPrompts.buildCoachContext(recentEntries, upcomingAgendaItems)
+        val systemContext = CoachPrompts.buildCoachContext(emptyList(), upcomingAgendaItems)
 
         // Start the cloud chat job (fire-and-forget)
         debugCallback?.invoke("[${System.currentTimeMillis()}] Starting cloud chat job...")
@@ -1,7 +1,17 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit reads its font metrics from its own directory at runtime
+  serverExternalPackages: ["pdfkit"],
+  // Fonts for PDF exports (see src/lib/pdf-fonts.ts), read from node_modules at runtime
+  outputFileTracingIncludes: {
+    "/api/journal/export": [
+      "./node_modules/@fontsource/{noto-sans,noto-sans-jp,noto-sans-kr,noto-sans-sc,noto-emoji}/unicode.json",
+      "./node_modules/@fontsource/{noto-sans,noto-sans-jp,noto-sans-kr,noto-sans-sc}/files/*-{400,700}-normal.woff",
+      "./node_modules/@fontsource/noto-sans/files/*-{400,700}-italic.woff",
+      "./node_modules/@fontsource/noto-emoji/files/*-400-normal.woff",
+    ],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "AccountExport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "qstashMessageId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "format" TEXT NOT NULL DEFAULT 'zip',
+    "error" TEXT,
+    "fileName" TEXT,
+    "data" BYTEA,
+    "size" INTEGER,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountExport_userId_createdAt_idx" ON "AccountExport"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AccountExport" ADD CONSTRAINT "AccountExport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deletionRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "deletionScheduledAt" TIMESTAMP(3);
+
+-- Remove jobs left behind by users that no longer exist, so the foreign keys can be added
+DELETE FROM "ChatJob" WHERE "userId" NOT IN (SELECT "id" FROM "User");
+DELETE FROM "DailyToolJob" WHERE "userId" NOT IN (SELECT "id" FROM "User");
+DELETE FROM "DailyToolRefineJob" WHERE "userId" NOT IN (SELECT "id" FROM "User");
+
+-- AddForeignKey
+ALTER TABLE "ChatJob" ADD CONSTRAINT "ChatJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DailyToolJob" ADD CONSTRAINT "DailyToolJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DailyToolRefineJob" ADD CONSTRAINT "DailyToolRefineJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
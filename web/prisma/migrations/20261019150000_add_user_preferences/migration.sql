@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "preferredLanguage" TEXT,
+ADD COLUMN     "coachTone" TEXT NOT NULL DEFAULT 'balanced',
+ADD COLUMN     "remindersEnabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "notifyMinutesBefore" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "notifyMinutesAfter" INTEGER NOT NULL DEFAULT 60;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "encryptedDataKey" TEXT;
+
+-- Existing JournalEntry, Note and Message content is encrypted by scripts/encrypt-existing-content.mjs
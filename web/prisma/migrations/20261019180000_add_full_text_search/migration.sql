@@ -0,0 +1,48 @@
+-- Full-text search (see src/lib/search.ts)
+--
+-- Journal entries, notes and messages are encrypted, so their search vectors are written by the
+-- app from the plaintext. Existing plaintext rows are indexed here; rows that are already
+-- encrypted are indexed by scripts/index-encrypted-content.mjs.
+
+-- AlterTable
+ALTER TABLE "JournalEntry" ADD COLUMN "searchVector" tsvector;
+ALTER TABLE "Note" ADD COLUMN "searchVector" tsvector;
+ALTER TABLE "Message" ADD COLUMN "searchVector" tsvector;
+
+ALTER TABLE "Goal" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', "description"), 'B')) STORED;
+ALTER TABLE "Task" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', "description"), 'B')) STORED;
+ALTER TABLE "Summary" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;
+
+-- Backfill plaintext rows
+UPDATE "JournalEntry"
+SET "searchVector" = to_tsvector('english', regexp_replace("content", '<[^>]*>', ' ', 'g'))
+WHERE "content" NOT LIKE 'enc:v1:%';
+
+UPDATE "Note"
+SET "searchVector" = setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', "content"), 'B')
+WHERE "content" NOT LIKE 'enc:v1:%';
+
+UPDATE "Message"
+SET "searchVector" = to_tsvector('english', "content")
+WHERE "content" NOT LIKE 'enc:v1:%';
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_searchVector_idx" ON "JournalEntry" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Message_searchVector_idx" ON "Message" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Summary_searchVector_idx" ON "Summary" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Note_searchVector_idx" ON "Note" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Goal_searchVector_idx" ON "Goal" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Task_searchVector_idx" ON "Task" USING GIN ("searchVector");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "JournalEntryRevision" (
+    "id" TEXT NOT NULL,
+    "journalEntryId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "mood" TEXT,
+    "tags" TEXT[],
+    "savedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JournalEntryRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JournalEntryRevision_journalEntryId_createdAt_idx" ON "JournalEntryRevision"("journalEntryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "JournalEntryRevision" ADD CONSTRAINT "JournalEntryRevision_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
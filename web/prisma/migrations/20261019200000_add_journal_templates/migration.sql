@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "JournalEntry" ADD COLUMN "templateAnswers" TEXT,
+ADD COLUMN "templateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "JournalEntryRevision" ADD COLUMN "templateAnswers" TEXT;
+
+-- CreateTable
+CREATE TABLE "JournalTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "fields" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JournalTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JournalTemplate_userId_idx" ON "JournalTemplate"("userId");
+
+-- AddForeignKey
+ALTER TABLE "JournalTemplate" ADD CONSTRAINT "JournalTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "JournalImport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "qstashMessageId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PARSED',
+    "source" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "entries" TEXT,
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "imported" INTEGER NOT NULL DEFAULT 0,
+    "duplicates" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JournalImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JournalImport_userId_createdAt_idx" ON "JournalImport"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "JournalImport" ADD CONSTRAINT "JournalImport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
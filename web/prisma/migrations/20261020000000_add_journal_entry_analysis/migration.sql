@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "JournalEntry" ADD COLUMN     "analyzedAt" TIMESTAMP(3),
+ADD COLUMN     "sentiment" DOUBLE PRECISION,
+ADD COLUMN     "suggestedMood" TEXT,
+ADD COLUMN     "suggestedTags" TEXT[];
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "JournalEntry" ADD COLUMN     "wordCount" INTEGER;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "streakReminders" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "JournalDraft" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "journalEntryId" TEXT,
+    "content" TEXT NOT NULL,
+    "mood" TEXT,
+    "tags" TEXT[],
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JournalDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalDraft_userId_key_key" ON "JournalDraft"("userId", "key");
+
+-- CreateIndex
+CREATE INDEX "JournalDraft_journalEntryId_idx" ON "JournalDraft"("journalEntryId");
+
+-- AddForeignKey
+ALTER TABLE "JournalDraft" ADD CONSTRAINT "JournalDraft_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JournalDraft" ADD CONSTRAINT "JournalDraft_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
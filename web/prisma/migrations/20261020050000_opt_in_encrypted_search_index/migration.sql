@@ -0,0 +1,15 @@
+-- Search vectors of encrypted content are opt-in (SEARCH_INDEX_ENCRYPTED_CONTENT, see src/lib/search.ts)
+--
+-- Vectors of encrypted rows hold their words in the clear, so they're cleared here. Deployments
+-- that opt in rebuild them with scripts/index-encrypted-content.mjs.
+
+UPDATE "JournalEntry" SET "searchVector" = NULL WHERE "content" LIKE 'enc:v1:%';
+UPDATE "Note" SET "searchVector" = NULL WHERE "content" LIKE 'enc:v1:%';
+
+-- Nothing maintained the vectors of new messages, so chats are no longer searched
+
+-- DropIndex
+DROP INDEX "Message_searchVector_idx";
+
+-- AlterTable
+ALTER TABLE "Message" DROP COLUMN "searchVector";
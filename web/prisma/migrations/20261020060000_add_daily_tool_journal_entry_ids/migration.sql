@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DailyTool" ADD COLUMN     "journalEntryIds" TEXT[];
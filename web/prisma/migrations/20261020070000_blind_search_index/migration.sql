@@ -0,0 +1,14 @@
+-- Blind search index for encrypted content (see src/lib/search.ts)
+--
+-- Vectors of journal entries, notes and messages now hold keyed hashes of the words, which only
+-- the app can compute. The old vectors hold the words themselves, so they're cleared here and
+-- rebuilt with scripts/index-encrypted-content.mjs.
+
+UPDATE "JournalEntry" SET "searchVector" = NULL;
+UPDATE "Note" SET "searchVector" = NULL;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "Message_searchVector_idx" ON "Message" USING GIN ("searchVector");
@@ -0,0 +1,24 @@
+-- Links keep the reference they were written as, and references that don't match a record yet
+-- are stored unresolved (see src/lib/links.ts). Existing links don't have their references, so
+-- they're removed here; each user's links are rebuilt from what they wrote on first use
+-- ("User"."linksRebuiltAt" is null).
+
+DELETE FROM "Link";
+
+-- DropIndex
+DROP INDEX "Link_sourceType_sourceId_targetType_targetId_key";
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "referenceKey" TEXT NOT NULL,
+ADD COLUMN     "referenceType" TEXT,
+ALTER COLUMN "targetType" DROP NOT NULL,
+ALTER COLUMN "targetId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "linksRebuiltAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Link_sourceType_sourceId_idx" ON "Link"("sourceType", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "Link_userId_referenceKey_idx" ON "Link"("userId", "referenceKey");
@@ -1,7 +1,19 @@
 // Service Worker for Personal Coach PWA
-// Handles push notifications for daily journal reminders
+// Handles push notifications for daily journal reminders, offline reads of recently viewed
+// journal entries and sending changes made offline (see src/lib/offline-outbox.ts)
 
-const CACHE_NAME = 'personal-coach-v13';
+const CACHE_NAME = 'personal-coach-v14';
+
+// Recently viewed journal API responses, kept across service worker updates
+const API_CACHE_NAME = 'personal-coach-api';
+const MAX_CACHED_API_RESPONSES = 50;
+
+// Must match src/lib/offline-outbox.ts
+const OUTBOX_DB_NAME = 'personal-coach-offline';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+const OUTBOX_SYNC_TAG = 'outbox';
+const OUTBOX_LOCK = 'outbox-replay';
 
 // Install event - cache essential files
 self.addEventListener('install', (event) => {
@@ -10,6 +22,7 @@ self.addEventListener('install', (event) => {
       return cache.addAll([
         '/',
         '/journal',
+        '/journal/new',
         '/coach',
         '/manifest.json',
       ]);
@@ -25,7 +38,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((name) => name !== CACHE_NAME)
+          .filter((name) => name !== CACHE_NAME && name !== API_CACHE_NAME)
           .map((name) => caches.delete(name))
       );
     })
@@ -112,6 +125,108 @@ self.addEventListener('notificationclose', (event) => {
   console.log('Notification dismissed:', event.notification.tag);
 });
 
+// Journal list, entries and templates; not exports or drafts, which shouldn't outlive the page
+function isOfflineReadable(url) {
+  return url.origin === self.location.origin &&
+    /^\/api\/journal(\/[^/]+)?$/.test(url.pathname) &&
+    url.pathname !== '/api/journal/export';
+}
+
+async function trimApiCache(cache) {
+  const keys = await cache.keys();
+  await Promise.all(
+    keys.slice(0, Math.max(0, keys.length - MAX_CACHED_API_RESPONSES)).map((key) => cache.delete(key))
+  );
+}
+
+// Network first, so entries are never stale online; the last response is the offline copy
+async function fetchOfflineReadable(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(API_CACHE_NAME);
+      // Re-adding moves it to the end, so the oldest are trimmed first
+      await cache.delete(request);
+      await cache.put(request, response.clone());
+      await trimApiCache(cache);
+    }
+    return response;
+  } catch {
+    const cached = await caches.match(request, { cacheName: API_CACHE_NAME });
+    return cached || new Response(
+      JSON.stringify({ error: "You're offline and this hasn't been viewed on this device yet" }),
+      { status: 503, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withOutboxStore(mode, run) {
+  const db = await openOutbox();
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = run(db.transaction(OUTBOX_STORE, mode).objectStore(OUTBOX_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Send queued changes in order. Throws while some can't be sent yet, so the browser retries the sync.
+async function replayOutbox() {
+  const items = await withOutboxStore('readonly', (store) => store.getAll());
+
+  for (const item of items) {
+    const response = await fetch(item.url, {
+      method: item.method,
+      headers: item.body === null ? undefined : { 'Content-Type': 'application/json' },
+      body: item.body
+    });
+
+    // Signed out, rate limited or a server error: worth trying again later
+    if (response.status === 401 || response.status === 429 || response.status >= 500) {
+      throw new Error(`Queued ${item.method} ${item.url} failed with ${response.status}`);
+    }
+
+    // Anything else the server refused can't succeed later; drop it so it doesn't hold up the rest
+    if (!response.ok) {
+      console.error(`Dropping queued ${item.method} ${item.url}:`, response.status);
+    }
+
+    await withOutboxStore('readwrite', (store) => store.delete(item.id));
+  }
+}
+
+async function notifyOutboxChange() {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  windows.forEach((client) => client.postMessage({ type: 'outbox-change' }));
+}
+
+// Background sync event - send journal, note and task changes made offline
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) {
+    return;
+  }
+
+  const replay = self.navigator.locks
+    ? self.navigator.locks.request(OUTBOX_LOCK, replayOutbox)
+    : replayOutbox();
+
+  event.waitUntil(replay.finally(notifyOutboxChange));
+});
+
 // Fetch event - serve from cache, fall back to network
 self.addEventListener('fetch', (event) => {
   // Only handle GET requests
@@ -119,6 +234,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  if (isOfflineReadable(new URL(event.request.url))) {
+    event.respondWith(fetchOfflineReadable(event.request));
+    return;
+  }
+
   // Skip API calls and external resources
   if (event.request.url.includes('/api/') || !event.request.url.startsWith(self.location.origin)) {
     return;
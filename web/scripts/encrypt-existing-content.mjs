@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+
+/**
+ * Encrypt JournalEntry, Note and Message content, and coach replies buffered in ChatJob, that were
+ * stored before at-rest encryption.
+ *
+ * Run once after deploying the 20261019160000_add_user_data_key migration, with the same
+ * ENCRYPTION_MASTER_KEY the app uses:
+ *
+ *   node scripts/encrypt-existing-content.mjs
+ *
+ * Safe to re-run: rows that are already encrypted are skipped, and a row edited while the script
+ * runs is left for the next run. Formats must match src/lib/encryption.ts.
+ *
+ * Search vectors were hashed without the master key, so they're cleared as rows are encrypted;
+ * rebuild them afterwards with scripts/index-encrypted-content.mjs.
+ */
+
+import 'dotenv/config';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import pg from 'pg';
+
+const CONTENT_PREFIX = 'enc:v1:';
+const KEY_PREFIX = 'v1:';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const BATCH_SIZE = 500;
+
+// Each table with encrypted content, the column it's in, how to find the owning user of a row,
+// and whether it has a search vector built from the content
+const TABLES = [
+  {
+    name: 'JournalEntry',
+    column: 'content',
+    idColumn: '"id"',
+    select: `SELECT "id", "userId", "content" FROM "JournalEntry"`,
+    searchVector: true
+  },
+  {
+    name: 'Note',
+    column: 'content',
+    idColumn: '"id"',
+    select: `SELECT "id", "userId", "content" FROM "Note"`,
+    searchVector: true
+  },
+  {
+    name: 'Message',
+    column: 'content',
+    idColumn: 'm."id"',
+    select: `SELECT m."id", c."userId", m."content" FROM "Message" m JOIN "Conversation" c ON c."id" = m."conversationId"`,
+    searchVector: true
+  },
+  {
+    name: 'ChatJob',
+    column: 'buffer',
+    idColumn: '"id"',
+    select: `SELECT "id", "userId", "buffer" AS "content" FROM "ChatJob"`
+  }
+];
+
+function seal(key, plaintext, associatedData) {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(associatedData));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function unseal(key, sealed, associatedData) {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(associatedData));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+}
+
+const masterKey = Buffer.from(process.env.ENCRYPTION_MASTER_KEY || '', 'base64');
+if (masterKey.length !== KEY_LENGTH) {
+  console.error('ENCRYPTION_MASTER_KEY must be set to 32 bytes, base64 encoded');
+  process.exit(1);
+}
+
+const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+await client.connect();
+
+const dataKeys = new Map();
+
+async function getDataKey(userId) {
+  if (dataKeys.has(userId)) {
+    return dataKeys.get(userId);
+  }
+
+  // Create a key unless the user (or the running app) already has one, then read back the winner
+  const wrapped = KEY_PREFIX + seal(masterKey, randomBytes(KEY_LENGTH), userId);
+  await client.query(
+    `UPDATE "User" SET "encryptedDataKey" = $1 WHERE "id" = $2 AND "encryptedDataKey" IS NULL`,
+    [wrapped, userId]
+  );
+  const { rows } = await client.query(`SELECT "encryptedDataKey" FROM "User" WHERE "id" = $1`, [userId]);
+  const key = unseal(masterKey, rows[0].encryptedDataKey.slice(KEY_PREFIX.length), userId);
+
+  dataKeys.set(userId, key);
+  return key;
+}
+
+try {
+  for (const table of TABLES) {
+    let encrypted = 0;
+    let lastId = '';
+
+    for (;;) {
+      const { rows } = await client.query(
+        `${table.select} WHERE "${table.column}" NOT LIKE '${CONTENT_PREFIX}%' AND "${table.column}" <> '' AND ${table.idColumn} > $1 ORDER BY 1 LIMIT ${BATCH_SIZE}`,
+        [lastId]
+      );
+
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const key = await getDataKey(row.userId);
+        const content = CONTENT_PREFIX + seal(key, Buffer.from(row.content, 'utf8'), row.userId);
+        const clearVector = table.searchVector ? ', "searchVector" = NULL' : '';
+        const result = await client.query(
+          `UPDATE "${table.name}" SET "${table.column}" = $1${clearVector} WHERE "id" = $2 AND "${table.column}" = $3`,
+          [content, row.id, row.content]
+        );
+        encrypted += result.rowCount;
+      }
+
+      lastId = rows[rows.length - 1].id;
+    }
+
+    console.log(`${table.name}: encrypted ${encrypted} rows`);
+  }
+} finally {
+  await client.end();
+}
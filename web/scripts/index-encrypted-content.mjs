@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+
+/**
+ * Build the blind search index of JournalEntry, Note and Message rows (see src/lib/search.ts).
+ *
+ * The vectors hold keyed hashes of each row's words, so only code with the user's key can build
+ * them. Run after deploying the 20261020070000_blind_search_index migration and after
+ * scripts/encrypt-existing-content.mjs, with the same ENCRYPTION_MASTER_KEY the app uses (or none,
+ * if the app runs without encryption):
+ *
+ *   node scripts/index-encrypted-content.mjs
+ *
+ * Safe to re-run: only rows without a search vector are processed. Tokenizing and hashing must
+ * match src/lib/search.ts and src/lib/encryption.ts.
+ */
+
+import 'dotenv/config';
+import { createDecipheriv, createHmac, hkdfSync } from 'crypto';
+import pg from 'pg';
+
+const CONTENT_PREFIX = 'enc:v1:';
+const KEY_PREFIX = 'v1:';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const SEARCH_HASH_LENGTH = 16;
+const MAX_POSITION = 16383;
+const MAX_POSITIONS_PER_LEXEME = 256;
+const BATCH_SIZE = 500;
+
+// Each table with a blind index, how to find the owning user of a row, and the weighted parts of
+// its text. Entries are indexed from their Markdown copy; entries saved before it existed from
+// their HTML, with the tags removed.
+const TABLES = [
+  {
+    name: 'JournalEntry',
+    idColumn: '"id"',
+    select: `SELECT "id", "userId", COALESCE("contentMarkdown", "content") AS "content", "contentMarkdown" IS NULL AS "isHtml" FROM "JournalEntry"`,
+    parts: async (row) => {
+      const content = await decrypt(row.userId, row.content);
+      return [{ text: row.isHtml ? content.replace(/<[^>]*>/g, ' ') : content, weight: '' }];
+    }
+  },
+  {
+    name: 'Note',
+    idColumn: '"id"',
+    select: `SELECT "id", "userId", "title", "content" FROM "Note"`,
+    parts: async (row) => [
+      { text: row.title, weight: 'A' },
+      { text: await decrypt(row.userId, row.content), weight: 'B' }
+    ]
+  },
+  {
+    name: 'Message',
+    idColumn: 'm."id"',
+    select: `SELECT m."id", c."userId", m."content" FROM "Message" m JOIN "Conversation" c ON c."id" = m."conversationId"`,
+    parts: async (row) => [{ text: await decrypt(row.userId, row.content), weight: '' }]
+  }
+];
+
+function unseal(key, sealed, associatedData) {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(associatedData));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+}
+
+let masterKey = null;
+if (process.env.ENCRYPTION_MASTER_KEY) {
+  masterKey = Buffer.from(process.env.ENCRYPTION_MASTER_KEY, 'base64');
+  if (masterKey.length !== KEY_LENGTH) {
+    console.error('ENCRYPTION_MASTER_KEY must be 32 bytes, base64 encoded');
+    process.exit(1);
+  }
+}
+
+const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+await client.connect();
+
+const dataKeys = new Map();
+const searchKeys = new Map();
+
+async function getDataKey(userId) {
+  if (!dataKeys.has(userId)) {
+    const { rows } = await client.query(`SELECT "encryptedDataKey" FROM "User" WHERE "id" = $1`, [userId]);
+    const wrapped = rows[0].encryptedDataKey;
+    dataKeys.set(userId, wrapped ? unseal(masterKey, wrapped.slice(KEY_PREFIX.length), userId) : null);
+  }
+  return dataKeys.get(userId);
+}
+
+async function decrypt(userId, content) {
+  if (!content.startsWith(CONTENT_PREFIX)) {
+    return content;
+  }
+  if (!masterKey) {
+    throw new Error('ENCRYPTION_MASTER_KEY is required to index encrypted content');
+  }
+  const key = await getDataKey(userId);
+  return unseal(key, content.slice(CONTENT_PREFIX.length), userId).toString('utf8');
+}
+
+// Users without a data key yet get one from the app when they next save; their rows are left
+// for the next run
+async function getSearchKey(userId) {
+  if (!searchKeys.has(userId)) {
+    if (!masterKey) {
+      searchKeys.set(userId, Buffer.from(userId));
+    } else {
+      const dataKey = await getDataKey(userId);
+      searchKeys.set(userId, dataKey && Buffer.from(hkdfSync('sha256', dataKey, userId, 'search-index', KEY_LENGTH)));
+    }
+  }
+  return searchKeys.get(userId);
+}
+
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+function blindVector(searchKey, parts) {
+  const positions = new Map();
+  let position = 0;
+
+  for (const { text, weight } of parts) {
+    for (const segment of wordSegmenter.segment(text.normalize('NFKC').toLowerCase())) {
+      if (!segment.isWordLike) continue;
+      position = Math.min(position + 1, MAX_POSITION);
+      const wordPositions = positions.get(segment.segment) ?? [];
+      if (wordPositions.length < MAX_POSITIONS_PER_LEXEME) {
+        wordPositions.push(`${position}${weight}`);
+      }
+      positions.set(segment.segment, wordPositions);
+    }
+  }
+
+  return [...positions].map(([word, wordPositions]) => {
+    const hash = createHmac('sha256', searchKey).update(word, 'utf8').digest().subarray(0, SEARCH_HASH_LENGTH).toString('hex');
+    return `'${hash}':${wordPositions.join(',')}`;
+  }).join(' ');
+}
+
+try {
+  for (const table of TABLES) {
+    let indexed = 0;
+    let lastId = '';
+
+    for (;;) {
+      const { rows } = await client.query(
+        `${table.select} WHERE "searchVector" IS NULL AND ${table.idColumn} > $1 ORDER BY 1 LIMIT ${BATCH_SIZE}`,
+        [lastId]
+      );
+
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const searchKey = await getSearchKey(row.userId);
+        if (!searchKey) continue;
+
+        // Skip the row if it was edited meanwhile; the app has indexed the new content
+        const result = await client.query(
+          `UPDATE "${table.name}" SET "searchVector" = $1::tsvector WHERE "id" = $2 AND "searchVector" IS NULL`,
+          [blindVector(searchKey, await table.parts(row)), row.id]
+        );
+        indexed += result.rowCount;
+      }
+
+      lastId = rows[rows.length - 1].id;
+    }
+
+    console.log(`${table.name}: indexed ${indexed} rows`);
+  }
+} finally {
+  await client.end();
+}
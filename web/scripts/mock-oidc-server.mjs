@@ -0,0 +1,227 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal OpenID Connect provider for testing OAuth sign-in locally
+ *
+ * Run it next to the dev server:
+ * node scripts/mock-oidc-server.mjs
+ *
+ * Then add to your .env file:
+ * OIDC_ISSUER=http://localhost:9400
+ * OIDC_CLIENT_ID=personal-coach
+ * OIDC_CLIENT_SECRET=mock-secret
+ * OIDC_PROVIDER_NAME=Mock SSO
+ *
+ * The authorize page lets you pick any email and name; the same email always gets
+ * the same subject, so signing in again resolves to the same linked identity.
+ * Untick "email verified" to exercise the account-linking safeguards.
+ *
+ * Development only: it accepts any client and keeps everything in memory.
+ */
+
+import http from 'node:http';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 9400);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const KEY_ID = 'mock-oidc-key';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' };
+
+// code -> authorization request; access token -> claims
+const authorizationCodes = new Map();
+const accessTokens = new Map();
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+function signJwt(payload) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+function escapeHtml(value) {
+  return String(value ?? '').replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return new URLSearchParams(Buffer.concat(chunks).toString());
+}
+
+function clientIdFromRequest(req, form) {
+  const auth = req.headers.authorization;
+  if (auth?.startsWith('Basic ')) {
+    return decodeURIComponent(Buffer.from(auth.slice(6), 'base64').toString().split(':')[0]);
+  }
+  return form.get('client_id');
+}
+
+function renderAuthorizePage(params) {
+  const hidden = [...params.entries()]
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 64px auto;">
+    <h1 style="font-size: 20px;">Mock OIDC sign-in</h1>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Email<br><input name="email" type="email" value="test@example.com" required style="width: 100%;"></label></p>
+      <p><label>Name<br><input name="name" value="Test User" style="width: 100%;"></label></p>
+      <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`;
+}
+
+async function handleAuthorize(req, res, url) {
+  if (req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(renderAuthorizePage(url.searchParams));
+    return;
+  }
+
+  const form = await readForm(req);
+  const redirectUri = form.get('redirect_uri');
+  if (!redirectUri) {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'redirect_uri is required' });
+    return;
+  }
+
+  const email = form.get('email').trim().toLowerCase();
+  const code = randomBytes(24).toString('base64url');
+  authorizationCodes.set(code, {
+    clientId: form.get('client_id'),
+    redirectUri,
+    nonce: form.get('nonce'),
+    codeChallenge: form.get('code_challenge'),
+    scope: form.get('scope') || 'openid',
+    claims: {
+      sub: createHash('sha256').update(email).digest('hex').slice(0, 24),
+      email,
+      email_verified: form.get('email_verified') === 'on',
+      name: form.get('name') || undefined
+    }
+  });
+
+  const location = new URL(redirectUri);
+  location.searchParams.set('code', code);
+  if (form.get('state')) location.searchParams.set('state', form.get('state'));
+  location.searchParams.set('iss', ISSUER);
+
+  res.writeHead(302, { Location: location.toString() });
+  res.end();
+}
+
+async function handleToken(req, res) {
+  const form = await readForm(req);
+  const request = authorizationCodes.get(form.get('code'));
+  authorizationCodes.delete(form.get('code'));
+
+  if (form.get('grant_type') !== 'authorization_code' || !request || request.redirectUri !== form.get('redirect_uri')) {
+    sendJson(res, 400, { error: 'invalid_grant' });
+    return;
+  }
+
+  if (request.codeChallenge) {
+    const verifier = form.get('code_verifier') || '';
+    if (createHash('sha256').update(verifier).digest('base64url') !== request.codeChallenge) {
+      sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      return;
+    }
+  }
+
+  const clientId = clientIdFromRequest(req, form) || request.clientId;
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = randomBytes(24).toString('base64url');
+  accessTokens.set(accessToken, request.claims);
+
+  sendJson(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    scope: request.scope,
+    id_token: signJwt({
+      iss: ISSUER,
+      aud: clientId,
+      iat: now,
+      exp: now + 3600,
+      ...(request.nonce ? { nonce: request.nonce } : {}),
+      ...request.claims
+    })
+  });
+}
+
+function handleUserinfo(req, res) {
+  const token = req.headers.authorization?.replace(/^Bearer /, '');
+  const claims = token && accessTokens.get(token);
+  if (!claims) {
+    sendJson(res, 401, { error: 'invalid_token' });
+    return;
+  }
+  sendJson(res, 200, claims);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  try {
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          userinfo_endpoint: `${ISSUER}/userinfo`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          scopes_supported: ['openid', 'email', 'profile'],
+          token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+          code_challenge_methods_supported: ['S256'],
+          claims_supported: ['sub', 'email', 'email_verified', 'name']
+        });
+        return;
+      case '/jwks':
+        sendJson(res, 200, { keys: [jwk] });
+        return;
+      case '/authorize':
+        await handleAuthorize(req, res, url);
+        return;
+      case '/token':
+        await handleToken(req, res);
+        return;
+      case '/userinfo':
+        handleUserinfo(req, res);
+        return;
+      default:
+        sendJson(res, 404, { error: 'not_found' });
+    }
+  } catch (error) {
+    console.error(error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider listening on ${ISSUER}`);
+  console.log('');
+  console.log('Add these to your .env file:');
+  console.log('');
+  console.log(`OIDC_ISSUER=${ISSUER}`);
+  console.log('OIDC_CLIENT_ID=personal-coach');
+  console.log('OIDC_CLIENT_SECRET=mock-secret');
+  console.log('OIDC_PROVIDER_NAME=Mock SSO');
+});
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { purgeDueAccounts } from '@/lib/account-deletion'
+
+// POST /api/account/deletion/purge - Permanently delete accounts whose grace period has ended
+// This endpoint should be called by an external cron service (e.g., cron-job.org), at least daily
+// Protected by CRON_SECRET environment variable
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET not configured')
+    return NextResponse.json(
+      { error: 'Server not configured for cron jobs' },
+      { status: 500 }
+    )
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+  const provided = Buffer.from(authHeader || '')
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const purged = await purgeDueAccounts()
+    return NextResponse.json({ message: 'Purge complete', purged })
+  } catch (error) {
+    console.error('Error purging deleted accounts:', error)
+    return NextResponse.json(
+      { error: 'Failed to purge accounts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { verifyPassword } from '@/lib/password'
+import { verifySecondFactor } from '@/lib/two-factor'
+import { sendAccountDeletionEmail } from '@/lib/emails'
+import {
+  cancelAccountDeletion,
+  getDeletionGraceDays,
+  requestAccountDeletion
+} from '@/lib/account-deletion'
+
+// GET /api/account/deletion - Whether the account is scheduled for deletion, and what confirming requires
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      passwordHash: true,
+      totpEnabledAt: true,
+      deletionRequestedAt: true,
+      deletionScheduledAt: true
+    }
+  })
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    requestedAt: user.deletionRequestedAt,
+    scheduledAt: user.deletionScheduledAt,
+    graceDays: getDeletionGraceDays(),
+    requiresPassword: user.passwordHash !== null,
+    requiresCode: user.totpEnabledAt !== null
+  })
+}
+
+/**
+ * POST /api/account/deletion - Schedule the account for deletion after the grace period
+ *
+ * Request body:
+ * - email: The account's email address, typed out as confirmation
+ * - password: Current password (required if the account has one)
+ * - code: Authenticator or recovery code (required if two-factor authentication is on)
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const { email, password, code } = body
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, passwordHash: true, totpEnabledAt: true, deletionScheduledAt: true }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.deletionScheduledAt) {
+      return NextResponse.json({ error: 'Account deletion is already scheduled' }, { status: 409 })
+    }
+
+    if (typeof email !== 'string' || email.trim().toLowerCase() !== user.email.toLowerCase()) {
+      return NextResponse.json({ error: 'Type your email address to confirm' }, { status: 400 })
+    }
+
+    if (user.passwordHash && (typeof password !== 'string' || !(await verifyPassword(password, user.passwordHash)))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 400 })
+    }
+
+    if (user.totpEnabledAt && (typeof code !== 'string' || !(await verifySecondFactor(session.user.id, code)))) {
+      return NextResponse.json({ error: 'Invalid code' }, { status: 400 })
+    }
+
+    const scheduledAt = await requestAccountDeletion(session.user.id)
+
+    try {
+      await sendAccountDeletionEmail(user.email, scheduledAt)
+    } catch (error) {
+      // The deletion is still scheduled; the settings page shows how to cancel it
+      console.error('Failed to send account deletion email:', error)
+    }
+
+    return NextResponse.json({ scheduledAt })
+  } catch (error) {
+    console.error('Error scheduling account deletion:', error)
+    return NextResponse.json(
+      { error: 'Failed to schedule account deletion', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/account/deletion - Cancel a scheduled deletion
+export async function DELETE() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  await cancelAccountDeletion(session.user.id)
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { EXPORT_CONTENT_TYPES, isExportFormat } from '@/lib/account-export'
+import { recordAuditEvent } from '@/lib/audit'
+import { decryptFile } from '@/lib/encryption'
+
+// GET /api/account/export/[id]/download - Download a finished export
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  const job = await prisma.accountExport.findFirst({
+    where: { id, userId: session.user.id }
+  })
+
+  if (!job || job.status !== 'COMPLETED') {
+    return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+  }
+
+  // Expired archives are also cleared by POST /api/account/export/cleanup
+  if (!job.data || (job.expiresAt && job.expiresAt < new Date())) {
+    if (job.data) {
+      await prisma.accountExport.update({ where: { id: job.id }, data: { data: null } })
+    }
+    return NextResponse.json({ error: 'This export has expired. Please start a new one.' }, { status: 410 })
+  }
+
+  const archive = await decryptFile(session.user.id, Buffer.from(job.data))
+
+  const format = isExportFormat(job.format) ? job.format : 'zip'
+
+  await recordAuditEvent({
+    userId: session.user.id,
+    action: 'data.export_downloaded',
+    resourceType: 'accountExport',
+    resourceId: job.id,
+    metadata: { format }
+  })
+
+  return new NextResponse(new Uint8Array(archive), {
+    headers: {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${job.fileName ?? `export.${format}`}"`,
+      'Content-Length': String(archive.byteLength),
+      'Cache-Control': 'private, no-store'
+    }
+  })
+}
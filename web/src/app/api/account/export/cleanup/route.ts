@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { clearExpiredExports } from '@/lib/account-export'
+
+// POST /api/account/export/cleanup - Delete export archives whose download window has ended
+// This endpoint should be called by an external cron service (e.g., cron-job.org), at least daily
+// Protected by CRON_SECRET environment variable
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET not configured')
+    return NextResponse.json(
+      { error: 'Server not configured for cron jobs' },
+      { status: 500 }
+    )
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+  const provided = Buffer.from(authHeader || '')
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const removed = await clearExpiredExports()
+    return NextResponse.json({ message: 'Cleanup complete', removed })
+  } catch (error) {
+    console.error('Error cleaning up account exports:', error)
+    return NextResponse.json(
+      { error: 'Failed to clean up account exports' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withQStashVerification } from '@/lib/qstash'
+import { processAccountExport } from '@/lib/account-export'
+
+// Exports of large accounts can take a while
+export const maxDuration = 300
+
+/**
+ * POST /api/account/export/process
+ *
+ * QStash callback that builds an account export.
+ *
+ * The request body contains:
+ * - exportId: The AccountExport ID
+ */
+async function handler(request: NextRequest) {
+  try {
+    const { exportId } = await request.json()
+
+    if (!exportId) {
+      return NextResponse.json({ error: 'Missing exportId' }, { status: 400 })
+    }
+
+    await processAccountExport({ exportId })
+
+    return NextResponse.json({ status: 'completed' })
+  } catch (error) {
+    console.error('Error in account export callback:', error)
+    // Return 500 so QStash will retry
+    return NextResponse.json({
+      error: 'Failed to build export',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export const POST = withQStashVerification(handler)
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isExportFormat, startAccountExport } from '@/lib/account-export'
+
+type AccountExportRecord = {
+  id: string
+  status: string
+  format: string
+  fileName: string | null
+  size: number | null
+  error: string | null
+  expiresAt: Date | null
+  createdAt: Date
+}
+
+const exportSelect = {
+  id: true,
+  status: true,
+  format: true,
+  fileName: true,
+  size: true,
+  error: true,
+  expiresAt: true,
+  createdAt: true
+}
+
+// Only the listed fields are returned - never the archive itself
+function toResponse(job: AccountExportRecord) {
+  return {
+    id: job.id,
+    status: job.status,
+    format: job.format,
+    fileName: job.fileName,
+    size: job.size,
+    error: job.error,
+    expiresAt: job.expiresAt,
+    createdAt: job.createdAt,
+    downloadUrl: job.status === 'COMPLETED' ? `/api/account/export/${job.id}/download` : null
+  }
+}
+
+/**
+ * GET /api/account/export
+ *
+ * Returns the latest export of all account data. If there is none (or the last one
+ * failed or expired) a new export is started in the background.
+ * Poll this endpoint until `status` is 'COMPLETED', then fetch `downloadUrl`.
+ *
+ * Query parameters:
+ * - format: 'zip' (default, one JSON file per record type) or 'json' (single document)
+ *
+ * Response:
+ * - id, status ('PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'), format, fileName, size,
+ *   error, expiresAt, createdAt
+ * - downloadUrl: Set once the export is ready
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const format = request.nextUrl.searchParams.get('format') ?? 'zip'
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: 'Format must be zip or json' }, { status: 400 })
+    }
+
+    const latest = await prisma.accountExport.findFirst({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+      select: exportSelect
+    })
+
+    const isUsable = latest
+      && latest.format === format
+      && latest.status !== 'FAILED'
+      && (!latest.expiresAt || latest.expiresAt > new Date())
+
+    if (isUsable) {
+      return NextResponse.json(toResponse(latest))
+    }
+
+    const job = await startAccountExport(session.user.id, format)
+
+    return NextResponse.json(toResponse(job), { status: 202 })
+  } catch (error) {
+    console.error('Error in account export endpoint:', error)
+    return NextResponse.json({
+      error: 'Failed to export account data',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/account/export
+ *
+ * Starts a fresh export even if a recent one exists (e.g. after adding new entries).
+ *
+ * Request body (optional):
+ * - format: 'zip' (default) or 'json'
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let format: unknown = 'zip'
+    try {
+      const body = await request.json()
+      format = body.format ?? 'zip'
+    } catch {
+      // No body provided, use the default format
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: 'Format must be zip or json' }, { status: 400 })
+    }
+
+    const inProgress = await prisma.accountExport.findFirst({
+      where: {
+        userId: session.user.id,
+        status: { in: ['PENDING', 'PROCESSING'] }
+      },
+      select: exportSelect
+    })
+
+    if (inProgress) {
+      return NextResponse.json(toResponse(inProgress))
+    }
+
+    const job = await startAccountExport(session.user.id, format)
+
+    return NextResponse.json(toResponse(job), { status: 202 })
+  } catch (error) {
+    console.error('Error starting account export:', error)
+    return NextResponse.json({
+      error: 'Failed to export account data',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { countSignInMethods } from '@/lib/account-linking'
+
+// DELETE /api/account/identities/[id] - Unlink a provider identity
+// Refuses to remove the last way to sign in (no password, passkey or other identity)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  const account = await prisma.account.findFirst({
+    where: { id, userId: session.user.id },
+    select: { id: true }
+  })
+
+  if (!account) {
+    return NextResponse.json({ error: 'Identity not found' }, { status: 404 })
+  }
+
+  if (await countSignInMethods(session.user.id) <= 1) {
+    return NextResponse.json(
+      { error: 'Set a password or add another sign-in method before removing your only one' },
+      { status: 400 }
+    )
+  }
+
+  await prisma.account.delete({ where: { id } })
+
+  return NextResponse.json({ success: true })
+}
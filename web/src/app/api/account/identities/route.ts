@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getOAuthProviderSummaries } from '@/lib/oauth-providers'
+
+/**
+ * GET /api/account/identities - List the sign-in methods linked to the account
+ *
+ * Response:
+ * - identities: Linked provider accounts ({ id, provider, providerAccountId })
+ * - providers: Providers enabled on this deployment ({ id, name })
+ * - hasPassword: Whether the account can also sign in with a password
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      passwordHash: true,
+      accounts: {
+        select: { id: true, provider: true, providerAccountId: true },
+        orderBy: { provider: 'asc' }
+      }
+    }
+  })
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    identities: user.accounts,
+    providers: getOAuthProviderSummaries(),
+    hasPassword: user.passwordHash !== null
+  })
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { countSignInMethods } from '@/lib/account-linking'
+
+// DELETE /api/account/passkeys/[id] - Remove a passkey
+// Refuses to remove the last way to sign in
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  const passkey = await prisma.passkey.findFirst({
+    where: { id, userId: session.user.id },
+    select: { id: true }
+  })
+
+  if (!passkey) {
+    return NextResponse.json({ error: 'Passkey not found' }, { status: 404 })
+  }
+
+  if (await countSignInMethods(session.user.id) <= 1) {
+    return NextResponse.json(
+      { error: 'Set a password or add another sign-in method before removing your only one' },
+      { status: 400 }
+    )
+  }
+
+  await prisma.passkey.delete({ where: { id } })
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createPasskeyRegistrationOptions } from '@/lib/webauthn'
+
+// POST /api/account/passkeys/options - WebAuthn creation options for registering a passkey
+export async function POST() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, email: true, name: true }
+  })
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  const options = await createPasskeyRegistrationOptions(user)
+
+  return NextResponse.json(options)
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { verifyPasskeyRegistration } from '@/lib/webauthn'
+
+// Fields returned to the client - never the public key or counter
+const passkeySelect = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  lastUsedAt: true,
+  createdAt: true
+}
+
+// GET /api/account/passkeys - List the user's passkeys
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const passkeys = await prisma.passkey.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: 'desc' },
+    select: passkeySelect
+  })
+
+  return NextResponse.json(passkeys)
+}
+
+/**
+ * POST /api/account/passkeys - Register a passkey
+ *
+ * Request body:
+ * - response: The RegistrationResponseJSON from navigator.credentials.create(),
+ *   answering options from /api/account/passkeys/options
+ * - name: Label for the passkey (e.g. 'iPhone')
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { response, name } = body
+
+  if (!response || typeof response !== 'object') {
+    return NextResponse.json({ error: 'Registration response is required' }, { status: 400 })
+  }
+
+  const label = typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : 'Passkey'
+
+  const verified = await verifyPasskeyRegistration(
+    session.user.id,
+    response,
+    label
+  )
+
+  if (!verified) {
+    return NextResponse.json({ error: 'Passkey registration could not be verified' }, { status: 400 })
+  }
+
+  return NextResponse.json({ success: true }, { status: 201 })
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { verifyTotp } from '@/lib/totp'
+import { replaceRecoveryCodes } from '@/lib/two-factor'
+
+/**
+ * POST /api/account/two-factor/enable - Finish TOTP enrollment
+ *
+ * Request body:
+ * - code: The current code from the authenticator app
+ *
+ * Returns the recovery codes, which are only shown once.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { code } = body
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { totpSecret: true, totpEnabledAt: true }
+  })
+
+  if (!user?.totpSecret || user.totpEnabledAt) {
+    return NextResponse.json(
+      { error: 'No two-factor enrollment in progress' },
+      { status: 400 }
+    )
+  }
+
+  const step = typeof code === 'string' ? verifyTotp(user.totpSecret, code) : null
+
+  if (step === null) {
+    return NextResponse.json({ error: 'Invalid code' }, { status: 400 })
+  }
+
+  await prisma.user.update({
+    where: { id: session.user.id },
+    data: { totpEnabledAt: new Date(), totpLastUsedStep: step }
+  })
+
+  const recoveryCodes = await replaceRecoveryCodes(session.user.id)
+
+  return NextResponse.json({ recoveryCodes })
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { replaceRecoveryCodes, verifySecondFactor } from '@/lib/two-factor'
+
+/**
+ * POST /api/account/two-factor/recovery-codes - Generate a new set of recovery codes
+ *
+ * Request body:
+ * - code: A current authenticator code or an unused recovery code
+ *
+ * All previous recovery codes stop working.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { code } = body
+
+  if (typeof code !== 'string' || !(await verifySecondFactor(session.user.id, code))) {
+    return NextResponse.json({ error: 'Invalid code' }, { status: 400 })
+  }
+
+  const recoveryCodes = await replaceRecoveryCodes(session.user.id)
+
+  return NextResponse.json({ recoveryCodes })
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { verifySecondFactor } from '@/lib/two-factor'
+
+// GET /api/account/two-factor - Two-factor status and remaining recovery codes
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const [user, recoveryCodesRemaining] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { totpEnabledAt: true }
+    }),
+    prisma.recoveryCode.count({
+      where: { userId: session.user.id, usedAt: null }
+    })
+  ])
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    enabled: user.totpEnabledAt !== null,
+    enabledAt: user.totpEnabledAt,
+    recoveryCodesRemaining
+  })
+}
+
+/**
+ * DELETE /api/account/two-factor - Turn off two-factor authentication
+ *
+ * Request body:
+ * - code: A current authenticator code or an unused recovery code
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { code } = body
+
+  if (typeof code !== 'string' || !(await verifySecondFactor(session.user.id, code))) {
+    return NextResponse.json({ error: 'Invalid code' }, { status: 400 })
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: session.user.id },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null }
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId: session.user.id } })
+  ])
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import QRCode from 'qrcode'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { buildOtpAuthUrl, generateTotpSecret } from '@/lib/totp'
+
+/**
+ * POST /api/account/two-factor/setup - Start TOTP enrollment
+ *
+ * Generates a new secret (replacing any unfinished enrollment) and returns it as text
+ * and as a QR code for authenticator apps. Two-factor stays off until the first code
+ * is confirmed through /api/account/two-factor/enable.
+ */
+export async function POST() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { email: true, totpEnabledAt: true }
+  })
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  if (user.totpEnabledAt) {
+    return NextResponse.json(
+      { error: 'Two-factor authentication is already enabled' },
+      { status: 400 }
+    )
+  }
+
+  const secret = generateTotpSecret()
+  const otpauthUrl = buildOtpAuthUrl(secret, user.email)
+
+  await prisma.user.update({
+    where: { id: session.user.id },
+    data: { totpSecret: secret, totpLastUsedStep: null }
+  })
+
+  return NextResponse.json({
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 })
+  })
+}
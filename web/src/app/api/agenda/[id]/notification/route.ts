@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 import { anthropic, CLAUDE_MODEL } from '@/lib/anthropic'
+import { recordAuditEvent } from '@/lib/audit'
 import {
   EVENT_NOTIFICATION_SYSTEM_PROMPT,
   buildEventNotificationPrompt,
+  buildUserPreferencesContext,
   EventNotificationAnalysis
 } from '@/lib/prompts/coach'
 
@@ -15,10 +16,10 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:read')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -32,7 +33,7 @@ export async function GET(
       return NextResponse.json({ error: 'Agenda item not found' }, { status: 404 })
     }
 
-    if (agendaItem.userId !== session.user.id) {
+    if (agendaItem.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -57,10 +58,10 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -73,14 +74,14 @@ export async function POST(
       return NextResponse.json({ error: 'Agenda item not found' }, { status: 404 })
     }
 
-    if (agendaItem.userId !== session.user.id) {
+    if (agendaItem.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    // Get user name for personalization
+    // Get user name, language and tone for personalization
     const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { name: true }
+      where: { id: auth.userId },
+      select: { name: true, timezone: true, preferredLanguage: true, coachTone: true }
     })
 
     // Build prompt for AI analysis
@@ -93,11 +94,21 @@ export async function POST(
       location: agendaItem.location
     }, user?.name)
 
+    await recordAuditEvent({
+      userId: auth.userId,
+      action: 'ai.event_analysis',
+      resourceType: 'agendaItem',
+      resourceId: id,
+      metadata: { model: CLAUDE_MODEL }
+    })
+
     // Call Claude to analyze the event
     const response = await anthropic.messages.create({
       model: CLAUDE_MODEL,
       max_tokens: 1024,
-      system: EVENT_NOTIFICATION_SYSTEM_PROMPT,
+      system: user
+        ? `${EVENT_NOTIFICATION_SYSTEM_PROMPT}\n\n${buildUserPreferencesContext(user)}`
+        : EVENT_NOTIFICATION_SYSTEM_PROMPT,
       messages: [{ role: 'user', content: prompt }]
     })
 
@@ -126,7 +137,7 @@ export async function POST(
       where: { agendaItemId: id },
       create: {
         agendaItemId: id,
-        userId: session.user.id,
+        userId: auth.userId,
         notifyBefore: analysis.shouldNotifyBefore,
         minutesBefore: analysis.minutesBefore || null,
         beforeMessage: analysis.beforeMessage || null,
@@ -168,10 +179,10 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -185,7 +196,7 @@ export async function PUT(
       return NextResponse.json({ error: 'Agenda item not found' }, { status: 404 })
     }
 
-    if (agendaItem.userId !== session.user.id) {
+    if (agendaItem.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -212,26 +223,45 @@ export async function PUT(
       return NextResponse.json({ error: 'minutesAfter must be a positive number' }, { status: 400 })
     }
 
+    // Turning a notification on without a time uses the user's default timing
+    const [defaults, existing] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: auth.userId },
+        select: { notifyMinutesBefore: true, notifyMinutesAfter: true }
+      }),
+      prisma.eventNotification.findUnique({
+        where: { agendaItemId: id },
+        select: { minutesBefore: true, minutesAfter: true }
+      })
+    ])
+
+    const resolvedMinutesBefore = minutesBefore !== undefined
+      ? minutesBefore
+      : notifyBefore && !existing?.minutesBefore ? defaults?.notifyMinutesBefore : undefined
+    const resolvedMinutesAfter = minutesAfter !== undefined
+      ? minutesAfter
+      : notifyAfter && !existing?.minutesAfter ? defaults?.notifyMinutesAfter : undefined
+
     // Create or update the notification settings
     const notification = await prisma.eventNotification.upsert({
       where: { agendaItemId: id },
       create: {
         agendaItemId: id,
-        userId: session.user.id,
+        userId: auth.userId,
         notifyBefore: notifyBefore ?? false,
-        minutesBefore: minutesBefore ?? null,
+        minutesBefore: resolvedMinutesBefore ?? null,
         beforeMessage: beforeMessage ?? null,
         notifyAfter: notifyAfter ?? false,
-        minutesAfter: minutesAfter ?? null,
+        minutesAfter: resolvedMinutesAfter ?? null,
         afterMessage: afterMessage ?? null,
         aiDetermined: false
       },
       update: {
         ...(notifyBefore !== undefined && { notifyBefore }),
-        ...(minutesBefore !== undefined && { minutesBefore }),
+        ...(resolvedMinutesBefore !== undefined && { minutesBefore: resolvedMinutesBefore }),
         ...(beforeMessage !== undefined && { beforeMessage }),
         ...(notifyAfter !== undefined && { notifyAfter }),
-        ...(minutesAfter !== undefined && { minutesAfter }),
+        ...(resolvedMinutesAfter !== undefined && { minutesAfter: resolvedMinutesAfter }),
         ...(afterMessage !== undefined && { afterMessage }),
         aiDetermined: false
       }
@@ -256,10 +286,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -272,7 +302,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Agenda item not found' }, { status: 404 })
     }
 
-    if (agendaItem.userId !== session.user.id) {
+    if (agendaItem.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
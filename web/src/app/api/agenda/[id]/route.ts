@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 
 // Validation constants
@@ -58,10 +57,10 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:read')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -74,7 +73,7 @@ export async function GET(
       return NextResponse.json({ error: 'Item not found' }, { status: 404 })
     }
 
-    if (item.userId !== session.user.id) {
+    if (item.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -93,10 +92,10 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -109,7 +108,7 @@ export async function PUT(
       return NextResponse.json({ error: 'Item not found' }, { status: 404 })
     }
 
-    if (existingItem.userId !== session.user.id) {
+    if (existingItem.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -148,10 +147,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -164,7 +163,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Item not found' }, { status: 404 })
     }
 
-    if (existingItem.userId !== session.user.id) {
+    if (existingItem.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
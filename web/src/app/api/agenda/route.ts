@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { listResponse, pageQuery, paginate, parseListParams } from '@/lib/pagination'
 
 // Validation constants
 const MAX_TITLE_LENGTH = 200
@@ -55,19 +55,30 @@ function validateAgendaInput(body: {
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:read')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const searchParams = request.nextUrl.searchParams
     const startTime = searchParams.get('startTime')
     const endTime = searchParams.get('endTime')
 
-    const items = await prisma.agendaItem.findMany({
+    const params = parseListParams(searchParams, {
+      defaultLimit: 100,
+      sortFields: ['startTime', 'createdAt'],
+      defaultSort: 'startTime',
+      defaultOrder: 'asc'
+    })
+
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 })
+    }
+
+    const agendaItems = await prisma.agendaItem.findMany({
       where: {
-        userId: session.user.id,
+        userId: auth.userId,
         ...(startTime && endTime ? {
           startTime: {
             gte: new Date(startTime),
@@ -75,10 +86,11 @@ export async function GET(request: NextRequest) {
           }
         } : {})
       },
-      orderBy: { startTime: 'asc' }
+      ...pageQuery(params.data)
     })
 
-    return NextResponse.json(items)
+    const { items, nextCursor } = paginate(agendaItems, params.data.limit)
+    return listResponse(items, nextCursor)
   } catch (error) {
     console.error('Error fetching agenda items:', error)
     return NextResponse.json({
@@ -90,10 +102,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'agenda:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const body = await request.json()
@@ -106,7 +118,7 @@ export async function POST(request: NextRequest) {
 
     const item = await prisma.agendaItem.create({
       data: {
-        userId: session.user.id,
+        userId: auth.userId,
         title,
         description,
         startTime: new Date(startTime),
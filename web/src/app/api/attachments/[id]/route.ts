@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { canAccessAttachment, deleteAttachment, serveAttachment } from '@/lib/attachments'
+
+// GET /api/attachments/[id] - The file; `?download=1` to download an image instead of showing it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return serveAttachment(request, id, 'file')
+}
+
+// DELETE /api/attachments/[id] - Delete the attachment and its files; embeds of it stop loading
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(request, ['journal:write', 'notes:write'])
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  const attachment = await prisma.attachment.findFirst({
+    where: { id, userId: auth.userId },
+    select: { journalEntryId: true, noteId: true }
+  })
+
+  if (!attachment || !canAccessAttachment(auth, attachment, 'write')) {
+    return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+  }
+
+  await deleteAttachment(auth.userId, id)
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server'
+import { serveAttachment } from '@/lib/attachments'
+
+// GET /api/attachments/[id]/thumbnail - WebP thumbnail of an image attachment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return serveAttachment(request, id, 'thumbnail')
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate, canAccess } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { AttachmentOwner, createAttachment, toAttachmentResponse } from '@/lib/attachments'
+
+/**
+ * GET /api/attachments
+ *
+ * List attachments, newest first.
+ *
+ * Query parameters (one of):
+ * - journalEntryId: Attachments of this entry
+ * - noteId: Attachments of this note
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, ['journal:read', 'notes:read'])
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const journalEntryId = request.nextUrl.searchParams.get('journalEntryId')
+  const noteId = request.nextUrl.searchParams.get('noteId')
+
+  if (!journalEntryId === !noteId) {
+    return NextResponse.json({ error: 'Either journalEntryId or noteId is required' }, { status: 400 })
+  }
+
+  if (!canAccess(auth, journalEntryId ? 'journal:read' : 'notes:read')) {
+    return NextResponse.json({ error: 'Token is missing the required scope' }, { status: 403 })
+  }
+
+  const attachments = await prisma.attachment.findMany({
+    where: {
+      userId: auth.userId,
+      ...(journalEntryId ? { journalEntryId } : { noteId })
+    },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  return NextResponse.json(attachments.map(toAttachmentResponse))
+}
+
+/**
+ * POST /api/attachments
+ *
+ * Upload a file (multipart/form-data). Images get a thumbnail and can be embedded in journal
+ * content with the returned URLs.
+ *
+ * Form fields:
+ * - file: The file
+ * - journalEntryId or noteId: Optional; attach to an existing entry or note right away. Otherwise
+ *   the attachment is claimed when an entry that embeds it (or a note that lists it) is saved.
+ *
+ * Errors: 413 when the file is too large or would exceed the storage quota.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request, ['journal:write', 'notes:write'])
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return NextResponse.json({ error: 'Expected a multipart/form-data upload' }, { status: 400 })
+  }
+
+  const file = form.get('file')
+  const journalEntryId = form.get('journalEntryId')
+  const noteId = form.get('noteId')
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'file is required' }, { status: 400 })
+  }
+
+  let owner: AttachmentOwner | undefined
+  if (typeof journalEntryId === 'string' && journalEntryId) {
+    owner = { journalEntryId }
+  } else if (typeof noteId === 'string' && noteId) {
+    owner = { noteId }
+  }
+
+  const scope = owner && 'noteId' in owner ? 'notes:write' : 'journal:write'
+  if (owner && !canAccess(auth, scope)) {
+    return NextResponse.json({ error: `Token is missing the required scope: ${scope}` }, { status: 403 })
+  }
+
+  try {
+    const result = await createAttachment(
+      auth.userId,
+      { name: file.name, type: file.type, data: Buffer.from(await file.arrayBuffer()) },
+      owner
+    )
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json(toAttachmentResponse(result.data), { status: 201 })
+  } catch (error) {
+    console.error('Failed to upload attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachment', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
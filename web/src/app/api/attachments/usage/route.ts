@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { getAttachmentUsage, getMaxAttachmentBytes } from '@/lib/attachments'
+
+/**
+ * GET /api/attachments/usage
+ *
+ * Response: { used, quota, maxFileSize } in bytes, and the number of attachments (count)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, ['journal:read', 'notes:read'])
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const usage = await getAttachmentUsage(auth.userId)
+
+  return NextResponse.json({ ...usage, maxFileSize: getMaxAttachmentBytes() })
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { isValidEmail, normalizeEmail } from '@/lib/password'
+import { sendPasswordResetEmail } from '@/lib/emails'
+
+/**
+ * POST /api/auth/forgot-password
+ *
+ * Emails a password reset link if an account exists for the address.
+ * Always responds with success so the endpoint cannot be used to discover accounts.
+ *
+ * Request body:
+ * - email: The account's email address
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email } = body
+
+    if (!isValidEmail(email)) {
+      return NextResponse.json(
+        { error: 'A valid email address is required', code: 'InvalidEmail' },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: normalizeEmail(email), mode: 'insensitive' } },
+      select: { email: true }
+    })
+
+    if (user) {
+      await sendPasswordResetEmail(user.email)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in forgot-password endpoint:', error)
+    return NextResponse.json(
+      { error: 'Failed to send password reset email' },
+      { status: 500 }
+    )
+  }
+}
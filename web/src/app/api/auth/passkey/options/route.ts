@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { createPasskeyLoginOptions } from '@/lib/webauthn'
+
+/**
+ * POST /api/auth/passkey/options - WebAuthn request options for passkey sign-in
+ *
+ * The signed assertion is then submitted to the 'passkey' NextAuth provider
+ * (signIn('passkey', { response })), which verifies it and starts the session.
+ */
+export async function POST() {
+  try {
+    const options = await createPasskeyLoginOptions()
+    return NextResponse.json(options)
+  } catch (error) {
+    console.error('Error creating passkey options:', error)
+    return NextResponse.json(
+      { error: 'Failed to start passkey sign-in' },
+      { status: 500 }
+    )
+  }
+}
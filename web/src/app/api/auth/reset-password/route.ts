@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { hashPassword, validatePassword } from '@/lib/password'
+import { consumeVerificationToken } from '@/lib/verification'
+
+/**
+ * POST /api/auth/reset-password
+ *
+ * Sets a new password using the token from the password reset email.
+ * Completing a reset also proves ownership of the email, so it is marked verified.
+ * Whoever may have had access before is shut out: every existing session is signed out
+ * and the user's personal access tokens are deleted.
+ *
+ * Request body:
+ * - token: The token from the reset link
+ * - password: The new password
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token, password } = body
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 })
+    }
+
+    const passwordError = validatePassword(password)
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError, code: 'WeakPassword' },
+        { status: 400 }
+      )
+    }
+
+    const email = await consumeVerificationToken('reset-password', token)
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'This reset link is invalid or has expired', code: 'InvalidToken' },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, emailVerified: true }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          passwordHash: await hashPassword(password),
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+          emailVerified: user.emailVerified ?? new Date(),
+          sessionVersion: { increment: 1 }
+        }
+      }),
+      prisma.personalAccessToken.deleteMany({ where: { userId: user.id } })
+    ])
+
+    return NextResponse.json({ success: true, email })
+  } catch (error) {
+    console.error('Error in reset-password endpoint:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@/generated/prisma/client'
+import { prisma } from '@/lib/prisma'
+import { hashPassword, isValidEmail, normalizeEmail, validatePassword } from '@/lib/password'
+import { sendVerificationEmail } from '@/lib/emails'
+
+/**
+ * POST /api/auth/signup
+ *
+ * Creates a new user with a hashed password and emails a verification link.
+ * The client signs in through the credentials provider afterwards.
+ *
+ * Request body:
+ * - email: The user's email address
+ * - password: The new password (see PASSWORD_MIN_LENGTH)
+ * - name: Optional display name (defaults to the email's local part)
+ *
+ * Error codes (in `code`):
+ * - InvalidEmail, WeakPassword: 400
+ * - EmailTaken: 409
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email, password, name } = body
+
+    if (!isValidEmail(email)) {
+      return NextResponse.json(
+        { error: 'A valid email address is required', code: 'InvalidEmail' },
+        { status: 400 }
+      )
+    }
+
+    const passwordError = validatePassword(password)
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError, code: 'WeakPassword' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedEmail = normalizeEmail(email)
+
+    const existing = await prisma.user.findFirst({
+      where: { email: { equals: normalizedEmail, mode: 'insensitive' } },
+      select: { id: true }
+    })
+
+    const emailTaken = () => NextResponse.json(
+      { error: 'An account with this email already exists', code: 'EmailTaken' },
+      { status: 409 }
+    )
+
+    if (existing) {
+      return emailTaken()
+    }
+
+    let user
+    try {
+      user = await prisma.user.create({
+        data: {
+          email: normalizedEmail,
+          name: typeof name === 'string' && name.trim() ? name.trim() : normalizedEmail.split('@')[0],
+          passwordHash: await hashPassword(password)
+        },
+        select: { id: true, email: true, name: true }
+      })
+    } catch (createError) {
+      // A concurrent signup for the same email got past the check above first
+      if (createError instanceof Prisma.PrismaClientKnownRequestError && createError.code === 'P2002') {
+        return emailTaken()
+      }
+      throw createError
+    }
+
+    // The account is usable right away, so a mail failure must not fail the signup
+    try {
+      await sendVerificationEmail(user.email)
+    } catch (mailError) {
+      console.error('Failed to send verification email:', mailError)
+    }
+
+    return NextResponse.json(user, { status: 201 })
+  } catch (error) {
+    console.error('Error in signup endpoint:', error)
+    return NextResponse.json(
+      { error: 'Failed to create account' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { consumeVerificationToken } from '@/lib/verification'
+
+/**
+ * POST /api/auth/verify-email
+ *
+ * Confirms the user's email address using the token from the verification email.
+ *
+ * Request body:
+ * - token: The token from the verification link
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token } = body
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 })
+    }
+
+    const email = await consumeVerificationToken('verify-email', token)
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'This verification link is invalid or has expired', code: 'InvalidToken' },
+        { status: 400 }
+      )
+    }
+
+    const result = await prisma.user.updateMany({
+      where: { email },
+      data: { emailVerified: new Date() }
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, email })
+  } catch (error) {
+    console.error('Error verifying email:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify email' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { sendVerificationEmail } from '@/lib/emails'
+
+// POST /api/auth/verify-email/send - Resend the verification email to the signed-in user
+export async function POST() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, emailVerified: true }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.emailVerified) {
+      return NextResponse.json({ success: true, alreadyVerified: true })
+    }
+
+    await sendVerificationEmail(user.email)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error sending verification email:', error)
+    return NextResponse.json(
+      { error: 'Failed to send verification email' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,15 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 
 // POST /api/chat/mark-seen - Mark a message as seen by the user
 // This prevents the cron job from sending a push notification
 export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'coach:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   let body
@@ -30,7 +29,7 @@ export async function POST(request: NextRequest) {
     where: {
       id: messageId,
       conversation: {
-        userId: session.user.id
+        userId: auth.userId
       }
     }
   })
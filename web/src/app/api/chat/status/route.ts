@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { decryptContent, decryptRecords } from '@/lib/encryption'
 
 // GET /api/chat/status?messageId=xxx - Check status of a specific message
 // or GET /api/chat/status?conversationId=xxx - Get latest messages in conversation
 export async function GET(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'coach:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { searchParams } = new URL(request.url)
@@ -22,7 +22,7 @@ export async function GET(request: NextRequest) {
       where: {
         id: messageId,
         conversation: {
-          userId: session.user.id
+          userId: auth.userId
         }
       },
       select: {
@@ -42,7 +42,7 @@ export async function GET(request: NextRequest) {
       message: {
         id: message.id,
         role: message.role,
-        content: message.content,
+        content: await decryptContent(auth.userId, message.content),
         status: message.status,
         createdAt: message.createdAt.toISOString()
       }
@@ -54,7 +54,7 @@ export async function GET(request: NextRequest) {
     const conversation = await prisma.conversation.findFirst({
       where: {
         id: conversationId,
-        userId: session.user.id
+        userId: auth.userId
       }
     })
 
@@ -76,8 +76,10 @@ export async function GET(request: NextRequest) {
       }
     })
 
+    const decrypted = await decryptRecords(auth.userId, messages)
+
     return NextResponse.json({
-      messages: messages.reverse().map(m => ({
+      messages: decrypted.reverse().map(m => ({
         id: m.id,
         role: m.role,
         content: m.content,
@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 import { anthropic, CLAUDE_MODEL } from '@/lib/anthropic'
-import { COACH_SYSTEM_PROMPT } from '@/lib/prompts/coach'
+import { recordAuditEvent } from '@/lib/audit'
+import { encryptContent } from '@/lib/encryption'
+import { htmlToPlainText } from '@/lib/html'
+import { journalEntryMarkdown } from '@/lib/journal-content'
+import { decryptJournalEntries } from '@/lib/journal-templates'
+import { indexMessage } from '@/lib/search'
+import { dayInTimezone } from '@/lib/timezone'
+import { buildCoachContext, buildUserPreferencesContext } from '@/lib/prompts/coach'
 
 // Use Node.js runtime for Prisma compatibility
 export const runtime = 'nodejs'
@@ -12,6 +18,9 @@ export const runtime = 'nodejs'
 // Free plan: 60s, Pro plan: 300s
 export const maxDuration = 60
 
+// Most recent journal entries the coach is given
+const COACH_CONTEXT_ENTRIES = 5
+
 interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
@@ -22,7 +31,7 @@ interface ChatRequest {
   messageId: string  // The assistant message ID to fill
   messages: ChatMessage[]
   fcmToken?: string  // Optional FCM token for push notification
-  systemContext?: string  // Optional additional context (journal entries, etc.)
+  systemContext?: string  // Optional additional context (agenda items, etc.); journal entries are added by the server
 }
 
 /**
@@ -40,10 +49,10 @@ interface ChatRequest {
  */
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'coach:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const body: ChatRequest = await request.json()
@@ -77,7 +86,7 @@ export async function POST(request: NextRequest) {
     // Create ChatJob record with PENDING status
     const job = await prisma.chatJob.create({
       data: {
-        userId: session.user.id,
+        userId: auth.userId,
         conversationId,
         messageId,
         fcmToken,
@@ -86,10 +95,30 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    // Build system prompt with context
-    const systemPrompt = systemContext
-      ? `${COACH_SYSTEM_PROMPT}\n\n${systemContext}`
-      : COACH_SYSTEM_PROMPT
+    // Build system prompt with the recent journal entries, the user's preferences and any
+    // client-provided context. The server picks the entries so the audit log knows which were sent
+    const [user, recentEntries] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: auth.userId },
+        select: { name: true, timezone: true, preferredLanguage: true, coachTone: true }
+      }),
+      prisma.journalEntry.findMany({
+        where: { userId: auth.userId },
+        orderBy: { date: 'desc' },
+        take: COACH_CONTEXT_ENTRIES
+      })
+    ])
+    const timeZone = user?.timezone ?? 'UTC'
+    const entryContext = (await decryptJournalEntries(auth.userId, recentEntries)).map(entry =>
+      `### ${dayInTimezone(entry.date, timeZone)}${entry.mood ? ` (mood: ${entry.mood})` : ''}\n\n${journalEntryMarkdown(entry)}`
+    )
+
+    // Client context may quote journal entries, which may still be the editor's HTML
+    const systemPrompt = [
+      buildCoachContext(entryContext),
+      user && buildUserPreferencesContext(user),
+      typeof systemContext === 'string' && htmlToPlainText(systemContext)
+    ].filter(Boolean).join('\n\n')
 
     // Return immediately with job ID - processing happens below
     // The client will poll /api/coach/status/{jobId} for completion
@@ -102,9 +131,10 @@ export async function POST(request: NextRequest) {
     // Start processing in the background using waitUntil
     // This allows the response to return immediately while processing continues
     const processPromise = processClaudeRequest(
-      job.id,
+      job,
       systemPrompt,
-      messages
+      messages,
+      recentEntries.map(entry => entry.id)
     )
 
     // Use Vercel's waitUntil to continue processing after response
@@ -135,10 +165,13 @@ export async function POST(request: NextRequest) {
  * This runs in the background after the initial response is sent.
  */
 async function processClaudeRequest(
-  jobId: string,
+  job: { id: string; userId: string; conversationId: string; messageId: string },
   systemPrompt: string,
-  messages: ChatMessage[]
+  messages: ChatMessage[],
+  journalEntryIds: string[]
 ): Promise<void> {
+  const jobId = job.id
+
   try {
     // Update status to STREAMING
     await prisma.chatJob.update({
@@ -146,6 +179,15 @@ async function processClaudeRequest(
       data: { status: 'STREAMING' }
     })
 
+    await recordAuditEvent({
+      userId: job.userId,
+      action: 'ai.coach_chat',
+      resourceType: 'conversation',
+      resourceId: job.conversationId,
+      journalEntryIds,
+      metadata: { model: CLAUDE_MODEL, messageCount: messages.length, chatJobId: jobId }
+    })
+
     // Call Claude API (non-streaming for simplicity and reliability)
     const response = await anthropic.messages.create({
       model: CLAUDE_MODEL,
@@ -163,16 +205,19 @@ async function processClaudeRequest(
       .map(block => 'text' in block ? block.text : '')
       .join('')
 
-    // Update job with completed response
+    // Update job with completed response, encrypted like the messages it becomes
     await prisma.chatJob.update({
       where: { id: jobId },
       data: {
         status: 'COMPLETED',
-        buffer: fullContent,
+        buffer: await encryptContent(job.userId, fullContent),
         clientConnected: false
       }
     })
 
+    // The reply fills the assistant message, which is searchable where the server stores it
+    await indexMessage(job.userId, job.messageId, fullContent)
+
     // Check if we need to send push notification
     const updatedJob = await prisma.chatJob.findUnique({
       where: { id: jobId }
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { decryptContent } from '@/lib/encryption'
 
 /**
  * GET /api/coach/status/[id]
@@ -19,10 +19,10 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'coach:read')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -36,14 +36,14 @@ export async function GET(
     }
 
     // Verify user owns this job
-    if (job.userId !== session.user.id) {
+    if (job.userId !== auth.userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
 
     return NextResponse.json({
       id: job.id,
       status: job.status,
-      buffer: job.buffer,
+      buffer: await decryptContent(auth.userId, job.buffer),
       error: job.error,
       conversationId: job.conversationId,
       messageId: job.messageId,
@@ -72,10 +72,10 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'coach:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -90,7 +90,7 @@ export async function PATCH(
     }
 
     // Verify user owns this job
-    if (job.userId !== session.user.id) {
+    if (job.userId !== auth.userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
 
@@ -113,7 +113,7 @@ export async function PATCH(
     return NextResponse.json({
       id: updatedJob.id,
       status: updatedJob.status,
-      buffer: updatedJob.buffer,
+      buffer: await decryptContent(auth.userId, updatedJob.buffer),
       clientConnected: updatedJob.clientConnected
     })
   } catch (error) {
@@ -1,16 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit'
+import { decryptRecords } from '@/lib/encryption'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'coach:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -18,7 +19,7 @@ export async function GET(
   const conversation = await prisma.conversation.findFirst({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     },
     include: {
       messages: {
@@ -31,17 +32,20 @@ export async function GET(
     return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
   }
 
-  return NextResponse.json(conversation)
+  return NextResponse.json({
+    ...conversation,
+    messages: await decryptRecords(auth.userId, conversation.messages)
+  })
 }
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'coach:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -49,7 +53,7 @@ export async function DELETE(
   const conversation = await prisma.conversation.deleteMany({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     }
   })
 
@@ -57,5 +61,12 @@ export async function DELETE(
     return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
   }
 
+  await recordAuditEvent({
+    userId: auth.userId,
+    action: 'data.conversation_deleted',
+    resourceType: 'conversation',
+    resourceId: id
+  })
+
   return NextResponse.json({ success: true })
 }
@@ -1,18 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { decryptRecords } from '@/lib/encryption'
+import { listResponse, pageQuery, paginate, parseListParams } from '@/lib/pagination'
 
-export async function GET() {
-  const session = await getServerSession(authOptions)
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'coach:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const params = parseListParams(request.nextUrl.searchParams, {
+    defaultLimit: 100,
+    sortFields: ['updatedAt', 'createdAt'],
+    defaultSort: 'updatedAt',
+    defaultOrder: 'desc'
+  })
+
+  if ('error' in params) {
+    return NextResponse.json({ error: params.error }, { status: 400 })
   }
 
   const conversations = await prisma.conversation.findMany({
-    where: { userId: session.user.id },
-    orderBy: { updatedAt: 'desc' },
+    where: { userId: auth.userId },
+    ...pageQuery(params.data),
     include: {
       messages: {
         take: 1,
@@ -21,14 +33,20 @@ export async function GET() {
     }
   })
 
-  return NextResponse.json(conversations)
+  const { items, nextCursor } = paginate(conversations, params.data.limit)
+  return listResponse(await Promise.all(
+    items.map(async (conversation) => ({
+      ...conversation,
+      messages: await decryptRecords(auth.userId, conversation.messages)
+    }))
+  ), nextCursor)
 }
 
 export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'coach:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const body = await request.json()
@@ -36,7 +54,7 @@ export async function POST(request: NextRequest) {
 
   const conversation = await prisma.conversation.create({
     data: {
-      userId: session.user.id,
+      userId: auth.userId,
       title: title || 'New Conversation'
     }
   })
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 
 // GET - Retrieve a single daily tool by ID
@@ -9,10 +8,10 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'daily-tools:read')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -25,7 +24,7 @@ export async function GET(
       return NextResponse.json({ error: 'Daily tool not found' }, { status: 404 })
     }
 
-    if (dailyTool.userId !== session.user.id) {
+    if (dailyTool.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -45,10 +44,10 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'daily-tools:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -61,7 +60,7 @@ export async function PUT(
       return NextResponse.json({ error: 'Daily tool not found' }, { status: 404 })
     }
 
-    if (existingTool.userId !== session.user.id) {
+    if (existingTool.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -108,10 +107,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'daily-tools:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -124,7 +123,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Daily tool not found' }, { status: 404 })
     }
 
-    if (existingTool.userId !== session.user.id) {
+    if (existingTool.userId !== auth.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
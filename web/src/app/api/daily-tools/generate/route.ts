@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { decryptJournalEntries } from '@/lib/journal-templates'
+import { journalEntryMarkdown, journalHtmlToMarkdown } from '@/lib/journal-content'
 import { anthropic } from '@/lib/anthropic'
+import { ownJournalEntryIds, recordAuditEvent } from '@/lib/audit'
 import {
   DAILY_TOOL_SYSTEM_PROMPT,
   buildDailyToolUserPrompt,
@@ -68,8 +71,18 @@ async function handler(request: NextRequest) {
     })
 
     try {
-      // Fetch recent journal entries if not provided
-      let recentEntries = providedEntries
+      // Fetch recent journal entries if not provided. Entries sent by a client carry the editor's
+      // HTML, which is converted so the prompt only ever sees Markdown
+      let recentEntries = Array.isArray(providedEntries)
+        ? providedEntries.map((e: { content?: unknown }) => ({
+            ...e,
+            content: typeof e.content === 'string' ? journalHtmlToMarkdown(e.content) : ''
+          }))
+        : providedEntries
+      // Client-provided ids are only recorded when they're the user's own entries
+      let journalEntryIds = Array.isArray(providedEntries)
+        ? await ownJournalEntryIds(userId, providedEntries.map((e: { id?: unknown }) => e.id))
+        : []
       if (!recentEntries) {
         const entries = await prisma.journalEntry.findMany({
           where: { userId },
@@ -77,8 +90,9 @@ async function handler(request: NextRequest) {
           take: 7 // Last 7 entries
         })
 
-        recentEntries = entries.map(e => ({
-          content: e.content,
+        journalEntryIds = entries.map(e => e.id)
+        recentEntries = (await decryptJournalEntries(userId, entries)).map(e => ({
+          content: journalEntryMarkdown(e),
           mood: e.mood,
           tags: e.tags,
           date: e.date
@@ -109,6 +123,15 @@ async function handler(request: NextRequest) {
 
       console.log(`Calling Claude API for job ${jobId}`)
 
+      await recordAuditEvent({
+        userId,
+        action: 'ai.daily_tool_generate',
+        resourceType: 'dailyToolJob',
+        resourceId: jobId,
+        journalEntryIds,
+        metadata: { model: 'claude-sonnet-4-20250514' }
+      })
+
       // Call Claude API
       const response = await anthropic.messages.create({
         model: 'claude-sonnet-4-20250514',
@@ -137,6 +160,7 @@ async function handler(request: NextRequest) {
           description: generatedTool.description,
           htmlCode: generatedTool.htmlCode,
           journalContext: generatedTool.journalContext,
+          journalEntryIds,
           status: 'PENDING'
         }
       })
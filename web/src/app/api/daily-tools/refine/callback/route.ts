@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { anthropic } from '@/lib/anthropic'
+import { ownJournalEntryIds, recordAuditEvent } from '@/lib/audit'
 import {
   DAILY_TOOL_REFINE_SYSTEM_PROMPT,
   buildRefineUserPrompt,
@@ -32,6 +33,7 @@ const hasQStashSigningKeys = !!(
  * - currentDescription: Current tool description
  * - currentHtmlCode: Current tool HTML code
  * - currentJournalContext: Current journal context (optional)
+ * - journalEntryIds: Journal entries the tool was generated from (optional)
  */
 async function handler(request: NextRequest) {
   try {
@@ -44,7 +46,8 @@ async function handler(request: NextRequest) {
       currentTitle,
       currentDescription,
       currentHtmlCode,
-      currentJournalContext
+      currentJournalContext,
+      journalEntryIds
     } = body
 
     if (!jobId || !userId || !dailyToolId || !feedback || !currentHtmlCode) {
@@ -92,6 +95,15 @@ async function handler(request: NextRequest) {
 
       console.log(`Calling Claude API for refinement job ${jobId}`)
 
+      await recordAuditEvent({
+        userId,
+        action: 'ai.daily_tool_refine',
+        resourceType: 'dailyTool',
+        resourceId: dailyToolId,
+        journalEntryIds: await ownJournalEntryIds(userId, journalEntryIds),
+        metadata: { model: 'claude-sonnet-4-20250514', refineJobId: jobId }
+      })
+
       // Call Claude API
       const response = await anthropic.messages.create({
         model: 'claude-sonnet-4-20250514',
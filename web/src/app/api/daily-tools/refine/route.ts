@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 import { qstashClient, getQStashCallbackUrl } from '@/lib/qstash'
 
@@ -24,10 +23,10 @@ import { qstashClient, getQStashCallbackUrl } from '@/lib/qstash'
  */
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'daily-tools:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     // Check if QStash is configured
@@ -56,6 +55,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // The tool's journal entries go to the callback for its audit event
+    const tool = await prisma.dailyTool.findFirst({
+      where: { id: appId, userId: auth.userId },
+      select: { journalEntryIds: true }
+    })
+
+    if (!tool) {
+      return NextResponse.json({ error: 'Daily tool not found' }, { status: 404 })
+    }
+
     // Check for existing pending refinement job for this tool
     const existingJob = await prisma.dailyToolRefineJob.findFirst({
       where: {
@@ -77,7 +86,7 @@ export async function POST(request: NextRequest) {
     // Create job record
     const job = await prisma.dailyToolRefineJob.create({
       data: {
-        userId: session.user.id,
+        userId: auth.userId,
         dailyToolId: appId,
         feedback: feedback,
         status: 'PENDING'
@@ -87,13 +96,14 @@ export async function POST(request: NextRequest) {
     // Prepare callback payload
     const callbackPayload = {
       jobId: job.id,
-      userId: session.user.id,
+      userId: auth.userId,
       dailyToolId: appId,
       feedback,
       currentTitle,
       currentDescription,
       currentHtmlCode,
-      currentJournalContext
+      currentJournalContext,
+      journalEntryIds: tool.journalEntryIds
     }
 
     // Get callback URL
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 import { qstashClient, getQStashCallbackUrl } from '@/lib/qstash'
 
@@ -20,10 +19,10 @@ import { qstashClient, getQStashCallbackUrl } from '@/lib/qstash'
  */
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'daily-tools:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     // Check if QStash is configured
@@ -37,7 +36,7 @@ export async function POST(request: NextRequest) {
     // Check for existing pending job for this user
     const existingJob = await prisma.dailyToolJob.findFirst({
       where: {
-        userId: session.user.id,
+        userId: auth.userId,
         status: { in: ['PENDING', 'PROCESSING'] }
       },
       orderBy: { createdAt: 'desc' }
@@ -67,7 +66,7 @@ export async function POST(request: NextRequest) {
     // Create job record
     const job = await prisma.dailyToolJob.create({
       data: {
-        userId: session.user.id,
+        userId: auth.userId,
         status: 'PENDING'
       }
     })
@@ -75,7 +74,7 @@ export async function POST(request: NextRequest) {
     // Prepare callback payload
     const callbackPayload = {
       jobId: job.id,
-      userId: session.user.id,
+      userId: auth.userId,
       recentEntries,
       previousToolIds
     }
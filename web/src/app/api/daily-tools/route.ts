@@ -1,30 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { listResponse, pageQuery, paginate, parseListParams } from '@/lib/pagination'
 
 // GET - Retrieve all daily tools for the current user (for sync/download)
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'daily-tools:read')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const searchParams = request.nextUrl.searchParams
     const status = searchParams.get('status')
 
+    const params = parseListParams(searchParams, {
+      defaultLimit: 100,
+      sortFields: ['date', 'createdAt', 'updatedAt'],
+      defaultSort: 'date',
+      defaultOrder: 'desc'
+    })
+
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 })
+    }
+
     const dailyTools = await prisma.dailyTool.findMany({
       where: {
-        userId: session.user.id,
+        userId: auth.userId,
         ...(status ? { status } : {})
       },
-      orderBy: { date: 'desc' },
-      take: 100
+      ...pageQuery(params.data)
     })
 
-    return NextResponse.json(dailyTools)
+    const { items, nextCursor } = paginate(dailyTools, params.data.limit)
+    return listResponse(items, nextCursor)
   } catch (error) {
     console.error('Error fetching daily tools:', error)
     return NextResponse.json({
@@ -37,10 +48,10 @@ export async function GET(request: NextRequest) {
 // POST - Create/sync a daily tool from the mobile app (for upload/backup)
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'daily-tools:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const body = await request.json()
@@ -89,7 +100,7 @@ export async function POST(request: NextRequest) {
       },
       create: {
         id,
-        userId: session.user.id,
+        userId: auth.userId,
         date: new Date(date),
         title,
         description,
@@ -1,17 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { removeLinks, resolveLinksTo, updateLinks } from '@/lib/links'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'goals:read')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -19,7 +19,7 @@ export async function GET(
     const goal = await prisma.goal.findFirst({
       where: {
         id,
-        userId: session.user.id
+        userId: auth.userId
       }
     })
 
@@ -40,10 +40,10 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'goals:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -55,7 +55,7 @@ export async function PUT(
     const goal = await prisma.goal.updateMany({
       where: {
         id,
-        userId: session.user.id
+        userId: auth.userId
       },
       data: {
         ...(title && { title }),
@@ -70,7 +70,16 @@ export async function PUT(
       return NextResponse.json({ error: 'Goal not found' }, { status: 404 })
     }
 
-    const updated = await prisma.goal.findUnique({ where: { id } })
+    const updated = await prisma.goal.findUniqueOrThrow({ where: { id } })
+
+    if (description !== undefined) {
+      await updateLinks(auth.userId, { type: 'goal', id }, updated.description)
+    }
+
+    if (title) {
+      await resolveLinksTo(auth.userId, { type: 'goal', id })
+    }
+
     console.log('PUT /api/goals/[id] - Updated goal:', id)
     return NextResponse.json(updated)
   } catch (error) {
@@ -85,10 +94,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'goals:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const { id } = await params
@@ -96,7 +105,7 @@ export async function DELETE(
     const goal = await prisma.goal.deleteMany({
       where: {
         id,
-        userId: session.user.id
+        userId: auth.userId
       }
     })
 
@@ -104,6 +113,8 @@ export async function DELETE(
       return NextResponse.json({ error: 'Goal not found' }, { status: 404 })
     }
 
+    await removeLinks({ type: 'goal', id })
+
     console.log('DELETE /api/goals/[id] - Deleted goal:', id)
     return NextResponse.json({ success: true })
   } catch (error) {
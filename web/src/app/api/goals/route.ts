@@ -1,25 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { resolveLinksTo, updateLinks } from '@/lib/links'
+import { listResponse, pageQuery, paginate, parseListParams } from '@/lib/pagination'
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'goals:read')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status')
+    const priority = searchParams.get('priority')
+
+    const params = parseListParams(searchParams, {
+      defaultLimit: 100,
+      sortFields: ['createdAt', 'updatedAt'],
+      defaultSort: 'createdAt',
+      defaultOrder: 'desc'
+    })
+
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 })
     }
 
     const goals = await prisma.goal.findMany({
       where: {
-        userId: session.user.id
+        userId: auth.userId,
+        ...(status ? { status } : {}),
+        ...(priority ? { priority } : {})
       },
-      orderBy: { createdAt: 'desc' },
-      take: 100
+      ...pageQuery(params.data)
     })
 
-    return NextResponse.json(goals)
+    const { items, nextCursor } = paginate(goals, params.data.limit)
+    return listResponse(items, nextCursor)
   } catch (error) {
     console.error('GET /api/goals error:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
@@ -29,10 +47,10 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await authenticate(request, 'goals:write')
 
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (!auth.ok) {
+      return auth.response
     }
 
     const body = await request.json()
@@ -46,7 +64,7 @@ export async function POST(request: NextRequest) {
 
     const goal = await prisma.goal.create({
       data: {
-        userId: session.user.id,
+        userId: auth.userId,
         title,
         description: description || '',
         targetDate: targetDate ? new Date(targetDate) : null,
@@ -55,6 +73,9 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await updateLinks(auth.userId, { type: 'goal', id: goal.id }, goal.description)
+    await resolveLinksTo(auth.userId, { type: 'goal', id: goal.id })
+
     console.log('POST /api/goals - Created goal:', goal.id)
     return NextResponse.json(goal, { status: 201 })
   } catch (error) {
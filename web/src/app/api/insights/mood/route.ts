@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { getMoodInsights, parseMoodInsightsQuery } from '@/lib/mood-insights'
+
+/**
+ * GET /api/insights/mood
+ *
+ * Mood distributions, tag frequency and entry counts per day and per week.
+ *
+ * Query parameters:
+ * - from, to: Inclusive days (YYYY-MM-DD) in the user's timezone; default to the last 90 days
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'journal:read')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const query = parseMoodInsightsQuery(request.nextUrl.searchParams)
+
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await getMoodInsights(auth.userId, query.data))
+  } catch (error) {
+    console.error('Error loading mood insights:', error)
+    return NextResponse.json({
+      error: 'Failed to load mood insights',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { getWritingStats } from '@/lib/writing-stats'
+
+/**
+ * GET /api/insights/writing
+ *
+ * Journaling streaks, words written and entries per week over the last 12 weeks, with days in
+ * the user's timezone.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'journal:read')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  try {
+    return NextResponse.json(await getWritingStats(auth.userId))
+  } catch (error) {
+    console.error('Error loading writing stats:', error)
+    return NextResponse.json({
+      error: 'Failed to load writing stats',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { restoreJournalEntryRevision } from '@/lib/journal-revisions'
+
+// POST /api/journal/[id]/revisions/[revisionId]/restore - Make an earlier version current again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const auth = await authenticate(request, 'journal:write')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const { id, revisionId } = await params
+    const entry = await restoreJournalEntryRevision(auth.userId, id, revisionId)
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(entry)
+  } catch (error) {
+    console.error('Error restoring journal revision:', error)
+    return NextResponse.json({
+      error: 'Failed to restore revision',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
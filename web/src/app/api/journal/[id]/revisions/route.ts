@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { getJournalEntryRevisions } from '@/lib/journal-revisions'
+
+// GET /api/journal/[id]/revisions - Earlier versions of an entry, newest first, with word diffs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate(request, 'journal:read')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const history = await getJournalEntryRevisions(auth.userId, id)
+
+    if (!history) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(history)
+  } catch (error) {
+    console.error('Error fetching journal revisions:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch revisions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
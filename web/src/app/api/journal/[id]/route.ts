@@ -1,16 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit'
+import { updateJournalEntry } from '@/lib/journal-revisions'
+import { discardJournalDraft } from '@/lib/journal-drafts'
+import { removeLinks } from '@/lib/links'
+import { renderTemplateContent, validateTemplateAnswers } from '@/lib/journal-template-schema'
+import { decryptJournalEntry, getJournalTemplate } from '@/lib/journal-templates'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'journal:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -18,7 +23,7 @@ export async function GET(
   const entry = await prisma.journalEntry.findFirst({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     }
   })
 
@@ -26,40 +31,69 @@ export async function GET(
     return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
   }
 
-  return NextResponse.json(entry)
+  return NextResponse.json(await decryptJournalEntry(auth.userId, entry))
 }
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'journal:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
   const body = await request.json()
-  const { content, mood, tags } = body
+  const { mood, tags, draftVersion } = body
+  let { content } = body
+  let templateAnswers
+
+  // Answers to a template entry replace its content, re-rendered from the template
+  if (body.templateAnswers !== undefined) {
+    const entry = await prisma.journalEntry.findFirst({
+      where: { id, userId: auth.userId },
+      select: { templateId: true }
+    })
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
+    }
 
-  const entry = await prisma.journalEntry.updateMany({
-    where: {
-      id,
-      userId: session.user.id
-    },
-    data: {
-      ...(content && { content }),
-      ...(mood !== undefined && { mood }),
-      ...(tags && { tags })
+    const template = entry.templateId ? await getJournalTemplate(auth.userId, entry.templateId) : null
+
+    if (!template) {
+      return NextResponse.json({ error: 'Entry has no template to answer' }, { status: 400 })
     }
+
+    const answers = validateTemplateAnswers(template.fields, body.templateAnswers)
+
+    if ('error' in answers) {
+      return NextResponse.json({ error: answers.error }, { status: 400 })
+    }
+
+    templateAnswers = answers.data
+    content = renderTemplateContent(template, templateAnswers)
+  }
+
+  // The previous version is kept as a revision (see /api/journal/[id]/revisions)
+  const updated = await updateJournalEntry(auth.userId, id, {
+    ...(content && { content }),
+    ...(mood !== undefined && { mood }),
+    ...(tags && { tags }),
+    ...(templateAnswers && { templateAnswers })
   })
 
-  if (entry.count === 0) {
+  if (!updated) {
     return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
   }
 
-  const updated = await prisma.journalEntry.findUnique({ where: { id } })
+  // Saved from the editor's draft of this entry, unless it was saved past this version
+  if (typeof draftVersion === 'number') {
+    await discardJournalDraft(auth.userId, id, draftVersion)
+  }
+
   return NextResponse.json(updated)
 }
 
@@ -67,10 +101,10 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'journal:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -78,7 +112,7 @@ export async function DELETE(
   const entry = await prisma.journalEntry.deleteMany({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     }
   })
 
@@ -86,5 +120,14 @@ export async function DELETE(
     return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
   }
 
+  await removeLinks({ type: 'journal', id })
+
+  await recordAuditEvent({
+    userId: auth.userId,
+    action: 'data.journal_deleted',
+    resourceType: 'journalEntry',
+    resourceId: id
+  })
+
   return NextResponse.json({ success: true })
 }
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { acceptJournalSuggestions, dismissJournalSuggestions } from '@/lib/journal-analysis'
+
+// POST /api/journal/[id]/suggestions - Accept the suggested mood ({ mood: true }) and/or tags ({ tags: [...] })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate(request, 'journal:write')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const { mood, tags } = await request.json()
+
+    if (mood !== undefined && typeof mood !== 'boolean') {
+      return NextResponse.json({ error: 'mood must be a boolean' }, { status: 400 })
+    }
+
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+      return NextResponse.json({ error: 'tags must be an array of strings' }, { status: 400 })
+    }
+
+    const entry = await acceptJournalSuggestions(auth.userId, id, { mood, tags })
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(entry)
+  } catch (error) {
+    console.error('Error accepting journal suggestions:', error)
+    return NextResponse.json({
+      error: 'Failed to accept suggestions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/journal/[id]/suggestions - Dismiss the pending suggestions
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(request, 'journal:write')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  if (!await dismissJournalSuggestions(auth.userId, id)) {
+    return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
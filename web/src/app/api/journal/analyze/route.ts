@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withQStashVerification } from '@/lib/qstash'
+import { analyzeJournalEntry } from '@/lib/journal-analysis'
+
+/**
+ * POST /api/journal/analyze
+ *
+ * QStash callback that suggests a mood, sentiment and tags for a new journal entry.
+ *
+ * The request body contains:
+ * - entryId: The JournalEntry ID
+ */
+async function handler(request: NextRequest) {
+  try {
+    const { entryId } = await request.json()
+
+    if (!entryId) {
+      return NextResponse.json({ error: 'Missing entryId' }, { status: 400 })
+    }
+
+    await analyzeJournalEntry({ entryId })
+
+    return NextResponse.json({ status: 'completed' })
+  } catch (error) {
+    console.error('Error in journal analysis callback:', error)
+    // Return 500 so QStash will retry
+    return NextResponse.json({
+      error: 'Failed to analyze entry',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export const POST = withQStashVerification(handler)
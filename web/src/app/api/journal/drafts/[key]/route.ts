@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { discardJournalDraft, getJournalDraft, parseJournalDraftInput, saveJournalDraft } from '@/lib/journal-drafts'
+
+// Drafts are addressed by key: 'new' for a new entry, otherwise the id of the entry being edited
+
+// GET /api/journal/drafts/[key] - The autosaved draft, to resume writing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const auth = await authenticate(request, 'journal:read')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { key } = await params
+  const draft = await getJournalDraft(auth.userId, key)
+
+  if (!draft) {
+    return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(draft)
+}
+
+// PUT /api/journal/drafts/[key] - Autosave { content, mood, tags, baseVersion }
+// Responds 409 with the current draft (or null if it was discarded) when baseVersion is stale
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const auth = await authenticate(request, 'journal:write')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const { key } = await params
+    const parsed = parseJournalDraftInput(await request.json())
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const result = await saveJournalDraft(auth.userId, key, parsed.data)
+
+    if (!result) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 })
+    }
+
+    if ('conflict' in result) {
+      return NextResponse.json({
+        error: 'Draft was changed on another device',
+        draft: result.conflict
+      }, { status: 409 })
+    }
+
+    return NextResponse.json(result.draft)
+  } catch (error) {
+    console.error('Error saving journal draft:', error)
+    return NextResponse.json({
+      error: 'Failed to save draft',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/journal/drafts/[key] - Discard the draft
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const auth = await authenticate(request, 'journal:write')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { key } = await params
+
+  if (!await discardJournalDraft(auth.userId, key)) {
+    return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
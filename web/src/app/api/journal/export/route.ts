@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { recordAuditEvent } from '@/lib/audit'
+import {
+  JOURNAL_EXPORT_CONTENT_TYPES,
+  journalExportFileName,
+  loadJournalExport,
+  parseJournalExportQuery,
+  renderJournalExport
+} from '@/lib/journal-export'
+
+/**
+ * GET /api/journal/export
+ *
+ * Download journal entries as one document, oldest first.
+ *
+ * Query parameters:
+ * - format: 'md' (default), 'html' or 'pdf'
+ * - from, to: Inclusive days (YYYY-MM-DD) in the user's timezone
+ * - tags: Comma-separated; entries with any of these tags are included
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'journal:read')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const query = parseJournalExportQuery(request.nextUrl.searchParams)
+
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 })
+  }
+
+  try {
+    const data = await loadJournalExport(auth.userId, query.data)
+    const document = await renderJournalExport(data)
+
+    await recordAuditEvent({
+      userId: auth.userId,
+      action: 'data.journal_exported',
+      resourceType: 'journalEntry',
+      metadata: { format: query.data.format, entries: data.entries.length }
+    })
+
+    return new NextResponse(typeof document === 'string' ? document : new Uint8Array(document), {
+      headers: {
+        'Content-Type': JOURNAL_EXPORT_CONTENT_TYPES[query.data.format],
+        'Content-Disposition': `attachment; filename="${journalExportFileName(query.data)}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Failed to export journal:', error)
+    return NextResponse.json(
+      { error: 'Failed to export journal', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
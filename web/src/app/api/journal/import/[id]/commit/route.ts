@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { commitJournalImport, toJournalImportResponse } from '@/lib/journal-import'
+
+/**
+ * POST /api/journal/import/{id}/commit
+ *
+ * Add a previewed import to the journal. Runs in the background; poll
+ * GET /api/journal/import/{id} for progress.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate(request, 'journal:write')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const journalImport = await prisma.journalImport.findFirst({
+      where: { id, userId: auth.userId },
+      select: { status: true }
+    })
+
+    if (!journalImport) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 })
+    }
+
+    if (journalImport.status !== 'PARSED') {
+      return NextResponse.json({ error: 'Import has already been committed' }, { status: 409 })
+    }
+
+    const job = await commitJournalImport(id)
+
+    return NextResponse.json(toJournalImportResponse(job), { status: 202 })
+  } catch (error) {
+    console.error('Error committing journal import:', error)
+    return NextResponse.json({
+      error: 'Failed to start import',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
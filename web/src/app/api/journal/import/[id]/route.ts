@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { previewJournalImport, toJournalImportResponse } from '@/lib/journal-import'
+
+/**
+ * GET /api/journal/import/{id}
+ *
+ * Response:
+ * - id, status ('PARSED' | 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'), source, fileName,
+ *   createdAt, error
+ * - total: Entries found in the upload; skipped: files or entries without a date or text
+ * - processed, imported, duplicates: Progress once committed
+ * - preview: While PARSED, the first entries ({ date, excerpt, mood, tags, sourceName, duplicate })
+ *   and the number of entries the journal already has (duplicates)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate(request, 'journal:read')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const journalImport = await prisma.journalImport.findFirst({
+      where: { id, userId: auth.userId }
+    })
+
+    if (!journalImport) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      ...toJournalImportResponse(journalImport),
+      ...(journalImport.status === 'PARSED' && {
+        preview: await previewJournalImport(auth.userId, journalImport.entries)
+      })
+    })
+  } catch (error) {
+    console.error('GET /api/journal/import/[id] error:', error)
+    return NextResponse.json({
+      error: 'Failed to load import',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/journal/import/{id}
+ *
+ * Discard an import that hasn't been committed, or clear a finished one. Entries already added
+ * to the journal stay.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(request, 'journal:write')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  const result = await prisma.journalImport.deleteMany({
+    where: { id, userId: auth.userId, status: { notIn: ['PENDING', 'PROCESSING'] } }
+  })
+
+  if (result.count === 0) {
+    return NextResponse.json({ error: 'Import not found or still running' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withQStashVerification } from '@/lib/qstash'
+import { processJournalImport } from '@/lib/journal-import'
+
+// Large imports can take a while
+export const maxDuration = 300
+
+/**
+ * POST /api/journal/import/process
+ *
+ * QStash callback that adds a committed import's entries to the journal.
+ *
+ * The request body contains:
+ * - importId: The JournalImport ID
+ */
+async function handler(request: NextRequest) {
+  try {
+    const { importId } = await request.json()
+
+    if (!importId) {
+      return NextResponse.json({ error: 'Missing importId' }, { status: 400 })
+    }
+
+    await processJournalImport({ importId })
+
+    return NextResponse.json({ status: 'completed' })
+  } catch (error) {
+    console.error('Error in journal import callback:', error)
+    // Return 500 so QStash will retry
+    return NextResponse.json({
+      error: 'Failed to import entries',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export const POST = withQStashVerification(handler)
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { createJournalImport, ImportFile, parseImportFiles, toJournalImportResponse } from '@/lib/journal-import'
+import { isJournalImportSource, JOURNAL_IMPORT_MAX_BYTES } from '@/lib/journal-import-sources'
+
+/**
+ * POST /api/journal/import
+ *
+ * Upload files exported from another journaling app. They are parsed right away; nothing is
+ * added to the journal until the import is committed (POST /api/journal/import/{id}/commit).
+ *
+ * Multipart form fields:
+ * - source: 'dayone', 'markdown' or 'text'
+ * - files: One or more files - a .zip is unpacked
+ *
+ * Response: the import (see GET /api/journal/import/{id})
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'journal:write')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const form = await request.formData()
+    const source = form.get('source')
+    const uploads = form.getAll('files').filter((value): value is File => value instanceof File)
+
+    if (!isJournalImportSource(source)) {
+      return NextResponse.json({ error: 'Source must be dayone, markdown or text' }, { status: 400 })
+    }
+    if (uploads.length === 0) {
+      return NextResponse.json({ error: 'No files uploaded' }, { status: 400 })
+    }
+    if (uploads.reduce((size, file) => size + file.size, 0) > JOURNAL_IMPORT_MAX_BYTES) {
+      return NextResponse.json({ error: 'The upload is too large' }, { status: 413 })
+    }
+
+    const files: ImportFile[] = await Promise.all(uploads.map(async (file) => ({
+      name: file.name,
+      data: new Uint8Array(await file.arrayBuffer())
+    })))
+
+    const parsed = parseImportFiles(source, files)
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: parsed.status })
+    }
+
+    const fileName = uploads.length === 1 ? uploads[0].name : `${uploads.length} files`
+    const journalImport = await createJournalImport(auth.userId, source, fileName, parsed.data)
+
+    return NextResponse.json(toJournalImportResponse(journalImport), { status: 201 })
+  } catch (error) {
+    console.error('Error uploading journal import:', error)
+    return NextResponse.json({
+      error: 'Failed to read the import',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,59 +1,151 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { encryptContent } from '@/lib/encryption'
+import { countJournalWords, journalHtmlToMarkdown, sanitizeJournalHtml } from '@/lib/journal-content'
+import { renderTemplateContent, validateTemplateAnswers } from '@/lib/journal-template-schema'
+import { decryptJournalEntries, encryptTemplateAnswers, getJournalTemplate } from '@/lib/journal-templates'
+import { indexJournalEntry } from '@/lib/search'
+import { claimAttachments } from '@/lib/attachments'
+import { attachmentIdsInContent } from '@/lib/attachment-constants'
+import { queueJournalEntryAnalysis } from '@/lib/journal-analysis'
+import { NEW_DRAFT_KEY, discardJournalDraft } from '@/lib/journal-drafts'
+import { resolveLinksTo, updateLinks } from '@/lib/links'
+import { listResponse, pageQuery, paginate, parseListParams } from '@/lib/pagination'
+import { isDay, nextDay, startOfDay } from '@/lib/timezone'
 
 export async function GET(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'journal:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const searchParams = request.nextUrl.searchParams
   const startDate = searchParams.get('startDate')
   const endDate = searchParams.get('endDate')
+  const mood = searchParams.get('mood')
+  const tag = searchParams.get('tag')
+  // A calendar day (YYYY-MM-DD) in the user's timezone, as used by /api/insights/mood
+  const day = searchParams.get('day')
+
+  const params = parseListParams(searchParams, {
+    defaultLimit: 50,
+    sortFields: ['date', 'createdAt', 'updatedAt'],
+    defaultSort: 'date',
+    defaultOrder: 'desc'
+  })
+
+  if ('error' in params) {
+    return NextResponse.json({ error: params.error }, { status: 400 })
+  }
+
+  if (day && !isDay(day)) {
+    return NextResponse.json({ error: 'day must be a date (YYYY-MM-DD)' }, { status: 400 })
+  }
+
+  const user = day
+    ? await prisma.user.findUnique({ where: { id: auth.userId }, select: { timezone: true } })
+    : null
+  const timeZone = user?.timezone ?? 'UTC'
 
   const entries = await prisma.journalEntry.findMany({
     where: {
-      userId: session.user.id,
+      userId: auth.userId,
       ...(startDate && endDate ? {
         date: {
           gte: new Date(startDate),
           lte: new Date(endDate)
         }
-      } : {})
+      } : {}),
+      ...(day ? {
+        date: {
+          gte: startOfDay(day, timeZone),
+          lt: startOfDay(nextDay(day), timeZone)
+        }
+      } : {}),
+      ...(mood ? { mood } : {}),
+      ...(tag ? { tags: { has: tag } } : {})
     },
-    orderBy: { date: 'desc' },
-    take: 50
+    ...pageQuery(params.data)
   })
 
-  return NextResponse.json(entries)
+  const { items, nextCursor } = paginate(entries, params.data.limit)
+  return listResponse(await decryptJournalEntries(auth.userId, items), nextCursor)
 }
 
 export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'journal:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const body = await request.json()
-  const { content, mood, tags, date } = body
+  const { mood, tags, date, templateId, draftVersion } = body
+  let { content } = body
+  let templateAnswers = null
+
+  // Template entries are written from their answers; the rendered content is what gets shown
+  if (templateId) {
+    const template = await getJournalTemplate(auth.userId, templateId)
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 400 })
+    }
+
+    const answers = validateTemplateAnswers(template.fields, body.templateAnswers ?? {})
+
+    if ('error' in answers) {
+      return NextResponse.json({ error: answers.error }, { status: 400 })
+    }
+
+    templateAnswers = answers.data
+    content = renderTemplateContent(template, templateAnswers)
+  }
+
+  if (typeof content === 'string') {
+    content = sanitizeJournalHtml(content)
+  }
 
   if (!content) {
     return NextResponse.json({ error: 'Content is required' }, { status: 400 })
   }
 
+  const contentMarkdown = journalHtmlToMarkdown(content)
+
   const entry = await prisma.journalEntry.create({
     data: {
-      userId: session.user.id,
-      content,
+      userId: auth.userId,
+      content: await encryptContent(auth.userId, content),
+      contentMarkdown: await encryptContent(auth.userId, contentMarkdown),
+      wordCount: countJournalWords(content),
       mood,
       tags: tags || [],
-      date: date ? new Date(date) : new Date()
+      date: date ? new Date(date) : new Date(),
+      ...(templateAnswers && {
+        templateId,
+        templateAnswers: await encryptTemplateAnswers(auth.userId, templateAnswers)
+      })
     }
   })
 
-  return NextResponse.json(entry, { status: 201 })
+  await indexJournalEntry(auth.userId, entry.id, contentMarkdown)
+  await claimAttachments(auth.userId, attachmentIdsInContent(content), { journalEntryId: entry.id })
+  await updateLinks(auth.userId, { type: 'journal', id: entry.id }, content)
+  await resolveLinksTo(auth.userId, { type: 'journal', id: entry.id })
+
+  // Written from the new-entry draft, which is done with unless it was saved past this version
+  if (typeof draftVersion === 'number') {
+    await discardJournalDraft(auth.userId, NEW_DRAFT_KEY, draftVersion)
+  }
+
+  // Suggest a mood and tags in the background; failing to queue it must not fail the save
+  try {
+    await queueJournalEntryAnalysis(entry.id)
+  } catch (error) {
+    console.error('Failed to queue journal entry analysis:', error)
+  }
+
+  return NextResponse.json({ ...entry, content, contentMarkdown, templateAnswers }, { status: 201 })
 }
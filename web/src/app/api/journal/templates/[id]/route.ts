@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@/generated/prisma/client'
+import { authenticate } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { getBuiltInTemplate, parseTemplateDefinition } from '@/lib/journal-template-schema'
+import { getJournalTemplate } from '@/lib/journal-templates'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(request, 'journal:read')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const template = await getJournalTemplate(auth.userId, id)
+
+  if (!template) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(template)
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(request, 'journal:write')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  if (getBuiltInTemplate(id)) {
+    return NextResponse.json({ error: 'Built-in templates cannot be changed' }, { status: 403 })
+  }
+
+  const parsed = parseTemplateDefinition(await request.json())
+
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  // Existing entries keep their answers; fields removed here just stop being rendered on the next save
+  const result = await prisma.journalTemplate.updateMany({
+    where: { id, userId: auth.userId },
+    data: {
+      name: parsed.data.name,
+      description: parsed.data.description,
+      fields: parsed.data.fields as unknown as Prisma.InputJsonValue
+    }
+  })
+
+  if (result.count === 0) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(await getJournalTemplate(auth.userId, id))
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(request, 'journal:write')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  if (getBuiltInTemplate(id)) {
+    return NextResponse.json({ error: 'Built-in templates cannot be deleted' }, { status: 403 })
+  }
+
+  // Entries written with the template keep its rendered content
+  const result = await prisma.journalTemplate.deleteMany({
+    where: { id, userId: auth.userId }
+  })
+
+  if (result.count === 0) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
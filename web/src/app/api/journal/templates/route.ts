@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@/generated/prisma/client'
+import { authenticate } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { parseTemplateDefinition } from '@/lib/journal-template-schema'
+import { listJournalTemplates } from '@/lib/journal-templates'
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'journal:read')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  return NextResponse.json(await listJournalTemplates(auth.userId))
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request, 'journal:write')
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const parsed = parseTemplateDefinition(await request.json())
+
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  const template = await prisma.journalTemplate.create({
+    data: {
+      userId: auth.userId,
+      name: parsed.data.name,
+      description: parsed.data.description,
+      fields: parsed.data.fields as unknown as Prisma.InputJsonValue
+    }
+  })
+
+  return NextResponse.json({ ...template, builtIn: false }, { status: 201 })
+}
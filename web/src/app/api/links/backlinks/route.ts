@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate, canAccess } from '@/lib/api-auth'
+import { LINK_TYPE_SCOPES, getBacklinks } from '@/lib/links'
+import { LINK_TYPES, isLinkType } from '@/lib/wiki-links'
+
+// GET /api/links/backlinks?type=&id= - Journal entries, notes, goals and tasks that link to a record
+// type is 'journal', 'note', 'goal' or 'task'. API tokens only see the sources they have read scopes for.
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const type = searchParams.get('type')
+    const id = searchParams.get('id')
+
+    if (!isLinkType(type)) {
+      return NextResponse.json({ error: `type must be one of: ${LINK_TYPES.join(', ')}` }, { status: 400 })
+    }
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 })
+    }
+
+    const auth = await authenticate(request, LINK_TYPE_SCOPES[type])
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const sourceTypes = LINK_TYPES.filter(sourceType => canAccess(auth, LINK_TYPE_SCOPES[sourceType]))
+    const backlinks = await getBacklinks(auth.userId, { type, id }, sourceTypes)
+
+    if (!backlinks) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(backlinks)
+  } catch (error) {
+    console.error('Error loading backlinks:', error)
+    return NextResponse.json({
+      error: 'Failed to load backlinks',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
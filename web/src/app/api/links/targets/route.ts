@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate, canAccess } from '@/lib/api-auth'
+import { LINK_TYPE_SCOPES, searchLinkTargets } from '@/lib/links'
+import { LINK_TYPES } from '@/lib/wiki-links'
+
+const QUERY_MAX_LENGTH = 100
+
+// GET /api/links/targets?q= - Notes, goals, tasks and journal days to complete a [[link]] with
+// API tokens only see the types they have read scopes for.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, Object.values(LINK_TYPE_SCOPES))
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const query = request.nextUrl.searchParams.get('q')?.trim() ?? ''
+
+    if (query.length > QUERY_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Query must be at most ${QUERY_MAX_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const types = LINK_TYPES.filter(type => canAccess(auth, LINK_TYPE_SCOPES[type]))
+
+    return NextResponse.json(await searchLinkTargets(auth.userId, query, types))
+  } catch (error) {
+    console.error('Error searching link targets:', error)
+    return NextResponse.json({
+      error: 'Failed to search link targets',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
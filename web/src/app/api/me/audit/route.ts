@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { isAuditCategory } from '@/lib/audit-actions'
+import { listResponse, pageQuery, paginate, parseListParams } from '@/lib/pagination'
+
+// GET /api/me/audit - The signed-in user's audit log, newest first
+// Query: category (auth|ai|data|account) and the list parameters (see lib/pagination.ts).
+// Each event has the dates of the journal entries it references that still exist, so the log can
+// link to them.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'profile:read')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const category = searchParams.get('category')
+
+    if (category && !isAuditCategory(category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 })
+    }
+
+    const params = parseListParams(searchParams, {
+      defaultLimit: 50,
+      sortFields: ['createdAt'],
+      defaultSort: 'createdAt',
+      defaultOrder: 'desc'
+    })
+
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 })
+    }
+
+    const events = await prisma.auditEvent.findMany({
+      where: {
+        userId: auth.userId,
+        ...(category && { action: { startsWith: `${category}.` } })
+      },
+      ...pageQuery(params.data),
+      select: {
+        id: true,
+        action: true,
+        resourceType: true,
+        resourceId: true,
+        journalEntryIds: true,
+        metadata: true,
+        createdAt: true
+      }
+    })
+
+    const { items, nextCursor } = paginate(events, params.data.limit)
+
+    const entryIds = [...new Set(items.flatMap(event => event.journalEntryIds))]
+    const entries = entryIds.length > 0
+      ? await prisma.journalEntry.findMany({
+          where: { id: { in: entryIds }, userId: auth.userId },
+          select: { id: true, date: true }
+        })
+      : []
+    const entryDates = new Map(entries.map(entry => [entry.id, entry.date]))
+
+    return listResponse(items.map(event => ({
+      ...event,
+      journalEntryDates: Object.fromEntries(
+        event.journalEntryIds.filter(id => entryDates.has(id)).map(id => [id, entryDates.get(id)])
+      )
+    })), nextCursor)
+  } catch (error) {
+    console.error('Error fetching audit log:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch audit log',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
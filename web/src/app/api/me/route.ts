@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { parseProfileUpdate } from '@/lib/user-preferences'
+
+const PROFILE_SELECT = {
+  email: true,
+  name: true,
+  timezone: true,
+  preferredLanguage: true,
+  coachTone: true,
+  remindersEnabled: true,
+  streakReminders: true,
+  notifyMinutesBefore: true,
+  notifyMinutesAfter: true
+} as const
+
+// GET /api/me - The signed-in user's profile and preferences
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'profile:read')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: auth.userId },
+      select: PROFILE_SELECT
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(user)
+  } catch (error) {
+    console.error('Error fetching profile:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/me - Update profile and preferences
+ *
+ * Request body (all fields optional):
+ * - name: Display name, or null to clear
+ * - timezone: IANA timezone (e.g., 'Europe/London'), or null to clear
+ * - preferredLanguage: Language code the coach replies in (see LANGUAGES), or null for English
+ * - coachTone: 'gentle' | 'balanced' | 'direct'
+ * - remindersEnabled: Whether to receive the daily journaling reminder
+ * - streakReminders: Whether to get a push when a journaling streak is about to break
+ * - notifyMinutesBefore / notifyMinutesAfter: Default event notification timing in minutes
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'profile:write')
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const result = parseProfileUpdate(body ?? {})
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    const user = await prisma.user.update({
+      where: { id: auth.userId },
+      data: {
+        ...result.data,
+        // A journal entry is linked by its day in the user's timezone, so links are rebuilt
+        ...(result.data.timezone !== undefined && { linksRebuiltAt: null })
+      },
+      select: PROFILE_SELECT
+    })
+
+    return NextResponse.json(user)
+  } catch (error) {
+    console.error('Error updating profile:', error)
+    return NextResponse.json({
+      error: 'Failed to update profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,16 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit'
+import { decryptContent, decryptRecord, encryptContent } from '@/lib/encryption'
+import { indexNote } from '@/lib/search'
+import { claimAttachments, noteAttachmentIds } from '@/lib/attachments'
+import { attachmentIdsInContent } from '@/lib/attachment-constants'
+import { removeLinks, resolveLinksTo, updateLinks } from '@/lib/links'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'notes:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -18,7 +23,7 @@ export async function GET(
   const note = await prisma.note.findFirst({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     }
   })
 
@@ -26,31 +31,40 @@ export async function GET(
     return NextResponse.json({ error: 'Note not found' }, { status: 404 })
   }
 
-  return NextResponse.json(note)
+  return NextResponse.json(await decryptRecord(auth.userId, note))
 }
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'notes:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
   const body = await request.json()
-  const { title, content } = body
+  const { title, content, attachmentIds } = body
+
+  const previous = await prisma.note.findFirst({
+    where: { id, userId: auth.userId },
+    select: { content: true }
+  })
+
+  if (!previous) {
+    return NextResponse.json({ error: 'Note not found' }, { status: 404 })
+  }
 
   const note = await prisma.note.updateMany({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     },
     data: {
       ...(title && { title }),
-      ...(content && { content })
+      ...(content && { content: await encryptContent(auth.userId, content) })
     }
   })
 
@@ -58,7 +72,27 @@ export async function PUT(
     return NextResponse.json({ error: 'Note not found' }, { status: 404 })
   }
 
-  const updated = await prisma.note.findUnique({ where: { id } })
+  const updated = await decryptRecord(auth.userId, await prisma.note.findUniqueOrThrow({ where: { id } }))
+
+  if (title || content) {
+    await indexNote(auth.userId, id, updated.title, updated.content)
+  }
+
+  if (content) {
+    await updateLinks(auth.userId, { type: 'note', id }, updated.content)
+  }
+
+  if (title) {
+    await resolveLinksTo(auth.userId, { type: 'note', id })
+  }
+
+  await claimAttachments(
+    auth.userId,
+    noteAttachmentIds(updated.content, attachmentIds),
+    { noteId: id },
+    Array.isArray(attachmentIds) ? undefined : attachmentIdsInContent(await decryptContent(auth.userId, previous.content))
+  )
+
   return NextResponse.json(updated)
 }
 
@@ -66,10 +100,10 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'notes:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -77,7 +111,7 @@ export async function DELETE(
   const note = await prisma.note.deleteMany({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     }
   })
 
@@ -85,5 +119,14 @@ export async function DELETE(
     return NextResponse.json({ error: 'Note not found' }, { status: 404 })
   }
 
+  await removeLinks({ type: 'note', id })
+
+  await recordAuditEvent({
+    userId: auth.userId,
+    action: 'data.note_deleted',
+    resourceType: 'note',
+    resourceId: id
+  })
+
   return NextResponse.json({ success: true })
 }
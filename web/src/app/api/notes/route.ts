@@ -1,35 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { decryptRecords, encryptContent } from '@/lib/encryption'
+import { indexNote } from '@/lib/search'
+import { claimAttachments, noteAttachmentIds } from '@/lib/attachments'
+import { resolveLinksTo, updateLinks } from '@/lib/links'
+import { listResponse, pageQuery, paginate, parseListParams } from '@/lib/pagination'
 
-export async function GET() {
-  const session = await getServerSession(authOptions)
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'notes:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const params = parseListParams(request.nextUrl.searchParams, {
+    defaultLimit: 100,
+    sortFields: ['createdAt', 'updatedAt'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc'
+  })
+
+  if ('error' in params) {
+    return NextResponse.json({ error: params.error }, { status: 400 })
   }
 
   const notes = await prisma.note.findMany({
     where: {
-      userId: session.user.id
+      userId: auth.userId
     },
-    orderBy: { createdAt: 'desc' },
-    take: 100
+    ...pageQuery(params.data)
   })
 
-  return NextResponse.json(notes)
+  const { items, nextCursor } = paginate(notes, params.data.limit)
+  return listResponse(await decryptRecords(auth.userId, items), nextCursor)
 }
 
 export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'notes:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const body = await request.json()
-  const { title, content } = body
+  const { title, content, attachmentIds } = body
 
   if (!title || !content) {
     return NextResponse.json({ error: 'Title and content are required' }, { status: 400 })
@@ -37,11 +52,16 @@ export async function POST(request: NextRequest) {
 
   const note = await prisma.note.create({
     data: {
-      userId: session.user.id,
+      userId: auth.userId,
       title,
-      content
+      content: await encryptContent(auth.userId, content)
     }
   })
 
-  return NextResponse.json(note, { status: 201 })
+  await indexNote(auth.userId, note.id, title, content)
+  await claimAttachments(auth.userId, noteAttachmentIds(content, attachmentIds), { noteId: note.id })
+  await updateLinks(auth.userId, { type: 'note', id: note.id }, content)
+  await resolveLinksTo(auth.userId, { type: 'note', id: note.id })
+
+  return NextResponse.json({ ...note, content }, { status: 201 })
 }
@@ -3,9 +3,13 @@ import { timingSafeEqual } from 'crypto'
 import webpush from 'web-push'
 import { prisma } from '@/lib/prisma'
 import { anthropic, CLAUDE_MODEL } from '@/lib/anthropic'
+import { recordAuditEvent } from '@/lib/audit'
 import {
   EVENT_MESSAGE_GENERATION_SYSTEM_PROMPT,
-  buildEventMessagePrompt
+  UserPromptPreferences,
+  buildEventMessagePrompt,
+  buildUserPreferencesContext,
+  getTimeOfDay
 } from '@/lib/prompts/coach'
 
 // Configure web-push with VAPID keys
@@ -30,7 +34,7 @@ async function generateNotificationMessage(
   eventEndTime: Date | null,
   eventLocation: string | null,
   type: 'before' | 'after',
-  userName: string | null
+  user: UserPromptPreferences
 ): Promise<NotificationMessage> {
   const prompt = buildEventMessagePrompt(
     {
@@ -42,13 +46,13 @@ async function generateNotificationMessage(
       location: eventLocation
     },
     type,
-    userName
+    user.name
   )
 
   const response = await anthropic.messages.create({
     model: CLAUDE_MODEL,
     max_tokens: 256,
-    system: EVENT_MESSAGE_GENERATION_SYSTEM_PROMPT,
+    system: `${EVENT_MESSAGE_GENERATION_SYSTEM_PROMPT}\n\n${buildUserPreferencesContext(user)}`,
     messages: [{ role: 'user', content: prompt }]
   })
 
@@ -129,7 +133,7 @@ export async function POST(request: NextRequest) {
       include: {
         agendaItem: true,
         user: {
-          select: { name: true }
+          select: { name: true, timezone: true, preferredLanguage: true, coachTone: true }
         }
       }
     })
@@ -149,6 +153,13 @@ export async function POST(request: NextRequest) {
 
           if (!message) {
             // Generate message on-demand
+            await recordAuditEvent({
+              userId: notification.userId,
+              action: 'ai.event_message',
+              resourceType: 'agendaItem',
+              resourceId: notification.agendaItemId,
+              metadata: { model: CLAUDE_MODEL, type: 'before' }
+            })
             const generated = await generateNotificationMessage(
               notification.agendaItem.title,
               notification.agendaItem.description,
@@ -156,7 +167,7 @@ export async function POST(request: NextRequest) {
               notification.agendaItem.endTime,
               notification.agendaItem.location,
               'before',
-              notification.user?.name || null
+              notification.user
             )
             title = generated.title
             message = generated.body
@@ -216,7 +227,7 @@ export async function POST(request: NextRequest) {
               title,
               body: message,
               topicReference: `Event: ${notification.agendaItem.title}`,
-              timeOfDay: getTimeOfDay(now)
+              timeOfDay: getTimeOfDay(now, notification.user.timezone)
             }
           })
 
@@ -238,7 +249,7 @@ export async function POST(request: NextRequest) {
       include: {
         agendaItem: true,
         user: {
-          select: { name: true }
+          select: { name: true, timezone: true, preferredLanguage: true, coachTone: true }
         }
       }
     })
@@ -260,6 +271,13 @@ export async function POST(request: NextRequest) {
 
           if (!message) {
             // Generate message on-demand
+            await recordAuditEvent({
+              userId: notification.userId,
+              action: 'ai.event_message',
+              resourceType: 'agendaItem',
+              resourceId: notification.agendaItemId,
+              metadata: { model: CLAUDE_MODEL, type: 'after' }
+            })
             const generated = await generateNotificationMessage(
               notification.agendaItem.title,
               notification.agendaItem.description,
@@ -267,7 +285,7 @@ export async function POST(request: NextRequest) {
               notification.agendaItem.endTime,
               notification.agendaItem.location,
               'after',
-              notification.user?.name || null
+              notification.user
             )
             title = generated.title
             message = generated.body
@@ -327,7 +345,7 @@ export async function POST(request: NextRequest) {
               title,
               body: message,
               topicReference: `Event follow-up: ${notification.agendaItem.title}`,
-              timeOfDay: getTimeOfDay(now)
+              timeOfDay: getTimeOfDay(now, notification.user.timezone)
             }
           })
 
@@ -352,15 +370,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Helper function to determine time of day
-function getTimeOfDay(date: Date): string {
-  const hour = date.getHours()
-  if (hour >= 5 && hour < 12) return 'morning'
-  if (hour >= 12 && hour < 17) return 'afternoon'
-  if (hour >= 17 && hour < 21) return 'evening'
-  return 'night'
-}
-
 // GET /api/notifications/event - Get pending event notifications for a user
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
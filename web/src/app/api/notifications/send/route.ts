@@ -80,8 +80,10 @@ export async function POST(request: NextRequest) {
       // No custom payload provided, use defaults
     }
 
-    // Get all push subscriptions
-    const subscriptions = await prisma.pushSubscription.findMany()
+    // Get push subscriptions of users who haven't turned the daily reminder off
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { user: { remindersEnabled: true } }
+    })
 
     if (subscriptions.length === 0) {
       return NextResponse.json({ message: 'No subscribers', sent: 0 })
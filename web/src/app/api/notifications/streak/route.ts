@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { getTimeOfDay } from '@/lib/prompts/coach'
+import { dayInTimezone, hourInTimezone, startOfDay } from '@/lib/timezone'
+import { isWebPushConfigured, sendPushToUser } from '@/lib/web-push'
+import { computeStreaks, getJournalDays } from '@/lib/writing-stats'
+
+// Local hour from which a streak that hasn't been continued today is at risk
+const STREAK_REMINDER_HOUR = 20
+
+// Shorter streaks aren't worth a nudge
+const MIN_STREAK_DAYS = 2
+
+// SentNotification.topicReference of streak reminders, so only one is sent per day
+const STREAK_TOPIC = 'Streak'
+
+// POST /api/notifications/streak - Nudge users whose journaling streak ends tonight
+// This endpoint should be called by an external cron service (e.g., every hour)
+// Protected by CRON_SECRET environment variable
+export async function POST(request: NextRequest) {
+  // Verify cron secret for security
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET not configured')
+    return NextResponse.json(
+      { error: 'Server not configured for cron jobs' },
+      { status: 500 }
+    )
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+  const provided = Buffer.from(authHeader || '')
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isWebPushConfigured()) {
+    console.error('VAPID keys not configured')
+    return NextResponse.json(
+      { error: 'Push notifications not configured' },
+      { status: 500 }
+    )
+  }
+
+  const now = new Date()
+  const results = { sent: 0, errors: 0 }
+
+  try {
+    const users = await prisma.user.findMany({
+      where: { streakReminders: true, pushSubscriptions: { some: {} } },
+      select: { id: true, timezone: true }
+    })
+
+    for (const user of users) {
+      const timeZone = user.timezone ?? 'UTC'
+
+      if (hourInTimezone(now, timeZone) < STREAK_REMINDER_HOUR) {
+        continue
+      }
+
+      try {
+        const today = dayInTimezone(now, timeZone)
+        const alreadySent = await prisma.sentNotification.count({
+          where: {
+            userId: user.id,
+            topicReference: STREAK_TOPIC,
+            sentAt: { gte: startOfDay(today, timeZone) }
+          }
+        })
+
+        if (alreadySent) {
+          continue
+        }
+
+        const streak = computeStreaks(await getJournalDays(user.id, timeZone), today)
+
+        if (!streak.atRisk || streak.current < MIN_STREAK_DAYS) {
+          continue
+        }
+
+        const title = `Keep your ${streak.current}-day streak going`
+        const body = "You haven't journaled today yet. A few lines before midnight keeps your streak alive."
+
+        const delivered = await sendPushToUser(user.id, {
+          title,
+          body,
+          tag: 'streak-reminder',
+          data: { url: '/journal/new' }
+        })
+
+        if (delivered > 0) {
+          await prisma.sentNotification.create({
+            data: {
+              userId: user.id,
+              title,
+              body,
+              topicReference: STREAK_TOPIC,
+              timeOfDay: getTimeOfDay(now, timeZone)
+            }
+          })
+          results.sent++
+        }
+      } catch (error) {
+        console.error(`Error sending streak reminder to user ${user.id}:`, error)
+        results.errors++
+      }
+    }
+
+    return NextResponse.json({ message: 'Streak reminders processed', ...results })
+  } catch (error) {
+    console.error('Error processing streak reminders:', error)
+    return NextResponse.json(
+      { error: 'Failed to process streak reminders' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 
 // POST /api/notifications/subscribe - Save push subscription
 export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'notifications:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   try {
@@ -26,7 +25,7 @@ export async function POST(request: NextRequest) {
     const existing = await prisma.pushSubscription.findUnique({
       where: { endpoint }
     })
-    if (existing && existing.userId !== session.user.id) {
+    if (existing && existing.userId !== auth.userId) {
       return NextResponse.json(
         { error: 'Subscription endpoint already registered to another user' },
         { status: 409 }
@@ -36,7 +35,7 @@ export async function POST(request: NextRequest) {
     // Rate limiting: limit subscriptions per user (max 5)
     if (!existing) {
       const existingCount = await prisma.pushSubscription.count({
-        where: { userId: session.user.id }
+        where: { userId: auth.userId }
       })
       if (existingCount >= 5) {
         return NextResponse.json(
@@ -55,7 +54,7 @@ export async function POST(request: NextRequest) {
         updatedAt: new Date()
       },
       create: {
-        userId: session.user.id,
+        userId: auth.userId,
         endpoint,
         p256dh: keys.p256dh,
         auth: keys.auth
@@ -74,10 +73,10 @@ export async function POST(request: NextRequest) {
 
 // DELETE /api/notifications/subscribe - Remove push subscription
 export async function DELETE(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'notifications:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   try {
@@ -94,7 +93,7 @@ export async function DELETE(request: NextRequest) {
     await prisma.pushSubscription.deleteMany({
       where: {
         endpoint,
-        userId: session.user.id
+        userId: auth.userId
       }
     })
 
@@ -109,16 +108,16 @@ export async function DELETE(request: NextRequest) {
 }
 
 // GET /api/notifications/subscribe - Check subscription status
-export async function GET() {
-  const session = await getServerSession(authOptions)
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'notifications:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   try {
     const subscriptions = await prisma.pushSubscription.findMany({
-      where: { userId: session.user.id },
+      where: { userId: auth.userId },
       select: { id: true, endpoint: true, createdAt: true }
     })
 
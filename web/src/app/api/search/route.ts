@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate, canAccess } from '@/lib/api-auth'
+import {
+  SEARCH_QUERY_MAX_LENGTH,
+  SEARCH_RESULT_TYPES,
+  SEARCH_TYPE_SCOPES,
+  isSearchResultType,
+  searchUserContent
+} from '@/lib/search'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+
+// GET /api/search?q= - Full-text search across journal, notes, goals, tasks, chats and summaries
+// Query: q (required), types (comma separated, default all), limit (max 50)
+// API tokens only see the types they have read scopes for.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, Object.values(SEARCH_TYPE_SCOPES))
+
+    if (!auth.ok) {
+      return auth.response
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const query = searchParams.get('q')?.trim()
+    const typesParam = searchParams.get('types')
+    const limitParam = Number(searchParams.get('limit') ?? DEFAULT_LIMIT)
+
+    if (!query) {
+      return NextResponse.json({ error: 'Query is required' }, { status: 400 })
+    }
+
+    if (query.length > SEARCH_QUERY_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Query must be at most ${SEARCH_QUERY_MAX_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(limitParam) || limitParam < 1) {
+      return NextResponse.json({ error: 'Invalid limit' }, { status: 400 })
+    }
+
+    const requestedTypes = typesParam ? typesParam.split(',').map(type => type.trim()) : [...SEARCH_RESULT_TYPES]
+    const invalidType = requestedTypes.find(type => !isSearchResultType(type))
+    if (invalidType) {
+      return NextResponse.json({ error: `Invalid type: ${invalidType}` }, { status: 400 })
+    }
+
+    const types = SEARCH_RESULT_TYPES.filter(
+      type => requestedTypes.includes(type) && canAccess(auth, SEARCH_TYPE_SCOPES[type])
+    )
+
+    const results = await searchUserContent(auth.userId, query, types, Math.min(limitParam, MAX_LIMIT))
+
+    return NextResponse.json({ query, results })
+  } catch (error) {
+    console.error('Error searching:', error)
+    return NextResponse.json({
+      error: 'Failed to search',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
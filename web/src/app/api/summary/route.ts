@@ -1,37 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { listResponse, pageQuery, paginate, parseListParams } from '@/lib/pagination'
 
 // GET - Retrieve summaries for the current user (for sync/download)
 export async function GET(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'summaries:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const searchParams = request.nextUrl.searchParams
   const type = searchParams.get('type')
 
+  const params = parseListParams(searchParams, {
+    defaultLimit: 50,
+    sortFields: ['createdAt', 'startDate'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc'
+  })
+
+  if ('error' in params) {
+    return NextResponse.json({ error: params.error }, { status: 400 })
+  }
+
   const summaries = await prisma.summary.findMany({
     where: {
-      userId: session.user.id,
+      userId: auth.userId,
       ...(type ? { type } : {})
     },
-    orderBy: { createdAt: 'desc' },
-    take: 50
+    ...pageQuery(params.data)
   })
 
-  return NextResponse.json(summaries)
+  const { items, nextCursor } = paginate(summaries, params.data.limit)
+  return listResponse(items, nextCursor)
 }
 
 // POST - Create/sync a summary from the mobile app (for upload/backup)
 export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'summaries:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const body = await request.json()
@@ -55,7 +66,7 @@ export async function POST(request: NextRequest) {
     },
     create: {
       id,
-      userId: session.user.id,
+      userId: auth.userId,
       type,
       content,
       startDate: new Date(startDate),
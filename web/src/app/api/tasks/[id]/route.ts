@@ -1,16 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { removeLinks, resolveLinksTo, updateLinks } from '@/lib/links'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'tasks:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -18,7 +18,7 @@ export async function GET(
   const task = await prisma.task.findFirst({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     }
   })
 
@@ -33,10 +33,10 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'tasks:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -46,7 +46,7 @@ export async function PUT(
   const task = await prisma.task.updateMany({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     },
     data: {
       ...(title && { title }),
@@ -62,7 +62,16 @@ export async function PUT(
     return NextResponse.json({ error: 'Task not found' }, { status: 404 })
   }
 
-  const updated = await prisma.task.findUnique({ where: { id } })
+  const updated = await prisma.task.findUniqueOrThrow({ where: { id } })
+
+  if (description !== undefined) {
+    await updateLinks(auth.userId, { type: 'task', id }, updated.description)
+  }
+
+  if (title) {
+    await resolveLinksTo(auth.userId, { type: 'task', id })
+  }
+
   return NextResponse.json(updated)
 }
 
@@ -70,10 +79,10 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'tasks:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const { id } = await params
@@ -81,7 +90,7 @@ export async function DELETE(
   const task = await prisma.task.deleteMany({
     where: {
       id,
-      userId: session.user.id
+      userId: auth.userId
     }
   })
 
@@ -89,5 +98,7 @@ export async function DELETE(
     return NextResponse.json({ error: 'Task not found' }, { status: 404 })
   }
 
+  await removeLinks({ type: 'task', id })
+
   return NextResponse.json({ success: true })
 }
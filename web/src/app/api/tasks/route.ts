@@ -1,31 +1,55 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authenticate } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { resolveLinksTo, updateLinks } from '@/lib/links'
+import { listResponse, pageQuery, paginate, parseBooleanParam, parseListParams } from '@/lib/pagination'
 
-export async function GET() {
-  const session = await getServerSession(authOptions)
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'tasks:read')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const priority = searchParams.get('priority')
+  const goalId = searchParams.get('goal')
+  const completed = parseBooleanParam(searchParams.get('completed'))
+
+  if (completed === null) {
+    return NextResponse.json({ error: 'completed must be true or false' }, { status: 400 })
+  }
+
+  const params = parseListParams(searchParams, {
+    defaultLimit: 100,
+    sortFields: ['createdAt', 'updatedAt'],
+    defaultSort: 'createdAt',
+    defaultOrder: 'desc'
+  })
+
+  if ('error' in params) {
+    return NextResponse.json({ error: params.error }, { status: 400 })
   }
 
   const tasks = await prisma.task.findMany({
     where: {
-      userId: session.user.id
+      userId: auth.userId,
+      ...(priority ? { priority } : {}),
+      ...(goalId ? { linkedGoalId: goalId } : {}),
+      ...(completed !== undefined ? { isCompleted: completed } : {})
     },
-    orderBy: { createdAt: 'desc' },
-    take: 100
+    ...pageQuery(params.data)
   })
 
-  return NextResponse.json(tasks)
+  const { items, nextCursor } = paginate(tasks, params.data.limit)
+  return listResponse(items, nextCursor)
 }
 
 export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions)
+  const auth = await authenticate(request, 'tasks:write')
 
-  if (!session?.user?.id) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!auth.ok) {
+    return auth.response
   }
 
   const body = await request.json()
@@ -37,7 +61,7 @@ export async function POST(request: NextRequest) {
 
   const task = await prisma.task.create({
     data: {
-      userId: session.user.id,
+      userId: auth.userId,
       title,
       description: description || '',
       dueDate: dueDate ? new Date(dueDate) : null,
@@ -47,5 +71,8 @@ export async function POST(request: NextRequest) {
     }
   })
 
+  await updateLinks(auth.userId, { type: 'task', id: task.id }, task.description)
+  await resolveLinksTo(auth.userId, { type: 'task', id: task.id })
+
   return NextResponse.json(task, { status: 201 })
 }
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+// DELETE /api/tokens/[id] - Revoke a personal access token
+// The record is kept (with revokedAt set) so the token list shows its history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  const token = await prisma.personalAccessToken.updateMany({
+    where: {
+      id,
+      userId: session.user.id,
+      revokedAt: null
+    },
+    data: { revokedAt: new Date() }
+  })
+
+  if (token.count === 0) {
+    return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateApiToken } from '@/lib/api-auth'
+import { isTokenScope } from '@/lib/token-scopes'
+
+// Maximum active tokens per user
+const MAX_ACTIVE_TOKENS = 20
+
+// Fields that are safe to return - never the token hash
+const tokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true
+}
+
+// GET /api/tokens - List the user's personal access tokens
+// Token management requires a browser session; tokens cannot manage other tokens
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const tokens = await prisma.personalAccessToken.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: 'desc' },
+    select: tokenSelect
+  })
+
+  return NextResponse.json(tokens)
+}
+
+/**
+ * POST /api/tokens - Create a personal access token
+ *
+ * Request body:
+ * - name: Label for the token
+ * - scopes: Array of scopes, e.g. ['journal:read', 'tasks:write']
+ * - expiresInDays: Optional lifetime in days (omit for a non-expiring token)
+ *
+ * The raw token is returned once in `token` and cannot be retrieved again.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json()
+  const { name, scopes, expiresInDays } = body
+
+  if (!name || typeof name !== 'string' || name.length > 100) {
+    return NextResponse.json({ error: 'Name is required (max 100 characters)' }, { status: 400 })
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isTokenScope)) {
+    return NextResponse.json({ error: 'scopes must be a non-empty array of valid scopes' }, { status: 400 })
+  }
+
+  if (expiresInDays !== undefined && expiresInDays !== null &&
+      (typeof expiresInDays !== 'number' || expiresInDays < 1 || expiresInDays > 365)) {
+    return NextResponse.json({ error: 'expiresInDays must be between 1 and 365' }, { status: 400 })
+  }
+
+  const activeCount = await prisma.personalAccessToken.count({
+    where: {
+      userId: session.user.id,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    }
+  })
+  if (activeCount >= MAX_ACTIVE_TOKENS) {
+    return NextResponse.json(
+      { error: `Maximum active token limit reached (${MAX_ACTIVE_TOKENS})` },
+      { status: 429 }
+    )
+  }
+
+  const { token, tokenHash, tokenPrefix } = generateApiToken()
+
+  const accessToken = await prisma.personalAccessToken.create({
+    data: {
+      userId: session.user.id,
+      name,
+      tokenHash,
+      tokenPrefix,
+      scopes: Array.from(new Set(scopes)),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+    },
+    select: tokenSelect
+  })
+
+  return NextResponse.json({ ...accessToken, token }, { status: 201 })
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import Link from 'next/link'
+import { useState } from 'react'
+import {
+  AuthPageShell,
+  AuthMessage,
+  AUTH_INPUT_CLASSES,
+  AUTH_BUTTON_CLASSES,
+  AUTH_LINK_CLASSES
+} from '@/components/auth/AuthPageShell'
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState('')
+  const [sent, setSent] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const res = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+
+      if (res.ok) {
+        setSent(true)
+      } else {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || 'Something went wrong')
+      }
+    } catch {
+      setError('Something went wrong')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <AuthPageShell
+      title="Forgot password"
+      subtitle="Enter your email and we'll send you a link to choose a new password"
+    >
+      {sent ? (
+        <AuthMessage type="success">
+          If an account exists for {email}, a reset link is on its way. The link is valid for 1 hour.
+        </AuthMessage>
+      ) : (
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          {error && <AuthMessage type="error">{error}</AuthMessage>}
+
+          <div>
+            <label htmlFor="email" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2.5">
+              Email address
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={AUTH_INPUT_CLASSES}
+              placeholder="you@example.com"
+            />
+          </div>
+
+          <button type="submit" disabled={loading} className={AUTH_BUTTON_CLASSES}>
+            {loading ? 'Sending...' : 'Send reset link'}
+          </button>
+        </form>
+      )}
+
+      <div className="mt-8 text-center">
+        <Link href="/login" className={AUTH_LINK_CLASSES}>
+          Back to sign in
+        </Link>
+      </div>
+    </AuthPageShell>
+  )
+}
@@ -0,0 +1,9 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { RecordView } from '@/components/links/RecordView'
+
+export default function GoalPage() {
+  const params = useParams()
+  return <RecordView type="goal" id={params.id as string} />
+}
@@ -3,7 +3,12 @@
 import { useSession } from 'next-auth/react'
 import { useRouter, useParams } from 'next/navigation'
 import { useEffect, useState, useCallback } from 'react'
-import { FullPageJournalEditor } from '@/components/journal/FullPageJournalEditor'
+import { FullPageJournalEditor, JournalDraft } from '@/components/journal/FullPageJournalEditor'
+import { JournalRevisionHistory } from '@/components/journal/JournalRevisionHistory'
+import { TemplateEntryForm } from '@/components/journal/TemplateEntryForm'
+import { MentionedInPanel } from '@/components/links/MentionedInPanel'
+import { JournalTemplate, TemplateAnswers } from '@/lib/journal-template-schema'
+import { sendMutation } from '@/lib/offline-outbox'
 
 interface JournalEntry {
   id: string
@@ -11,6 +16,8 @@ interface JournalEntry {
   mood: string | null
   tags: string[]
   date: string
+  templateId: string | null
+  templateAnswers: TemplateAnswers | null
 }
 
 export default function JournalEntryPage() {
@@ -20,8 +27,17 @@ export default function JournalEntryPage() {
   const entryId = params.id as string
 
   const [entry, setEntry] = useState<JournalEntry | null>(null)
+  // Entries written from a template are edited through its form while the template exists
+  const [template, setTemplate] = useState<JournalTemplate | null>(null)
+  // Unsaved changes autosaved from the editor, here or on another device
+  const [draft, setDraft] = useState<JournalDraft | null>(null)
   const [loading, setLoading] = useState(true)
   const [fetchError, setFetchError] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showMentions, setShowMentions] = useState(false)
+  // Remounts the editor after a restore so it shows the restored text, and when a mention opens
+  // another entry on this same page
+  const [editorKey, setEditorKey] = useState(0)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -33,7 +49,14 @@ export default function JournalEntryPage() {
     try {
       const res = await fetch(`/api/journal/${entryId}`)
       if (res.ok) {
-        const data = await res.json()
+        const data: JournalEntry = await res.json()
+        // Offline only the entry itself may be available (see public/sw.js)
+        if (data.templateId && data.templateAnswers) {
+          const templateRes = await fetch(`/api/journal/templates/${data.templateId}`).catch(() => null)
+          setTemplate(templateRes?.ok ? await templateRes.json() : null)
+        }
+        const draftRes = await fetch(`/api/journal/drafts/${entryId}`).catch(() => null)
+        setDraft(draftRes?.ok ? await draftRes.json() : null)
         setEntry(data)
       } else if (res.status === 404) {
         setFetchError('Entry not found')
@@ -57,14 +80,10 @@ export default function JournalEntryPage() {
     }
   }, [session, entryId, fetchEntry])
 
-  const handleSave = async (data: { content: string; mood: string | null; tags: string[] }) => {
-    const res = await fetch(`/api/journal/${entryId}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data)
-    })
+  const handleSave = async (data: { content: string; mood: string | null; tags: string[]; draftVersion?: number }) => {
+    const res = await sendMutation(`/api/journal/${entryId}`, { method: 'PUT', body: data })
 
-    if (!res.ok) {
+    if (res && !res.ok) {
       const errorData = await res.json().catch(() => ({}))
       throw new Error(errorData.message || 'Failed to update entry')
     }
@@ -72,6 +91,25 @@ export default function JournalEntryPage() {
     return true
   }
 
+  const handleTemplateSave = async (data: { templateAnswers: TemplateAnswers; mood: string | null; tags: string[] }) => {
+    const res = await sendMutation(`/api/journal/${entryId}`, { method: 'PUT', body: data })
+
+    if (res && !res.ok) {
+      const errorData = await res.json().catch(() => ({}))
+      throw new Error(errorData.error || 'Failed to update entry')
+    }
+
+    return true
+  }
+
+  const handleRestored = async () => {
+    setShowHistory(false)
+    // The restored version replaces whatever was being drafted
+    await fetch(`/api/journal/drafts/${entryId}`, { method: 'DELETE' })
+    await fetchEntry()
+    setEditorKey(key => key + 1)
+  }
+
   if (status === 'loading' || loading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gradient-to-b from-amber-50/50 to-white dark:from-gray-950 dark:to-[#0f0f0f]">
@@ -102,12 +140,64 @@ export default function JournalEntryPage() {
   }
 
   return (
-    <FullPageJournalEditor
-      initialContent={entry.content}
-      initialMood={entry.mood || ''}
-      initialTags={entry.tags}
-      onSave={handleSave}
-      placeholder="Continue writing..."
-    />
+    <>
+      {template && entry.templateAnswers ? (
+        <TemplateEntryForm
+          key={`${entryId}:${editorKey}`}
+          template={template}
+          initialAnswers={entry.templateAnswers}
+          initialMood={entry.mood || ''}
+          initialTags={entry.tags}
+          onSave={handleTemplateSave}
+        />
+      ) : (
+        <FullPageJournalEditor
+          key={`${entryId}:${editorKey}`}
+          initialContent={entry.content}
+          initialMood={entry.mood || ''}
+          initialTags={entry.tags}
+          onSave={handleSave}
+          placeholder="Continue writing..."
+          draftKey={entryId}
+          draft={draft}
+        />
+      )}
+
+      {/* History button - next to the editor's back button */}
+      <button
+        onClick={() => setShowHistory(true)}
+        className="fixed top-4 left-16 z-[70] p-2 rounded-full bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border border-amber-200/50 dark:border-gray-700/50 text-amber-700 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-800 transition-colors shadow-lg"
+        title="Version history"
+        aria-label="Show version history"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </button>
+
+      {/* Mentioned in button - entries, notes, goals and tasks that [[link]] here */}
+      <button
+        onClick={() => setShowMentions(true)}
+        className="fixed top-4 left-28 z-[70] p-2 rounded-full bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border border-amber-200/50 dark:border-gray-700/50 text-amber-700 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-800 transition-colors shadow-lg"
+        title="Mentioned in"
+        aria-label="Show where this entry is mentioned"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+      </button>
+
+      {showHistory && (
+        <JournalRevisionHistory
+          entryId={entryId}
+          onClose={() => setShowHistory(false)}
+          onRestored={handleRestored}
+        />
+      )}
+
+      {showMentions && (
+        <MentionedInPanel type="journal" id={entryId} onClose={() => setShowMentions(false)} />
+      )}
+    </>
   )
 }
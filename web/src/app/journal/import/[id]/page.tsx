@@ -0,0 +1,242 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter, useParams } from 'next/navigation'
+import Link from 'next/link'
+import { useState, useEffect, useCallback } from 'react'
+import {
+  JOURNAL_IMPORT_SOURCE_LABELS,
+  JournalImportStatus,
+  isJournalImportSource
+} from '@/lib/journal-import-sources'
+
+interface PreviewEntry {
+  date: string
+  excerpt: string
+  mood: string | null
+  tags: string[]
+  sourceName: string
+  duplicate: boolean
+}
+
+interface JournalImport {
+  id: string
+  status: JournalImportStatus
+  source: string
+  fileName: string
+  total: number
+  processed: number
+  imported: number
+  duplicates: number
+  skipped: number
+  error: string | null
+  preview?: {
+    duplicates: number
+    entries: PreviewEntry[]
+  }
+}
+
+// How often to check on a running import
+const POLL_INTERVAL_MS = 2000
+
+export default function JournalImportProgressPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const params = useParams()
+  const importId = params.id as string
+
+  const [journalImport, setJournalImport] = useState<JournalImport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [committing, setCommitting] = useState(false)
+
+  const isRunning = journalImport?.status === 'PENDING' || journalImport?.status === 'PROCESSING'
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  const fetchImport = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/journal/import/${importId}`)
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load import')
+      }
+
+      setJournalImport(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load import')
+    }
+  }, [importId])
+
+  useEffect(() => {
+    if (session) {
+      fetchImport()
+    }
+  }, [session, fetchImport])
+
+  useEffect(() => {
+    if (!isRunning) return
+
+    const timer = setTimeout(fetchImport, POLL_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [isRunning, journalImport, fetchImport])
+
+  const handleCommit = async () => {
+    setCommitting(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/journal/import/${importId}/commit`, { method: 'POST' })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to start import')
+      }
+
+      setJournalImport(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start import')
+    } finally {
+      setCommitting(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    await fetch(`/api/journal/import/${importId}`, { method: 'DELETE' })
+    router.push('/journal/import')
+  }
+
+  if (status === 'loading' || (session && !journalImport && !error)) {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const sourceName = journalImport && isJournalImportSource(journalImport.source)
+    ? JOURNAL_IMPORT_SOURCE_LABELS[journalImport.source].name
+    : journalImport?.source
+  const progress = journalImport && journalImport.total > 0
+    ? Math.round((journalImport.processed / journalImport.total) * 100)
+    : 0
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link href="/journal" className="text-sm text-gray-500 dark:text-gray-400 hover:underline">
+        &larr; Back to journal
+      </Link>
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mt-4 mb-2">Import Journal</h1>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      {journalImport && (
+        <>
+          <p className="text-gray-500 dark:text-gray-400 mb-6">
+            {sourceName} &middot; {journalImport.fileName} &middot; {journalImport.total}{' '}
+            {journalImport.total === 1 ? 'entry' : 'entries'}
+            {journalImport.skipped > 0 && ` (${journalImport.skipped} without a date or text left out)`}
+          </p>
+
+          {journalImport.status === 'PARSED' && journalImport.preview && (
+            <div className="space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-violet-50 dark:bg-violet-900/20 border border-violet-200/50 dark:border-violet-800/50">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  {journalImport.total - journalImport.preview.duplicates} new{' '}
+                  {journalImport.total - journalImport.preview.duplicates === 1 ? 'entry' : 'entries'} will be added
+                  {journalImport.preview.duplicates > 0 && `; ${journalImport.preview.duplicates} already in your journal will be skipped`}.
+                </p>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={handleDiscard}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-gray-600 dark:text-gray-400 border-2 border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-all"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleCommit}
+                    disabled={committing}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-white bg-violet-600 hover:bg-violet-700 disabled:opacity-50 transition-all"
+                  >
+                    {committing ? 'Starting...' : 'Import entries'}
+                  </button>
+                </div>
+              </div>
+
+              <ul className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 divide-y divide-gray-100 dark:divide-gray-800">
+                {journalImport.preview.entries.map((entry, index) => (
+                  <li key={index} className={`p-4 ${entry.duplicate ? 'opacity-50' : ''}`}>
+                    <div className="flex items-center justify-between gap-4 mb-1">
+                      <time className="text-sm font-medium text-gray-900 dark:text-white">
+                        {new Date(entry.date).toLocaleDateString()}
+                      </time>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {entry.duplicate ? 'Already in your journal' : entry.sourceName}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">{entry.excerpt}</p>
+                    {(entry.mood || entry.tags.length > 0) && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-500">
+                        {[entry.mood, ...entry.tags.map(tag => `#${tag}`)].filter(Boolean).join(' ')}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {journalImport.total > journalImport.preview.entries.length && (
+                <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                  and {journalImport.total - journalImport.preview.entries.length} more
+                </p>
+              )}
+            </div>
+          )}
+
+          {journalImport.status !== 'PARSED' && (
+            <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6 space-y-4">
+              <div
+                className="h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden"
+                role="progressbar"
+                aria-valuenow={progress}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              >
+                <div className="h-full bg-violet-500 transition-all" style={{ width: `${progress}%` }} />
+              </div>
+
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {isRunning && `Importing... ${journalImport.processed} of ${journalImport.total} entries`}
+                {journalImport.status === 'COMPLETED' && `Done. ${journalImport.imported} ${journalImport.imported === 1 ? 'entry was' : 'entries were'} added to your journal.`}
+                {journalImport.status === 'FAILED' && `The import stopped: ${journalImport.error ?? 'unknown error'}. ${journalImport.imported} entries were added before that.`}
+              </p>
+              {journalImport.duplicates > 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {journalImport.duplicates} {journalImport.duplicates === 1 ? 'entry was' : 'entries were'} already in your journal and skipped.
+                </p>
+              )}
+
+              {!isRunning && (
+                <div className="flex gap-4 text-sm">
+                  <Link href="/journal" className="text-violet-600 dark:text-violet-400 hover:underline">Go to journal</Link>
+                  <Link href="/journal/import" className="text-violet-600 dark:text-violet-400 hover:underline">Import more</Link>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
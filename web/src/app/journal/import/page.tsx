@@ -0,0 +1,166 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useState, useEffect } from 'react'
+import {
+  JOURNAL_IMPORT_MAX_BYTES,
+  JOURNAL_IMPORT_SOURCES,
+  JOURNAL_IMPORT_SOURCE_LABELS,
+  JournalImportSource
+} from '@/lib/journal-import-sources'
+
+export default function JournalImportPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [source, setSource] = useState<JournalImportSource>('dayone')
+  const [files, setFiles] = useState<File[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  const totalSize = files.reduce((size, file) => size + file.size, 0)
+
+  const handleFiles = (list: FileList | null) => {
+    setFiles(list ? Array.from(list) : [])
+    setError(null)
+  }
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (files.length === 0) return
+
+    if (totalSize > JOURNAL_IMPORT_MAX_BYTES) {
+      setError(`The files are too large - the limit is ${JOURNAL_IMPORT_MAX_BYTES / 1024 / 1024} MB`)
+      return
+    }
+
+    setUploading(true)
+    setError(null)
+
+    try {
+      const form = new FormData()
+      form.append('source', source)
+      files.forEach(file => form.append('files', file))
+
+      const res = await fetch('/api/journal/import', { method: 'POST', body: form })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to read the files')
+      }
+
+      router.push(`/journal/import/${data.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the files')
+      setUploading(false)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const sourceInfo = JOURNAL_IMPORT_SOURCE_LABELS[source]
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link href="/journal" className="text-sm text-gray-500 dark:text-gray-400 hover:underline">
+        &larr; Back to journal
+      </Link>
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mt-4 mb-2">Import Journal</h1>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        Bring in entries from another app with their original dates. You&apos;ll see a preview before
+        anything is added, and entries already in your journal are skipped.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleUpload}
+        className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6 space-y-6"
+      >
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Import from</legend>
+          {JOURNAL_IMPORT_SOURCES.map((value) => (
+            <label
+              key={value}
+              className={`flex items-start gap-3 p-3 rounded-xl border-2 cursor-pointer transition-all ${
+                source === value
+                  ? 'border-violet-400 dark:border-violet-500 bg-violet-50 dark:bg-violet-900/30'
+                  : 'border-gray-200 dark:border-gray-700 hover:border-violet-300 dark:hover:border-violet-600'
+              }`}
+            >
+              <input
+                type="radio"
+                name="source"
+                value={value}
+                checked={source === value}
+                onChange={() => {
+                  setSource(value)
+                  setFiles([])
+                }}
+                className="mt-1"
+              />
+              <span>
+                <span className="block font-medium text-gray-900 dark:text-white">{JOURNAL_IMPORT_SOURCE_LABELS[value].name}</span>
+                <span className="block text-sm text-gray-500 dark:text-gray-400">{JOURNAL_IMPORT_SOURCE_LABELS[value].description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="space-y-2">
+          <label htmlFor="import-files" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Files
+          </label>
+          <input
+            key={source}
+            id="import-files"
+            type="file"
+            multiple
+            accept={sourceInfo.accept}
+            onChange={(e) => handleFiles(e.target.files)}
+            className="block w-full text-sm text-gray-600 dark:text-gray-400 file:mr-3 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-violet-50 dark:file:bg-violet-900/30 file:text-violet-600 dark:file:text-violet-400"
+          />
+          {source !== 'dayone' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              To import a whole folder, select all the files in it or upload it as a .zip.
+            </p>
+          )}
+          {files.length > 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {files.length} {files.length === 1 ? 'file' : 'files'}, {Math.max(1, Math.round(totalSize / 1024))} KB
+            </p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={files.length === 0 || uploading}
+          className="px-4 py-2 rounded-xl text-sm font-medium text-white bg-violet-600 hover:bg-violet-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {uploading ? 'Reading files...' : 'Preview import'}
+        </button>
+      </form>
+    </div>
+  )
+}
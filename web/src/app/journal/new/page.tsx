@@ -2,12 +2,21 @@
 
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
-import { useEffect } from 'react'
-import { FullPageJournalEditor } from '@/components/journal/FullPageJournalEditor'
+import { useEffect, useState } from 'react'
+import { FullPageJournalEditor, JournalDraft } from '@/components/journal/FullPageJournalEditor'
+import { TemplateEntryForm } from '@/components/journal/TemplateEntryForm'
+import { TemplatePicker } from '@/components/journal/TemplatePicker'
+import { JournalTemplate, TemplateAnswers } from '@/lib/journal-template-schema'
+import { sendMutation } from '@/lib/offline-outbox'
 
 export default function NewJournalEntryPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  const [templates, setTemplates] = useState<JournalTemplate[] | null>(null)
+  // undefined while choosing; null for a blank entry
+  const [selectedTemplate, setSelectedTemplate] = useState<JournalTemplate | null | undefined>(undefined)
+  // undefined while loading
+  const [draft, setDraft] = useState<JournalDraft | null | undefined>(undefined)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -15,14 +24,68 @@ export default function NewJournalEntryPage() {
     }
   }, [status, router])
 
-  const handleSave = async (data: { content: string; mood: string | null; tags: string[] }) => {
-    const res = await fetch('/api/journal', {
+  useEffect(() => {
+    if (!session) return
+
+    const fetchTemplates = async () => {
+      try {
+        const res = await fetch('/api/journal/templates')
+        if (!res.ok) throw new Error('Failed to load templates')
+        setTemplates(await res.json())
+      } catch (error) {
+        // Without templates there is nothing to choose, so go straight to the blank editor
+        console.error('Failed to fetch templates:', error)
+        setTemplates([])
+        setSelectedTemplate(null)
+      }
+    }
+
+    fetchTemplates()
+  }, [session])
+
+  // An entry started earlier, here or on another device, is picked up where it was left
+  useEffect(() => {
+    if (!session) return
+
+    const fetchDraft = async () => {
+      try {
+        const res = await fetch('/api/journal/drafts/new')
+        const data: JournalDraft | null = res.ok ? await res.json() : null
+        setDraft(data)
+        if (data) {
+          setSelectedTemplate(null)
+        }
+      } catch (error) {
+        console.error('Failed to fetch draft:', error)
+        setDraft(null)
+      }
+    }
+
+    fetchDraft()
+  }, [session])
+
+  const handleTemplateSave = async (data: { templateAnswers: TemplateAnswers; mood: string | null; tags: string[] }) => {
+    // Dated now, so an entry written offline keeps its date when it's sent later
+    const res = await sendMutation('/api/journal', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data)
+      body: { ...data, templateId: selectedTemplate!.id, date: new Date().toISOString() }
     })
 
-    if (!res.ok) {
+    if (res && !res.ok) {
+      const errorData = await res.json().catch(() => ({}))
+      throw new Error(errorData.error || 'Failed to create entry')
+    }
+
+    return true
+  }
+
+  const handleSave = async (data: { content: string; mood: string | null; tags: string[]; draftVersion?: number }) => {
+    const res = await sendMutation('/api/journal', {
+      method: 'POST',
+      body: { ...data, date: new Date().toISOString() }
+    })
+
+    if (res && !res.ok) {
       const errorData = await res.json().catch(() => ({}))
       throw new Error(errorData.message || 'Failed to create entry')
     }
@@ -30,7 +93,7 @@ export default function NewJournalEntryPage() {
     return true
   }
 
-  if (status === 'loading') {
+  if (status === 'loading' || (session && (templates === null || draft === undefined))) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gradient-to-b from-amber-50/50 to-white dark:from-gray-950 dark:to-[#0f0f0f]">
         <div className="flex flex-col items-center gap-4">
@@ -45,10 +108,20 @@ export default function NewJournalEntryPage() {
     return null
   }
 
+  if (selectedTemplate === undefined) {
+    return <TemplatePicker templates={templates ?? []} onSelect={setSelectedTemplate} />
+  }
+
+  if (selectedTemplate) {
+    return <TemplateEntryForm template={selectedTemplate} onSave={handleTemplateSave} />
+  }
+
   return (
     <FullPageJournalEditor
       onSave={handleSave}
       placeholder="Start writing..."
+      draftKey="new"
+      draft={draft}
     />
   )
 }
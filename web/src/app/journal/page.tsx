@@ -1,9 +1,13 @@
 'use client'
 
 import { useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
-import { useEffect, useState } from 'react'
-import { JournalEntryCard } from '@/components/journal/JournalEntryCard'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Suspense, useCallback, useEffect, useRef, useState } from 'react'
+import { JournalEntryCard, JournalEntryCardChanges } from '@/components/journal/JournalEntryCard'
+import { JournalExportDialog } from '@/components/journal/JournalExportDialog'
+import { htmlToPlainText } from '@/lib/html'
+import { OUTBOX_CHANGE_EVENT, listOutbox, sendMutation } from '@/lib/offline-outbox'
 
 interface JournalEntry {
   id: string
@@ -11,13 +15,41 @@ interface JournalEntry {
   mood: string | null
   tags: string[]
   date: string
+  suggestedMood?: string | null
+  suggestedTags?: string[]
 }
 
-export default function JournalPage() {
+// An entry written offline, waiting in the outbox to be sent
+interface QueuedEntry {
+  id: number
+  preview: string
+  queuedAt: string
+}
+
+const PAGE_SIZE = 20
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+function JournalPageContent() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  // Set when coming from a day in the dashboard's calendar
+  const day = useSearchParams().get('date')
+  const dayQuery = day ? `&day=${encodeURIComponent(day)}` : ''
   const [entries, setEntries] = useState<JournalEntry[]>([])
   const [loading, setLoading] = useState(true)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [queuedEntries, setQueuedEntries] = useState<QueuedEntry[]>([])
+  const sentinelRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -25,36 +57,102 @@ export default function JournalPage() {
     }
   }, [status, router])
 
+  const fetchEntries = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/journal?limit=${PAGE_SIZE}${dayQuery}`)
+      const data = await res.json()
+      // Offline, the service worker answers with an error unless the list was loaded here before
+      if (!res.ok) throw new Error(data.error || 'Failed to load entries')
+      setEntries(data)
+      setNextCursor(res.headers.get('X-Next-Cursor'))
+    } catch (error) {
+      console.error('Failed to fetch entries:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [dayQuery])
+
   useEffect(() => {
     if (session) {
       fetchEntries()
     }
-  }, [session])
+  }, [session, fetchEntries])
+
+  // Show entries written offline until they're sent, then the list as the server has it
+  useEffect(() => {
+    if (!session) return
+
+    const refreshQueued = async () => {
+      const items = await listOutbox().catch(() => [])
+      setQueuedEntries(items
+        .filter(item => item.method === 'POST' && item.url === '/api/journal' && item.body)
+        .map(item => ({
+          id: item.id,
+          // Template entries are queued as answers, with no content yet
+          preview: htmlToPlainText(JSON.parse(item.body!).content ?? '').slice(0, 200),
+          queuedAt: item.queuedAt
+        })))
+    }
+
+    const handleOutboxChange = () => {
+      refreshQueued()
+      if (navigator.onLine) {
+        fetchEntries()
+      }
+    }
 
-  const fetchEntries = async () => {
+    refreshQueued()
+    window.addEventListener(OUTBOX_CHANGE_EVENT, handleOutboxChange)
+    return () => window.removeEventListener(OUTBOX_CHANGE_EVENT, handleOutboxChange)
+  }, [session, fetchEntries])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return
+
+    setLoadingMore(true)
     try {
-      const res = await fetch('/api/journal')
+      const res = await fetch(`/api/journal?limit=${PAGE_SIZE}&cursor=${encodeURIComponent(nextCursor)}${dayQuery}`)
       const data = await res.json()
-      setEntries(data)
+      if (!res.ok) throw new Error(data.error || 'Failed to load entries')
+      setEntries(prev => [...prev, ...data])
+      setNextCursor(res.headers.get('X-Next-Cursor'))
     } catch (error) {
-      console.error('Failed to fetch entries:', error)
+      console.error('Failed to fetch more entries:', error)
     } finally {
-      setLoading(false)
+      setLoadingMore(false)
     }
-  }
+  }, [nextCursor, loadingMore, dayQuery])
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !nextCursor) return
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadMore()
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [nextCursor, loadMore])
 
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this entry?')) return
 
-    const res = await fetch(`/api/journal/${id}`, {
-      method: 'DELETE'
-    })
+    // Deleted offline, it's removed here now and on the server once the device reconnects
+    const res = await sendMutation(`/api/journal/${id}`, { method: 'DELETE' })
 
-    if (res.ok) {
+    if (!res || res.ok) {
       setEntries(entries.filter(e => e.id !== id))
     }
   }
 
+  const handleUpdate = (id: string, changes: JournalEntryCardChanges) => {
+    setEntries(prev => prev.map(e => e.id === id ? { ...e, ...changes } : e))
+  }
+
   if (status === 'loading' || loading) {
     return (
       <div className="flex items-center justify-center min-h-[80vh]">
@@ -91,15 +189,40 @@ export default function JournalPage() {
                 </p>
               </div>
             </div>
+            <nav className="flex items-center gap-4 text-sm" aria-label="Journal tools">
+              <Link href="/journal/templates" className="text-amber-600 dark:text-violet-400 hover:underline">
+                Templates
+              </Link>
+              <Link href="/journal/import" className="text-amber-600 dark:text-violet-400 hover:underline">
+                Import
+              </Link>
+              <button
+                onClick={() => setShowExport(true)}
+                className="text-amber-600 dark:text-violet-400 hover:underline"
+              >
+                Export
+              </button>
+            </nav>
           </div>
         </header>
 
         {/* Entries Section */}
         <section>
+          {day && (
+            <div className="flex items-center justify-between gap-3 mb-4 px-4 py-3 rounded-xl bg-amber-50 dark:bg-gray-900 border border-amber-100 dark:border-gray-800">
+              <span className="text-sm text-amber-800 dark:text-gray-300">
+                Entries from <span className="font-medium">{formatDay(day)}</span>
+              </span>
+              <Link href="/journal" className="text-sm text-amber-600 dark:text-violet-400 hover:underline shrink-0">
+                Show all entries
+              </Link>
+            </div>
+          )}
+
           {entries.length > 0 && (
             <div className="flex items-center justify-between mb-4">
               <span className="text-sm text-amber-600/60 dark:text-gray-500">
-                {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+                {entries.length}{nextCursor ? '+' : ''} {entries.length === 1 && !nextCursor ? 'entry' : 'entries'}
               </span>
               <button
                 onClick={() => router.push('/journal/new')}
@@ -114,7 +237,29 @@ export default function JournalPage() {
             </div>
           )}
 
-          {entries.length === 0 ? (
+          {queuedEntries.length > 0 && (
+            <div className="space-y-3 mb-3">
+              {queuedEntries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="p-4 rounded-2xl border border-dashed border-amber-200 dark:border-gray-700 bg-white/60 dark:bg-[#1a1a1a]/60"
+                >
+                  <p className="text-xs font-medium text-amber-600 dark:text-amber-400">
+                    Waiting to sync · written {new Date(entry.queuedAt).toLocaleString()}
+                  </p>
+                  <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 line-clamp-3">
+                    {entry.preview || 'Template entry'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {entries.length === 0 && day ? (
+            <p className="text-center py-12 text-amber-600/70 dark:text-gray-500">
+              You didn&apos;t write anything on this day.
+            </p>
+          ) : entries.length === 0 && queuedEntries.length === 0 ? (
             <div className="text-center py-16 px-6 bg-gradient-to-b from-amber-50/50 to-white dark:from-gray-900/50 dark:to-[#1a1a1a] rounded-2xl border border-amber-100 dark:border-gray-800 border-dashed">
               <div className="w-16 h-16 mx-auto mb-4 bg-amber-100 dark:bg-gray-800 rounded-full flex items-center justify-center">
                 <svg className="w-8 h-8 text-amber-400 dark:text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -147,13 +292,41 @@ export default function JournalPage() {
                   mood={entry.mood}
                   tags={entry.tags}
                   date={entry.date}
+                  suggestedMood={entry.suggestedMood}
+                  suggestedTags={entry.suggestedTags}
                   onDelete={handleDelete}
+                  onUpdate={handleUpdate}
                 />
               ))}
+              <div ref={sentinelRef} />
+              {loadingMore && (
+                <div className="flex justify-center py-4">
+                  <div className="w-6 h-6 border-2 border-amber-500 dark:border-violet-500 border-t-transparent rounded-full animate-spin" />
+                </div>
+              )}
             </div>
           )}
         </section>
       </div>
+
+      {showExport && (
+        <JournalExportDialog
+          suggestedTags={[...new Set(entries.flatMap(entry => entry.tags))].slice(0, 12)}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   )
 }
+
+export default function JournalPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="w-8 h-8 border-2 border-amber-500 dark:border-violet-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    }>
+      <JournalPageContent />
+    </Suspense>
+  )
+}
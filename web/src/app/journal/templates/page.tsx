@@ -0,0 +1,306 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useState, useEffect, useCallback } from 'react'
+import {
+  JournalTemplate,
+  TEMPLATE_FIELD_TYPES,
+  TEMPLATE_FIELD_TYPE_LABELS,
+  TEMPLATE_MAX_FIELDS,
+  TemplateField,
+  TemplateFieldType
+} from '@/lib/journal-template-schema'
+
+const INPUT_CLASSES = 'w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500'
+
+function newField(): TemplateField {
+  return { id: `field-${crypto.randomUUID().slice(0, 8)}`, label: '', type: 'text' }
+}
+
+export default function JournalTemplatesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [templates, setTemplates] = useState<JournalTemplate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [fields, setFields] = useState<TemplateField[]>([newField()])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const res = await fetch('/api/journal/templates')
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load templates')
+      }
+
+      setTemplates(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      fetchTemplates()
+    }
+  }, [session, fetchTemplates])
+
+  const updateField = (index: number, changes: Partial<TemplateField>) => {
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)))
+  }
+
+  const changeFieldType = (index: number, type: TemplateFieldType) => {
+    const { id, label, required, help } = fields[index]
+    updateField(index, { id, label, required, help, type, multiline: undefined, min: undefined, max: undefined })
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/journal/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description, fields })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create template')
+      }
+
+      setTemplates([...templates, data])
+      setName('')
+      setDescription('')
+      setFields([newField()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: JournalTemplate) => {
+    if (!confirm(`Delete "${template.name}"? Entries written with it are kept.`)) return
+
+    try {
+      const res = await fetch(`/api/journal/templates/${template.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to delete template')
+      }
+      setTemplates(templates.filter(t => t.id !== template.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template')
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link href="/journal" className="text-sm text-gray-500 dark:text-gray-400 hover:underline">
+        &larr; Back to journal
+      </Link>
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mt-4 mb-2">Journal Templates</h1>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        Templates ask a set of questions when you start a new entry. Your answers are saved with the entry.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 divide-y divide-gray-100 dark:divide-gray-800 mb-8">
+        {isLoading && <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Loading...</p>}
+
+        {templates.map((template) => (
+          <div key={template.id} className="p-4 flex items-start justify-between gap-4">
+            <div>
+              <p className="font-medium text-gray-900 dark:text-white">
+                {template.name}
+                {template.builtIn && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400">
+                    Built-in
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {template.fields.map(field => field.label).join(' · ')}
+              </p>
+            </div>
+            {!template.builtIn && (
+              <button
+                onClick={() => handleDelete(template)}
+                className="text-sm text-red-600 dark:text-red-400 hover:underline"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={handleCreate}
+        className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6 space-y-4"
+      >
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">New template</h2>
+
+        <div>
+          <label htmlFor="template-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+          <input
+            id="template-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            className={INPUT_CLASSES}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="template-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+          <input
+            id="template-description"
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className={INPUT_CLASSES}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Questions</p>
+          {fields.map((field, index) => (
+            <div key={field.id} className="p-3 rounded-xl border border-gray-200 dark:border-gray-700 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={field.label}
+                  onChange={(e) => updateField(index, { label: e.target.value })}
+                  placeholder="Question"
+                  required
+                  className={INPUT_CLASSES}
+                  aria-label={`Question ${index + 1}`}
+                />
+                <select
+                  value={field.type}
+                  onChange={(e) => changeFieldType(index, e.target.value as TemplateFieldType)}
+                  className="px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                  aria-label={`Answer type for question ${index + 1}`}
+                >
+                  {TEMPLATE_FIELD_TYPES.map(type => (
+                    <option key={type} value={type}>{TEMPLATE_FIELD_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                {fields.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                    className="px-2 text-gray-400 hover:text-red-500"
+                    aria-label={`Remove question ${index + 1}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+                {field.type !== 'checkbox' && (
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={field.required === true}
+                      onChange={(e) => updateField(index, { required: e.target.checked || undefined })}
+                    />
+                    Required
+                  </label>
+                )}
+                {field.type === 'text' && (
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={field.multiline === true}
+                      onChange={(e) => updateField(index, { multiline: e.target.checked || undefined })}
+                    />
+                    Long answer
+                  </label>
+                )}
+                {field.type === 'scale' && (
+                  <>
+                    <label className="flex items-center gap-1.5">
+                      From
+                      <input
+                        type="number"
+                        value={field.min ?? 1}
+                        onChange={(e) => updateField(index, { min: Number(e.target.value) })}
+                        className="w-16 px-2 py-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      to
+                      <input
+                        type="number"
+                        value={field.max ?? 10}
+                        onChange={(e) => updateField(index, { max: Number(e.target.value) })}
+                        className="w-16 px-2 py-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                      />
+                    </label>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {fields.length < TEMPLATE_MAX_FIELDS && (
+            <button
+              type="button"
+              onClick={() => setFields([...fields, newField()])}
+              className="text-sm text-violet-600 dark:text-violet-400 hover:underline"
+            >
+              + Add question
+            </button>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 rounded-xl text-sm font-medium text-white bg-violet-600 hover:bg-violet-700 disabled:opacity-50 transition-all"
+        >
+          {saving ? 'Creating...' : 'Create template'}
+        </button>
+      </form>
+    </div>
+  )
+}
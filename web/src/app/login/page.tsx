@@ -1,9 +1,13 @@
 'use client'
 
-import { signIn, useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { ClientSafeProvider, getProviders, getSession, signIn, useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
-import { useEffect, useState } from 'react'
+import { Suspense, useEffect, useState } from 'react'
+import { browserSupportsWebAuthn, startAuthentication } from '@simplewebauthn/browser'
+import { AUTH_ERRORS, getAuthErrorMessage } from '@/lib/auth-errors'
+import { AuthPageShell } from '@/components/auth/AuthPageShell'
+import { TwoFactorChallenge } from '@/components/auth/TwoFactorChallenge'
 
 const SparklesIcon = () => (
   <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -12,18 +16,37 @@ const SparklesIcon = () => (
 )
 
 export default function LoginPage() {
-  const { status } = useSession()
+  return (
+    <Suspense>
+      <LoginContent />
+    </Suspense>
+  )
+}
+
+function LoginContent() {
+  const { data: session, status } = useSession()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
-  const [error, setError] = useState('')
+  // OAuth failures come back as a redirect to /login?error=<code>
+  const [error, setError] = useState(searchParams.get('error') ? getAuthErrorMessage(searchParams.get('error')) : '')
   const [loading, setLoading] = useState(false)
+  const [oauthProviders, setOAuthProviders] = useState<ClientSafeProvider[]>([])
+  const [passkeySupported, setPasskeySupported] = useState(false)
 
   useEffect(() => {
-    if (status === 'authenticated') {
+    if (status === 'authenticated' && !session?.twoFactorPending) {
       router.push('/')
     }
-  }, [status, router])
+  }, [status, session, router])
+
+  useEffect(() => {
+    setPasskeySupported(browserSupportsWebAuthn())
+    getProviders().then((providers) => {
+      setOAuthProviders(Object.values(providers ?? {}).filter(provider => provider.type === 'oauth'))
+    })
+  }, [])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -38,8 +61,8 @@ export default function LoginPage() {
       })
 
       if (result?.error) {
-        setError('Invalid credentials')
-      } else {
+        setError(getAuthErrorMessage(result.error))
+      } else if (!(await getSession())?.twoFactorPending) {
         router.push('/')
       }
     } catch {
@@ -49,6 +72,38 @@ export default function LoginPage() {
     }
   }
 
+  const handlePasskeySignIn = async () => {
+    setError('')
+    setLoading(true)
+
+    try {
+      const optionsRes = await fetch('/api/auth/passkey/options', { method: 'POST' })
+      if (!optionsRes.ok) {
+        throw new Error('Failed to start passkey sign-in')
+      }
+
+      const response = await startAuthentication({ optionsJSON: await optionsRes.json() })
+
+      const result = await signIn('passkey', {
+        response: JSON.stringify(response),
+        redirect: false
+      })
+
+      if (result?.error) {
+        setError(getAuthErrorMessage(result.error))
+      } else {
+        router.push('/')
+      }
+    } catch (err) {
+      // The user dismissed the browser prompt
+      if (!(err instanceof Error && err.name === 'NotAllowedError')) {
+        setError(getAuthErrorMessage(AUTH_ERRORS.PASSKEY_FAILED))
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
   if (status === 'loading') {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50 dark:from-gray-900 dark:via-[#0f0f0f] dark:to-gray-900">
@@ -60,6 +115,17 @@ export default function LoginPage() {
     )
   }
 
+  if (session?.twoFactorPending) {
+    return (
+      <AuthPageShell
+        title="Two-factor authentication"
+        subtitle="Enter the 6-digit code from your authenticator app"
+      >
+        <TwoFactorChallenge />
+      </AuthPageShell>
+    )
+  }
+
   return (
     <div className="min-h-screen flex bg-gradient-to-br from-slate-50 via-white to-emerald-50/50 dark:from-[#0f0f0f] dark:via-[#0f0f0f] dark:to-[#0f0f0f]">
       {/* Left side - Branding */}
@@ -169,9 +235,17 @@ export default function LoginPage() {
             </div>
 
             <div>
-              <label htmlFor="password" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2.5">
-                Password
-              </label>
+              <div className="flex items-center justify-between mb-2.5">
+                <label htmlFor="password" className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  Password
+                </label>
+                <Link
+                  href="/forgot-password"
+                  className="text-sm font-medium text-emerald-600 dark:text-violet-400 hover:text-emerald-500 dark:hover:text-violet-300 transition-colors"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <input
                 id="password"
                 name="password"
@@ -181,7 +255,7 @@ export default function LoginPage() {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="block w-full px-5 py-4 border border-gray-200 dark:border-gray-700 rounded-2xl shadow-sm focus:ring-2 focus:ring-emerald-500/50 dark:focus:ring-violet-500/50 focus:border-emerald-400 dark:focus:border-violet-500 transition-all duration-300 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
-                placeholder="Enter any password"
+                placeholder="Enter your password"
               />
             </div>
 
@@ -209,6 +283,42 @@ export default function LoginPage() {
             </button>
           </form>
 
+          {passkeySupported && (
+            <button
+              type="button"
+              onClick={handlePasskeySignIn}
+              disabled={loading}
+              className="mt-4 w-full flex justify-center items-center gap-3 py-3.5 px-6 rounded-2xl border-2 border-emerald-400 dark:border-violet-500 text-base font-semibold text-emerald-700 dark:text-violet-300 hover:bg-emerald-50/50 dark:hover:bg-violet-900/20 disabled:opacity-50 transition-all duration-300"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M7.864 4.243A7.5 7.5 0 0119.5 10.5c0 2.92-.556 5.709-1.568 8.268M5.742 6.364A7.465 7.465 0 004.5 10.5a7.464 7.464 0 01-1.15 3.993m1.989 3.559A11.209 11.209 0 008.25 10.5a3.75 3.75 0 117.5 0c0 .527-.021 1.049-.064 1.565M12 10.5a14.94 14.94 0 01-3.6 9.75m6.633-4.596a18.666 18.666 0 01-2.485 5.33" />
+              </svg>
+              Sign in with passkey
+            </button>
+          )}
+
+          {oauthProviders.length > 0 && (
+            <div className="mt-8">
+              <div className="flex items-center gap-4 mb-6">
+                <div className="flex-1 h-px bg-gray-200 dark:bg-gray-700" />
+                <span className="text-sm text-gray-400 dark:text-gray-500">or continue with</span>
+                <div className="flex-1 h-px bg-gray-200 dark:bg-gray-700" />
+              </div>
+              <div className="space-y-3">
+                {oauthProviders.map((provider) => (
+                  <button
+                    key={provider.id}
+                    type="button"
+                    onClick={() => signIn(provider.id, { callbackUrl: '/' })}
+                    className="w-full py-3.5 px-6 rounded-2xl border border-gray-200 dark:border-gray-700 bg-white/80 dark:bg-gray-800/80 text-base font-semibold text-gray-700 dark:text-gray-200 hover:border-emerald-400 dark:hover:border-violet-500 hover:bg-emerald-50/50 dark:hover:bg-violet-900/20 shadow-sm transition-all duration-300"
+                  >
+                    {provider.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="mt-8 text-center">
             <p className="text-gray-500 dark:text-gray-400">
               Don&apos;t have an account?{' '}
@@ -220,22 +330,6 @@ export default function LoginPage() {
               </Link>
             </p>
           </div>
-
-          <div className="mt-8 p-5 bg-gradient-to-r from-emerald-50/80 via-green-50/80 to-teal-50/80 dark:from-violet-900/30 dark:via-purple-900/30 dark:to-indigo-900/30 rounded-2xl border border-emerald-100/50 dark:border-violet-800/30 shadow-sm backdrop-blur-sm">
-            <div className="flex items-start gap-4">
-              <div className="p-2 rounded-xl bg-gradient-to-br from-emerald-100 to-green-100 dark:from-violet-800/50 dark:to-purple-800/50 text-emerald-600 dark:text-violet-400 shadow-sm">
-                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-              </div>
-              <div>
-                <p className="text-sm font-semibold text-gray-800 dark:text-gray-200">Demo Mode</p>
-                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 leading-relaxed">
-                  Enter any email and password to create an account or log in instantly.
-                </p>
-              </div>
-            </div>
-          </div>
         </div>
       </div>
     </div>
@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { NotificationSettings } from '@/components/notifications/NotificationSettings'
+import { MoodInsights } from '@/components/insights/MoodInsights'
+import { WritingStats } from '@/components/insights/WritingStats'
 
 interface JournalEntry {
   id: string
@@ -154,6 +156,16 @@ export default function Dashboard() {
           </Link>
         </div>
 
+        {/* Streaks and writing habits */}
+        <div className="mb-8">
+          <WritingStats />
+        </div>
+
+        {/* Mood and tag trends */}
+        <div className="mb-12">
+          <MoodInsights />
+        </div>
+
         {/* Settings Section */}
         <div className="mb-12">
           <NotificationSettings />
@@ -0,0 +1,134 @@
+'use client'
+
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Suspense, useState } from 'react'
+import {
+  AuthPageShell,
+  AuthMessage,
+  AUTH_INPUT_CLASSES,
+  AUTH_BUTTON_CLASSES,
+  AUTH_LINK_CLASSES
+} from '@/components/auth/AuthPageShell'
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [done, setDone] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const res = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password })
+      })
+
+      if (res.ok) {
+        setDone(true)
+      } else {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || 'Something went wrong')
+      }
+    } catch {
+      setError('Something went wrong')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!token) {
+    return (
+      <AuthMessage type="error">
+        This reset link is missing its token. <Link href="/forgot-password" className="underline">Request a new link</Link>.
+      </AuthMessage>
+    )
+  }
+
+  if (done) {
+    return (
+      <AuthMessage type="success">
+        Your password has been updated. <Link href="/login" className="underline">Sign in</Link> with your new password.
+      </AuthMessage>
+    )
+  }
+
+  return (
+    <form className="space-y-5" onSubmit={handleSubmit}>
+      {error && <AuthMessage type="error">{error}</AuthMessage>}
+
+      <div>
+        <label htmlFor="password" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2.5">
+          New password
+        </label>
+        <input
+          id="password"
+          name="password"
+          type="password"
+          autoComplete="new-password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={AUTH_INPUT_CLASSES}
+          placeholder="At least 8 characters"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2.5">
+          Confirm new password
+        </label>
+        <input
+          id="confirmPassword"
+          name="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          required
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={AUTH_INPUT_CLASSES}
+          placeholder="Confirm your password"
+        />
+      </div>
+
+      <button type="submit" disabled={loading} className={AUTH_BUTTON_CLASSES}>
+        {loading ? 'Saving...' : 'Set new password'}
+      </button>
+    </form>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <AuthPageShell title="Choose a new password">
+      <Suspense fallback={null}>
+        <ResetPasswordForm />
+      </Suspense>
+
+      <div className="mt-8 text-center">
+        <Link href="/login" className={AUTH_LINK_CLASSES}>
+          Back to sign in
+        </Link>
+      </div>
+    </AuthPageShell>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { useEffect, useState, Suspense } from 'react'
+
+type ResultType = 'journal' | 'note' | 'goal' | 'task' | 'message' | 'summary'
+
+interface SearchResult {
+  type: ResultType
+  id: string
+  title: string | null
+  // HTML-escaped text; matches are wrapped in <mark>
+  snippet: string
+  date: string
+  url: string
+}
+
+const TYPE_LABELS: Record<ResultType, string> = {
+  journal: 'Journal',
+  note: 'Note',
+  goal: 'Goal',
+  task: 'Task',
+  message: 'Chat',
+  summary: 'Summary'
+}
+
+function SearchResultCard({ result }: { result: SearchResult }) {
+  return (
+    <Link
+      href={result.url}
+      className="block p-4 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm dark:shadow-black/20 border border-gray-200 dark:border-gray-800 hover:border-emerald-300 dark:hover:border-violet-700 transition-colors"
+    >
+      <div className="flex items-center justify-between gap-3 mb-1">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="shrink-0 px-2 py-0.5 rounded-lg text-xs font-medium bg-emerald-50 dark:bg-violet-900/30 text-emerald-700 dark:text-violet-300">
+            {TYPE_LABELS[result.type]}
+          </span>
+          {result.title && (
+            <span className="font-medium text-gray-900 dark:text-white truncate">{result.title}</span>
+          )}
+        </div>
+        <time className="shrink-0 text-xs text-gray-500 dark:text-gray-400">
+          {new Date(result.date).toLocaleDateString()}
+        </time>
+      </div>
+      <p
+        className="text-sm text-gray-600 dark:text-gray-400 [&_mark]:bg-amber-100 dark:[&_mark]:bg-violet-900/50 [&_mark]:text-inherit [&_mark]:rounded [&_mark]:px-0.5"
+        dangerouslySetInnerHTML={{ __html: result.snippet }}
+      />
+    </Link>
+  )
+}
+
+function SearchPageContent() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const query = searchParams.get('q') ?? ''
+  const [input, setInput] = useState(query)
+  const [results, setResults] = useState<SearchResult[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    if (!session || !query) return
+
+    const search = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`)
+        const data = await res.json()
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Search failed')
+        }
+
+        setResults(data.results)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Search failed')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    search()
+  }, [session, query])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = input.trim()
+    if (trimmed) {
+      router.push(`/search?q=${encodeURIComponent(trimmed)}`)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-6">Search</h1>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-6">
+        <input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder='Search your journal, notes, goals, tasks, chats and summaries'
+          autoFocus
+          className="flex-1 px-4 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-xl text-sm font-medium text-emerald-700 dark:text-violet-400 border-2 border-emerald-400 dark:border-violet-500 hover:bg-emerald-50 dark:hover:bg-violet-900/30 transition-all"
+        >
+          Search
+        </button>
+      </form>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 -mt-4 mb-6">
+        Use &quot;quotes&quot; for exact phrases, <code>or</code> for alternatives and <code>-word</code> to exclude a word.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center text-gray-500 dark:text-gray-400">Searching...</div>
+      ) : results && query && (
+        results.length === 0 ? (
+          <div className="text-center text-gray-500 dark:text-gray-400">No results for &quot;{query}&quot;</div>
+        ) : (
+          <div className="space-y-3">
+            {results.map((result) => (
+              <SearchResultCard key={`${result.type}-${result.id}`} result={result} />
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    }>
+      <SearchPageContent />
+    </Suspense>
+  )
+}
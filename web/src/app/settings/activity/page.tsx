@@ -0,0 +1,191 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useState, useEffect, useCallback } from 'react'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_CATEGORIES,
+  AUDIT_CATEGORY_LABELS,
+  AuditAction,
+  AuditCategory
+} from '@/lib/audit-actions'
+
+interface AuditEvent {
+  id: string
+  action: string
+  resourceType: string | null
+  resourceId: string | null
+  journalEntryIds: string[]
+  // Dates of the referenced entries that still exist
+  journalEntryDates: Record<string, string>
+  metadata: Record<string, unknown> | null
+  createdAt: string
+}
+
+function describeAction(action: string): string {
+  return AUDIT_ACTION_LABELS[action as AuditAction] ?? action
+}
+
+function describeMetadata(metadata: AuditEvent['metadata']): string | null {
+  if (!metadata) return null
+  if (typeof metadata.provider === 'string') return `via ${metadata.provider}`
+  if (metadata.twoFactor) return 'with two-factor authentication'
+  if (typeof metadata.format === 'string') return `${metadata.format.toUpperCase()} format`
+  if (typeof metadata.imported === 'number') return `${metadata.imported} added, ${metadata.duplicates ?? 0} already in your journal`
+  if (typeof metadata.model === 'string') return metadata.model
+  return null
+}
+
+export default function ActivityLogPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [category, setCategory] = useState<AuditCategory | ''>('')
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams()
+      if (category) params.set('category', category)
+      if (cursor) params.set('cursor', cursor)
+
+      const res = await fetch(`/api/me/audit?${params}`)
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load activity')
+      }
+
+      const page = data as AuditEvent[]
+      setEvents((prev) => (cursor ? [...prev, ...page] : page))
+      setNextCursor(res.headers.get('X-Next-Cursor'))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [category])
+
+  useEffect(() => {
+    if (session) {
+      fetchPage(null)
+    }
+  }, [session, fetchPage])
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link href="/settings" className="text-sm text-gray-500 dark:text-gray-400 hover:underline">
+        &larr; Back to settings
+      </Link>
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mt-4 mb-2">Activity Log</h1>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        A record of sign-ins, exports, imports and deletions on your account, and of every time journal content
+        was sent to Claude.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(['', ...AUDIT_CATEGORIES] as const).map((value) => (
+          <button
+            key={value || 'all'}
+            onClick={() => setCategory(value)}
+            className={`px-3 py-1.5 rounded-xl text-sm font-medium border-2 transition-all ${
+              category === value
+                ? 'border-violet-400 dark:border-violet-500 bg-violet-50 dark:bg-violet-900/30 text-violet-600 dark:text-violet-400'
+                : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-violet-300 dark:hover:border-violet-600'
+            }`}
+          >
+            {value ? AUDIT_CATEGORY_LABELS[value] : 'All'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 divide-y divide-gray-100 dark:divide-gray-800">
+        {events.length === 0 && !isLoading && (
+          <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No activity recorded yet.</p>
+        )}
+
+        {events.map((event) => {
+          const detail = describeMetadata(event.metadata)
+
+          return (
+            <div key={event.id} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">{describeAction(event.action)}</p>
+                  {detail && <p className="text-sm text-gray-500 dark:text-gray-400">{detail}</p>}
+                </div>
+                <time className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {new Date(event.createdAt).toLocaleString()}
+                </time>
+              </div>
+
+              {event.journalEntryIds.length > 0 && (
+                <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  <span>Journal entries included: </span>
+                  {event.journalEntryIds.map((id, index) => (
+                    <span key={id}>
+                      {index > 0 && ', '}
+                      {event.journalEntryDates[id] ? (
+                        <Link href={`/journal/${id}`} className="text-violet-600 dark:text-violet-400 hover:underline">
+                          {new Date(event.journalEntryDates[id]).toLocaleDateString()}
+                        </Link>
+                      ) : (
+                        <span className="italic">deleted entry</span>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {isLoading && (
+        <p className="mt-4 text-sm text-center text-gray-500 dark:text-gray-400">Loading...</p>
+      )}
+
+      {nextCursor && !isLoading && (
+        <div className="mt-4 text-center">
+          <button
+            onClick={() => fetchPage(nextCursor)}
+            className="px-4 py-2 rounded-xl text-sm font-medium text-violet-600 dark:text-violet-400 border-2 border-violet-400 dark:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-all"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useState, useEffect, useCallback } from 'react'
+
+interface DeletionStatus {
+  requestedAt: string | null
+  scheduledAt: string | null
+  graceDays: number
+  requiresPassword: boolean
+  requiresCode: boolean
+}
+
+const INPUT_CLASSES = 'w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white'
+
+export default function DeleteAccountPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [deletion, setDeletion] = useState<DeletionStatus | null>(null)
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch('/api/account/deletion')
+      if (res.ok) {
+        setDeletion(await res.json())
+      }
+    } catch (err) {
+      console.error('Failed to fetch deletion status:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      fetchStatus()
+    }
+  }, [session, fetchStatus])
+
+  const requestDeletion = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/account/deletion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password, code })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to delete account')
+      }
+
+      setPassword('')
+      setCode('')
+      fetchStatus()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const cancelDeletion = async () => {
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/account/deletion', { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to cancel deletion')
+      }
+      fetchStatus()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel deletion')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  if (status === 'loading' || (session && !deletion)) {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session || !deletion) {
+    return null
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link href="/settings" className="text-sm text-gray-500 dark:text-gray-400 hover:underline">
+        &larr; Back to settings
+      </Link>
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mt-4 mb-6">Delete Account</h1>
+
+      <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6">
+        {error && (
+          <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {deletion.scheduledAt ? (
+          <div className="space-y-4">
+            <p className="text-gray-700 dark:text-gray-300">
+              Your account is scheduled for deletion on{' '}
+              <strong>{new Date(deletion.scheduledAt).toLocaleString()}</strong>. After that, your journal,
+              conversations, summaries, tools, notes, goals, tasks and agenda are permanently removed and
+              can&apos;t be recovered.
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Until then you can keep using the app. API tokens were revoked when you requested deletion.
+            </p>
+            <button
+              onClick={cancelDeletion}
+              disabled={isProcessing}
+              className="px-4 py-2 rounded-xl text-sm font-medium text-violet-600 dark:text-violet-400 border-2 border-violet-400 dark:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isProcessing ? 'Cancelling...' : 'Keep my account'}
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={requestDeletion} className="space-y-4">
+            <p className="text-gray-700 dark:text-gray-300">
+              Your account and all of its data will be permanently deleted{' '}
+              {deletion.graceDays > 0
+                ? `after ${deletion.graceDays} day${deletion.graceDays === 1 ? '' : 's'}. You can cancel at any time before then.`
+                : 'shortly. This can’t be undone.'}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Want a copy first? <Link href="/settings" className="text-violet-600 dark:text-violet-400 hover:underline">Export your data</Link> from settings.
+            </p>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Type <strong>{session.user?.email}</strong> to confirm
+              </span>
+              <input
+                type="email"
+                required
+                autoComplete="off"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={`mt-1 ${INPUT_CLASSES}`}
+              />
+            </label>
+
+            {deletion.requiresPassword && (
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Password</span>
+                <input
+                  type="password"
+                  required
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={`mt-1 ${INPUT_CLASSES}`}
+                />
+              </label>
+            )}
+
+            {deletion.requiresCode && (
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Authenticator or recovery code</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  required
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className={`mt-1 ${INPUT_CLASSES} tracking-widest`}
+                />
+              </label>
+            )}
+
+            <button
+              type="submit"
+              disabled={isProcessing}
+              className="px-4 py-2 rounded-xl text-sm font-medium text-white bg-red-600 hover:bg-red-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isProcessing ? 'Deleting...' : 'Delete my account'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
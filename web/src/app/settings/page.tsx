@@ -0,0 +1,56 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Suspense, useEffect } from 'react'
+import { ActivityLogSettings } from '@/components/settings/ActivityLogSettings'
+import { ApiTokenSettings } from '@/components/settings/ApiTokenSettings'
+import { DataExportSettings } from '@/components/settings/DataExportSettings'
+import { DeleteAccountSettings } from '@/components/settings/DeleteAccountSettings'
+import { LinkedIdentitySettings } from '@/components/settings/LinkedIdentitySettings'
+import { TwoFactorSettings } from '@/components/settings/TwoFactorSettings'
+import { PasskeySettings } from '@/components/settings/PasskeySettings'
+import { ProfileSettings } from '@/components/settings/ProfileSettings'
+
+export default function SettingsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Settings</h1>
+      <p className="text-gray-500 dark:text-gray-400 mb-8">{session.user?.email}</p>
+
+      <div className="space-y-6">
+        <ProfileSettings />
+        <PasskeySettings />
+        <TwoFactorSettings />
+        <Suspense>
+          <LinkedIdentitySettings />
+        </Suspense>
+        <ApiTokenSettings />
+        <DataExportSettings />
+        <ActivityLogSettings />
+        <DeleteAccountSettings />
+      </div>
+    </div>
+  )
+}
@@ -35,14 +35,26 @@ export default function SignUpPage() {
       return
     }
 
-    if (password.length < 4) {
-      setError('Password must be at least 4 characters')
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters')
       return
     }
 
     setLoading(true)
 
     try {
+      const res = await fetch('/api/auth/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      })
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || 'Something went wrong. Please try again.')
+        return
+      }
+
       const result = await signIn('credentials', {
         email,
         password,
@@ -50,7 +62,7 @@ export default function SignUpPage() {
       })
 
       if (result?.error) {
-        setError('Something went wrong. Please try again.')
+        setError('Account created, but sign-in failed. Please sign in manually.')
       } else {
         router.push('/')
       }
@@ -193,7 +205,7 @@ export default function SignUpPage() {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="block w-full px-5 py-4 border border-gray-200 dark:border-gray-700 rounded-2xl shadow-sm focus:ring-2 focus:ring-emerald-500/50 dark:focus:ring-violet-500/50 focus:border-emerald-400 dark:focus:border-violet-500 transition-all duration-300 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
-                placeholder="Create a password"
+                placeholder="At least 8 characters"
               />
             </div>
 
@@ -249,22 +261,6 @@ export default function SignUpPage() {
               </Link>
             </p>
           </div>
-
-          <div className="mt-8 p-5 bg-gradient-to-r from-emerald-50/80 via-green-50/80 to-teal-50/80 dark:from-violet-900/30 dark:via-purple-900/30 dark:to-indigo-900/30 rounded-2xl border border-emerald-100/50 dark:border-violet-800/30 shadow-sm backdrop-blur-sm">
-            <div className="flex items-start gap-4">
-              <div className="p-2 rounded-xl bg-gradient-to-br from-emerald-100 to-green-100 dark:from-violet-800/50 dark:to-purple-800/50 text-emerald-600 dark:text-violet-400 shadow-sm">
-                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-              </div>
-              <div>
-                <p className="text-sm font-semibold text-gray-800 dark:text-gray-200">Demo Mode</p>
-                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 leading-relaxed">
-                  Enter any email and password to create your account instantly.
-                </p>
-              </div>
-            </div>
-          </div>
         </div>
       </div>
     </div>
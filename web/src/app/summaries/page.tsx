@@ -46,6 +46,15 @@ export default function SummariesPage() {
     }
   }, [session])
 
+  // Search results link to #summary-<id>; expand and scroll to it once the list has loaded
+  useEffect(() => {
+    const id = window.location.hash.replace('#summary-', '')
+    if (!id || !summaries.some(summary => summary.id === id)) return
+
+    setExpandedIds(prev => new Set(prev).add(id))
+    document.getElementById(`summary-${id}`)?.scrollIntoView({ behavior: 'smooth' })
+  }, [summaries])
+
   const fetchSummaries = async () => {
     try {
       const res = await fetch('/api/summary')
@@ -131,7 +140,8 @@ export default function SummariesPage() {
             return (
               <div
                 key={summary.id}
-                className="bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm dark:shadow-black/20 border border-gray-200 dark:border-gray-800 overflow-hidden"
+                id={`summary-${summary.id}`}
+                className="scroll-mt-24 bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm dark:shadow-black/20 border border-gray-200 dark:border-gray-800 overflow-hidden"
               >
                 <button
                   onClick={() => toggleExpanded(summary.id)}
@@ -0,0 +1,72 @@
+'use client'
+
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Suspense, useEffect, useRef, useState } from 'react'
+import { AuthPageShell, AuthMessage, AUTH_LINK_CLASSES } from '@/components/auth/AuthPageShell'
+
+type VerifyStatus = 'verifying' | 'verified' | 'error'
+
+function VerifyEmailStatus() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'error')
+  const [error, setError] = useState(token ? '' : 'This verification link is missing its token.')
+  // Tokens are single use, so guard against the effect running twice in development
+  const requested = useRef(false)
+
+  useEffect(() => {
+    if (!token || requested.current) return
+    requested.current = true
+
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+      .then(async (res) => {
+        if (res.ok) {
+          setStatus('verified')
+        } else {
+          const data = await res.json().catch(() => ({}))
+          setError(data.error || 'Failed to verify email')
+          setStatus('error')
+        }
+      })
+      .catch(() => {
+        setError('Failed to verify email')
+        setStatus('error')
+      })
+  }, [token])
+
+  if (status === 'verifying') {
+    return (
+      <div className="flex flex-col items-center gap-4">
+        <div className="w-8 h-8 border-2 border-emerald-500 dark:border-violet-500 border-t-transparent rounded-full animate-spin" />
+        <p className="text-gray-500 dark:text-gray-400">Verifying your email...</p>
+      </div>
+    )
+  }
+
+  if (status === 'verified') {
+    return <AuthMessage type="success">Your email address has been verified. Thank you!</AuthMessage>
+  }
+
+  return <AuthMessage type="error">{error}</AuthMessage>
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <AuthPageShell title="Email verification">
+      <Suspense fallback={null}>
+        <VerifyEmailStatus />
+      </Suspense>
+
+      <div className="mt-8 text-center">
+        <Link href="/" className={AUTH_LINK_CLASSES}>
+          Continue to Personal Coach
+        </Link>
+      </div>
+    </AuthPageShell>
+  )
+}
@@ -0,0 +1,64 @@
+'use client'
+
+import { ReactNode } from 'react'
+
+const SparklesIcon = () => (
+  <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09zM18.259 8.715L18 9.75l-.259-1.035a3.375 3.375 0 00-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 002.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 002.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 00-2.456 2.456zM16.894 20.567L16.5 21.75l-.394-1.183a2.25 2.25 0 00-1.423-1.423L13.5 18.75l1.183-.394a2.25 2.25 0 001.423-1.423l.394-1.183.394 1.183a2.25 2.25 0 001.423 1.423l1.183.394-1.183.394a2.25 2.25 0 00-1.423 1.423z" />
+  </svg>
+)
+
+// Shared input and button styling for the auth forms (matches login/signup)
+export const AUTH_INPUT_CLASSES = 'block w-full px-5 py-4 border border-gray-200 dark:border-gray-700 rounded-2xl shadow-sm focus:ring-2 focus:ring-emerald-500/50 dark:focus:ring-violet-500/50 focus:border-emerald-400 dark:focus:border-violet-500 transition-all duration-300 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500'
+
+export const AUTH_BUTTON_CLASSES = 'w-full flex justify-center items-center gap-3 py-4 px-6 border border-transparent rounded-2xl shadow-xl text-base font-semibold text-white bg-gradient-to-r from-emerald-600 via-green-600 to-teal-600 dark:from-violet-600 dark:via-purple-600 dark:to-indigo-600 hover:from-emerald-700 hover:via-green-700 hover:to-teal-700 dark:hover:from-violet-700 dark:hover:via-purple-700 dark:hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 dark:focus:ring-violet-500 dark:focus:ring-offset-gray-900 disabled:opacity-50 transition-all duration-500'
+
+export const AUTH_LINK_CLASSES = 'font-semibold text-emerald-600 dark:text-violet-400 hover:text-emerald-500 dark:hover:text-violet-300 transition-colors'
+
+interface AuthPageShellProps {
+  title: string
+  subtitle?: string
+  children: ReactNode
+}
+
+export function AuthPageShell({ title, subtitle, children }: AuthPageShellProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-gradient-to-br from-slate-50 via-white to-emerald-50/50 dark:from-[#0f0f0f] dark:via-[#0f0f0f] dark:to-[#0f0f0f]">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-4 mb-10">
+          <div className="p-3 rounded-2xl bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 dark:from-violet-500 dark:via-purple-500 dark:to-indigo-500 text-white shadow-xl shadow-emerald-300/40 dark:shadow-violet-500/20">
+            <SparklesIcon />
+          </div>
+          <span className="text-2xl font-bold bg-gradient-to-r from-emerald-600 via-green-600 to-teal-600 dark:from-violet-400 dark:via-purple-400 dark:to-indigo-400 bg-clip-text text-transparent">
+            Personal Coach
+          </span>
+        </div>
+
+        <div className="text-center mb-10">
+          <h2 className="text-3xl font-extrabold text-gray-900 dark:text-white tracking-tight">
+            {title}
+          </h2>
+          {subtitle && (
+            <p className="mt-4 text-gray-500 dark:text-gray-400">
+              {subtitle}
+            </p>
+          )}
+        </div>
+
+        {children}
+      </div>
+    </div>
+  )
+}
+
+export function AuthMessage({ type, children }: { type: 'error' | 'success'; children: ReactNode }) {
+  const classes = type === 'error'
+    ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 border-red-100 dark:border-red-800/50'
+    : 'bg-emerald-50 dark:bg-violet-900/30 text-emerald-700 dark:text-violet-300 border-emerald-100 dark:border-violet-800/50'
+
+  return (
+    <div className={`p-4 rounded-2xl text-sm border shadow-sm ${classes}`}>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { signOut, useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import {
+  AuthMessage,
+  AUTH_INPUT_CLASSES,
+  AUTH_BUTTON_CLASSES,
+  AUTH_LINK_CLASSES
+} from '@/components/auth/AuthPageShell'
+
+// Second sign-in step for accounts with two-factor enabled; the code is checked in the jwt callback
+export function TwoFactorChallenge() {
+  const { update } = useSession()
+  const router = useRouter()
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const session = await update({ twoFactorCode: code })
+
+      if (session?.twoFactorPending) {
+        setError('Invalid code. Please try again.')
+        setCode('')
+      } else if (session?.user?.id) {
+        router.push('/')
+      } else {
+        // The challenge expired or the account got locked - start over
+        await signOut({ redirect: false })
+        router.replace('/login?error=TwoFactorExpired')
+      }
+    } catch {
+      setError('Something went wrong')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form className="space-y-5" onSubmit={handleSubmit}>
+      {error && <AuthMessage type="error">{error}</AuthMessage>}
+
+      <div>
+        <label htmlFor="code" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2.5">
+          Authentication code
+        </label>
+        <input
+          id="code"
+          name="code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          autoFocus
+          required
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className={`${AUTH_INPUT_CLASSES} tracking-widest`}
+          placeholder="123456"
+        />
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          Lost your device? Enter one of your recovery codes instead.
+        </p>
+      </div>
+
+      <button type="submit" disabled={loading} className={AUTH_BUTTON_CLASSES}>
+        {loading ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <p className="text-center text-gray-500 dark:text-gray-400">
+        <button
+          type="button"
+          onClick={() => signOut({ callbackUrl: '/login' })}
+          className={AUTH_LINK_CLASSES}
+        >
+          Use a different account
+        </button>
+      </p>
+    </form>
+  )
+}
@@ -0,0 +1,317 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface MoodBucket {
+  entries: number
+  averageMood: number | null
+  averageSentiment: number | null
+  moods: Record<string, number>
+}
+
+interface MoodInsightsData {
+  from: string
+  to: string
+  scale: { mood: string; emoji: string; score: number }[]
+  summary: MoodBucket
+  days: (MoodBucket & { date: string })[]
+  weeks: (MoodBucket & { start: string })[]
+  tags: { tag: string; total: number; weeks: number[] }[]
+}
+
+const RANGES = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '3 months' },
+  { days: 365, label: 'Year' }
+] as const
+
+// Chart colors per mood, matching the mood badges
+const MOOD_FILLS: Record<string, string> = {
+  Great: 'fill-emerald-400 dark:fill-emerald-500',
+  Good: 'fill-blue-400 dark:fill-blue-500',
+  Okay: 'fill-amber-400 dark:fill-amber-500',
+  Struggling: 'fill-orange-400 dark:fill-orange-500',
+  Difficult: 'fill-red-400 dark:fill-red-500'
+}
+
+const MOOD_SWATCHES: Record<string, string> = {
+  Great: 'bg-emerald-400 dark:bg-emerald-500',
+  Good: 'bg-blue-400 dark:bg-blue-500',
+  Okay: 'bg-amber-400 dark:bg-amber-500',
+  Struggling: 'bg-orange-400 dark:bg-orange-500',
+  Difficult: 'bg-red-400 dark:bg-red-500'
+}
+
+// Heatmap shades by number of entries that day: none, 1, 2, 3+
+const HEATMAP_SHADES = [
+  'bg-gray-100 dark:bg-gray-800',
+  'bg-emerald-200 dark:bg-violet-900',
+  'bg-emerald-400 dark:bg-violet-700',
+  'bg-emerald-600 dark:bg-violet-500'
+]
+
+const WEEKDAYS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+
+// Today and the day N-1 days earlier, in the browser's timezone
+function rangeEndingToday(days: number): { from: string; to: string } {
+  const today = new Date()
+  const start = new Date(today)
+  start.setDate(start.getDate() - (days - 1))
+  const format = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  return { from: format(start), to: format(today) }
+}
+
+function formatDay(day: string, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString('en-US', options)
+}
+
+function moodLabel(averageMood: number | null, scale: MoodInsightsData['scale']): string {
+  if (averageMood === null) return 'no mood'
+  const nearest = scale.reduce((best, option) =>
+    Math.abs(option.score - averageMood) < Math.abs(best.score - averageMood) ? option : best)
+  return `${nearest.emoji} ${averageMood.toFixed(1)}`
+}
+
+function MoodByWeekChart({ data }: { data: MoodInsightsData }) {
+  const width = 600
+  const height = 160
+  const barGap = 2
+  const maxEntries = Math.max(1, ...data.weeks.map(week => week.entries))
+  const barWidth = width / data.weeks.length
+  const maxScore = Math.max(...data.scale.map(option => option.score))
+  const minScore = Math.min(...data.scale.map(option => option.score))
+
+  // Average mood per week, as a line over the bars
+  const points = data.weeks.flatMap((week, index) => week.averageMood === null ? [] : [
+    `${index * barWidth + barWidth / 2},${height - ((week.averageMood - minScore) / (maxScore - minScore)) * (height - 8) - 4}`
+  ])
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" preserveAspectRatio="none" role="img" aria-label="Entries per week by mood, with the average mood as a line">
+      {data.weeks.map((week, index) => {
+        let y = height
+        const untracked = week.entries - Object.values(week.moods).reduce((sum, count) => sum + count, 0)
+        const segments = [
+          ...data.scale.map(option => ({ key: option.mood, count: week.moods[option.mood] ?? 0, className: MOOD_FILLS[option.mood] })),
+          { key: 'none', count: untracked, className: 'fill-gray-200 dark:fill-gray-700' }
+        ]
+
+        return (
+          <g key={week.start}>
+            <title>{`Week of ${formatDay(week.start)}: ${week.entries} ${week.entries === 1 ? 'entry' : 'entries'}, ${moodLabel(week.averageMood, data.scale)}`}</title>
+            {segments.map(segment => {
+              const segmentHeight = (segment.count / maxEntries) * (height - 8)
+              y -= segmentHeight
+              return segment.count > 0 && (
+                <rect
+                  key={segment.key}
+                  x={index * barWidth + barGap / 2}
+                  y={y}
+                  width={Math.max(1, barWidth - barGap)}
+                  height={segmentHeight}
+                  className={segment.className}
+                />
+              )
+            })}
+          </g>
+        )
+      })}
+      {points.length > 1 && (
+        <polyline
+          points={points.join(' ')}
+          fill="none"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="stroke-gray-700 dark:stroke-gray-200"
+        />
+      )}
+    </svg>
+  )
+}
+
+function CalendarHeatmap({ data, onSelectDay }: { data: MoodInsightsData; onSelectDay: (day: string) => void }) {
+  // Pad the first week so rows line up with weekdays (Monday first)
+  const leadingDays = (new Date(`${data.from}T00:00:00`).getDay() + 6) % 7
+  const cells: (MoodInsightsData['days'][number] | null)[] = [...Array(leadingDays).fill(null), ...data.days]
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      <div className="grid grid-rows-7 gap-1 text-[10px] leading-3 text-gray-400 dark:text-gray-500 shrink-0" aria-hidden="true">
+        {WEEKDAYS.map((weekday, index) => <span key={index} className="h-3">{weekday}</span>)}
+      </div>
+      <div className="grid grid-rows-7 grid-flow-col gap-1">
+        {cells.map((day, index) => day ? (
+          <button
+            key={day.date}
+            onClick={() => onSelectDay(day.date)}
+            disabled={day.entries === 0}
+            title={`${formatDay(day.date, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}: ${day.entries} ${day.entries === 1 ? 'entry' : 'entries'}${day.entries > 0 ? `, ${moodLabel(day.averageMood, data.scale)}` : ''}`}
+            aria-label={`${formatDay(day.date, { month: 'long', day: 'numeric' })}, ${day.entries} ${day.entries === 1 ? 'entry' : 'entries'}`}
+            className={`w-3 h-3 rounded-sm ${HEATMAP_SHADES[Math.min(day.entries, HEATMAP_SHADES.length - 1)]} enabled:hover:ring-2 enabled:hover:ring-emerald-500 dark:enabled:hover:ring-violet-400 enabled:cursor-pointer`}
+          />
+        ) : (
+          <span key={`pad-${index}`} className="w-3 h-3" />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function TagTrend({ tag, data }: { tag: MoodInsightsData['tags'][number]; data: MoodInsightsData }) {
+  const width = 120
+  const height = 24
+  const max = Math.max(1, ...tag.weeks)
+  const step = tag.weeks.length > 1 ? width / (tag.weeks.length - 1) : 0
+  const points = tag.weeks.map((count, index) => `${index * step},${height - (count / max) * (height - 2) - 1}`)
+
+  return (
+    <li className="flex items-center gap-3">
+      <span className="w-28 truncate text-sm text-gray-700 dark:text-gray-300">#{tag.tag}</span>
+      <svg viewBox={`0 0 ${width} ${height}`} className="flex-1 h-6" preserveAspectRatio="none" role="img" aria-label={`#${tag.tag} per week since ${formatDay(data.from)}`}>
+        <polyline
+          points={points.join(' ')}
+          fill="none"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+          className="stroke-emerald-500 dark:stroke-violet-400"
+        />
+      </svg>
+      <span className="w-8 text-right text-sm font-medium text-gray-500 dark:text-gray-400">{tag.total}</span>
+    </li>
+  )
+}
+
+export function MoodInsights() {
+  const router = useRouter()
+  const [rangeDays, setRangeDays] = useState<number>(90)
+  const [data, setData] = useState<MoodInsightsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchInsights = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const res = await fetch(`/api/insights/mood?${new URLSearchParams(rangeEndingToday(rangeDays))}`)
+        const json = await res.json()
+
+        if (!res.ok) {
+          throw new Error(json.error || 'Failed to load insights')
+        }
+
+        setData(json)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load insights')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchInsights()
+  }, [rangeDays])
+
+  const moodCount = data ? Object.values(data.summary.moods).reduce((sum, count) => sum + count, 0) : 0
+  const activeDays = data ? data.days.filter(day => day.entries > 0).length : 0
+
+  return (
+    <div className="bg-white/80 dark:bg-[#1a1a1a]/80 backdrop-blur-sm rounded-3xl shadow-xl shadow-gray-200/40 dark:shadow-black/20 border border-gray-100/80 dark:border-gray-800/50 overflow-hidden">
+      <div className="flex flex-wrap justify-between items-center gap-4 px-8 py-6 border-b border-gray-100/80 dark:border-gray-800/50 bg-gradient-to-r from-slate-50/80 to-white/80 dark:from-gray-900/50 dark:to-[#1a1a1a]/50">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Mood &amp; Trends</h2>
+        <div className="flex gap-1 p-1 rounded-xl bg-gray-100 dark:bg-gray-800" role="group" aria-label="Time range">
+          {RANGES.map(range => (
+            <button
+              key={range.days}
+              onClick={() => setRangeDays(range.days)}
+              aria-pressed={rangeDays === range.days}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                rangeDays === range.days
+                  ? 'bg-white dark:bg-gray-700 text-emerald-700 dark:text-violet-300 shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-8 space-y-8">
+        {error ? (
+          <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+        ) : loading && !data ? (
+          <div className="h-40 flex items-center justify-center">
+            <div className="w-6 h-6 border-2 border-emerald-500 dark:border-violet-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : data && (
+          <div className={`space-y-8 transition-opacity ${loading ? 'opacity-50' : ''}`}>
+            <dl className="grid grid-cols-3 gap-4">
+              <div>
+                <dt className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500">Entries</dt>
+                <dd className="text-2xl font-bold text-gray-900 dark:text-white">{data.summary.entries}</dd>
+              </div>
+              <div>
+                <dt className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500">Days written</dt>
+                <dd className="text-2xl font-bold text-gray-900 dark:text-white">{activeDays}</dd>
+              </div>
+              <div>
+                <dt className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500">Average mood</dt>
+                <dd className="text-2xl font-bold text-gray-900 dark:text-white">{moodLabel(data.summary.averageMood, data.scale)}</dd>
+              </div>
+            </dl>
+
+            {moodCount > 0 && (
+              <section aria-labelledby="mood-distribution-title">
+                <h3 id="mood-distribution-title" className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Mood distribution</h3>
+                <div className="flex h-3 rounded-full overflow-hidden">
+                  {data.scale.map(option => (data.summary.moods[option.mood] ?? 0) > 0 && (
+                    <div
+                      key={option.mood}
+                      className={MOOD_SWATCHES[option.mood]}
+                      style={{ width: `${((data.summary.moods[option.mood] ?? 0) / moodCount) * 100}%` }}
+                      title={`${option.mood}: ${data.summary.moods[option.mood]}`}
+                    />
+                  ))}
+                </div>
+                <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {data.scale.map(option => (
+                    <li key={option.mood} className="flex items-center gap-1.5">
+                      <span className={`w-2 h-2 rounded-full ${MOOD_SWATCHES[option.mood]}`} aria-hidden="true" />
+                      {option.emoji} {option.mood} · {data.summary.moods[option.mood] ?? 0}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section aria-labelledby="mood-by-week-title">
+              <h3 id="mood-by-week-title" className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Entries and mood by week</h3>
+              <MoodByWeekChart data={data} />
+              <div className="flex justify-between mt-1 text-xs text-gray-400 dark:text-gray-500">
+                <span>{formatDay(data.from)}</span>
+                <span>{formatDay(data.to)}</span>
+              </div>
+            </section>
+
+            <section aria-labelledby="calendar-title">
+              <h3 id="calendar-title" className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Calendar</h3>
+              <CalendarHeatmap data={data} onSelectDay={(day) => router.push(`/journal?date=${day}`)} />
+            </section>
+
+            {data.tags.length > 0 && (
+              <section aria-labelledby="tag-trends-title">
+                <h3 id="tag-trends-title" className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Top tags</h3>
+                <ul className="space-y-2">
+                  {data.tags.map(tag => <TagTrend key={tag.tag} tag={tag} data={data} />)}
+                </ul>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
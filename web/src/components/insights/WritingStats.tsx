@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+
+interface WritingStatsData {
+  streak: {
+    current: number
+    longest: number
+    writtenToday: boolean
+    atRisk: boolean
+  }
+  totals: {
+    entries: number
+    words: number
+    averageWords: number | null
+  }
+  entriesPerWeek: number
+  weeks: { start: string; entries: number; words: number }[]
+}
+
+function formatWeek(start: string): string {
+  return new Date(`${start}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count.toLocaleString('en-US')} ${count === 1 ? singular : pluralForm}`
+}
+
+export function WritingStats() {
+  const [stats, setStats] = useState<WritingStatsData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      try {
+        const res = await fetch('/api/insights/writing')
+        const data = await res.json()
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to load writing stats')
+        }
+
+        setStats(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load writing stats')
+      }
+    }
+
+    fetchStats()
+  }, [])
+
+  if (error) {
+    return <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+  }
+
+  if (!stats) {
+    return <div className="h-32 rounded-3xl bg-white/60 dark:bg-[#1a1a1a]/60 animate-pulse" />
+  }
+
+  const maxEntries = Math.max(1, ...stats.weeks.map(week => week.entries))
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="rounded-3xl p-6 bg-white/80 dark:bg-[#1a1a1a]/80 border border-gray-100/80 dark:border-gray-800/50 shadow-lg shadow-gray-200/40 dark:shadow-black/20">
+        <p className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500">Current streak</p>
+        <p className="mt-1 text-3xl font-bold text-gray-900 dark:text-white">
+          {stats.streak.current > 0 && <span aria-hidden="true">🔥 </span>}
+          {plural(stats.streak.current, 'day')}
+        </p>
+        {stats.streak.atRisk ? (
+          <Link href="/journal/new" className="mt-2 inline-block text-sm font-medium text-orange-600 dark:text-orange-400 hover:underline">
+            Write today to keep it going
+          </Link>
+        ) : stats.streak.writtenToday ? (
+          <p className="mt-2 text-sm text-emerald-600 dark:text-violet-400">Done for today</p>
+        ) : (
+          <Link href="/journal/new" className="mt-2 inline-block text-sm text-gray-500 dark:text-gray-400 hover:underline">
+            Start a new streak today
+          </Link>
+        )}
+      </div>
+
+      <div className="rounded-3xl p-6 bg-white/80 dark:bg-[#1a1a1a]/80 border border-gray-100/80 dark:border-gray-800/50 shadow-lg shadow-gray-200/40 dark:shadow-black/20">
+        <p className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500">Longest streak</p>
+        <p className="mt-1 text-3xl font-bold text-gray-900 dark:text-white">{plural(stats.streak.longest, 'day')}</p>
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{plural(stats.totals.entries, 'entry', 'entries')} in total</p>
+      </div>
+
+      <div className="rounded-3xl p-6 bg-white/80 dark:bg-[#1a1a1a]/80 border border-gray-100/80 dark:border-gray-800/50 shadow-lg shadow-gray-200/40 dark:shadow-black/20">
+        <p className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500">Words written</p>
+        <p className="mt-1 text-3xl font-bold text-gray-900 dark:text-white">{stats.totals.words.toLocaleString('en-US')}</p>
+        {stats.totals.averageWords !== null && (
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{plural(stats.totals.averageWords, 'word')} per entry</p>
+        )}
+      </div>
+
+      <div className="rounded-3xl p-6 bg-white/80 dark:bg-[#1a1a1a]/80 border border-gray-100/80 dark:border-gray-800/50 shadow-lg shadow-gray-200/40 dark:shadow-black/20">
+        <p className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500">Entries per week</p>
+        <p className="mt-1 text-3xl font-bold text-gray-900 dark:text-white">{stats.entriesPerWeek.toFixed(1)}</p>
+        <div className="mt-2 flex items-end gap-0.5 h-8" role="img" aria-label={`Entries per week over the last ${stats.weeks.length} weeks`}>
+          {stats.weeks.map(week => (
+            <div
+              key={week.start}
+              title={`Week of ${formatWeek(week.start)}: ${plural(week.entries, 'entry', 'entries')}, ${plural(week.words, 'word')}`}
+              className={`flex-1 rounded-sm ${week.entries > 0 ? 'bg-emerald-400 dark:bg-violet-500' : 'bg-gray-100 dark:bg-gray-800'}`}
+              style={{ height: `${Math.max(8, (week.entries / maxEntries) * 100)}%` }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,55 +3,211 @@
 import { useRouter } from 'next/navigation'
 import { useEffect, useState, useRef, useCallback } from 'react'
 import { RichTextToolbar } from '@/components/journal/RichTextToolbar'
+import { WikiLinkAutocomplete } from '@/components/journal/WikiLinkAutocomplete'
 import { MOOD_OPTIONS, PROSE_CLASSES_FULLPAGE, isValidUrl } from '@/lib/journal-constants'
 
+// Autosave waits for a pause in typing
+const DRAFT_AUTOSAVE_DELAY_MS = 1500
+
+// A stable default, so the effect that syncs initialTags doesn't run on every render
+const NO_TAGS: string[] = []
+
+export interface JournalDraft {
+  content: string
+  mood: string | null
+  tags: string[]
+  version: number
+  updatedAt: string
+}
+
+type DraftStatus = 'idle' | 'saving' | 'saved' | 'error'
+
 interface FullPageJournalEditorProps {
   initialContent?: string
   initialMood?: string
   initialTags?: string[]
-  onSave: (data: { content: string; mood: string | null; tags: string[] }) => Promise<boolean>
+  // Passes the version of the draft being saved, so the server can discard it
+  onSave: (data: { content: string; mood: string | null; tags: string[]; draftVersion?: number }) => Promise<boolean>
   isLoading?: boolean
   placeholder?: string
+  // Autosave to /api/journal/drafts/[draftKey]: 'new' or the id of the entry being edited
+  draftKey?: string
+  // The autosaved draft to resume, if there is one
+  draft?: JournalDraft | null
+}
+
+function draftSnapshot(content: string, mood: string | null, tags: string[]): string {
+  return JSON.stringify([content, mood, tags])
 }
 
 export function FullPageJournalEditor({
   initialContent = '',
   initialMood = '',
-  initialTags = [],
+  initialTags = NO_TAGS,
   onSave,
   isLoading = false,
-  placeholder = 'Start writing...'
+  placeholder = 'Start writing...',
+  draftKey,
+  draft = null
 }: FullPageJournalEditorProps) {
   const router = useRouter()
 
-  const [content, setContent] = useState(initialContent)
-  const [mood, setMood] = useState(initialMood)
-  const [tags, setTags] = useState<string[]>(initialTags)
+  // A draft that matches what's being edited has nothing to resume
+  const [resumedDraft, setResumedDraft] = useState(() =>
+    draft && draftSnapshot(draft.content, draft.mood, draft.tags) !== draftSnapshot(initialContent, initialMood || null, initialTags)
+      ? draft
+      : null
+  )
+  const startContent = resumedDraft?.content ?? initialContent
+  const startMood = resumedDraft ? resumedDraft.mood ?? '' : initialMood
+  const startTags = resumedDraft?.tags ?? initialTags
+
+  const [content, setContent] = useState(startContent)
+  const [mood, setMood] = useState(startMood)
+  const [tags, setTags] = useState<string[]>(startTags)
   const [tagInput, setTagInput] = useState('')
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showMoodTags, setShowMoodTags] = useState(false)
   const [isSourceView, setIsSourceView] = useState(false)
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(Boolean(resumedDraft))
+  const [showResumedNotice, setShowResumedNotice] = useState(Boolean(resumedDraft))
+  const [draftStatus, setDraftStatus] = useState<DraftStatus>('idle')
+  // Set when another device saved or discarded the draft since this one last saw it
+  const [draftConflict, setDraftConflict] = useState<{ draft: JournalDraft | null } | null>(null)
   const editorRef = useRef<HTMLDivElement>(null)
   const sourceRef = useRef<HTMLTextAreaElement>(null)
+  // The server draft this editor last saved or loaded; version 0 means none yet
+  const draftVersionRef = useRef(draft?.version ?? 0)
+  const savedDraftRef = useRef(draft ? draftSnapshot(draft.content, draft.mood, draft.tags) : null)
+  const draftRequestRef = useRef<Promise<void> | null>(null)
 
   // Update state when initial values change (e.g., when loading entry)
   // Only run when initialContent actually changes, not when switching views
   useEffect(() => {
-    setContent(initialContent)
+    setContent(startContent)
     if (editorRef.current) {
-      editorRef.current.innerHTML = initialContent
+      editorRef.current.innerHTML = startContent
     }
-  }, [initialContent])
+  }, [startContent])
+
+  useEffect(() => {
+    setMood(startMood)
+  }, [startMood])
+
+  useEffect(() => {
+    setTags(startTags)
+  }, [startTags])
+
+  const saveDraft = useCallback(async (options: { keepalive?: boolean } = {}) => {
+    if (!draftKey) return
+
+    // One save at a time, so each names the version the previous one produced
+    await draftRequestRef.current
+
+    const snapshot = draftSnapshot(content, mood || null, tags)
+    if (snapshot === savedDraftRef.current) return
+
+    const request = (async () => {
+      setDraftStatus('saving')
+      try {
+        const res = await fetch(`/api/journal/drafts/${draftKey}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content, mood: mood || null, tags, baseVersion: draftVersionRef.current }),
+          keepalive: options.keepalive
+        })
+        const data = await res.json()
+
+        if (res.status === 409) {
+          setDraftConflict({ draft: data.draft })
+          setDraftStatus('idle')
+          return
+        }
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to save draft')
+        }
+
+        draftVersionRef.current = data.version
+        savedDraftRef.current = snapshot
+        setDraftStatus('saved')
+      } catch (err) {
+        console.error('Failed to save draft:', err)
+        setDraftStatus('error')
+      }
+    })()
+
+    draftRequestRef.current = request
+    await request
+  }, [draftKey, content, mood, tags])
 
+  // Autosave once typing pauses; a conflict has to be resolved first
   useEffect(() => {
-    setMood(initialMood)
-  }, [initialMood])
+    if (!draftKey || !hasUnsavedChanges || draftConflict) return
 
+    const timer = setTimeout(saveDraft, DRAFT_AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [draftKey, hasUnsavedChanges, draftConflict, saveDraft])
+
+  // Don't lose the last few seconds of writing when the tab is closed or hidden
   useEffect(() => {
-    setTags(initialTags)
-  }, [initialTags])
+    if (!draftKey || !hasUnsavedChanges || draftConflict) return
+
+    const handlePageHide = () => {
+      saveDraft({ keepalive: true })
+    }
+
+    window.addEventListener('pagehide', handlePageHide)
+    return () => window.removeEventListener('pagehide', handlePageHide)
+  }, [draftKey, hasUnsavedChanges, draftConflict, saveDraft])
+
+  const applyDraft = useCallback((next: JournalDraft) => {
+    setContent(next.content)
+    if (editorRef.current) {
+      editorRef.current.innerHTML = next.content
+    }
+    setMood(next.mood ?? '')
+    setTags(next.tags)
+    draftVersionRef.current = next.version
+    savedDraftRef.current = draftSnapshot(next.content, next.mood, next.tags)
+    setDraftStatus('saved')
+  }, [])
+
+  const handleKeepThisVersion = useCallback(() => {
+    // Save over the other device's draft, or start a new one if it was discarded
+    draftVersionRef.current = draftConflict?.draft?.version ?? 0
+    savedDraftRef.current = null
+    setDraftConflict(null)
+  }, [draftConflict])
+
+  const handleLoadOtherVersion = useCallback(() => {
+    if (draftConflict?.draft) {
+      applyDraft(draftConflict.draft)
+    }
+    setDraftConflict(null)
+  }, [draftConflict, applyDraft])
+
+  const handleDiscardDraft = useCallback(async () => {
+    if (!draftKey) return
+
+    await draftRequestRef.current
+    try {
+      const res = await fetch(`/api/journal/drafts/${draftKey}`, { method: 'DELETE' })
+      if (!res.ok && res.status !== 404) {
+        throw new Error('Failed to discard draft')
+      }
+      draftVersionRef.current = 0
+      savedDraftRef.current = null
+      setShowResumedNotice(false)
+      setHasUnsavedChanges(false)
+      setDraftStatus('idle')
+      // Back to the saved entry (or a blank page)
+      setResumedDraft(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard draft')
+    }
+  }, [draftKey])
 
   // Focus editor on mount
   useEffect(() => {
@@ -99,7 +255,10 @@ export function FullPageJournalEditor({
     setSaving(true)
     setError(null)
     try {
-      const success = await onSave({ content, mood: mood || null, tags })
+      // Let an autosave in flight finish, so the draft it writes is the one the save discards
+      await draftRequestRef.current
+      const draftVersion = draftVersionRef.current > 0 ? draftVersionRef.current : undefined
+      const success = await onSave({ content, mood: mood || null, tags, draftVersion })
       if (success) {
         setHasUnsavedChanges(false)
         router.push('/journal')
@@ -111,14 +270,22 @@ export function FullPageJournalEditor({
     }
   }, [content, mood, tags, onSave, router])
 
-  const handleBack = useCallback(() => {
+  const handleBack = useCallback(async () => {
     if (hasUnsavedChanges) {
-      const confirmed = window.confirm('You have unsaved changes. Are you sure you want to leave?')
-      if (!confirmed) return
+      // Unsaved changes kept in the draft can be picked up later, so there's nothing to confirm
+      if (draftKey && !draftConflict) {
+        await saveDraft()
+      }
+      const keptInDraft = draftKey && !draftConflict &&
+        savedDraftRef.current === draftSnapshot(content, mood || null, tags)
+      if (!keptInDraft) {
+        const confirmed = window.confirm('You have unsaved changes. Are you sure you want to leave?')
+        if (!confirmed) return
+      }
     }
     // Use window.location for reliable navigation from fullscreen overlay
     window.location.href = '/journal'
-  }, [hasUnsavedChanges])
+  }, [hasUnsavedChanges, draftKey, draftConflict, saveDraft, content, mood, tags])
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
     // Escape to go back
@@ -259,6 +426,67 @@ export function FullPageJournalEditor({
         </div>
       )}
 
+      {/* Draft conflict - another device changed the draft since this one last saved it */}
+      {draftConflict ? (
+        <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[80] w-[calc(100%-2rem)] max-w-md px-4 py-3 rounded-lg bg-amber-50 dark:bg-gray-800 border border-amber-300 dark:border-gray-600 shadow-lg" role="alert">
+          <p className="text-sm text-amber-900 dark:text-gray-200">
+            {draftConflict.draft
+              ? `This draft was changed on another device (${new Date(draftConflict.draft.updatedAt).toLocaleString()}).`
+              : 'This draft was saved or discarded on another device.'}
+          </p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={handleKeepThisVersion}
+              className="px-3 py-1.5 rounded-full text-sm font-medium bg-amber-500 dark:bg-violet-600 text-white hover:bg-amber-600 dark:hover:bg-violet-700 transition-colors"
+            >
+              Keep this version
+            </button>
+            {draftConflict.draft && (
+              <button
+                type="button"
+                onClick={handleLoadOtherVersion}
+                className="px-3 py-1.5 rounded-full text-sm font-medium bg-white dark:bg-gray-700 text-amber-700 dark:text-gray-200 border border-amber-200 dark:border-gray-600 hover:bg-amber-100 dark:hover:bg-gray-600 transition-colors"
+              >
+                Load the other version
+              </button>
+            )}
+          </div>
+        </div>
+      ) : showResumedNotice && resumedDraft && (
+        <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[80] w-[calc(100%-2rem)] max-w-md px-4 py-3 rounded-lg bg-white/95 dark:bg-gray-800/95 border border-amber-200/50 dark:border-gray-700/50 shadow-lg" role="status">
+          <p className="text-sm text-amber-900 dark:text-gray-200 flex items-center gap-2">
+            <span className="flex-1">
+              Restored your unsaved draft from {new Date(resumedDraft.updatedAt).toLocaleString()}.
+            </span>
+            <button
+              type="button"
+              onClick={handleDiscardDraft}
+              className="text-sm font-medium text-amber-600 dark:text-violet-400 hover:underline"
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowResumedNotice(false)}
+              className="ml-1 text-amber-500 hover:text-amber-700 dark:text-gray-400 dark:hover:text-gray-200"
+              aria-label="Dismiss"
+            >
+              ×
+            </button>
+          </p>
+        </div>
+      )}
+
+      {/* Draft autosave status */}
+      {draftKey && draftStatus !== 'idle' && (
+        <p className="fixed bottom-6 right-6 z-[70] text-xs text-amber-600/80 dark:text-gray-500" aria-live="polite">
+          {draftStatus === 'saving' && 'Saving draft…'}
+          {draftStatus === 'saved' && 'Draft saved'}
+          {draftStatus === 'error' && <span className="text-red-500 dark:text-red-400">Draft not saved</span>}
+        </p>
+      )}
+
       {/* Formatting toolbar - fixed below the top buttons */}
       <div className="fixed top-16 left-1/2 -translate-x-1/2 z-[70]">
         <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-full shadow-lg border border-amber-200/50 dark:border-gray-700/50">
@@ -270,6 +498,7 @@ export function FullPageJournalEditor({
             onToggleSourceView={toggleSourceView}
             isSourceView={isSourceView}
             sourceRef={sourceRef}
+            attachments
           />
         </div>
       </div>
@@ -312,6 +541,8 @@ export function FullPageJournalEditor({
             data-placeholder={placeholder}
           />
         )}
+        {/* Suggestions while typing a [[link]] */}
+        <WikiLinkAutocomplete editorRef={editorRef} enabled={!isSourceView} />
       </div>
 
       {/* Bottom toolbar for mood/tags - minimal floating bar */}
@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { RichTextToolbar } from './RichTextToolbar'
+import { WikiLinkAutocomplete } from './WikiLinkAutocomplete'
 import { MOOD_OPTIONS, isValidUrl } from '@/lib/journal-constants'
 
 interface JournalEditorProps {
@@ -175,6 +176,7 @@ export function JournalEditor({
           onToggleSourceView={toggleSourceView}
           isSourceView={isSourceView}
           sourceRef={sourceRef}
+          attachments
         />
 
         {/* Error message */}
@@ -237,6 +239,8 @@ export function JournalEditor({
               data-placeholder="What's on your mind today? Start writing..."
             />
           )}
+          {/* Suggestions while typing a [[link]] */}
+          <WikiLinkAutocomplete editorRef={editorRef} enabled={!isSourceView} />
         </div>
 
         {/* Expand button */}
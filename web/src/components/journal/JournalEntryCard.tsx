@@ -13,7 +13,18 @@ interface JournalEntryCardProps {
   mood?: string | null
   tags: string[]
   date: string
+  // Pending suggestions from the automatic analysis (see lib/journal-analysis.ts)
+  suggestedMood?: string | null
+  suggestedTags?: string[]
   onDelete?: (id: string) => void
+  onUpdate?: (id: string, changes: JournalEntryCardChanges) => void
+}
+
+export interface JournalEntryCardChanges {
+  mood: string | null
+  tags: string[]
+  suggestedMood: string | null
+  suggestedTags: string[]
 }
 
 // Custom sanitization schema that allows style attributes for color support
@@ -30,11 +41,22 @@ const sanitizeSchema = {
   ]
 }
 
-export function JournalEntryCard({ id, content, mood, tags, date, onDelete }: JournalEntryCardProps) {
+export function JournalEntryCard({
+  id,
+  content,
+  mood,
+  tags,
+  date,
+  suggestedMood,
+  suggestedTags = [],
+  onDelete,
+  onUpdate
+}: JournalEntryCardProps) {
   const router = useRouter()
   const [isExpanded, setIsExpanded] = useState(false)
   const [showAllTags, setShowAllTags] = useState(false)
   const [hasOverflow, setHasOverflow] = useState(false)
+  const [savingSuggestions, setSavingSuggestions] = useState(false)
   const tagsContainerRef = useRef<HTMLDivElement>(null)
 
   const handleEdit = (e: React.MouseEvent) => {
@@ -49,6 +71,55 @@ export function JournalEntryCard({ id, content, mood, tags, date, onDelete }: Jo
     }
   }
 
+  // A suggested mood is only offered for entries saved without one
+  const pendingMood = !mood && suggestedMood ? suggestedMood : null
+  const pendingTags = suggestedTags.filter(tag => !tags.includes(tag))
+  const pendingMoodConfig = pendingMood ? MOOD_CONFIG[pendingMood] : null
+
+  const acceptSuggestions = async (e: React.MouseEvent, accepted: { mood?: boolean; tags?: string[] }) => {
+    e.stopPropagation()
+    setSavingSuggestions(true)
+
+    try {
+      const res = await fetch(`/api/journal/${id}/suggestions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(accepted)
+      })
+
+      if (res.ok) {
+        const entry = await res.json()
+        onUpdate?.(id, {
+          mood: entry.mood,
+          tags: entry.tags,
+          suggestedMood: entry.suggestedMood,
+          suggestedTags: entry.suggestedTags
+        })
+      }
+    } catch (error) {
+      console.error('Failed to accept suggestions:', error)
+    } finally {
+      setSavingSuggestions(false)
+    }
+  }
+
+  const dismissSuggestions = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    setSavingSuggestions(true)
+
+    try {
+      const res = await fetch(`/api/journal/${id}/suggestions`, { method: 'DELETE' })
+
+      if (res.ok) {
+        onUpdate?.(id, { mood: mood ?? null, tags, suggestedMood: null, suggestedTags: [] })
+      }
+    } catch (error) {
+      console.error('Failed to dismiss suggestions:', error)
+    } finally {
+      setSavingSuggestions(false)
+    }
+  }
+
   const toggleExpand = () => {
     setIsExpanded(!isExpanded)
   }
@@ -206,6 +277,58 @@ export function JournalEntryCard({ id, content, mood, tags, date, onDelete }: Jo
           </div>
         </div>
 
+        {/* Suggested mood and tags, waiting for the user to accept them */}
+        {onUpdate && (pendingMood || pendingTags.length > 0) && (
+          <div className="flex flex-wrap items-center gap-1.5 mt-2" onClick={(e) => e.stopPropagation()}>
+            <span className="text-xs text-amber-500/80 dark:text-gray-500" title="Suggested from what you wrote">
+              ✨ Suggested
+            </span>
+            {pendingMood && (
+              <button
+                onClick={(e) => acceptSuggestions(e, { mood: true })}
+                disabled={savingSuggestions}
+                className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border border-dashed border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                aria-label={`Set mood to ${pendingMood}`}
+              >
+                {pendingMoodConfig && <span>{pendingMoodConfig.emoji}</span>}
+                <span>{pendingMood}</span>
+              </button>
+            )}
+            {pendingTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={(e) => acceptSuggestions(e, { tags: [tag] })}
+                disabled={savingSuggestions}
+                className="inline-flex items-center px-2 py-0.5 text-xs rounded-full border border-dashed border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                aria-label={`Add tag ${tag}`}
+              >
+                <span className="mr-0.5 opacity-60">#</span>
+                {tag}
+              </button>
+            ))}
+            {(pendingMood ? 1 : 0) + pendingTags.length > 1 && (
+              <button
+                onClick={(e) => acceptSuggestions(e, { mood: !!pendingMood, tags: pendingTags })}
+                disabled={savingSuggestions}
+                className="px-2 py-0.5 text-xs font-medium text-amber-600 dark:text-violet-400 hover:underline disabled:opacity-50"
+              >
+                Accept all
+              </button>
+            )}
+            <button
+              onClick={dismissSuggestions}
+              disabled={savingSuggestions}
+              className="p-0.5 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50"
+              aria-label="Dismiss suggestions"
+              title="Dismiss suggestions"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
+
         {/* Compact preview - one line of text */}
         {!isExpanded && (
           <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 truncate">
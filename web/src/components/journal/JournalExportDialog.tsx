@@ -0,0 +1,208 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  JOURNAL_EXPORT_FORMATS,
+  JOURNAL_EXPORT_FORMAT_LABELS,
+  JournalExportFormat
+} from '@/lib/journal-constants'
+
+interface JournalExportDialogProps {
+  // Tags to offer as quick filters
+  suggestedTags: string[]
+  onClose: () => void
+}
+
+function parseTags(value: string): string[] {
+  return value.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)
+}
+
+function fileNameFromResponse(res: Response, fallback: string): string {
+  const match = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')
+  return match ? match[1] : fallback
+}
+
+export function JournalExportDialog({ suggestedTags, onClose }: JournalExportDialogProps) {
+  const [format, setFormat] = useState<JournalExportFormat>('pdf')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [tags, setTags] = useState('')
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectedTags = parseTags(tags)
+
+  const toggleTag = (tag: string) => {
+    setTags(selectedTags.includes(tag)
+      ? selectedTags.filter(t => t !== tag).join(', ')
+      : [...selectedTags, tag].join(', '))
+  }
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setExporting(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ format })
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      if (selectedTags.length > 0) params.set('tags', selectedTags.join(','))
+
+      const res = await fetch(`/api/journal/export?${params}`)
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to export journal')
+      }
+
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileNameFromResponse(res, `journal.${format}`)
+      link.click()
+      URL.revokeObjectURL(url)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export journal')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center p-4 bg-black/20 dark:bg-black/40" onClick={onClose}>
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="journal-export-title"
+        onSubmit={handleExport}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl border border-amber-200/50 dark:border-gray-700/50 shadow-2xl"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-amber-100 dark:border-gray-800">
+          <h2 id="journal-export-title" className="text-lg font-semibold text-amber-900 dark:text-gray-100">Export journal</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded-full text-amber-500 dark:text-gray-400 hover:bg-amber-100 dark:hover:bg-gray-800"
+            aria-label="Close export"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-5">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-sm text-red-600 dark:text-red-300" role="alert">
+              {error}
+            </div>
+          )}
+
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Format</legend>
+            <div className="grid grid-cols-3 gap-2">
+              {JOURNAL_EXPORT_FORMATS.map((value) => (
+                <label
+                  key={value}
+                  title={JOURNAL_EXPORT_FORMAT_LABELS[value].description}
+                  className={`px-3 py-2 rounded-xl border-2 text-center text-sm cursor-pointer transition-all ${
+                    format === value
+                      ? 'border-amber-400 dark:border-violet-500 bg-amber-50 dark:bg-violet-900/30 text-amber-900 dark:text-violet-200'
+                      : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-amber-300 dark:hover:border-violet-600'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="format"
+                    value={value}
+                    checked={format === value}
+                    onChange={() => setFormat(value)}
+                    className="sr-only"
+                  />
+                  {JOURNAL_EXPORT_FORMAT_LABELS[value].name}
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{JOURNAL_EXPORT_FORMAT_LABELS[format].description}</p>
+          </fieldset>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              From
+              <input
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                className="mt-1 w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+            </label>
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              To
+              <input
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                className="mt-1 w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+            </label>
+          </div>
+
+          <div>
+            <label htmlFor="journal-export-tags" className="block text-sm text-gray-700 dark:text-gray-300">
+              Only entries tagged
+            </label>
+            <input
+              id="journal-export-tags"
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Any tag"
+              className="mt-1 w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-400"
+            />
+            {suggestedTags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {suggestedTags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    aria-pressed={selectedTags.includes(tag)}
+                    className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                      selectedTags.includes(tag)
+                        ? 'bg-amber-500 dark:bg-violet-600 text-white'
+                        : 'bg-amber-100/70 dark:bg-gray-800 text-amber-700 dark:text-gray-400 hover:bg-amber-200 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-amber-100 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-xl text-sm font-medium text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={exporting}
+            className="px-4 py-2 rounded-xl text-sm font-medium text-white bg-gradient-to-r from-amber-500 to-orange-500 dark:from-violet-500 dark:to-purple-600 disabled:opacity-50 transition-all"
+          >
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
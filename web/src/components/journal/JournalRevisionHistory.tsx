@@ -0,0 +1,185 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { MOOD_OPTIONS } from '@/lib/journal-constants'
+
+interface DiffPart {
+  value: string
+  added?: boolean
+  removed?: boolean
+}
+
+interface Revision {
+  id: string
+  mood: string | null
+  tags: string[]
+  savedAt: string
+  replacedAt: string
+  // Word diff from this version to the one that replaced it
+  diff: DiffPart[]
+}
+
+interface JournalRevisionHistoryProps {
+  entryId: string
+  onClose: () => void
+  onRestored: () => void
+}
+
+function moodLabel(mood: string | null): string | null {
+  if (!mood) return null
+  const option = MOOD_OPTIONS.find(m => m.value === mood)
+  return option ? `${option.emoji} ${option.value}` : mood
+}
+
+export function JournalRevisionHistory({ entryId, onClose, onRestored }: JournalRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const res = await fetch(`/api/journal/${entryId}/revisions`)
+        const data = await res.json()
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to load history')
+        }
+
+        setRevisions(data.revisions)
+        setSelectedId(data.revisions[0]?.id ?? null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history')
+      }
+    }
+
+    fetchRevisions()
+  }, [entryId])
+
+  const handleRestore = async (revisionId: string) => {
+    if (!confirm('Restore this version? The current text will be kept in the history.')) return
+
+    setRestoring(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/journal/${entryId}/revisions/${revisionId}/restore`, { method: 'POST' })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to restore version')
+      }
+      onRestored()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const selected = revisions?.find(revision => revision.id === selectedId)
+
+  return (
+    <div className="fixed inset-0 z-[80] flex justify-end bg-black/20 dark:bg-black/40" onClick={onClose}>
+      <aside
+        className="w-full max-w-xl h-full flex flex-col bg-white dark:bg-gray-900 border-l border-amber-200/50 dark:border-gray-700/50 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Version history"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-amber-100 dark:border-gray-800">
+          <h2 className="text-lg font-semibold text-amber-900 dark:text-gray-100">Version history</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full text-amber-500 dark:text-gray-400 hover:bg-amber-100 dark:hover:bg-gray-800"
+            aria-label="Close version history"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-sm text-red-600 dark:text-red-300" role="alert">
+            {error}
+          </div>
+        )}
+
+        {!revisions && !error && (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="w-6 h-6 border-2 border-amber-500 dark:border-violet-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+
+        {revisions && revisions.length === 0 && (
+          <p className="px-6 py-8 text-sm text-amber-600/70 dark:text-gray-500">
+            No earlier versions yet. A version is saved each time you edit this entry.
+          </p>
+        )}
+
+        {revisions && revisions.length > 0 && (
+          <div className="flex-1 flex flex-col sm:flex-row min-h-0">
+            <ul className="sm:w-48 shrink-0 overflow-auto border-b sm:border-b-0 sm:border-r border-amber-100 dark:border-gray-800 max-h-40 sm:max-h-none">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    aria-pressed={revision.id === selectedId}
+                    className={`w-full text-left px-4 py-3 text-sm transition-colors ${
+                      revision.id === selectedId
+                        ? 'bg-amber-50 dark:bg-violet-900/30 text-amber-900 dark:text-violet-200'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-amber-50/50 dark:hover:bg-gray-800/50'
+                    }`}
+                  >
+                    {new Date(revision.savedAt).toLocaleString()}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="flex-1 overflow-auto px-6 py-4 space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-amber-700 dark:text-gray-400">
+                  {moodLabel(selected.mood) && <span>{moodLabel(selected.mood)}</span>}
+                  {selected.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-gray-800">#{tag}</span>
+                  ))}
+                </div>
+
+                <p className="text-xs text-gray-500 dark:text-gray-500">
+                  Changes made on {new Date(selected.replacedAt).toLocaleString()}:{' '}
+                  <span className="line-through text-red-600 dark:text-red-400">removed</span>,{' '}
+                  <span className="text-emerald-700 dark:text-emerald-400">added</span>
+                </p>
+
+                <div className="whitespace-pre-wrap font-serif leading-7 text-gray-800 dark:text-gray-200">
+                  {selected.diff.map((part, index) => (
+                    <span
+                      key={index}
+                      className={
+                        part.removed
+                          ? 'line-through bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                          : part.added
+                            ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-300'
+                            : undefined
+                      }
+                    >
+                      {part.value}
+                    </span>
+                  ))}
+                </div>
+
+                <button
+                  onClick={() => handleRestore(selected.id)}
+                  disabled={restoring}
+                  className="px-4 py-2 rounded-full bg-gradient-to-r from-amber-500 to-orange-500 dark:from-violet-600 dark:to-purple-600 text-white text-sm font-medium shadow hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {restoring ? 'Restoring...' : 'Restore this version'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </aside>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 'use client'
 
-import { RefObject, useState, useEffect, useCallback } from 'react'
+import { RefObject, useState, useEffect, useCallback, useRef } from 'react'
 import { isValidUrl } from '@/lib/journal-constants'
+import { attachmentEmbedHtml } from '@/lib/attachment-constants'
 
 interface RichTextToolbarProps {
   editorRef: RefObject<HTMLDivElement | null>
@@ -11,6 +12,8 @@ interface RichTextToolbarProps {
   onToggleSourceView?: () => void
   isSourceView?: boolean
   sourceRef?: RefObject<HTMLTextAreaElement | null>
+  // Show a button to upload images and files and embed them at the cursor
+  attachments?: boolean
 }
 
 const TEXT_COLORS = [
@@ -29,11 +32,16 @@ export function RichTextToolbar({
   showSourceView = false,
   onToggleSourceView,
   isSourceView = false,
-  sourceRef
+  sourceRef,
+  attachments = false
 }: RichTextToolbarProps) {
   const [showColorPicker, setShowColorPicker] = useState(false)
   const [activeFormats, setActiveFormats] = useState<Set<string>>(new Set())
   const [customColor, setCustomColor] = useState('#000000')
+  const [uploading, setUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Where the cursor was before the file picker took focus
+  const savedRangeRef = useRef<Range | null>(null)
 
   // Helper function to insert HTML tags in source mode
   const insertSourceTag = useCallback((openTag: string, closeTag: string) => {
@@ -248,6 +256,108 @@ export function RichTextToolbar({
     applyColor(customColor)
   }, [customColor, applyColor])
 
+  const openFilePicker = useCallback(() => {
+    const selection = window.getSelection()
+    savedRangeRef.current = selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode)
+      ? selection.getRangeAt(0).cloneRange()
+      : null
+    fileInputRef.current?.click()
+  }, [editorRef])
+
+  const insertHtml = useCallback((html: string) => {
+    if (isSourceView && sourceRef?.current) {
+      insertSourceTag(html, '')
+      return
+    }
+
+    const editor = editorRef.current
+    if (!editor) return
+
+    editor.focus()
+
+    const selection = window.getSelection()
+    if (selection) {
+      let range = savedRangeRef.current
+      if (!range) {
+        // No cursor in the editor: add to the end
+        range = document.createRange()
+        range.selectNodeContents(editor)
+        range.collapse(false)
+      }
+      selection.removeAllRanges()
+      selection.addRange(range)
+    }
+
+    document.execCommand('insertHTML', false, html)
+    onContentChange(editor.innerHTML)
+  }, [editorRef, onContentChange, isSourceView, sourceRef, insertSourceTag])
+
+  const handleFilesSelected = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    setUploading(true)
+    const embeds: string[] = []
+    const errors: string[] = []
+
+    for (const file of files) {
+      try {
+        const form = new FormData()
+        form.append('file', file)
+        const res = await fetch('/api/attachments', { method: 'POST', body: form })
+        const data = await res.json()
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Upload failed')
+        }
+
+        embeds.push(attachmentEmbedHtml(data))
+      } catch (err) {
+        errors.push(`${file.name}: ${err instanceof Error ? err.message : 'Upload failed'}`)
+      }
+    }
+
+    if (embeds.length > 0) {
+      insertHtml(embeds.join(''))
+    }
+    setUploading(false)
+
+    if (errors.length > 0) {
+      alert(`Some files could not be attached.\n\n${errors.join('\n')}`)
+    }
+  }, [insertHtml])
+
+  const attachButton = attachments && (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        onChange={handleFilesSelected}
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
+      />
+      <button
+        type="button"
+        onClick={openFilePicker}
+        disabled={uploading}
+        title={uploading ? 'Uploading...' : 'Attach image or file'}
+        aria-label={uploading ? 'Uploading attachment' : 'Attach image or file'}
+        className={`${minimal ? 'px-2 py-1 rounded-full hover:bg-amber-100/50 dark:hover:bg-gray-700/50 text-amber-800' : 'px-2 py-1.5 rounded-lg hover:bg-amber-100 dark:hover:bg-gray-700 text-amber-900'} text-sm transition-all duration-200 active:scale-95 dark:text-gray-300 disabled:opacity-50`}
+      >
+        {uploading ? (
+          <span className="block w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+        ) : (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+          </svg>
+        )}
+      </button>
+    </>
+  )
+
   const formatButtons = [
     { id: 'bold', icon: 'B', label: 'Bold', shortcut: 'Ctrl+B', className: 'font-bold' },
     { id: 'italic', icon: 'I', label: 'Italic', shortcut: 'Ctrl+I', className: 'italic' },
@@ -354,6 +464,8 @@ export function RichTextToolbar({
           )}
         </div>
 
+        {attachButton}
+
         {/* Source view toggle - minimal */}
         {showSourceView && onToggleSourceView && (
           <>
@@ -459,6 +571,8 @@ export function RichTextToolbar({
         )}
       </div>
 
+      {attachButton}
+
       <div className="w-px h-6 bg-amber-200 dark:bg-gray-700 mx-1 self-center" aria-hidden="true" />
 
       {/* Source view toggle */}
@@ -0,0 +1,334 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useCallback, useState } from 'react'
+import { MOOD_OPTIONS } from '@/lib/journal-constants'
+import { JournalTemplate, TemplateAnswer, TemplateAnswers, TemplateField } from '@/lib/journal-template-schema'
+
+interface TemplateEntryFormProps {
+  template: JournalTemplate
+  initialAnswers?: TemplateAnswers
+  initialMood?: string
+  initialTags?: string[]
+  onSave: (data: { templateAnswers: TemplateAnswers; mood: string | null; tags: string[] }) => Promise<boolean>
+}
+
+const INPUT_CLASSES = 'w-full px-4 py-2 border border-amber-200 dark:border-gray-700 rounded-lg shadow-sm focus:ring-2 focus:ring-amber-400/50 dark:focus:ring-violet-500/50 focus:border-amber-400 dark:focus:border-violet-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500'
+
+function isAnswered(field: TemplateField, answer: TemplateAnswer | undefined): boolean {
+  if (answer === undefined) return false
+  if (field.type === 'text') return (answer as string).trim() !== ''
+  if (field.type === 'list') return (answer as string[]).some(item => item.trim() !== '')
+  return true
+}
+
+function FieldInput({
+  field,
+  value,
+  onChange
+}: {
+  field: TemplateField
+  value: TemplateAnswer | undefined
+  onChange: (value: TemplateAnswer | undefined) => void
+}) {
+  const inputId = `field-${field.id}`
+
+  switch (field.type) {
+    case 'text':
+      return field.multiline ? (
+        <textarea
+          id={inputId}
+          value={(value as string | undefined) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={4}
+          className={`${INPUT_CLASSES} font-serif leading-7`}
+        />
+      ) : (
+        <input
+          id={inputId}
+          type="text"
+          value={(value as string | undefined) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={INPUT_CLASSES}
+        />
+      )
+
+    case 'scale': {
+      const min = field.min ?? 1
+      const max = field.max ?? 10
+      return (
+        <div className="flex items-center gap-4">
+          <input
+            id={inputId}
+            type="range"
+            min={min}
+            max={max}
+            value={(value as number | undefined) ?? Math.round((min + max) / 2)}
+            onChange={(e) => onChange(Number(e.target.value))}
+            // A click on the thumb's starting position counts as an answer too
+            onClick={(e) => onChange(Number(e.currentTarget.value))}
+            className="flex-1 accent-amber-500 dark:accent-violet-500"
+          />
+          <span className="w-16 text-right text-sm text-amber-800 dark:text-gray-300">
+            {value === undefined ? '-' : `${value} / ${max}`}
+          </span>
+          {value !== undefined && (
+            <button
+              type="button"
+              onClick={() => onChange(undefined)}
+              className="text-xs text-amber-600 dark:text-gray-400 hover:underline"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )
+    }
+
+    case 'list': {
+      const items = (value as string[] | undefined) ?? ['']
+      return (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                id={index === 0 ? inputId : undefined}
+                type="text"
+                value={item}
+                onChange={(e) => onChange(items.map((existing, i) => (i === index ? e.target.value : existing)))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    onChange([...items, ''])
+                  }
+                }}
+                className={INPUT_CLASSES}
+                aria-label={`${field.label} item ${index + 1}`}
+              />
+              {items.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(items.filter((_, i) => i !== index))}
+                  className="px-3 text-amber-500 hover:text-amber-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  aria-label={`Remove item ${index + 1}`}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange([...items, ''])}
+            className="text-sm text-amber-600 dark:text-violet-400 hover:underline"
+          >
+            + Add item
+          </button>
+        </div>
+      )
+    }
+
+    case 'checkbox':
+      return (
+        <input
+          id={inputId}
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          className="w-5 h-5 rounded accent-amber-500 dark:accent-violet-500"
+        />
+      )
+  }
+}
+
+export function TemplateEntryForm({
+  template,
+  initialAnswers = {},
+  initialMood = '',
+  initialTags = [],
+  onSave
+}: TemplateEntryFormProps) {
+  const router = useRouter()
+
+  const [answers, setAnswers] = useState<TemplateAnswers>(initialAnswers)
+  const [mood, setMood] = useState(initialMood)
+  const [tags, setTags] = useState<string[]>(initialTags)
+  const [tagInput, setTagInput] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+
+  const setAnswer = useCallback((fieldId: string, value: TemplateAnswer | undefined) => {
+    setAnswers((current) => {
+      const next = { ...current }
+      if (value === undefined) {
+        delete next[fieldId]
+      } else {
+        next[fieldId] = value
+      }
+      return next
+    })
+    setHasUnsavedChanges(true)
+    setError(null)
+  }, [])
+
+  const handleAddTag = () => {
+    if (tagInput.trim() && !tags.includes(tagInput.trim())) {
+      setTags([...tags, tagInput.trim()])
+      setTagInput('')
+      setHasUnsavedChanges(true)
+    }
+  }
+
+  const missingRequired = template.fields.filter(
+    field => field.required && field.type !== 'checkbox' && !isAnswered(field, answers[field.id])
+  )
+
+  const handleSave = async () => {
+    if (missingRequired.length > 0) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const success = await onSave({ templateAnswers: answers, mood: mood || null, tags })
+      if (success) {
+        setHasUnsavedChanges(false)
+        router.push('/journal')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save entry. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleBack = () => {
+    if (hasUnsavedChanges && !window.confirm('You have unsaved changes. Are you sure you want to leave?')) {
+      return
+    }
+    window.location.href = '/journal'
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-gradient-to-b from-amber-50/50 to-white dark:from-gray-950 dark:to-[#0f0f0f] overflow-auto">
+      <button
+        onClick={handleBack}
+        className="fixed top-4 left-4 z-[70] p-2 rounded-full bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border border-amber-200/50 dark:border-gray-700/50 text-amber-700 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-800 transition-colors shadow-lg"
+        title="Back to journal"
+        aria-label="Back to journal"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+
+      <button
+        onClick={handleSave}
+        disabled={missingRequired.length > 0 || saving}
+        className="fixed top-4 right-4 z-[70] px-4 py-2 rounded-full bg-gradient-to-r from-amber-500 to-orange-500 dark:from-violet-600 dark:to-purple-600 text-white font-medium shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        title={missingRequired.length > 0 ? `Fill in: ${missingRequired.map(field => field.label).join(', ')}` : 'Save entry'}
+        aria-label="Save entry"
+      >
+        {saving ? 'Saving' : 'Save'}
+      </button>
+
+      <div className="max-w-2xl mx-auto px-6 pt-20 pb-16 space-y-8">
+        <header>
+          <h1 className="text-2xl font-serif font-semibold text-amber-900 dark:text-gray-100">{template.name}</h1>
+          {template.description && (
+            <p className="mt-1 text-sm text-amber-700/80 dark:text-gray-400">{template.description}</p>
+          )}
+        </header>
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-sm text-red-600 dark:text-red-300" role="alert">
+            {error}
+          </div>
+        )}
+
+        {template.fields.map((field) => (
+          <div key={field.id} className={field.type === 'checkbox' ? 'flex items-center gap-3' : 'space-y-2'}>
+            <label
+              htmlFor={`field-${field.id}`}
+              className={`block font-medium text-amber-900 dark:text-gray-200 ${field.type === 'checkbox' ? 'order-2' : ''}`}
+            >
+              {field.label}
+              {field.required && field.type !== 'checkbox' && <span className="text-amber-500 dark:text-violet-400"> *</span>}
+            </label>
+            {field.help && field.type !== 'checkbox' && (
+              <p className="text-sm text-amber-700/70 dark:text-gray-500">{field.help}</p>
+            )}
+            <FieldInput field={field} value={answers[field.id]} onChange={(value) => setAnswer(field.id, value)} />
+          </div>
+        ))}
+
+        <div className="space-y-4 pt-4 border-t border-amber-100 dark:border-gray-800">
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Mood selection">
+            {MOOD_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => {
+                  setMood(mood === option.value ? '' : option.value)
+                  setHasUnsavedChanges(true)
+                }}
+                aria-pressed={mood === option.value}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-all duration-200 border ${
+                  mood === option.value
+                    ? option.color + ' scale-105 shadow-md'
+                    : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700 hover:border-amber-300 dark:hover:border-gray-600'
+                }`}
+              >
+                <span className="mr-1">{option.emoji}</span>
+                {option.value}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddTag())}
+              className={`${INPUT_CLASSES} rounded-full text-sm`}
+              placeholder="Add tag..."
+              aria-label="Add a tag"
+            />
+            <button
+              type="button"
+              onClick={handleAddTag}
+              className="px-4 py-2 bg-amber-100 dark:bg-gray-700 text-amber-700 dark:text-gray-300 rounded-full hover:bg-amber-200 dark:hover:bg-gray-600 transition-colors text-sm font-medium"
+            >
+              Add
+            </button>
+          </div>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2" role="list" aria-label="Selected tags">
+              {tags.map((tag) => (
+                <span
+                  key={tag}
+                  role="listitem"
+                  className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-gradient-to-r from-amber-100 to-orange-100 dark:from-violet-900/50 dark:to-purple-900/50 text-amber-800 dark:text-violet-300 border border-amber-200/50 dark:border-violet-700/50"
+                >
+                  #{tag}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setTags(tags.filter(t => t !== tag))
+                      setHasUnsavedChanges(true)
+                    }}
+                    className="ml-1.5 text-amber-500 hover:text-amber-700 dark:text-violet-400 dark:hover:text-violet-300"
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
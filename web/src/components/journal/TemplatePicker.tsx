@@ -0,0 +1,47 @@
+'use client'
+
+import Link from 'next/link'
+import { JournalTemplate } from '@/lib/journal-template-schema'
+
+interface TemplatePickerProps {
+  templates: JournalTemplate[]
+  // null starts a blank entry
+  onSelect: (template: JournalTemplate | null) => void
+}
+
+export function TemplatePicker({ templates, onSelect }: TemplatePickerProps) {
+  const cardClasses = 'text-left p-5 rounded-2xl bg-white/80 dark:bg-gray-900/80 border border-amber-200/50 dark:border-gray-700/50 shadow-sm hover:shadow-md hover:border-amber-300 dark:hover:border-violet-700 transition-all'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-amber-50/50 to-white dark:from-gray-950 dark:to-[#0f0f0f]">
+      <div className="max-w-3xl mx-auto px-6 py-12 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-serif font-semibold text-amber-900 dark:text-gray-100">New entry</h1>
+          <Link href="/journal/templates" className="text-sm text-amber-600 dark:text-violet-400 hover:underline">
+            Manage templates
+          </Link>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <button onClick={() => onSelect(null)} className={cardClasses}>
+            <h2 className="font-semibold text-amber-900 dark:text-gray-100">Blank page</h2>
+            <p className="mt-1 text-sm text-amber-700/80 dark:text-gray-400">Write freely in the editor.</p>
+          </button>
+
+          {templates.map((template) => (
+            <button key={template.id} onClick={() => onSelect(template)} className={cardClasses}>
+              <h2 className="font-semibold text-amber-900 dark:text-gray-100">{template.name}</h2>
+              {template.description && (
+                <p className="mt-1 text-sm text-amber-700/80 dark:text-gray-400">{template.description}</p>
+              )}
+              <p className="mt-2 text-xs text-amber-600/60 dark:text-gray-500">
+                {template.fields.length} {template.fields.length === 1 ? 'question' : 'questions'}
+                {!template.builtIn && ' · yours'}
+              </p>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
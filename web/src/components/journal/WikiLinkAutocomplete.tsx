@@ -0,0 +1,196 @@
+'use client'
+
+import { RefObject, useCallback, useEffect, useState } from 'react'
+import { LINK_TYPE_LABELS, LinkType, openWikiLinkQuery } from '@/lib/wiki-links'
+
+interface WikiLinkAutocompleteProps {
+  editorRef: RefObject<HTMLDivElement | null>
+  // False while the editor shows HTML source instead
+  enabled?: boolean
+}
+
+interface LinkTarget {
+  type: LinkType
+  title: string
+  link: string
+}
+
+// An unfinished "[[..." link directly before the caret
+interface OpenLink {
+  node: Text
+  // Offsets of the "[[" and of the caret within the text node
+  start: number
+  end: number
+  query: string
+  top: number
+  left: number
+}
+
+const MENU_WIDTH = 288
+
+// Wait for a pause in typing before asking the server for suggestions
+const SEARCH_DELAY_MS = 150
+
+function findOpenLink(editor: HTMLElement): OpenLink | null {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return null
+
+  const range = selection.getRangeAt(0)
+  const node = range.startContainer
+  if (!(node instanceof Text) || !editor.contains(node)) return null
+
+  const query = openWikiLinkQuery((node.textContent ?? '').slice(0, range.startOffset))
+  if (query === null) return null
+
+  // A collapsed range has no size in some browsers; fall back to the line it's on
+  const rect = range.getBoundingClientRect()
+  const anchor = rect.height > 0 ? rect : node.parentElement!.getBoundingClientRect()
+
+  return {
+    node,
+    start: range.startOffset - query.length - 2,
+    end: range.startOffset,
+    query,
+    top: anchor.bottom + 4,
+    left: Math.max(8, Math.min(anchor.left, window.innerWidth - MENU_WIDTH - 8))
+  }
+}
+
+/**
+ * Suggests notes, goals, tasks and journal days while a [[link]] is typed in a contentEditable
+ * editor. Choosing one replaces what was typed with the complete link; the editor picks up the
+ * change through its usual input event.
+ */
+export function WikiLinkAutocomplete({ editorRef, enabled = true }: WikiLinkAutocompleteProps) {
+  const [openLink, setOpenLink] = useState<OpenLink | null>(null)
+  const [targets, setTargets] = useState<LinkTarget[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+  const query = openLink?.query ?? null
+
+  useEffect(() => {
+    if (query === null) return
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/links/targets?q=${encodeURIComponent(query.trim())}`, { signal: controller.signal })
+        if (res.ok) {
+          setTargets(await res.json())
+          setActiveIndex(0)
+        }
+      } catch {
+        // Aborted by the next keystroke, or offline: no suggestions
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [query])
+
+  const choose = useCallback((target: LinkTarget) => {
+    if (!openLink || !openLink.node.isConnected) return
+
+    const range = document.createRange()
+    range.setStart(openLink.node, openLink.start)
+    range.setEnd(openLink.node, openLink.end)
+    const selection = window.getSelection()
+    selection?.removeAllRanges()
+    selection?.addRange(range)
+
+    // insertText keeps the change undoable and fires the editor's input event
+    document.execCommand('insertText', false, target.link)
+    setOpenLink(null)
+    setTargets([])
+  }, [openLink])
+
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!enabled || !editor) return
+
+    const close = () => {
+      setOpenLink(null)
+      // So the next link doesn't start with this one's suggestions
+      setTargets([])
+    }
+    const update = () => {
+      const link = findOpenLink(editor)
+      if (link) {
+        setOpenLink(link)
+      } else {
+        close()
+      }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!openLink || e.ctrlKey || e.metaKey || e.altKey) return
+
+      if (e.key === 'Escape') {
+        close()
+      } else if (targets.length === 0) {
+        return
+      } else if (e.key === 'ArrowDown') {
+        setActiveIndex((activeIndex + 1) % targets.length)
+      } else if (e.key === 'ArrowUp') {
+        setActiveIndex((activeIndex - 1 + targets.length) % targets.length)
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        choose(targets[activeIndex])
+      } else {
+        return
+      }
+
+      // Keep the key from the editor's own shortcuts, like Escape to leave the page
+      e.preventDefault()
+      e.stopPropagation()
+    }
+
+    editor.addEventListener('input', update)
+    editor.addEventListener('click', update)
+    editor.addEventListener('blur', close)
+    editor.addEventListener('keydown', handleKeyDown)
+    return () => {
+      editor.removeEventListener('input', update)
+      editor.removeEventListener('click', update)
+      editor.removeEventListener('blur', close)
+      editor.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [editorRef, enabled, openLink, targets, activeIndex, choose])
+
+  if (!enabled || !openLink || targets.length === 0) {
+    return null
+  }
+
+  return (
+    <ul
+      role="listbox"
+      aria-label="Link suggestions"
+      className="fixed z-[75] max-h-64 overflow-auto py-1 rounded-xl bg-white dark:bg-gray-800 border border-amber-200/50 dark:border-gray-700/50 shadow-xl"
+      style={{ top: openLink.top, left: openLink.left, width: MENU_WIDTH }}
+    >
+      {targets.map((target, index) => (
+        <li
+          key={target.link}
+          role="option"
+          aria-selected={index === activeIndex}
+          // mousedown rather than click, so the editor keeps its focus and caret
+          onMouseDown={(e) => {
+            e.preventDefault()
+            choose(target)
+          }}
+          onMouseEnter={() => setActiveIndex(index)}
+          className={`flex items-center gap-2 px-3 py-2 text-sm cursor-pointer ${
+            index === activeIndex
+              ? 'bg-amber-50 dark:bg-violet-900/30 text-amber-900 dark:text-violet-200'
+              : 'text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          <span className="shrink-0 px-1.5 py-0.5 rounded text-xs bg-amber-100 dark:bg-gray-700 text-amber-700 dark:text-gray-300">
+            {LINK_TYPE_LABELS[target.type]}
+          </span>
+          <span className="truncate">{target.title}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { LINK_TYPE_LABELS, LinkType } from '@/lib/wiki-links'
+
+interface Backlink {
+  type: LinkType
+  id: string
+  title: string | null
+  excerpt: string
+  date: string
+  url: string
+}
+
+interface MentionedInPanelProps {
+  type: LinkType
+  id: string
+  onClose: () => void
+}
+
+function BacklinkItem({ backlink, onOpen }: { backlink: Backlink; onOpen: () => void }) {
+  const date = new Date(backlink.date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+
+  return (
+    <Link
+      href={backlink.url}
+      onClick={onOpen}
+      className="block px-6 py-4 hover:bg-amber-50/50 dark:hover:bg-gray-800/50 transition-colors"
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <span className="shrink-0 px-1.5 py-0.5 rounded text-xs bg-amber-100 dark:bg-gray-700 text-amber-700 dark:text-gray-300">
+          {LINK_TYPE_LABELS[backlink.type]}
+        </span>
+        <span className="truncate text-sm font-medium text-amber-900 dark:text-gray-100">
+          {backlink.title ?? date}
+        </span>
+        {backlink.title && <span className="ml-auto shrink-0 text-xs text-gray-500">{date}</span>}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-3">{backlink.excerpt}</p>
+    </Link>
+  )
+}
+
+/**
+ * Side panel listing the journal entries, notes, goals and tasks whose [[links]] point at a record.
+ */
+export function MentionedInPanel({ type, id, onClose }: MentionedInPanelProps) {
+  const [backlinks, setBacklinks] = useState<Backlink[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchBacklinks = async () => {
+      try {
+        const res = await fetch(`/api/links/backlinks?type=${type}&id=${encodeURIComponent(id)}`)
+        const data = await res.json()
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to load mentions')
+        }
+
+        setBacklinks(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load mentions')
+      }
+    }
+
+    fetchBacklinks()
+  }, [type, id])
+
+  return (
+    <div className="fixed inset-0 z-[80] flex justify-end bg-black/20 dark:bg-black/40" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full flex flex-col bg-white dark:bg-gray-900 border-l border-amber-200/50 dark:border-gray-700/50 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Mentioned in"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-amber-100 dark:border-gray-800">
+          <h2 className="text-lg font-semibold text-amber-900 dark:text-gray-100">Mentioned in</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full text-amber-500 dark:text-gray-400 hover:bg-amber-100 dark:hover:bg-gray-800"
+            aria-label="Close mentions"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-sm text-red-600 dark:text-red-300" role="alert">
+            {error}
+          </div>
+        )}
+
+        {!backlinks && !error && (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="w-6 h-6 border-2 border-amber-500 dark:border-violet-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+
+        {backlinks && backlinks.length === 0 && (
+          <p className="px-6 py-8 text-sm text-amber-600/70 dark:text-gray-500">
+            Nothing links here yet. Type [[ in an entry, or in a note, goal or task, to link to another.
+          </p>
+        )}
+
+        {backlinks && backlinks.length > 0 && (
+          <ul className="flex-1 overflow-auto divide-y divide-amber-100 dark:divide-gray-800">
+            {backlinks.map(backlink => (
+              <li key={`${backlink.type}:${backlink.id}`}>
+                <BacklinkItem backlink={backlink} onOpen={onClose} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+    </div>
+  )
+}
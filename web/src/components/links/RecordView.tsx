@@ -0,0 +1,205 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { ReactNode, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { MentionedInPanel } from '@/components/links/MentionedInPanel'
+import { LINK_TYPE_LABELS } from '@/lib/wiki-links'
+
+// Records that are created and edited in the Android app; the web shows them read-only
+type RecordType = 'note' | 'goal' | 'task'
+
+interface Note {
+  title: string
+  content: string
+  updatedAt: string
+}
+
+interface Goal {
+  title: string
+  description: string
+  targetDate: string | null
+  status: string
+  priority: string
+  updatedAt: string
+}
+
+interface Task {
+  title: string
+  description: string
+  dueDate: string | null
+  isCompleted: boolean
+  priority: string
+  linkedGoalId: string | null
+  updatedAt: string
+}
+
+type LoadedRecord =
+  | { type: 'note'; data: Note }
+  | { type: 'goal'; data: Goal }
+  | { type: 'task'; data: Task }
+
+interface RecordViewProps {
+  type: RecordType
+  id: string
+}
+
+const API_PATHS: Record<RecordType, string> = {
+  note: '/api/notes',
+  goal: '/api/goals',
+  task: '/api/tasks'
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+function Detail({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-500">{label}</dt>
+      <dd className="text-sm text-gray-800 dark:text-gray-200 capitalize">{children}</dd>
+    </div>
+  )
+}
+
+function RecordDetails({ record }: { record: LoadedRecord }) {
+  switch (record.type) {
+    case 'note':
+      return null
+    case 'goal':
+      return (
+        <dl className="flex flex-wrap gap-x-8 gap-y-3 mb-6">
+          <Detail label="Status">{record.data.status.toLowerCase()}</Detail>
+          <Detail label="Priority">{record.data.priority.toLowerCase()}</Detail>
+          {record.data.targetDate && <Detail label="Target date">{formatDate(record.data.targetDate)}</Detail>}
+        </dl>
+      )
+    case 'task':
+      return (
+        <dl className="flex flex-wrap gap-x-8 gap-y-3 mb-6">
+          <Detail label="Status">{record.data.isCompleted ? 'done' : 'open'}</Detail>
+          <Detail label="Priority">{record.data.priority.toLowerCase()}</Detail>
+          {record.data.dueDate && <Detail label="Due">{formatDate(record.data.dueDate)}</Detail>}
+          {record.data.linkedGoalId && (
+            <Detail label="Goal">
+              <Link href={`/goals/${record.data.linkedGoalId}`} className="text-amber-700 dark:text-violet-400 hover:underline">
+                View goal
+              </Link>
+            </Detail>
+          )}
+        </dl>
+      )
+  }
+}
+
+/**
+ * Read-only page for a note, goal or task, so search results and [[links]] have somewhere to go,
+ * with the "Mentioned in" panel of everything that links to it.
+ */
+export function RecordView({ type, id }: RecordViewProps) {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [record, setRecord] = useState<LoadedRecord | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [fetchError, setFetchError] = useState<string | null>(null)
+  const [showMentions, setShowMentions] = useState(false)
+  const label = LINK_TYPE_LABELS[type]
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    if (!session) return
+
+    const fetchRecord = async () => {
+      try {
+        const res = await fetch(`${API_PATHS[type]}/${id}`)
+        if (res.ok) {
+          setRecord({ type, data: await res.json() } as LoadedRecord)
+          setFetchError(null)
+        } else {
+          setFetchError(res.status === 404 ? `${label} not found` : `Failed to load ${label.toLowerCase()}`)
+        }
+      } catch (error) {
+        console.error(`Failed to fetch ${type}:`, error)
+        setFetchError(`Failed to load ${label.toLowerCase()}`)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRecord()
+  }, [session, type, id, label])
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh]">
+        <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  if (fetchError || !record) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-8 text-center">
+        <p className="text-red-600 dark:text-red-400 font-medium">{fetchError}</p>
+        <Link href="/search" className="inline-block mt-4 text-sm text-amber-700 dark:text-violet-400 hover:underline">
+          Back to search
+        </Link>
+      </div>
+    )
+  }
+
+  const text = record.type === 'note' ? record.data.content : record.data.description
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div className="min-w-0">
+          <span className="inline-block px-2 py-1 mb-2 text-xs rounded-full bg-amber-100 dark:bg-violet-900/50 text-amber-700 dark:text-violet-400">
+            {label}
+          </span>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white break-words">{record.data.title}</h1>
+        </div>
+        <button
+          onClick={() => setShowMentions(true)}
+          className="shrink-0 flex items-center gap-2 px-3 py-2 rounded-full bg-white dark:bg-gray-800 border border-amber-200/50 dark:border-gray-700/50 text-sm text-amber-700 dark:text-gray-300 hover:bg-amber-50 dark:hover:bg-gray-700 transition-colors shadow-sm"
+          aria-label={`Show where this ${label.toLowerCase()} is mentioned`}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+          </svg>
+          Mentioned in
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">Updated {formatDate(record.data.updatedAt)}</p>
+
+      <RecordDetails record={record} />
+
+      <div className="bg-white dark:bg-[#1a1a1a] rounded-xl shadow-sm dark:shadow-black/20 border border-gray-200 dark:border-gray-800 p-6">
+        {text ? (
+          <p className="whitespace-pre-wrap break-words text-gray-700 dark:text-gray-300">{text}</p>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400">No {record.type === 'note' ? 'content' : 'description'}.</p>
+        )}
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500 dark:text-gray-500">
+        {label}s are edited in the Android app.
+      </p>
+
+      {showMentions && (
+        <MentionedInPanel type={type} id={id} onClose={() => setShowMentions(false)} />
+      )}
+    </div>
+  )
+}
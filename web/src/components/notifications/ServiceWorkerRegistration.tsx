@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect } from 'react'
+import { OUTBOX_CHANGE_EVENT, replayOutbox } from '@/lib/offline-outbox'
 
 export function ServiceWorkerRegistration() {
   useEffect(() => {
@@ -29,5 +30,30 @@ export function ServiceWorkerRegistration() {
     }
   }, [])
 
+  // Changes made offline are sent by the service worker where Background Sync is supported; this
+  // covers the browsers without it, and anything still queued from an earlier visit
+  useEffect(() => {
+    const replay = () => {
+      replayOutbox().catch((error) => console.error('Failed to send offline changes:', error))
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'outbox-change') {
+        window.dispatchEvent(new Event(OUTBOX_CHANGE_EVENT))
+      }
+    }
+
+    if (navigator.onLine) {
+      replay()
+    }
+
+    window.addEventListener('online', replay)
+    navigator.serviceWorker?.addEventListener('message', handleMessage)
+    return () => {
+      window.removeEventListener('online', replay)
+      navigator.serviceWorker?.removeEventListener('message', handleMessage)
+    }
+  }, [])
+
   return null
 }
@@ -1,11 +1,58 @@
 'use client'
 
-import { SessionProvider as NextAuthSessionProvider } from 'next-auth/react'
-import { ReactNode } from 'react'
+import { SessionProvider as NextAuthSessionProvider, useSession } from 'next-auth/react'
+import { usePathname, useRouter } from 'next/navigation'
+import { ReactNode, useEffect } from 'react'
+
+// Sends half-authenticated sessions (two-factor code still missing) back to the login challenge
+function TwoFactorGate() {
+  const { data: session } = useSession()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (session?.twoFactorPending && pathname !== '/login') {
+      router.replace('/login')
+    }
+  }, [session, pathname, router])
+
+  return null
+}
+
+// Saves the browser's timezone for users who haven't set one yet, once per browser session
+function TimezoneDetector() {
+  const { data: session } = useSession()
+  const isSignedIn = Boolean(session?.user?.id) && !session?.twoFactorPending
+
+  useEffect(() => {
+    if (!isSignedIn || sessionStorage.getItem('timezone-checked')) return
+    sessionStorage.setItem('timezone-checked', '1')
+
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    if (!timezone) return
+
+    fetch('/api/me')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((profile) => {
+        if (profile && !profile.timezone) {
+          return fetch('/api/me', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ timezone })
+          })
+        }
+      })
+      .catch((err) => console.error('Failed to save timezone:', err))
+  }, [isSignedIn])
+
+  return null
+}
 
 export function SessionProvider({ children }: { children: ReactNode }) {
   return (
     <NextAuthSessionProvider>
+      <TwoFactorGate />
+      <TimezoneDetector />
       {children}
     </NextAuthSessionProvider>
   )
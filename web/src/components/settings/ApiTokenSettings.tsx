@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { TOKEN_RESOURCES, TokenScope } from '@/lib/token-scopes'
+
+const KeyIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25a3 3 0 013 3m3 0a6 6 0 01-7.029 5.912c-.563-.097-1.159.026-1.563.43L10.5 17.25H8.25v2.25H6v2.25H2.25v-2.818c0-.597.237-1.17.659-1.591l6.499-6.499c.404-.404.527-1 .43-1.563A6 6 0 1121.75 8.25z" />
+  </svg>
+)
+
+interface ApiToken {
+  id: string
+  name: string
+  tokenPrefix: string
+  scopes: string[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+// Scope presets offered in the UI; the API accepts any combination of "<resource>:<read|write>"
+const SCOPE_PRESETS: { label: string; scopes: TokenScope[] }[] = [
+  { label: 'Read only', scopes: TOKEN_RESOURCES.map(resource => `${resource}:read` as TokenScope) },
+  { label: 'Full access', scopes: TOKEN_RESOURCES.map(resource => `${resource}:write` as TokenScope) },
+  { label: 'Journal only', scopes: ['journal:write'] }
+]
+
+function formatDate(date: string | null): string {
+  if (!date) return 'Never'
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export function ApiTokenSettings() {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [presetIndex, setPresetIndex] = useState(0)
+  const [expiresInDays, setExpiresInDays] = useState('90')
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const res = await fetch('/api/tokens')
+      if (res.ok) {
+        setTokens(await res.json())
+      }
+    } catch (err) {
+      console.error('Failed to fetch tokens:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTokens()
+  }, [fetchTokens])
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsProcessing(true)
+    setError(null)
+    setNewToken(null)
+
+    try {
+      const res = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes: SCOPE_PRESETS[presetIndex].scopes,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : null
+        })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create token')
+      }
+
+      setNewToken(data.token)
+      setName('')
+      fetchTokens()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const revokeToken = async (id: string) => {
+    if (!confirm('Revoke this token? Scripts or devices using it will stop working.')) return
+
+    const res = await fetch(`/api/tokens/${id}`, { method: 'DELETE' })
+    if (res.ok) {
+      fetchTokens()
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-xl border-2 border-violet-400 dark:border-violet-500 text-violet-500 dark:text-violet-400">
+          <KeyIcon />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">API Tokens</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Use with <code>Authorization: Bearer &lt;token&gt;</code> from scripts and apps</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {newToken && (
+        <div className="mb-4 p-3 rounded-xl bg-emerald-50 dark:bg-violet-900/30 border border-emerald-200 dark:border-violet-800/50 text-emerald-700 dark:text-violet-300 text-sm space-y-2">
+          <p className="font-medium">Copy your new token now - it won&apos;t be shown again.</p>
+          <code className="block p-2 rounded-lg bg-white dark:bg-gray-900 break-all select-all">{newToken}</code>
+        </div>
+      )}
+
+      <form onSubmit={createToken} className="flex flex-col sm:flex-row gap-2 mb-6">
+        <input
+          type="text"
+          required
+          maxLength={100}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Token name (e.g. Backup script)"
+          className="flex-1 px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white"
+        />
+        <select
+          value={presetIndex}
+          onChange={(e) => setPresetIndex(Number(e.target.value))}
+          className="px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white"
+        >
+          {SCOPE_PRESETS.map((preset, index) => (
+            <option key={preset.label} value={index}>{preset.label}</option>
+          ))}
+        </select>
+        <select
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+          className="px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white"
+        >
+          <option value="30">30 days</option>
+          <option value="90">90 days</option>
+          <option value="365">1 year</option>
+          <option value="">No expiry</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isProcessing}
+          className="px-4 py-2 rounded-xl text-sm font-medium text-violet-600 dark:text-violet-400 border-2 border-violet-400 dark:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Create
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading tokens...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No tokens yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {tokens.map((token) => (
+            <li key={token.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className={`text-sm font-medium ${token.revokedAt ? 'text-gray-400 line-through' : 'text-gray-900 dark:text-white'}`}>
+                  {token.name} <span className="font-mono text-xs text-gray-400">{token.tokenPrefix}…</span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {token.scopes.join(', ')}
+                </p>
+                <p className="text-xs text-gray-400 dark:text-gray-500">
+                  Last used {formatDate(token.lastUsedAt)} · Expires {token.expiresAt ? formatDate(token.expiresAt) : 'never'}
+                </p>
+              </div>
+              {!token.revokedAt && (
+                <button
+                  onClick={() => revokeToken(token.id)}
+                  className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 px-3 py-1.5 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
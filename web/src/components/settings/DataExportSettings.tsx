@@ -0,0 +1,144 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+
+const DownloadIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+  </svg>
+)
+
+interface AccountExport {
+  id: string
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+  format: 'zip' | 'json'
+  fileName: string | null
+  size: number | null
+  error: string | null
+  expiresAt: string | null
+  downloadUrl: string | null
+}
+
+// How often to check on a running export
+const POLL_INTERVAL_MS = 3000
+
+function formatSize(bytes: number | null): string {
+  if (bytes === null) return ''
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export function DataExportSettings() {
+  const [format, setFormat] = useState<'zip' | 'json'>('zip')
+  const [accountExport, setAccountExport] = useState<AccountExport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const isRunning = accountExport?.status === 'PENDING' || accountExport?.status === 'PROCESSING'
+
+  const pollStatus = useCallback(async (exportFormat: 'zip' | 'json') => {
+    try {
+      const res = await fetch(`/api/account/export?format=${exportFormat}`)
+      const data = await res.json()
+      if (res.ok) {
+        setAccountExport(data)
+      }
+    } catch (err) {
+      console.error('Failed to check export status:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isRunning || !accountExport) return
+
+    pollTimer.current = setTimeout(() => pollStatus(accountExport.format), POLL_INTERVAL_MS)
+    return () => {
+      if (pollTimer.current) clearTimeout(pollTimer.current)
+    }
+  }, [isRunning, accountExport, pollStatus])
+
+  const startExport = async () => {
+    setIsStarting(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/account/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to start export')
+      }
+
+      setAccountExport(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start export')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-xl border-2 border-violet-400 dark:border-violet-500 text-violet-500 dark:text-violet-400">
+          <DownloadIcon />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Export Your Data</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Journal, conversations, summaries, tools, notes, goals, tasks and agenda</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as 'zip' | 'json')}
+          disabled={isRunning}
+          className="px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white"
+        >
+          <option value="zip">ZIP archive</option>
+          <option value="json">Single JSON file</option>
+        </select>
+        <button
+          onClick={startExport}
+          disabled={isStarting || isRunning}
+          className="px-4 py-2 rounded-xl text-sm font-medium text-violet-600 dark:text-violet-400 border-2 border-violet-400 dark:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? 'Preparing export...' : 'Start export'}
+        </button>
+      </div>
+
+      {accountExport?.status === 'COMPLETED' && accountExport.downloadUrl && (
+        <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+          <a
+            href={accountExport.downloadUrl}
+            className="font-medium text-emerald-600 dark:text-violet-400 hover:underline"
+          >
+            Download {accountExport.fileName}
+          </a>{' '}
+          ({formatSize(accountExport.size)})
+          {accountExport.expiresAt && (
+            <> · available until {new Date(accountExport.expiresAt).toLocaleDateString()}</>
+          )}
+        </p>
+      )}
+
+      {accountExport?.status === 'FAILED' && (
+        <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+          The export failed{accountExport.error ? `: ${accountExport.error}` : ''}. Please try again.
+        </p>
+      )}
+    </div>
+  )
+}
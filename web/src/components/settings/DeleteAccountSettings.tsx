@@ -0,0 +1,47 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+const TrashIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+  </svg>
+)
+
+export function DeleteAccountSettings() {
+  const [scheduledAt, setScheduledAt] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/account/deletion')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setScheduledAt(data?.scheduledAt ?? null))
+      .catch((err) => console.error('Failed to fetch deletion status:', err))
+  }, [])
+
+  return (
+    <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-red-200/70 dark:border-red-900/50 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl border-2 border-red-400 dark:border-red-500 text-red-500 dark:text-red-400">
+            <TrashIcon />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Delete Account</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {scheduledAt
+                ? `Scheduled for deletion on ${new Date(scheduledAt).toLocaleDateString()}`
+                : 'Permanently remove your account and all of its data'}
+            </p>
+          </div>
+        </div>
+        <Link
+          href="/settings/delete-account"
+          className="px-4 py-2 rounded-xl text-sm font-medium text-center text-red-600 dark:text-red-400 border-2 border-red-400 dark:border-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+        >
+          {scheduledAt ? 'Manage deletion' : 'Delete account'}
+        </Link>
+      </div>
+    </div>
+  )
+}
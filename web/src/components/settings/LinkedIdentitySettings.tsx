@@ -0,0 +1,134 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { signIn } from 'next-auth/react'
+import { useSearchParams } from 'next/navigation'
+import { getAuthErrorMessage } from '@/lib/auth-errors'
+
+const LinkIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 011.242 7.244l-4.5 4.5a4.5 4.5 0 01-6.364-6.364l1.757-1.757m13.35-.622l1.757-1.757a4.5 4.5 0 00-6.364-6.364l-4.5 4.5a4.5 4.5 0 001.242 7.244" />
+  </svg>
+)
+
+interface Identity {
+  id: string
+  provider: string
+  providerAccountId: string
+}
+
+interface IdentityData {
+  identities: Identity[]
+  providers: { id: string; name: string }[]
+  hasPassword: boolean
+}
+
+export function LinkedIdentitySettings() {
+  const searchParams = useSearchParams()
+  const [data, setData] = useState<IdentityData | null>(null)
+  const [error, setError] = useState<string | null>(
+    searchParams.get('error') ? getAuthErrorMessage(searchParams.get('error')) : null
+  )
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const fetchIdentities = useCallback(async () => {
+    try {
+      const res = await fetch('/api/account/identities')
+      if (res.ok) {
+        setData(await res.json())
+      }
+    } catch (err) {
+      console.error('Failed to fetch identities:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchIdentities()
+  }, [fetchIdentities])
+
+  const unlink = async (identity: Identity) => {
+    if (!confirm(`Disconnect ${providerName(identity.provider)}? You won't be able to sign in with it anymore.`)) return
+
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/account/identities/${identity.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json()
+        throw new Error(body.error || 'Failed to disconnect')
+      }
+      fetchIdentities()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to disconnect')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const providerName = (providerId: string) =>
+    data?.providers.find(provider => provider.id === providerId)?.name ?? providerId
+
+  const unlinkedProviders = data?.providers.filter(
+    provider => !data.identities.some(identity => identity.provider === provider.id)
+  ) ?? []
+
+  return (
+    <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-xl border-2 border-violet-400 dark:border-violet-500 text-violet-500 dark:text-violet-400">
+          <LinkIcon />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Sign-in Methods</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Identities you can use to sign in to this account</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {!data ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          <li className="py-3 flex items-center justify-between gap-4">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">Email and password</p>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {data.hasPassword ? 'Enabled' : 'Not set'}
+            </span>
+          </li>
+          {data.identities.map((identity) => (
+            <li key={identity.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{providerName(identity.provider)}</p>
+                <p className="text-xs font-mono text-gray-400 dark:text-gray-500 truncate">{identity.providerAccountId}</p>
+              </div>
+              <button
+                onClick={() => unlink(identity)}
+                disabled={isProcessing}
+                className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 px-3 py-1.5 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 transition-all disabled:opacity-50"
+              >
+                Disconnect
+              </button>
+            </li>
+          ))}
+          {unlinkedProviders.map((provider) => (
+            <li key={provider.id} className="py-3 flex items-center justify-between gap-4">
+              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">{provider.name}</p>
+              <button
+                onClick={() => signIn(provider.id, { callbackUrl: '/settings' })}
+                className="px-3 py-1.5 rounded-xl text-sm font-medium text-violet-600 dark:text-violet-400 border-2 border-violet-400 dark:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-all"
+              >
+                Connect
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
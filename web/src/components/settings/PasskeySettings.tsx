@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser'
+
+const FingerprintIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M7.864 4.243A7.5 7.5 0 0119.5 10.5c0 2.92-.556 5.709-1.568 8.268M5.742 6.364A7.465 7.465 0 004.5 10.5a7.464 7.464 0 01-1.15 3.993m1.989 3.559A11.209 11.209 0 008.25 10.5a3.75 3.75 0 117.5 0c0 .527-.021 1.049-.064 1.565M12 10.5a14.94 14.94 0 01-3.6 9.75m6.633-4.596a18.666 18.666 0 01-2.485 5.33" />
+  </svg>
+)
+
+interface Passkey {
+  id: string
+  name: string
+  backedUp: boolean
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+function formatDate(date: string | null): string {
+  if (!date) return 'Never'
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export function PasskeySettings() {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [isSupported, setIsSupported] = useState(true)
+
+  const fetchPasskeys = useCallback(async () => {
+    try {
+      const res = await fetch('/api/account/passkeys')
+      if (res.ok) {
+        setPasskeys(await res.json())
+      }
+    } catch (err) {
+      console.error('Failed to fetch passkeys:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    setIsSupported(browserSupportsWebAuthn())
+    fetchPasskeys()
+  }, [fetchPasskeys])
+
+  const addPasskey = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const optionsRes = await fetch('/api/account/passkeys/options', { method: 'POST' })
+      if (!optionsRes.ok) {
+        throw new Error('Failed to start passkey registration')
+      }
+
+      const response = await startRegistration({ optionsJSON: await optionsRes.json() })
+
+      const res = await fetch('/api/account/passkeys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response, name })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to add passkey')
+      }
+
+      setName('')
+      fetchPasskeys()
+    } catch (err) {
+      // Cancelling the browser prompt isn't an error worth showing
+      if (err instanceof Error && err.name !== 'NotAllowedError') {
+        setError(err.message)
+      }
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const removePasskey = async (passkey: Passkey) => {
+    if (!confirm(`Remove the passkey "${passkey.name}"?`)) return
+
+    setError(null)
+    const res = await fetch(`/api/account/passkeys/${passkey.id}`, { method: 'DELETE' })
+    if (res.ok) {
+      fetchPasskeys()
+    } else {
+      const data = await res.json()
+      setError(data.error || 'Failed to remove passkey')
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-xl border-2 border-violet-400 dark:border-violet-500 text-violet-500 dark:text-violet-400">
+          <FingerprintIcon />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Passkeys</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Sign in with Face ID, fingerprint or your device PIN</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isSupported ? (
+        <form onSubmit={addPasskey} className="flex flex-col sm:flex-row gap-2 mb-6">
+          <input
+            type="text"
+            maxLength={100}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Passkey name (e.g. iPhone)"
+            className="flex-1 px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white"
+          />
+          <button
+            type="submit"
+            disabled={isProcessing}
+            className="px-4 py-2 rounded-xl text-sm font-medium text-violet-600 dark:text-violet-400 border-2 border-violet-400 dark:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? 'Waiting for device...' : 'Add passkey'}
+          </button>
+        </form>
+      ) : (
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">This browser doesn&apos;t support passkeys.</p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading passkeys...</p>
+      ) : passkeys.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No passkeys yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {passkey.name}
+                  {passkey.backedUp && <span className="ml-2 text-xs text-gray-400">synced</span>}
+                </p>
+                <p className="text-xs text-gray-400 dark:text-gray-500">
+                  Added {formatDate(passkey.createdAt)} · Last used {formatDate(passkey.lastUsedAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => removePasskey(passkey)}
+                className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 px-3 py-1.5 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  COACH_TONES,
+  COACH_TONE_LABELS,
+  LANGUAGES,
+  NAME_MAX_LENGTH,
+  NOTIFY_MINUTES_MAX,
+  NOTIFY_MINUTES_MIN,
+  UserProfile
+} from '@/lib/user-preferences'
+
+const UserIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 6a3.75 3.75 0 11-7.5 0 3.75 3.75 0 017.5 0zM4.501 20.118a7.5 7.5 0 0114.998 0A17.933 17.933 0 0112 21.75c-2.676 0-5.216-.584-7.499-1.632z" />
+  </svg>
+)
+
+const INPUT_CLASSES = 'w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white'
+const LABEL_CLASSES = 'text-sm font-medium text-gray-700 dark:text-gray-300'
+
+// Intl.supportedValuesOf is missing from older browsers; the current zone is always offered
+function getTimezoneOptions(current: string | null): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []
+  return current && !zones.includes(current) ? [current, ...zones] : zones
+}
+
+export function ProfileSettings() {
+  const [profile, setProfile] = useState<UserProfile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetch('/api/me')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setProfile(data))
+      .catch((err) => console.error('Failed to fetch profile:', err))
+  }, [])
+
+  const update = (changes: Partial<UserProfile>) => {
+    setProfile((current) => (current ? { ...current, ...changes } : current))
+    setSaved(false)
+  }
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!profile) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/me', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: profile.name,
+          timezone: profile.timezone,
+          preferredLanguage: profile.preferredLanguage,
+          coachTone: profile.coachTone,
+          remindersEnabled: profile.remindersEnabled,
+          streakReminders: profile.streakReminders,
+          notifyMinutesBefore: profile.notifyMinutesBefore,
+          notifyMinutesAfter: profile.notifyMinutesAfter
+        })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save profile')
+      }
+
+      setProfile(data)
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-xl border-2 border-violet-400 dark:border-violet-500 text-violet-500 dark:text-violet-400">
+          <UserIcon />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Profile &amp; Preferences</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">How the coach addresses you and when you hear from it</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {!profile ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : (
+        <form onSubmit={save} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block">
+              <span className={LABEL_CLASSES}>Name</span>
+              <input
+                type="text"
+                maxLength={NAME_MAX_LENGTH}
+                value={profile.name ?? ''}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="What should the coach call you?"
+                className={`mt-1 ${INPUT_CLASSES}`}
+              />
+            </label>
+
+            <label className="block">
+              <span className={LABEL_CLASSES}>Timezone</span>
+              <select
+                value={profile.timezone ?? ''}
+                onChange={(e) => update({ timezone: e.target.value || null })}
+                className={`mt-1 ${INPUT_CLASSES}`}
+              >
+                <option value="">Not set</option>
+                {getTimezoneOptions(profile.timezone).map((zone) => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className={LABEL_CLASSES}>Coach language</span>
+              <select
+                value={profile.preferredLanguage ?? 'en'}
+                onChange={(e) => update({ preferredLanguage: e.target.value })}
+                className={`mt-1 ${INPUT_CLASSES}`}
+              >
+                {Object.entries(LANGUAGES).map(([code, label]) => (
+                  <option key={code} value={code}>{label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className={LABEL_CLASSES}>Coach tone</span>
+              <select
+                value={profile.coachTone}
+                onChange={(e) => update({ coachTone: e.target.value as UserProfile['coachTone'] })}
+                className={`mt-1 ${INPUT_CLASSES}`}
+              >
+                {COACH_TONES.map((tone) => (
+                  <option key={tone} value={tone}>{COACH_TONE_LABELS[tone]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className={LABEL_CLASSES}>Event reminders (minutes before)</span>
+              <input
+                type="number"
+                required
+                min={NOTIFY_MINUTES_MIN}
+                max={NOTIFY_MINUTES_MAX}
+                value={profile.notifyMinutesBefore}
+                onChange={(e) => update({ notifyMinutesBefore: Number(e.target.value) })}
+                className={`mt-1 ${INPUT_CLASSES}`}
+              />
+            </label>
+
+            <label className="block">
+              <span className={LABEL_CLASSES}>Event follow-ups (minutes after)</span>
+              <input
+                type="number"
+                required
+                min={NOTIFY_MINUTES_MIN}
+                max={NOTIFY_MINUTES_MAX}
+                value={profile.notifyMinutesAfter}
+                onChange={(e) => update({ notifyMinutesAfter: Number(e.target.value) })}
+                className={`mt-1 ${INPUT_CLASSES}`}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={profile.remindersEnabled}
+              onChange={(e) => update({ remindersEnabled: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-600 text-violet-600 focus:ring-violet-500"
+            />
+            <span className={LABEL_CLASSES}>Send me a daily journaling reminder</span>
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={profile.streakReminders}
+              onChange={(e) => update({ streakReminders: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-600 text-violet-600 focus:ring-violet-500"
+            />
+            <span className={LABEL_CLASSES}>Remind me in the evening when my journaling streak is about to break</span>
+          </label>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 rounded-xl text-sm font-medium text-violet-600 dark:text-violet-400 border-2 border-violet-400 dark:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save preferences'}
+            </button>
+            {saved && <span className="text-sm text-emerald-600 dark:text-violet-400">Saved</span>}
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+const ShieldIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75m-3-7.036A11.959 11.959 0 013.598 6 11.99 11.99 0 003 9.749c0 5.592 3.824 10.29 9 11.623 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.571-.598-3.751h-.152c-3.196 0-6.1-1.248-8.25-3.285z" />
+  </svg>
+)
+
+interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+interface SetupData {
+  secret: string
+  qrCode: string
+}
+
+const INPUT_CLASSES = 'px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white tracking-widest'
+const BUTTON_CLASSES = 'px-4 py-2 rounded-xl text-sm font-medium text-violet-600 dark:text-violet-400 border-2 border-violet-400 dark:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed'
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<SetupData | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch('/api/account/two-factor')
+      if (res.ok) {
+        setStatus(await res.json())
+      }
+    } catch (err) {
+      console.error('Failed to fetch two-factor status:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  // Runs a two-factor API call and returns its JSON body, or null after showing the error
+  const request = async (url: string, method: string, body?: object) => {
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+      return null
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const startSetup = async () => {
+    setRecoveryCodes(null)
+    const data = await request('/api/account/two-factor/setup', 'POST')
+    if (data) {
+      setSetup(data)
+      setCode('')
+    }
+  }
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await request('/api/account/two-factor/enable', 'POST', { code })
+    if (data) {
+      setSetup(null)
+      setCode('')
+      setRecoveryCodes(data.recoveryCodes)
+      fetchStatus()
+    }
+  }
+
+  const regenerateCodes = async () => {
+    const data = await request('/api/account/two-factor/recovery-codes', 'POST', { code })
+    if (data) {
+      setCode('')
+      setRecoveryCodes(data.recoveryCodes)
+      fetchStatus()
+    }
+  }
+
+  const disable = async () => {
+    if (!confirm('Turn off two-factor authentication? Your account will only be protected by your password.')) return
+
+    const data = await request('/api/account/two-factor', 'DELETE', { code })
+    if (data) {
+      setCode('')
+      setRecoveryCodes(null)
+      fetchStatus()
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#1a1a1a] rounded-2xl shadow-sm dark:shadow-black/20 border border-gray-200/50 dark:border-gray-800/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-xl border-2 border-violet-400 dark:border-violet-500 text-violet-500 dark:text-violet-400">
+          <ShieldIcon />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Two-Factor Authentication</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {status?.enabled
+              ? `Enabled - ${status.recoveryCodesRemaining} recovery codes left`
+              : 'Require a code from an authenticator app when signing in'}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-4 p-3 rounded-xl bg-emerald-50 dark:bg-violet-900/30 border border-emerald-200 dark:border-violet-800/50 text-emerald-700 dark:text-violet-300 text-sm space-y-2">
+          <p className="font-medium">Save these recovery codes somewhere safe. Each one can be used once if you lose your authenticator.</p>
+          <ul className="grid grid-cols-2 gap-1 font-mono p-2 rounded-lg bg-white dark:bg-gray-900 select-all">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!status ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : status.enabled ? (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Authenticator or recovery code"
+            className={`flex-1 ${INPUT_CLASSES}`}
+          />
+          <button onClick={regenerateCodes} disabled={isProcessing || !code} className={BUTTON_CLASSES}>
+            New recovery codes
+          </button>
+          <button
+            onClick={disable}
+            disabled={isProcessing || !code}
+            className="px-4 py-2 rounded-xl text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Turn off
+          </button>
+        </div>
+      ) : setup ? (
+        <form onSubmit={confirmSetup} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Scan this QR code with your authenticator app, or enter the key manually, then type the 6-digit code it shows.
+          </p>
+          {/* eslint-disable-next-line @next/next/no-img-element -- data URL generated by the server */}
+          <img src={setup.qrCode} alt="Two-factor QR code" width={200} height={200} className="rounded-xl border border-gray-200 dark:border-gray-700" />
+          <code className="block text-sm break-all select-all text-gray-700 dark:text-gray-300">{setup.secret}</code>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              className={INPUT_CLASSES}
+            />
+            <button type="submit" disabled={isProcessing} className={BUTTON_CLASSES}>
+              Verify and enable
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button onClick={startSetup} disabled={isProcessing} className={BUTTON_CLASSES}>
+          Set up two-factor authentication
+        </button>
+      )}
+    </div>
+  )
+}
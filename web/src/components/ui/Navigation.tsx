@@ -2,8 +2,10 @@
 
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
+import { useEffect, useState, useSyncExternalStore } from 'react'
 import { useSession, signOut } from 'next-auth/react'
 import { useHeader } from '@/components/providers/HeaderProvider'
+import { OUTBOX_CHANGE_EVENT, clearOfflineData, countOutbox } from '@/lib/offline-outbox'
 
 const HomeIcon = () => (
   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -29,6 +31,19 @@ const ChartIcon = () => (
   </svg>
 )
 
+const SearchIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+  </svg>
+)
+
+const CogIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.324.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.24-.438.613-.431.992a6.759 6.759 0 010 .255c-.007.378.138.75.43.99l1.005.828c.424.35.534.954.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.57 6.57 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.28c-.09.543-.56.941-1.11.941h-2.594c-.55 0-1.02-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.992a6.932 6.932 0 010-.255c.007-.378-.138-.75-.43-.99l-1.004-.828a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.087.22-.128.332-.183.582-.495.644-.869l.214-1.281z" />
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+  </svg>
+)
+
 const SparklesIcon = () => (
   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
     <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09z" />
@@ -49,6 +64,62 @@ const CollapseIcon = () => (
   </svg>
 )
 
+const CloudOffIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3 3l18 18M9.5 5.2A5.25 5.25 0 0117.25 9.75 4.5 4.5 0 0119.5 18M16.5 19.5H6.75a4.5 4.5 0 01-1.43-8.77 5.2 5.2 0 011.32-2.8" />
+  </svg>
+)
+
+function subscribeToConnection(onChange: () => void) {
+  window.addEventListener('online', onChange)
+  window.addEventListener('offline', onChange)
+  return () => {
+    window.removeEventListener('online', onChange)
+    window.removeEventListener('offline', onChange)
+  }
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+// Shown while offline or while changes made offline are waiting to be sent
+function OfflineIndicator() {
+  const isOnline = useSyncExternalStore(subscribeToConnection, () => navigator.onLine, () => true)
+  const [pending, setPending] = useState(0)
+
+  useEffect(() => {
+    const refresh = () => {
+      countOutbox().then(setPending).catch(() => setPending(0))
+    }
+
+    refresh()
+    window.addEventListener(OUTBOX_CHANGE_EVENT, refresh)
+    return () => window.removeEventListener(OUTBOX_CHANGE_EVENT, refresh)
+  }, [])
+
+  if (isOnline && pending === 0) {
+    return null
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed top-4 right-16 z-[60] flex items-center gap-2 px-3 py-2 rounded-xl bg-white/80 dark:bg-[#1a1a1a]/80 backdrop-blur-sm border border-gray-200/50 dark:border-gray-700/50 shadow-lg text-xs font-medium text-amber-700 dark:text-amber-400"
+      title={isOnline ? 'Sending changes made offline' : 'Changes are saved on this device and sent when you reconnect'}
+    >
+      {isOnline ? (
+        <span>Syncing {plural(pending, 'change')}…</span>
+      ) : (
+        <>
+          <CloudOffIcon />
+          <span>Offline{pending > 0 && ` · ${plural(pending, 'change')} waiting`}</span>
+        </>
+      )}
+    </div>
+  )
+}
+
 export function Navigation() {
   const pathname = usePathname()
   const { data: session } = useSession()
@@ -58,15 +129,32 @@ export function Navigation() {
     { href: '/', label: 'Dashboard', icon: HomeIcon },
     { href: '/journal', label: 'Journal', icon: BookIcon },
     { href: '/coach', label: 'Coach', icon: ChatIcon },
-    { href: '/summaries', label: 'Summaries', icon: ChartIcon }
+    { href: '/summaries', label: 'Summaries', icon: ChartIcon },
+    { href: '/search', label: 'Search', icon: SearchIcon }
   ]
 
-  if (!session) {
+  // On desktop settings are reached through the account chip, which has no room on mobile
+  const mobileNavItems = [...navItems, { href: '/settings', label: 'Settings', icon: CogIcon }]
+  const isSettingsActive = pathname.startsWith('/settings')
+
+  const handleSignOut = async () => {
+    const pending = await countOutbox().catch(() => 0)
+    if (pending > 0 && !confirm(`${plural(pending, 'change')} made offline will be lost if you sign out before they're sent. Sign out anyway?`)) {
+      return
+    }
+    // Queued changes and cached entries belong to this account
+    await clearOfflineData().catch((error) => console.error('Failed to clear offline data:', error))
+    signOut()
+  }
+
+  if (!session || session.twoFactorPending) {
     return null
   }
 
   return (
     <>
+      <OfflineIndicator />
+
       {/* Toggle button - always visible at top right */}
       <button
         onClick={toggleHeader}
@@ -118,14 +206,22 @@ export function Navigation() {
               </div>
             </div>
             <div className="flex items-center gap-3 pr-12">
-              <div className="hidden sm:flex items-center gap-3 px-3 py-1.5 rounded-full bg-gray-50/80 dark:bg-gray-800/50 border border-gray-200/50 dark:border-gray-700/50">
+              <Link
+                href="/settings"
+                title="Settings"
+                className={`hidden sm:flex items-center gap-3 px-3 py-1.5 rounded-full border transition-all duration-300 ${
+                  isSettingsActive
+                    ? 'bg-emerald-50 dark:bg-violet-900/30 border-emerald-200 dark:border-violet-800/50'
+                    : 'bg-gray-50/80 dark:bg-gray-800/50 border-gray-200/50 dark:border-gray-700/50 hover:border-emerald-200 dark:hover:border-violet-800/50'
+                }`}
+              >
                 <div className="w-8 h-8 rounded-full bg-gradient-to-br from-emerald-500 via-green-500 to-teal-500 dark:from-violet-500 dark:via-purple-500 dark:to-indigo-500 flex items-center justify-center text-white font-semibold text-sm shadow-md ring-2 ring-white dark:ring-gray-800">
                   {session.user?.email?.[0]?.toUpperCase() || 'U'}
                 </div>
                 <span className="text-sm font-medium text-gray-700 dark:text-gray-300 max-w-[120px] truncate">{session.user?.email}</span>
-              </div>
+              </Link>
               <button
-                onClick={() => signOut()}
+                onClick={handleSignOut}
                 className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 px-4 py-2 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 transition-all duration-300 border border-transparent hover:border-red-200 dark:hover:border-red-800/50"
               >
                 Sign out
@@ -135,15 +231,15 @@ export function Navigation() {
         </div>
         {/* Mobile nav */}
         <div className="sm:hidden border-t border-gray-200/50 dark:border-gray-800/50 bg-white/50 dark:bg-[#1a1a1a]/50">
-          <div className="flex justify-around py-2 px-2">
-            {navItems.map((item) => {
+          <div className="flex justify-around py-2 px-1">
+            {mobileNavItems.map((item) => {
               const Icon = item.icon
-              const isActive = pathname === item.href
+              const isActive = item.href === '/settings' ? isSettingsActive : pathname === item.href
               return (
                 <Link
                   key={item.href}
                   href={item.href}
-                  className={`flex flex-col items-center gap-1 px-4 py-2 rounded-xl text-xs font-medium transition-all duration-300 ${
+                  className={`flex flex-col items-center gap-1 px-3 py-2 rounded-xl text-xs font-medium transition-all duration-300 ${
                     isActive
                       ? 'text-emerald-700 dark:text-violet-400 bg-emerald-50 dark:bg-violet-900/30'
                       : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800/50'
@@ -0,0 +1,101 @@
+import { prisma } from './prisma'
+import { recordAuditEvent } from './audit'
+import { deleteUserAttachmentFiles } from './attachments'
+
+// Days between a deletion request and the purge; override with ACCOUNT_DELETION_GRACE_DAYS
+const DEFAULT_GRACE_DAYS = 14
+
+export function getDeletionGraceDays(): number {
+  const value = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS)
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_GRACE_DAYS
+}
+
+/**
+ * Schedule the account for deletion after the grace period.
+ * API tokens are revoked right away so scripts stop working while the account waits to be purged.
+ */
+export async function requestAccountDeletion(userId: string): Promise<Date> {
+  const now = new Date()
+  const scheduledAt = new Date(now.getTime() + getDeletionGraceDays() * 24 * 60 * 60 * 1000)
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { deletionRequestedAt: now, deletionScheduledAt: scheduledAt }
+    }),
+    prisma.personalAccessToken.deleteMany({ where: { userId } })
+  ])
+
+  await recordAuditEvent({
+    userId,
+    action: 'account.deletion_requested',
+    metadata: { scheduledAt: scheduledAt.toISOString() }
+  })
+
+  return scheduledAt
+}
+
+export async function cancelAccountDeletion(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: null, deletionScheduledAt: null }
+  })
+
+  await recordAuditEvent({ userId, action: 'account.deletion_cancelled' })
+}
+
+/**
+ * Permanently delete a user and everything they own.
+ * Most records cascade from User; jobs and push subscriptions are removed explicitly first so an
+ * in-flight job can't recreate anything, and verification tokens are keyed by email or user id
+ * rather than related to the user. Attachment files are deleted from storage before the rows.
+ */
+export async function purgeAccount(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true }
+  })
+
+  if (!user) return
+
+  await deleteUserAttachmentFiles(userId)
+
+  await prisma.$transaction([
+    prisma.chatJob.deleteMany({ where: { userId } }),
+    prisma.dailyToolJob.deleteMany({ where: { userId } }),
+    prisma.dailyToolRefineJob.deleteMany({ where: { userId } }),
+    prisma.pushSubscription.deleteMany({ where: { userId } }),
+    prisma.verificationToken.deleteMany({
+      where: {
+        OR: [
+          { identifier: { endsWith: `:${user.email}` } },
+          { identifier: { endsWith: `:${userId}` } }
+        ]
+      }
+    }),
+    prisma.user.delete({ where: { id: userId } })
+  ])
+}
+
+/**
+ * Purge every account whose grace period has ended. Returns the number of accounts deleted.
+ * A failure on one account is logged and doesn't stop the others.
+ */
+export async function purgeDueAccounts(now = new Date()): Promise<number> {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledAt: { lte: now } },
+    select: { id: true }
+  })
+
+  let purged = 0
+  for (const { id } of due) {
+    try {
+      await purgeAccount(id)
+      purged++
+    } catch (error) {
+      console.error(`Failed to purge account ${id}:`, error)
+    }
+  }
+
+  return purged
+}
@@ -0,0 +1,276 @@
+import { strToU8, zipSync } from 'fflate'
+import { prisma } from './prisma'
+import { decryptRecords, encryptFile } from './encryption'
+import { decryptJournalEntries } from './journal-templates'
+import { journalEntryMarkdown } from './journal-content'
+import { dispatchJob } from './background-jobs'
+import { recordAuditEvent } from './audit'
+import { toAttachmentResponse } from './attachments'
+
+export const EXPORT_FORMATS = ['zip', 'json'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+// How long a finished export stays downloadable
+export const EXPORT_RETENTION_DAYS = 7
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  zip: 'application/zip',
+  json: 'application/json'
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+/**
+ * Load everything stored for a user. Unlike the list endpoints there are no limits here.
+ */
+export async function collectAccountData(userId: string) {
+  const [
+    user,
+    journalEntries,
+    journalTemplates,
+    journalDrafts,
+    conversations,
+    summaries,
+    dailyTools,
+    notes,
+    goals,
+    tasks,
+    agendaItems,
+    sentNotifications,
+    attachments
+  ] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        image: true,
+        timezone: true,
+        preferredLanguage: true,
+        coachTone: true,
+        remindersEnabled: true,
+        streakReminders: true,
+        notifyMinutesBefore: true,
+        notifyMinutesAfter: true,
+        emailVerified: true,
+        createdAt: true
+      }
+    }),
+    prisma.journalEntry.findMany({
+      where: { userId },
+      orderBy: { date: 'asc' },
+      include: { revisions: { orderBy: { createdAt: 'asc' } } }
+    }),
+    prisma.journalTemplate.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.journalDraft.findMany({ where: { userId }, orderBy: { updatedAt: 'asc' } }),
+    prisma.conversation.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { messages: { orderBy: { createdAt: 'asc' } } }
+    }),
+    prisma.summary.findMany({ where: { userId }, orderBy: { startDate: 'asc' } }),
+    prisma.dailyTool.findMany({ where: { userId }, orderBy: { date: 'asc' } }),
+    prisma.note.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.goal.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.task.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.agendaItem.findMany({
+      where: { userId },
+      orderBy: { startTime: 'asc' },
+      include: { eventNotifications: true }
+    }),
+    prisma.sentNotification.findMany({ where: { userId }, orderBy: { sentAt: 'asc' } }),
+    prisma.attachment.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } })
+  ])
+
+  return {
+    exportedAt: new Date(),
+    user,
+    journalEntries: await Promise.all(
+      (await decryptJournalEntries(userId, journalEntries)).map(async (entry) => ({
+        ...entry,
+        contentMarkdown: journalEntryMarkdown(entry),
+        revisions: await decryptJournalEntries(userId, entry.revisions)
+      }))
+    ),
+    journalTemplates,
+    journalDrafts: await decryptRecords(userId, journalDrafts),
+    conversations: await Promise.all(
+      conversations.map(async (conversation) => ({
+        ...conversation,
+        messages: await decryptRecords(userId, conversation.messages)
+      }))
+    ),
+    summaries,
+    dailyTools,
+    notes: await decryptRecords(userId, notes),
+    goals,
+    tasks,
+    agendaItems,
+    sentNotifications,
+    attachments: attachments.map(toAttachmentResponse)
+  }
+}
+
+export type AccountData = Awaited<ReturnType<typeof collectAccountData>>
+
+const README = `Personal Coach data export
+
+Each JSON file holds one kind of record, with dates in ISO 8601 (UTC):
+
+- account.json             Your profile and preferences
+- journal-entries.json     Journal entries (content is HTML from the editor, contentMarkdown the
+                           same text as Markdown) with earlier versions
+- journal-templates.json   Journal templates you created
+- journal-drafts.json      Unsaved writing from the journal editor
+- conversations.json       Coach conversations with their messages
+- summaries.json           Daily, weekly and monthly summaries
+- daily-tools.json         Daily tools, including their htmlCode
+- daily-tools/             Each daily tool as a standalone HTML file
+- notes.json, goals.json, tasks.json
+- agenda-items.json        Agenda items with their notification settings
+- sent-notifications.json  Coaching notifications we sent you
+- attachments.json         Images and files attached to journal entries and notes (details only;
+                           open an entry in the app to download its files)
+`
+
+function toJson(value: unknown): Uint8Array {
+  return strToU8(JSON.stringify(value, null, 2))
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50) || 'tool'
+}
+
+/**
+ * Serialize account data as a single JSON document or as a ZIP with one file per record type.
+ */
+export function buildExportFile(data: AccountData, format: ExportFormat): { fileName: string; content: Uint8Array } {
+  const baseName = `personal-coach-export-${data.exportedAt.toISOString().slice(0, 10)}`
+
+  if (format === 'json') {
+    return { fileName: `${baseName}.json`, content: toJson(data) }
+  }
+
+  const files: Record<string, Uint8Array> = {
+    'README.txt': strToU8(README),
+    'account.json': toJson({ ...data.user, exportedAt: data.exportedAt }),
+    'journal-entries.json': toJson(data.journalEntries),
+    'journal-templates.json': toJson(data.journalTemplates),
+    'journal-drafts.json': toJson(data.journalDrafts),
+    'conversations.json': toJson(data.conversations),
+    'summaries.json': toJson(data.summaries),
+    'daily-tools.json': toJson(data.dailyTools),
+    'notes.json': toJson(data.notes),
+    'goals.json': toJson(data.goals),
+    'tasks.json': toJson(data.tasks),
+    'agenda-items.json': toJson(data.agendaItems),
+    'sent-notifications.json': toJson(data.sentNotifications),
+    'attachments.json': toJson(data.attachments)
+  }
+
+  for (const tool of data.dailyTools) {
+    const date = tool.date.toISOString().slice(0, 10)
+    files[`daily-tools/${date}-${slugify(tool.title)}-${tool.id}.html`] = strToU8(tool.htmlCode)
+  }
+
+  return { fileName: `${baseName}.zip`, content: zipSync(files, { level: 6 }) }
+}
+
+/**
+ * Build the archive for an AccountExport job and store it on the record.
+ * Runs from the QStash callback (or in-process when QStash isn't configured).
+ */
+export async function processAccountExport({ exportId }: { exportId: string }): Promise<void> {
+  const job = await prisma.accountExport.findUnique({
+    where: { id: exportId },
+    select: { id: true, userId: true, status: true, format: true }
+  })
+
+  if (!job) {
+    throw new Error(`Export ${exportId} not found`)
+  }
+
+  if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+    return
+  }
+
+  await prisma.accountExport.update({
+    where: { id: exportId },
+    data: { status: 'PROCESSING' }
+  })
+
+  try {
+    const data = await collectAccountData(job.userId)
+    const { fileName, content } = buildExportFile(data, isExportFormat(job.format) ? job.format : 'zip')
+
+    await prisma.accountExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'COMPLETED',
+        fileName,
+        // It holds everything the user wrote in the clear, so it's encrypted like their files
+        data: new Uint8Array(await encryptFile(job.userId, Buffer.from(content))),
+        size: content.byteLength,
+        expiresAt: new Date(Date.now() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      }
+    })
+  } catch (error) {
+    await prisma.accountExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Unknown export error'
+      }
+    })
+    throw error
+  }
+}
+
+/**
+ * Drop the archives of exports past their download window, keeping the records so the user can
+ * see the export expired. Returns the number of archives removed.
+ */
+export async function clearExpiredExports(now = new Date()): Promise<number> {
+  const { count } = await prisma.accountExport.updateMany({
+    where: { expiresAt: { lte: now }, data: { not: null } },
+    data: { data: null }
+  })
+  return count
+}
+
+/**
+ * Queue a new export for the user. Older exports are removed so only one archive is kept.
+ */
+export async function startAccountExport(userId: string, format: ExportFormat) {
+  await prisma.accountExport.deleteMany({ where: { userId } })
+
+  const job = await prisma.accountExport.create({
+    data: { userId, format, status: 'PENDING' }
+  })
+
+  await recordAuditEvent({
+    userId,
+    action: 'data.export_requested',
+    resourceType: 'accountExport',
+    resourceId: job.id,
+    metadata: { format }
+  })
+
+  const qstashMessageId = await dispatchJob(
+    '/api/account/export/process',
+    { exportId: job.id },
+    processAccountExport
+  )
+
+  if (qstashMessageId) {
+    return prisma.accountExport.update({
+      where: { id: job.id },
+      data: { qstashMessageId }
+    })
+  }
+
+  return job
+}
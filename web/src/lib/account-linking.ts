@@ -0,0 +1,133 @@
+import type { Account, Profile, User } from 'next-auth'
+import { prisma } from './prisma'
+import { normalizeEmail } from './password'
+import { isProviderEmailVerified } from './oauth-providers'
+import { AUTH_ERRORS, AuthErrorCode } from './auth-errors'
+
+export type OAuthLinkResult = { userId: string } | { error: AuthErrorCode }
+
+// Token fields persisted on the Account row (providers may return extra fields we don't store)
+function accountTokenData(account: Account) {
+  return {
+    refresh_token: account.refresh_token ?? null,
+    access_token: account.access_token ?? null,
+    expires_at: account.expires_at ?? null,
+    token_type: account.token_type ?? null,
+    scope: account.scope ?? null,
+    id_token: account.id_token ?? null,
+    session_state: account.session_state ?? null
+  }
+}
+
+/**
+ * Resolve the local user for an OAuth sign-in, creating or linking the Account row.
+ *
+ * - A known provider identity signs in as the user it is linked to.
+ * - A signed-in user (connecting from settings) gets the identity linked to their account.
+ * - An unknown identity whose email matches an existing user is only linked when the provider
+ *   verified the email and the local address was verified too; otherwise the user must sign in
+ *   and connect it from settings, so nobody can take over an account by registering its email elsewhere.
+ * - Anything else creates a new user.
+ */
+export async function linkOAuthAccount({
+  account,
+  profile,
+  user,
+  sessionUserId
+}: {
+  account: Account
+  profile?: Profile
+  user: User
+  sessionUserId?: string
+}): Promise<OAuthLinkResult> {
+  const existing = await prisma.account.findUnique({
+    where: {
+      provider_providerAccountId: {
+        provider: account.provider,
+        providerAccountId: account.providerAccountId
+      }
+    }
+  })
+
+  if (existing) {
+    if (sessionUserId && existing.userId !== sessionUserId) {
+      return { error: AUTH_ERRORS.OAUTH_ACCOUNT_IN_USE }
+    }
+
+    await prisma.account.update({
+      where: { id: existing.id },
+      data: accountTokenData(account)
+    })
+    return { userId: existing.userId }
+  }
+
+  const newAccount = {
+    type: account.type,
+    provider: account.provider,
+    providerAccountId: account.providerAccountId,
+    ...accountTokenData(account)
+  }
+
+  if (sessionUserId) {
+    await prisma.account.create({
+      data: { ...newAccount, userId: sessionUserId }
+    })
+    return { userId: sessionUserId }
+  }
+
+  if (!user.email) {
+    return { error: AUTH_ERRORS.OAUTH_EMAIL_MISSING }
+  }
+
+  const email = normalizeEmail(user.email)
+  const emailVerified = isProviderEmailVerified(profile)
+
+  const userByEmail = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    select: { id: true, emailVerified: true }
+  })
+
+  if (userByEmail) {
+    if (!emailVerified || !userByEmail.emailVerified) {
+      return { error: AUTH_ERRORS.OAUTH_ACCOUNT_NOT_LINKED }
+    }
+
+    await prisma.account.create({
+      data: { ...newAccount, userId: userByEmail.id }
+    })
+    return { userId: userByEmail.id }
+  }
+
+  const created = await prisma.user.create({
+    data: {
+      email,
+      name: user.name || email.split('@')[0],
+      image: user.image ?? null,
+      emailVerified: emailVerified ? new Date() : null,
+      accounts: { create: newAccount }
+    },
+    select: { id: true }
+  })
+
+  return { userId: created.id }
+}
+
+/**
+ * Number of independent ways the user can sign in (password, linked providers, passkeys).
+ * Used to stop people from removing their last one.
+ */
+export async function countSignInMethods(userId: string): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      passwordHash: true,
+      _count: { select: { accounts: true, passkeys: true } }
+    }
+  })
+
+  if (!user) {
+    return 0
+  }
+
+  return (user.passwordHash ? 1 : 0) + user._count.accounts + user._count.passkeys
+}
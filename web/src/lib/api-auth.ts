@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { createHash, randomBytes } from 'crypto'
+import { authOptions } from './auth'
+import { prisma } from './prisma'
+import { TokenScope } from './token-scopes'
+
+// Prefix makes tokens easy to recognize in logs and secret scanners
+const TOKEN_PREFIX = 'pc_'
+
+// Only record lastUsedAt once per minute to avoid a write on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Generate a new personal access token.
+ * The raw token is only returned once; the database stores its hash and a short display prefix.
+ */
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6)
+  }
+}
+
+function hasScope(grantedScopes: string[], requiredScope: TokenScope): boolean {
+  if (grantedScopes.includes(requiredScope)) {
+    return true
+  }
+
+  // Write access implies read access to the same resource
+  const [resource, access] = requiredScope.split(':')
+  return access === 'read' && grantedScopes.includes(`${resource}:write`)
+}
+
+export type AuthResult =
+  // scopes is null for session users, who have full access
+  | { ok: true; userId: string; via: 'session' | 'token'; scopes: string[] | null }
+  | { ok: false; response: NextResponse }
+
+/**
+ * Whether an authenticated caller may use `scope`, for endpoints that serve several resources.
+ */
+export function canAccess(auth: Extract<AuthResult, { ok: true }>, scope: TokenScope): boolean {
+  return auth.scopes === null || hasScope(auth.scopes, scope)
+}
+
+/**
+ * Resolve the calling user from an `Authorization: Bearer <token>` header or the NextAuth session.
+ *
+ * Bearer tokens must carry `requiredScope` (or one of them, when given a list); session users have
+ * full access.
+ */
+export async function authenticate(
+  request: NextRequest,
+  requiredScope: TokenScope | TokenScope[]
+): Promise<AuthResult> {
+  const authHeader = request.headers.get('authorization')
+
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.slice('Bearer '.length).trim()
+
+    const accessToken = await prisma.personalAccessToken.findUnique({
+      where: { tokenHash: hashApiToken(token) }
+    })
+
+    const now = new Date()
+    if (!accessToken || accessToken.revokedAt || (accessToken.expiresAt && accessToken.expiresAt < now)) {
+      return {
+        ok: false,
+        response: NextResponse.json({ error: 'Invalid or expired token' }, { status: 401 })
+      }
+    }
+
+    const acceptedScopes = Array.isArray(requiredScope) ? requiredScope : [requiredScope]
+    if (!acceptedScopes.some(scope => hasScope(accessToken.scopes, scope))) {
+      return {
+        ok: false,
+        response: NextResponse.json(
+          { error: `Token is missing the required scope: ${acceptedScopes.join(' or ')}` },
+          { status: 403 }
+        )
+      }
+    }
+
+    if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      await prisma.personalAccessToken.update({
+        where: { id: accessToken.id },
+        data: { lastUsedAt: now }
+      })
+    }
+
+    return { ok: true, userId: accessToken.userId, via: 'token', scopes: accessToken.scopes }
+  }
+
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  return { ok: true, userId: session.user.id, via: 'session', scopes: null }
+}
@@ -0,0 +1,48 @@
+// Client-safe attachment definitions (shared by the attachment API, the editors and the sanitizer)
+
+import { escapeHtml } from './html'
+
+// Images that get a thumbnail and are shown inline. SVG is left out on purpose: it can carry
+// scripts, so it is only ever offered as a download.
+export const INLINE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'] as const
+
+export interface AttachmentEmbed {
+  id: string
+  fileName: string
+  contentType: string
+}
+
+// Attachment ids are cuids
+export const ATTACHMENT_URL_PATTERN = /\/api\/attachments\/([a-z0-9]+)(?:\/thumbnail)?(?![a-z0-9/])/g
+
+export function isInlineImageType(contentType: string): boolean {
+  return (INLINE_IMAGE_TYPES as readonly string[]).includes(contentType)
+}
+
+export function attachmentUrl(id: string): string {
+  return `/api/attachments/${id}`
+}
+
+export function attachmentThumbnailUrl(id: string): string {
+  return `/api/attachments/${id}/thumbnail`
+}
+
+/**
+ * Ids of the attachments a journal entry or note refers to.
+ */
+export function attachmentIdsInContent(content: string): string[] {
+  return [...new Set(Array.from(content.matchAll(ATTACHMENT_URL_PATTERN), match => match[1]))]
+}
+
+/**
+ * HTML the editors insert for an uploaded attachment: images as a thumbnail linking to the full
+ * image, other files as a link.
+ */
+export function attachmentEmbedHtml(attachment: AttachmentEmbed): string {
+  const name = escapeHtml(attachment.fileName)
+
+  if (isInlineImageType(attachment.contentType)) {
+    return `<p><a href="${attachmentUrl(attachment.id)}"><img src="${attachmentThumbnailUrl(attachment.id)}" alt="${name}"></a></p>`
+  }
+  return `<p><a href="${attachmentUrl(attachment.id)}">📎 ${name}</a></p>`
+}
@@ -0,0 +1,126 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import { AwsClient } from 'aws4fetch'
+
+/**
+ * Where attachment files are kept. Files are stored under opaque keys and are already encrypted
+ * by the caller (see lib/attachments.ts), so a backend only moves bytes.
+ */
+export interface AttachmentStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+  // null when there is no file with this key
+  get(key: string): Promise<Buffer | null>
+  delete(key: string): Promise<void>
+}
+
+// Files in a local directory - the default, for self-hosting and development
+class LocalAttachmentStorage implements AttachmentStorage {
+  constructor(private readonly directory: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key)
+    if (!filePath.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`)
+    }
+    return filePath
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, data)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true })
+  }
+}
+
+// Any S3-compatible object store (AWS S3, Cloudflare R2, MinIO, ...)
+class S3AttachmentStorage implements AttachmentStorage {
+  private readonly client: AwsClient
+
+  constructor(
+    private readonly bucketUrl: string,
+    accessKeyId: string,
+    secretAccessKey: string,
+    region: string
+  ) {
+    this.client = new AwsClient({ accessKeyId, secretAccessKey, region, service: 's3' })
+  }
+
+  private url(key: string): string {
+    return `${this.bucketUrl}/${key.split('/').map(encodeURIComponent).join('/')}`
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const res = await this.client.fetch(this.url(key), {
+      method: 'PUT',
+      body: new Uint8Array(data),
+      headers: { 'Content-Type': contentType }
+    })
+    if (!res.ok) {
+      throw new Error(`S3 upload of ${key} failed: ${res.status} ${await res.text()}`)
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const res = await this.client.fetch(this.url(key))
+    if (res.status === 404) return null
+    if (!res.ok) {
+      throw new Error(`S3 download of ${key} failed: ${res.status} ${await res.text()}`)
+    }
+    return Buffer.from(await res.arrayBuffer())
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.client.fetch(this.url(key), { method: 'DELETE' })
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`S3 delete of ${key} failed: ${res.status} ${await res.text()}`)
+    }
+  }
+}
+
+/**
+ * Select the storage backend from ATTACHMENT_STORAGE ('local' or 's3').
+ * Defaults to S3 when S3_BUCKET is set, otherwise to ATTACHMENT_DIR (default .attachments).
+ *
+ * S3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY; S3_ENDPOINT (e.g.
+ * https://<account>.r2.cloudflarestorage.com) and S3_REGION are optional for AWS.
+ */
+function createAttachmentStorage(): AttachmentStorage {
+  const backend = process.env.ATTACHMENT_STORAGE || (process.env.S3_BUCKET ? 's3' : 'local')
+
+  switch (backend) {
+    case 's3': {
+      const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+      if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('ATTACHMENT_STORAGE is s3 but S3_BUCKET, S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY is not set')
+      }
+      const region = process.env.S3_REGION || 'us-east-1'
+      const endpoint = (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, '')
+      return new S3AttachmentStorage(`${endpoint}/${S3_BUCKET}`, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, region)
+    }
+    case 'local':
+      return new LocalAttachmentStorage(process.env.ATTACHMENT_DIR || path.join(process.cwd(), '.attachments'))
+    default:
+      throw new Error(`Unknown ATTACHMENT_STORAGE: ${backend}`)
+  }
+}
+
+const globalForAttachments = globalThis as unknown as {
+  attachmentStorage: AttachmentStorage | undefined
+}
+
+export const attachmentStorage = globalForAttachments.attachmentStorage ?? createAttachmentStorage()
+
+if (process.env.NODE_ENV !== 'production') globalForAttachments.attachmentStorage = attachmentStorage
@@ -0,0 +1,353 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import sharp from 'sharp'
+import { prisma } from './prisma'
+import { AuthResult, authenticate, canAccess } from './api-auth'
+import { decryptFile, encryptFile } from './encryption'
+import { attachmentStorage } from './attachment-storage'
+import { attachmentIdsInContent, attachmentThumbnailUrl, attachmentUrl, isInlineImageType } from './attachment-constants'
+
+/**
+ * Images and files attached to journal entries and notes. Files are encrypted with the owner's
+ * data key before they reach the storage backend.
+ *
+ * Attachments are uploaded while an entry is being written, before it has an id, so they start
+ * unclaimed. Saving the entry claims the attachments its content refers to (notes can also list
+ * them in `attachmentIds`) and releases the ones it no longer refers to. Unclaimed attachments -
+ * never saved, removed from the content, or left behind by a deleted entry or note - are removed
+ * by cleanupUnclaimedAttachments.
+ */
+
+const MB = 1024 * 1024
+
+// Defaults; override with ATTACHMENT_MAX_FILE_MB and ATTACHMENT_QUOTA_MB
+const DEFAULT_MAX_FILE_MB = 20
+const DEFAULT_QUOTA_MB = 500
+
+// How long an upload may stay unclaimed before it is cleaned up
+const UNCLAIMED_RETENTION_MS = 24 * 60 * 60 * 1000
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 640
+
+function megabytesFromEnv(value: string | undefined, fallback: number): number {
+  const megabytes = Number(value)
+  return (Number.isFinite(megabytes) && megabytes > 0 ? megabytes : fallback) * MB
+}
+
+export function getMaxAttachmentBytes(): number {
+  return megabytesFromEnv(process.env.ATTACHMENT_MAX_FILE_MB, DEFAULT_MAX_FILE_MB)
+}
+
+export function getAttachmentQuotaBytes(): number {
+  return megabytesFromEnv(process.env.ATTACHMENT_QUOTA_MB, DEFAULT_QUOTA_MB)
+}
+
+type AttachmentRecord = {
+  id: string
+  journalEntryId: string | null
+  noteId: string | null
+  fileName: string
+  contentType: string
+  size: number
+  width: number | null
+  height: number | null
+  thumbnailKey: string | null
+  createdAt: Date
+}
+
+type StoredFiles = { storageKey: string; thumbnailKey: string | null }
+
+// Storage keys are never returned
+export function toAttachmentResponse(attachment: AttachmentRecord) {
+  return {
+    id: attachment.id,
+    journalEntryId: attachment.journalEntryId,
+    noteId: attachment.noteId,
+    fileName: attachment.fileName,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+    createdAt: attachment.createdAt,
+    url: attachmentUrl(attachment.id),
+    thumbnailUrl: attachment.thumbnailKey ? attachmentThumbnailUrl(attachment.id) : null
+  }
+}
+
+export async function getAttachmentUsage(userId: string) {
+  const { _sum, _count } = await prisma.attachment.aggregate({
+    where: { userId },
+    _sum: { size: true },
+    _count: true
+  })
+  return { used: _sum.size ?? 0, quota: getAttachmentQuotaBytes(), count: _count }
+}
+
+export type AttachmentOwner = { journalEntryId: string } | { noteId: string }
+
+interface UploadedFile {
+  name: string
+  type: string
+  data: Buffer
+}
+
+async function createThumbnail(data: Buffer) {
+  const image = sharp(data, { animated: false }).rotate()
+  const { width, height } = await image.metadata()
+  const thumbnail = await image
+    .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer()
+  return { width: width ?? null, height: height ?? null, thumbnail }
+}
+
+function quotaExceeded(quota: number) {
+  return {
+    error: `This upload would exceed your storage quota of ${quota / MB} MB. Delete some attachments first.`,
+    status: 413
+  }
+}
+
+async function deleteStoredFiles(files: StoredFiles[]): Promise<void> {
+  await Promise.all(files.flatMap(file => [
+    attachmentStorage.delete(file.storageKey),
+    ...(file.thumbnailKey ? [attachmentStorage.delete(file.thumbnailKey)] : [])
+  ]))
+}
+
+/**
+ * Store an uploaded file, with a thumbnail for images. Fails when the file is too large or would
+ * take the user over their quota.
+ */
+export async function createAttachment(
+  userId: string,
+  file: UploadedFile,
+  owner?: AttachmentOwner
+): Promise<{ data: AttachmentRecord } | { error: string; status: number }> {
+  const maxBytes = getMaxAttachmentBytes()
+
+  if (file.data.length === 0) {
+    return { error: 'The file is empty', status: 400 }
+  }
+
+  if (file.data.length > maxBytes) {
+    return { error: `Files can be at most ${maxBytes / MB} MB`, status: 413 }
+  }
+
+  // Checked again when the attachment is saved; this turns most uploads away before any work
+  const usage = await getAttachmentUsage(userId)
+  if (usage.used + file.data.length > usage.quota) {
+    return quotaExceeded(usage.quota)
+  }
+
+  if (owner) {
+    const exists = 'journalEntryId' in owner
+      ? await prisma.journalEntry.count({ where: { id: owner.journalEntryId, userId } })
+      : await prisma.note.count({ where: { id: owner.noteId, userId } })
+    if (!exists) {
+      return { error: 'journalEntryId' in owner ? 'Entry not found' : 'Note not found', status: 404 }
+    }
+  }
+
+  const contentType = file.type || 'application/octet-stream'
+  let image: Awaited<ReturnType<typeof createThumbnail>> | null = null
+
+  if (isInlineImageType(contentType)) {
+    try {
+      image = await createThumbnail(file.data)
+    } catch {
+      return { error: 'The image could not be read', status: 400 }
+    }
+  }
+
+  const files: StoredFiles = {
+    storageKey: `${userId}/${randomUUID()}`,
+    thumbnailKey: image ? `${userId}/${randomUUID()}.webp` : null
+  }
+
+  await attachmentStorage.put(files.storageKey, await encryptFile(userId, file.data), contentType)
+  if (image && files.thumbnailKey) {
+    await attachmentStorage.put(files.thumbnailKey, await encryptFile(userId, image.thumbnail), 'image/webp')
+  }
+
+  try {
+    const attachment = await prisma.$transaction(async (tx) => {
+      // Locking the user row makes parallel uploads take turns, so they can't all fit in the
+      // same free space
+      await tx.$queryRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`
+      const { _sum } = await tx.attachment.aggregate({ where: { userId }, _sum: { size: true } })
+      if ((_sum.size ?? 0) + file.data.length > usage.quota) {
+        return null
+      }
+
+      return tx.attachment.create({
+        data: {
+          userId,
+          ...owner,
+          // Only the base name of a file picked from a folder
+          fileName: file.name.split(/[\\/]/).pop()?.slice(0, 255) || 'file',
+          contentType,
+          size: file.data.length,
+          width: image?.width,
+          height: image?.height,
+          ...files
+        }
+      })
+    })
+
+    if (!attachment) {
+      await deleteStoredFiles([files])
+      return quotaExceeded(usage.quota)
+    }
+    return { data: attachment }
+  } catch (error) {
+    await deleteStoredFiles([files])
+    throw error
+  }
+}
+
+/**
+ * Whether a caller may use an attachment: tokens need the scope of the entry or note it belongs to
+ * (either scope while it is unclaimed).
+ */
+export function canAccessAttachment(
+  auth: Extract<AuthResult, { ok: true }>,
+  attachment: { journalEntryId: string | null; noteId: string | null },
+  access: 'read' | 'write'
+): boolean {
+  if (attachment.noteId) return canAccess(auth, `notes:${access}`)
+  if (attachment.journalEntryId) return canAccess(auth, `journal:${access}`)
+  return canAccess(auth, `journal:${access}`) || canAccess(auth, `notes:${access}`)
+}
+
+/**
+ * Respond with an attachment's file or thumbnail. Only the owner can fetch it - attachments have
+ * no public URLs. Images are shown inline (unless `?download=1`); anything else is a download so
+ * an uploaded HTML or SVG file can't run in the app's origin.
+ */
+export async function serveAttachment(request: NextRequest, id: string, variant: 'file' | 'thumbnail'): Promise<NextResponse> {
+  const auth = await authenticate(request, ['journal:read', 'notes:read'])
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const attachment = await prisma.attachment.findFirst({ where: { id, userId: auth.userId } })
+  const key = variant === 'thumbnail' ? attachment?.thumbnailKey : attachment?.storageKey
+
+  if (!attachment || !key || !canAccessAttachment(auth, attachment, 'read')) {
+    return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+  }
+
+  const stored = await attachmentStorage.get(key)
+
+  if (!stored) {
+    console.error(`Attachment ${id} is missing its ${variant} in storage`)
+    return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+  }
+
+  const data = await decryptFile(auth.userId, stored)
+  const inline = variant === 'thumbnail'
+    || (isInlineImageType(attachment.contentType) && request.nextUrl.searchParams.get('download') !== '1')
+  const fileName = variant === 'thumbnail' ? `${attachment.fileName}.webp` : attachment.fileName
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      'Content-Type': variant === 'thumbnail' ? 'image/webp' : inline ? attachment.contentType : 'application/octet-stream',
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      'Content-Length': String(data.length),
+      'Content-Security-Policy': "default-src 'none'; sandbox",
+      'X-Content-Type-Options': 'nosniff',
+      // Files never change; the cache is per browser, never shared
+      'Cache-Control': 'private, max-age=86400'
+    }
+  })
+}
+
+export async function deleteAttachment(userId: string, id: string): Promise<boolean> {
+  const attachment = await prisma.attachment.findFirst({ where: { id, userId } })
+
+  if (!attachment) {
+    return false
+  }
+
+  await prisma.attachment.delete({ where: { id } })
+  await deleteStoredFiles([attachment])
+  return true
+}
+
+/**
+ * Make `ids` the attachments of a saved entry or note: claim the unclaimed uploads among them and
+ * release the owner's attachments that aren't among them any more, such as images removed from its
+ * content, for cleanupUnclaimedAttachments to remove. `releasable` limits which of the owner's
+ * attachments may be released. Ids of other users' attachments, or of ones that already belong
+ * somewhere else, are ignored.
+ */
+export async function claimAttachments(
+  userId: string,
+  ids: string[],
+  owner: AttachmentOwner,
+  releasable?: string[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.attachment.updateMany({
+      where: { userId, ...owner, id: { notIn: ids, ...(releasable && { in: releasable }) } },
+      data: { journalEntryId: null, noteId: null }
+    }),
+    prisma.attachment.updateMany({
+      where: { id: { in: ids }, userId, journalEntryId: null, noteId: null },
+      data: owner
+    })
+  ])
+}
+
+/**
+ * Attachments a saved note claims: the ones its content embeds and the ones listed in the
+ * request's `attachmentIds`. Listed attachments aren't in the content, so a save without
+ * `attachmentIds` keeps them: it can only release attachments its previous content embedded.
+ */
+export function noteAttachmentIds(content: string, attachmentIds: unknown): string[] {
+  const listed = Array.isArray(attachmentIds)
+    ? attachmentIds.filter((id): id is string => typeof id === 'string')
+    : []
+  return [...new Set([...attachmentIdsInContent(content), ...listed])]
+}
+
+/**
+ * Remove attachments that have been unclaimed for a day. Returns the number removed.
+ */
+export async function cleanupUnclaimedAttachments(now = new Date()): Promise<number> {
+  const unclaimed = await prisma.attachment.findMany({
+    where: {
+      journalEntryId: null,
+      noteId: null,
+      createdAt: { lt: new Date(now.getTime() - UNCLAIMED_RETENTION_MS) }
+    },
+    select: { id: true, storageKey: true, thumbnailKey: true }
+  })
+
+  let removed = 0
+  for (const attachment of unclaimed) {
+    try {
+      await deleteStoredFiles([attachment])
+      await prisma.attachment.delete({ where: { id: attachment.id } })
+      removed++
+    } catch (error) {
+      console.error(`Failed to remove attachment ${attachment.id}:`, error)
+    }
+  }
+
+  return removed
+}
+
+/**
+ * Delete the stored files of all of a user's attachments (the rows cascade with the user).
+ */
+export async function deleteUserAttachmentFiles(userId: string): Promise<void> {
+  const attachments = await prisma.attachment.findMany({
+    where: { userId },
+    select: { storageKey: true, thumbnailKey: true }
+  })
+  await deleteStoredFiles(attachments)
+}
@@ -0,0 +1,58 @@
+// Client-safe audit event definitions (shared by the audit API and the activity log page)
+
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'ai.coach_chat',
+  'ai.daily_tool_generate',
+  'ai.daily_tool_refine',
+  'ai.event_analysis',
+  'ai.event_message',
+  'ai.journal_analysis',
+  'data.export_requested',
+  'data.export_downloaded',
+  'data.journal_imported',
+  'data.journal_exported',
+  'data.journal_deleted',
+  'data.note_deleted',
+  'data.conversation_deleted',
+  'account.deletion_requested',
+  'account.deletion_cancelled'
+] as const
+
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+// Actions are "<category>.<event>"; the activity log can be filtered by category
+export const AUDIT_CATEGORIES = ['auth', 'ai', 'data', 'account'] as const
+export type AuditCategory = typeof AUDIT_CATEGORIES[number]
+
+export const AUDIT_CATEGORY_LABELS: Record<AuditCategory, string> = {
+  auth: 'Sign-ins',
+  ai: 'AI processing',
+  data: 'Exports, imports & deletions',
+  account: 'Account'
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'auth.login': 'Signed in',
+  'auth.login_failed': 'Failed sign-in attempt',
+  'ai.coach_chat': 'Coach conversation sent to Claude',
+  'ai.daily_tool_generate': 'Daily tool generated by Claude',
+  'ai.daily_tool_refine': 'Daily tool refined by Claude',
+  'ai.event_analysis': 'Agenda event analyzed by Claude',
+  'ai.event_message': 'Event notification written by Claude',
+  'ai.journal_analysis': 'Journal entry mood and tags suggested by Claude',
+  'data.export_requested': 'Data export requested',
+  'data.export_downloaded': 'Data export downloaded',
+  'data.journal_imported': 'Journal entries imported',
+  'data.journal_exported': 'Journal exported',
+  'data.journal_deleted': 'Journal entry deleted',
+  'data.note_deleted': 'Note deleted',
+  'data.conversation_deleted': 'Conversation deleted',
+  'account.deletion_requested': 'Account deletion requested',
+  'account.deletion_cancelled': 'Account deletion cancelled'
+}
+
+export function isAuditCategory(value: unknown): value is AuditCategory {
+  return typeof value === 'string' && (AUDIT_CATEGORIES as readonly string[]).includes(value)
+}
@@ -0,0 +1,51 @@
+import { Prisma } from '@/generated/prisma/client'
+import { prisma } from './prisma'
+import { AuditAction } from './audit-actions'
+
+export interface AuditEventInput {
+  userId: string
+  action: AuditAction
+  resourceType?: string
+  resourceId?: string
+  // Journal entries whose content was included in an AI request
+  journalEntryIds?: string[]
+  metadata?: Prisma.InputJsonObject
+}
+
+/**
+ * The ids among `ids` that are the user's journal entries. Ids that arrive with a request or a
+ * queued job are checked with this before they're recorded.
+ */
+export async function ownJournalEntryIds(userId: string, ids: unknown): Promise<string[]> {
+  const candidates = Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : []
+  if (candidates.length === 0) {
+    return []
+  }
+
+  const entries = await prisma.journalEntry.findMany({
+    where: { id: { in: candidates }, userId },
+    select: { id: true }
+  })
+  return entries.map(entry => entry.id)
+}
+
+/**
+ * Record an audit event. Failures are logged rather than thrown so that auditing
+ * never breaks the action being audited.
+ */
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        userId: event.userId,
+        action: event.action,
+        resourceType: event.resourceType,
+        resourceId: event.resourceId,
+        journalEntryIds: event.journalEntryIds ?? [],
+        metadata: event.metadata
+      }
+    })
+  } catch (error) {
+    console.error(`Failed to record audit event ${event.action}:`, error)
+  }
+}
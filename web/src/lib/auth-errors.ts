@@ -0,0 +1,38 @@
+// Shared sign-in error codes - safe to import from client components
+
+// Error codes surfaced to the client as `signIn(...).error`
+export const AUTH_ERRORS = {
+  INVALID_CREDENTIALS: 'InvalidCredentials',
+  ACCOUNT_LOCKED: 'AccountLocked',
+  PASSWORD_NOT_SET: 'PasswordNotSet',
+  // OAuth sign-in and account linking (passed as `?error=` on redirect)
+  OAUTH_ACCOUNT_NOT_LINKED: 'OAuthAccountNotLinked',
+  OAUTH_ACCOUNT_IN_USE: 'OAuthAccountInUse',
+  OAUTH_EMAIL_MISSING: 'OAuthEmailMissing',
+  // Raised by NextAuth itself when the provider round-trip fails
+  OAUTH_SIGNIN: 'OAuthSignin',
+  OAUTH_CALLBACK: 'OAuthCallback',
+  // The two-factor challenge timed out or the account was locked while answering it
+  TWO_FACTOR_EXPIRED: 'TwoFactorExpired',
+  PASSKEY_FAILED: 'PasskeyFailed'
+} as const
+
+export type AuthErrorCode = typeof AUTH_ERRORS[keyof typeof AUTH_ERRORS]
+
+export const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  InvalidCredentials: 'Invalid email or password',
+  AccountLocked: 'Too many failed attempts. Please try again in a few minutes.',
+  PasswordNotSet: 'This account does not have a password yet. Please reset your password.',
+  OAuthAccountNotLinked: 'An account with this email already exists. Sign in with your password, then connect this provider from Settings.',
+  OAuthAccountInUse: 'That identity is already linked to a different account.',
+  OAuthEmailMissing: 'The provider did not share an email address, so no account could be created.',
+  OAuthSignin: 'Could not start sign-in with that provider. Please try again.',
+  OAuthCallback: 'Sign-in with that provider failed. Please try again.',
+  TwoFactorExpired: 'Your sign-in expired or too many codes were wrong. Please sign in again.',
+  PasskeyFailed: 'That passkey could not be verified. Try again or sign in with your password.'
+}
+
+export function getAuthErrorMessage(code: string | null | undefined): string {
+  if (!code) return 'Something went wrong'
+  return AUTH_ERROR_MESSAGES[code as AuthErrorCode] ?? 'Something went wrong'
+}
@@ -1,6 +1,18 @@
-import { NextAuthOptions } from 'next-auth'
+import { NextAuthOptions, getServerSession } from 'next-auth'
+import type { JWT } from 'next-auth/jwt'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import { prisma } from './prisma'
+import { normalizeEmail, verifyPassword } from './password'
+import { AUTH_ERRORS } from './auth-errors'
+import { oauthProviders } from './oauth-providers'
+import { linkOAuthAccount } from './account-linking'
+import { TWO_FACTOR_CHALLENGE_MINUTES, isTwoFactorEnabled, verifySecondFactor } from './two-factor'
+import { verifyPasskeyLogin } from './webauthn'
+import { recordAuditEvent } from './audit'
+
+// Login throttling - lock the account after too many consecutive failures
+const MAX_FAILED_LOGIN_ATTEMPTS = 5
+const LOGIN_LOCKOUT_MINUTES = 15
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -12,22 +24,41 @@ export const authOptions: NextAuthOptions = {
       },
       async authorize(credentials) {
         if (!credentials?.email || !credentials?.password) {
-          return null
+          throw new Error(AUTH_ERRORS.INVALID_CREDENTIALS)
         }
 
-        // For demo purposes, auto-create user if doesn't exist
-        // In production, you'd want proper password hashing with bcrypt
-        let user = await prisma.user.findUnique({
-          where: { email: credentials.email }
+        const user = await prisma.user.findFirst({
+          where: {
+            email: { equals: normalizeEmail(credentials.email), mode: 'insensitive' }
+          }
         })
 
         if (!user) {
-          // Create new user (demo mode - in production, use a proper signup flow)
-          user = await prisma.user.create({
-            data: {
-              email: credentials.email,
-              name: credentials.email.split('@')[0]
-            }
+          throw new Error(AUTH_ERRORS.INVALID_CREDENTIALS)
+        }
+
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+          throw new Error(AUTH_ERRORS.ACCOUNT_LOCKED)
+        }
+
+        // Accounts created before password auth existed have no password yet
+        if (!user.passwordHash) {
+          throw new Error(AUTH_ERRORS.PASSWORD_NOT_SET)
+        }
+
+        const isValid = await verifyPassword(credentials.password, user.passwordHash)
+
+        if (!isValid) {
+          await recordFailedLogin(user.id)
+          throw new Error(AUTH_ERRORS.INVALID_CREDENTIALS)
+        }
+
+        // With two-factor enabled the counters are only reset once the code is verified,
+        // otherwise repeating the password step would allow unlimited code guesses
+        if (!user.totpEnabledAt && (user.failedLoginAttempts > 0 || user.lockedUntil)) {
+          await prisma.user.update({
+            where: { id: user.id },
+            data: { failedLoginAttempts: 0, lockedUntil: null }
           })
         }
 
@@ -37,26 +68,186 @@ export const authOptions: NextAuthOptions = {
           name: user.name
         }
       }
-    })
+    }),
+    // Passkey sign-in: the login page sends the WebAuthn assertion for a challenge
+    // from /api/auth/passkey/options
+    CredentialsProvider({
+      id: 'passkey',
+      name: 'Passkey',
+      credentials: {
+        response: { label: 'Assertion', type: 'text' }
+      },
+      async authorize(credentials) {
+        if (!credentials?.response) {
+          throw new Error(AUTH_ERRORS.PASSKEY_FAILED)
+        }
+
+        let userId: string | null = null
+        try {
+          userId = await verifyPasskeyLogin(JSON.parse(credentials.response))
+        } catch (error) {
+          console.error('Error verifying passkey:', error)
+        }
+
+        if (!userId) {
+          throw new Error(AUTH_ERRORS.PASSKEY_FAILED)
+        }
+
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, email: true, name: true }
+        })
+
+        if (!user) {
+          throw new Error(AUTH_ERRORS.PASSKEY_FAILED)
+        }
+
+        return user
+      }
+    }),
+    ...oauthProviders
   ],
   session: {
     strategy: 'jwt'
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async signIn({ user, account, profile }) {
+      if (account?.type !== 'oauth') {
+        return true
+      }
+
+      // Signing in with a provider while already signed in links it to the current account
+      const session = await getServerSession(authOptions)
+      const result = await linkOAuthAccount({
+        account,
+        profile,
+        user,
+        sessionUserId: session?.user?.id
+      })
+
+      if ('error' in result) {
+        return `${session ? '/settings' : '/login'}?error=${result.error}`
+      }
+
+      // NextAuth passes this same object to the jwt callback, so the token gets the local user id
+      user.id = result.userId
+      return true
+    },
+    async jwt({ token, user, account, trigger, session }) {
       if (user) {
-        token.id = user.id
+        token.sessionVersion = await getSessionVersion(user.id) ?? 0
+        // With two-factor enabled the token only carries pendingUserId until the challenge
+        // is completed, so API routes (which require session.user.id) reject it.
+        // Passkeys require user verification, so they already count as two factors.
+        if (account?.provider !== 'passkey' && await isTwoFactorEnabled(user.id)) {
+          delete token.id
+          token.pendingUserId = user.id
+          token.twoFactorExpiresAt = Date.now() + TWO_FACTOR_CHALLENGE_MINUTES * 60 * 1000
+        } else {
+          token.id = user.id
+          await recordAuditEvent({
+            userId: user.id,
+            action: 'auth.login',
+            metadata: { provider: account?.provider ?? 'unknown' }
+          })
+        }
+        return token
+      }
+
+      // Signed out everywhere (password reset) or deleted since the token was issued. Throwing
+      // makes NextAuth clear the session cookie.
+      const tokenUserId = token.id ?? token.pendingUserId
+      if (tokenUserId && await getSessionVersion(tokenUserId) !== (token.sessionVersion ?? 0)) {
+        throw new Error('Session revoked')
       }
+
+      // The login page submits the code through useSession().update({ twoFactorCode })
+      if (trigger === 'update' && token.pendingUserId && typeof session?.twoFactorCode === 'string') {
+        return completeTwoFactorChallenge(token, session.twoFactorCode)
+      }
+
       return token
     },
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.id as string
       }
+      if (token.pendingUserId) {
+        session.twoFactorPending = true
+      }
       return session
     }
   },
   pages: {
-    signIn: '/login'
+    signIn: '/login',
+    error: '/login'
+  }
+}
+
+async function getSessionVersion(userId: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { sessionVersion: true }
+  })
+  return user?.sessionVersion ?? null
+}
+
+async function completeTwoFactorChallenge(token: JWT, code: string): Promise<JWT> {
+  const userId = token.pendingUserId as string
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { lockedUntil: true }
+  })
+
+  // An expired or locked-out challenge drops the pending state; the user has to sign in again
+  const expired = !token.twoFactorExpiresAt || token.twoFactorExpiresAt < Date.now()
+  if (!user || expired || (user.lockedUntil && user.lockedUntil > new Date())) {
+    delete token.pendingUserId
+    delete token.twoFactorExpiresAt
+    return token
+  }
+
+  if (!(await verifySecondFactor(userId, code))) {
+    // Wrong codes count towards the same lockout as wrong passwords
+    await recordFailedLogin(userId)
+    return token
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lockedUntil: null }
+  })
+
+  delete token.pendingUserId
+  delete token.twoFactorExpiresAt
+  token.id = userId
+
+  await recordAuditEvent({
+    userId,
+    action: 'auth.login',
+    metadata: { twoFactor: true }
+  })
+
+  return token
+}
+
+async function recordFailedLogin(userId: string): Promise<void> {
+  await recordAuditEvent({ userId, action: 'auth.login_failed' })
+
+  // Increment atomically so concurrent attempts are all counted
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true }
+  })
+
+  if (failedLoginAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginAttempts: 0,
+        lockedUntil: new Date(Date.now() + LOGIN_LOCKOUT_MINUTES * 60 * 1000)
+      }
+    })
   }
 }
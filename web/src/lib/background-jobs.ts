@@ -0,0 +1,45 @@
+import { qstashClient, getQStashCallbackUrl } from './qstash'
+
+type WaitUntil = (promise: Promise<unknown>) => void
+
+/**
+ * Keep work running after the response has been sent.
+ * Uses Vercel's waitUntil when available; elsewhere the promise simply keeps running.
+ */
+export function runInBackground(promise: Promise<unknown>, label: string): void {
+  const handled = promise.catch((error: unknown) => {
+    console.error(`Background job failed (${label}):`, error)
+  })
+
+  const waitUntil = (globalThis as unknown as { waitUntil?: WaitUntil }).waitUntil
+  if (typeof waitUntil === 'function') {
+    waitUntil(handled)
+  }
+}
+
+/**
+ * Queue a background job.
+ *
+ * With QStash configured the payload is published to `callbackPath` (a route wrapped in
+ * withQStashVerification that calls `processJob`), which gives us retries and no timeout
+ * coupling with the request. Without QStash, `processJob` runs in-process instead.
+ *
+ * Returns the QStash message ID when the job was published.
+ */
+export async function dispatchJob<T>(
+  callbackPath: string,
+  payload: T,
+  processJob: (payload: T) => Promise<unknown>
+): Promise<string | null> {
+  if (qstashClient) {
+    const { messageId } = await qstashClient.publishJSON({
+      url: `${getQStashCallbackUrl()}${callbackPath}`,
+      body: payload,
+      retries: 3
+    })
+    return messageId
+  }
+
+  runInBackground(processJob(payload), callbackPath)
+  return null
+}
@@ -0,0 +1,76 @@
+import { MailMessage, getAppBaseUrl, sendMail } from './mail'
+import { createVerificationToken } from './verification'
+
+function renderEmail(heading: string, body: string, actionLabel: string, actionUrl: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #1f2937; max-width: 480px; margin: 0 auto; padding: 24px;">
+    <h1 style="font-size: 20px;">${heading}</h1>
+    <p style="line-height: 1.6;">${body}</p>
+    <p style="margin: 32px 0;">
+      <a href="${actionUrl}" style="background: #059669; color: #ffffff; padding: 12px 20px; border-radius: 12px; text-decoration: none; font-weight: 600;">${actionLabel}</a>
+    </p>
+    <p style="font-size: 12px; color: #6b7280;">If the button doesn't work, copy this link into your browser:<br>${actionUrl}</p>
+  </body>
+</html>`
+}
+
+export function buildVerificationEmail(to: string, verifyUrl: string): MailMessage {
+  return {
+    to,
+    subject: 'Verify your email for Personal Coach',
+    text: `Welcome to Personal Coach!\n\nConfirm your email address by opening this link (valid for 24 hours):\n${verifyUrl}\n\nIf you didn't create an account, you can ignore this email.`,
+    html: renderEmail(
+      'Verify your email',
+      'Welcome to Personal Coach! Confirm your email address to finish setting up your account. This link is valid for 24 hours.',
+      'Verify email',
+      verifyUrl
+    )
+  }
+}
+
+export function buildPasswordResetEmail(to: string, resetUrl: string): MailMessage {
+  return {
+    to,
+    subject: 'Reset your Personal Coach password',
+    text: `Someone requested a password reset for your Personal Coach account.\n\nChoose a new password by opening this link (valid for 1 hour):\n${resetUrl}\n\nIf you didn't request this, you can ignore this email.`,
+    html: renderEmail(
+      'Reset your password',
+      'Someone requested a password reset for your Personal Coach account. This link is valid for 1 hour. If you didn\'t request this, you can ignore this email.',
+      'Choose a new password',
+      resetUrl
+    )
+  }
+}
+
+export function buildAccountDeletionEmail(to: string, scheduledAt: Date, cancelUrl: string): MailMessage {
+  const date = scheduledAt.toUTCString()
+  return {
+    to,
+    subject: 'Your Personal Coach account is scheduled for deletion',
+    text: `Your Personal Coach account and all of its data will be permanently deleted on ${date}.\n\nChanged your mind? Sign in and cancel the deletion before then:\n${cancelUrl}\n\nIf you didn't request this, sign in and cancel it, then change your password.`,
+    html: renderEmail(
+      'Your account is scheduled for deletion',
+      `Your Personal Coach account and all of its data will be permanently deleted on ${date}. Changed your mind? Sign in and cancel the deletion before then. If you didn't request this, cancel it and change your password.`,
+      'Keep my account',
+      cancelUrl
+    )
+  }
+}
+
+export async function sendVerificationEmail(email: string): Promise<void> {
+  const token = await createVerificationToken('verify-email', email)
+  const verifyUrl = `${getAppBaseUrl()}/verify-email?token=${token}`
+  await sendMail(buildVerificationEmail(email, verifyUrl))
+}
+
+export async function sendPasswordResetEmail(email: string): Promise<void> {
+  const token = await createVerificationToken('reset-password', email)
+  const resetUrl = `${getAppBaseUrl()}/reset-password?token=${token}`
+  await sendMail(buildPasswordResetEmail(email, resetUrl))
+}
+
+export async function sendAccountDeletionEmail(email: string, scheduledAt: Date): Promise<void> {
+  const cancelUrl = `${getAppBaseUrl()}/settings/delete-account`
+  await sendMail(buildAccountDeletionEmail(email, scheduledAt, cancelUrl))
+}
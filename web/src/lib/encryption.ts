@@ -0,0 +1,234 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'crypto'
+import { prisma } from './prisma'
+
+/**
+ * Envelope encryption for user content (journal entries, notes, chat messages and the coach replies
+ * buffered in ChatJob).
+ *
+ * Each user has a random 256-bit data key, stored in User.encryptedDataKey wrapped with the
+ * server master key (ENCRYPTION_MASTER_KEY, 32 bytes base64). Content is encrypted with the
+ * user's data key using AES-256-GCM, with the user id as associated data so a ciphertext can't
+ * be moved to another account. Deleting the user destroys the key along with the data.
+ *
+ * Stored formats (scripts/encrypt-existing-content.mjs writes the same ones):
+ * - wrapped data key: "v1:" + base64(iv | authTag | ciphertext)
+ * - content:          "enc:v1:" + base64(iv | authTag | ciphertext)
+ * - files:            "enc:v1:" + iv | authTag | ciphertext (binary)
+ *
+ * Values without the content prefix are plaintext written before encryption was enabled and are
+ * returned unchanged, so rows can be migrated in place.
+ *
+ * Search terms are hashed with HMAC-SHA256 under a search key derived from the data key (HKDF,
+ * info "search-index"), truncated to 16 bytes and hex encoded.
+ */
+
+const CONTENT_PREFIX = 'enc:v1:'
+const FILE_PREFIX = Buffer.from(CONTENT_PREFIX)
+const KEY_PREFIX = 'v1:'
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+const KEY_LENGTH = 32
+const SEARCH_HASH_LENGTH = 16
+
+// Unwrapped data keys, so each request doesn't unwrap again; cleared wholesale when it grows too big
+const DATA_KEY_CACHE_LIMIT = 1000
+const dataKeyCache = new Map<string, Buffer>()
+
+let warnedMissingMasterKey = false
+
+function getMasterKey(): Buffer | null {
+  const value = process.env.ENCRYPTION_MASTER_KEY
+  if (!value) {
+    return null
+  }
+
+  const key = Buffer.from(value, 'base64')
+  if (key.length !== KEY_LENGTH) {
+    throw new Error('ENCRYPTION_MASTER_KEY must be 32 bytes, base64 encoded')
+  }
+  return key
+}
+
+function sealBytes(key: Buffer, plaintext: Buffer, associatedData: string): Buffer {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  cipher.setAAD(Buffer.from(associatedData))
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+}
+
+function seal(key: Buffer, plaintext: Buffer, associatedData: string): string {
+  return sealBytes(key, plaintext, associatedData).toString('base64')
+}
+
+function unsealBytes(key: Buffer, data: Buffer, associatedData: string): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH))
+  decipher.setAAD(Buffer.from(associatedData))
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH))
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()])
+}
+
+function unseal(key: Buffer, sealed: string, associatedData: string): Buffer {
+  return unsealBytes(key, Buffer.from(sealed, 'base64'), associatedData)
+}
+
+function unwrapDataKey(masterKey: Buffer, userId: string, wrapped: string): Buffer {
+  if (!wrapped.startsWith(KEY_PREFIX)) {
+    throw new Error(`Unsupported data key format for user ${userId}`)
+  }
+  return unseal(masterKey, wrapped.slice(KEY_PREFIX.length), userId)
+}
+
+function cacheDataKey(userId: string, key: Buffer): Buffer {
+  if (dataKeyCache.size >= DATA_KEY_CACHE_LIMIT) {
+    dataKeyCache.clear()
+  }
+  dataKeyCache.set(userId, key)
+  return key
+}
+
+/**
+ * Load the user's data key, creating and storing one on first use.
+ */
+async function getDataKey(masterKey: Buffer, userId: string): Promise<Buffer> {
+  const cached = dataKeyCache.get(userId)
+  if (cached) {
+    return cached
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { encryptedDataKey: true }
+  })
+
+  if (!user) {
+    throw new Error(`User ${userId} not found`)
+  }
+
+  if (user.encryptedDataKey) {
+    return cacheDataKey(userId, unwrapDataKey(masterKey, userId, user.encryptedDataKey))
+  }
+
+  const key = randomBytes(KEY_LENGTH)
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, encryptedDataKey: null },
+    data: { encryptedDataKey: KEY_PREFIX + seal(masterKey, key, userId) }
+  })
+
+  if (count === 0) {
+    // Another request created the key first; use theirs
+    const { encryptedDataKey } = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { encryptedDataKey: true }
+    })
+    return cacheDataKey(userId, unwrapDataKey(masterKey, userId, encryptedDataKey!))
+  }
+
+  return cacheDataKey(userId, key)
+}
+
+export function isEncryptedContent(value: string): boolean {
+  return value.startsWith(CONTENT_PREFIX)
+}
+
+// Whether new content is encrypted, i.e. ENCRYPTION_MASTER_KEY is set
+export function isEncryptionEnabled(): boolean {
+  return getMasterKey() !== null
+}
+
+/**
+ * Encrypt content for storage. Without ENCRYPTION_MASTER_KEY the content is stored as-is
+ * (local development); a warning is logged once.
+ */
+export async function encryptContent(userId: string, plaintext: string): Promise<string> {
+  const masterKey = getMasterKey()
+
+  if (!masterKey) {
+    if (!warnedMissingMasterKey) {
+      console.warn('ENCRYPTION_MASTER_KEY not configured - content is stored unencrypted')
+      warnedMissingMasterKey = true
+    }
+    return plaintext
+  }
+
+  const key = await getDataKey(masterKey, userId)
+  return CONTENT_PREFIX + seal(key, Buffer.from(plaintext, 'utf8'), userId)
+}
+
+/**
+ * Decrypt stored content. Only call this where content leaves the server - in a response to
+ * its owner or a prompt sent to Claude.
+ */
+export async function decryptContent(userId: string, stored: string): Promise<string> {
+  if (!isEncryptedContent(stored)) {
+    return stored
+  }
+
+  const masterKey = getMasterKey()
+  if (!masterKey) {
+    throw new Error('ENCRYPTION_MASTER_KEY is required to read encrypted content')
+  }
+
+  const key = await getDataKey(masterKey, userId)
+  return unseal(key, stored.slice(CONTENT_PREFIX.length), userId).toString('utf8')
+}
+
+/**
+ * Encrypt a file (an attachment) for storage. Like encryptContent, it is stored as-is without
+ * ENCRYPTION_MASTER_KEY.
+ */
+export async function encryptFile(userId: string, data: Buffer): Promise<Buffer> {
+  const masterKey = getMasterKey()
+
+  if (!masterKey) {
+    return data
+  }
+
+  const key = await getDataKey(masterKey, userId)
+  return Buffer.concat([FILE_PREFIX, sealBytes(key, data, userId)])
+}
+
+export async function decryptFile(userId: string, stored: Buffer): Promise<Buffer> {
+  if (!stored.subarray(0, FILE_PREFIX.length).equals(FILE_PREFIX)) {
+    return stored
+  }
+
+  const masterKey = getMasterKey()
+  if (!masterKey) {
+    throw new Error('ENCRYPTION_MASTER_KEY is required to read encrypted files')
+  }
+
+  const key = await getDataKey(masterKey, userId)
+  return unsealBytes(key, stored.subarray(FILE_PREFIX.length), userId)
+}
+
+/**
+ * Keyed hashes of search terms, for the blind search index (see lib/search.ts). The key is
+ * derived from the user's data key, so the hashes can't be computed, or compared across users,
+ * without the master key. Without ENCRYPTION_MASTER_KEY content is stored in the clear anyway,
+ * and the user id is the key.
+ */
+export async function hashSearchTerms(userId: string, terms: string[]): Promise<string[]> {
+  const masterKey = getMasterKey()
+  const key = masterKey
+    ? Buffer.from(hkdfSync('sha256', await getDataKey(masterKey, userId), userId, 'search-index', KEY_LENGTH))
+    : Buffer.from(userId)
+
+  return terms.map(term =>
+    createHmac('sha256', key).update(term, 'utf8').digest().subarray(0, SEARCH_HASH_LENGTH).toString('hex')
+  )
+}
+
+/**
+ * Decrypt the `content` field of records owned by one user (journal entries, notes, messages).
+ */
+export async function decryptRecords<T extends { content: string }>(userId: string, records: T[]): Promise<T[]> {
+  return Promise.all(
+    records.map(async (record) => ({ ...record, content: await decryptContent(userId, record.content) }))
+  )
+}
+
+export async function decryptRecord<T extends { content: string }>(userId: string, record: T): Promise<T> {
+  const [decrypted] = await decryptRecords(userId, [record])
+  return decrypted
+}
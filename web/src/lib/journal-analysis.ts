@@ -0,0 +1,194 @@
+import { prisma } from './prisma'
+import { anthropic, CLAUDE_MODEL } from './anthropic'
+import { recordAuditEvent } from './audit'
+import { dispatchJob } from './background-jobs'
+import { decryptContent } from './encryption'
+import { htmlToPlainText } from './html'
+import { MOOD_OPTIONS } from './journal-constants'
+import { updateJournalEntry } from './journal-revisions'
+import { JOURNAL_ANALYSIS_SYSTEM_PROMPT, buildJournalAnalysisPrompt } from './prompts/journal-analysis'
+
+/**
+ * Mood, sentiment and tags inferred by Claude for new journal entries. The suggestions are stored
+ * next to the entry's own mood and tags and only replace them when the user accepts them.
+ */
+
+const MAX_SUGGESTED_TAGS = 5
+const MAX_TAG_LENGTH = 40
+
+// How many of the user's tags the prompt lists, most used first
+const MAX_EXISTING_TAGS = 50
+
+export interface JournalAnalysis {
+  mood: string | null
+  sentiment: number | null
+  tags: string[]
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase().slice(0, MAX_TAG_LENGTH)
+}
+
+/**
+ * Read Claude's reply, keeping only the values that are valid: a mood from MOOD_OPTIONS, a
+ * sentiment within -1..1 and a few short tags. Returns null when the reply isn't JSON.
+ */
+export function parseJournalAnalysis(text: string): JournalAnalysis | null {
+  let jsonText = text
+  const jsonMatch = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (jsonMatch) {
+    jsonText = jsonMatch[1].trim()
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(jsonText)
+  } catch {
+    return null
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return null
+  }
+
+  const { mood, sentiment, tags } = parsed as Record<string, unknown>
+
+  return {
+    mood: MOOD_OPTIONS.find(option => option.value === mood)?.value ?? null,
+    sentiment: typeof sentiment === 'number' && Number.isFinite(sentiment)
+      ? Math.max(-1, Math.min(1, sentiment))
+      : null,
+    tags: Array.isArray(tags)
+      ? [...new Set(tags.filter((tag): tag is string => typeof tag === 'string').map(normalizeTag).filter(Boolean))]
+        .slice(0, MAX_SUGGESTED_TAGS)
+      : []
+  }
+}
+
+// The user's tags, most used first, so suggestions reuse them
+async function getExistingTags(userId: string): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ tag: string }[]>`
+    SELECT tag FROM "JournalEntry", unnest(tags) AS tag
+    WHERE "userId" = ${userId}
+    GROUP BY tag
+    ORDER BY count(*) DESC, tag
+    LIMIT ${MAX_EXISTING_TAGS}
+  `
+  return rows.map(row => row.tag)
+}
+
+/**
+ * Ask Claude for a journal entry's mood, sentiment and tags and store them as suggestions.
+ * Entries deleted in the meantime are skipped.
+ */
+export async function analyzeJournalEntry({ entryId }: { entryId: string }): Promise<void> {
+  const entry = await prisma.journalEntry.findUnique({
+    where: { id: entryId },
+    select: { userId: true, content: true, contentMarkdown: true, tags: true }
+  })
+
+  if (!entry) {
+    return
+  }
+
+  const text = entry.contentMarkdown
+    ? await decryptContent(entry.userId, entry.contentMarkdown)
+    : htmlToPlainText(await decryptContent(entry.userId, entry.content))
+
+  await recordAuditEvent({
+    userId: entry.userId,
+    action: 'ai.journal_analysis',
+    resourceType: 'journalEntry',
+    resourceId: entryId,
+    journalEntryIds: [entryId],
+    metadata: { model: CLAUDE_MODEL }
+  })
+
+  const response = await anthropic.messages.create({
+    model: CLAUDE_MODEL,
+    max_tokens: 256,
+    system: JOURNAL_ANALYSIS_SYSTEM_PROMPT,
+    messages: [{ role: 'user', content: buildJournalAnalysisPrompt(text, await getExistingTags(entry.userId)) }]
+  })
+
+  const textContent = response.content.find(block => block.type === 'text')
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('No text response from AI')
+  }
+
+  const analysis = parseJournalAnalysis(textContent.text)
+  if (!analysis) {
+    console.error('Failed to parse AI response:', textContent.text)
+    throw new Error('Invalid AI response format')
+  }
+
+  // updateMany: the entry may have been deleted while Claude was answering
+  await prisma.journalEntry.updateMany({
+    where: { id: entryId },
+    data: {
+      suggestedMood: analysis.mood,
+      suggestedTags: analysis.tags,
+      sentiment: analysis.sentiment,
+      analyzedAt: new Date()
+    }
+  })
+}
+
+/**
+ * Queue the analysis of a newly created entry. Nothing is queued when Claude isn't configured.
+ */
+export async function queueJournalEntryAnalysis(entryId: string): Promise<void> {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return
+  }
+
+  await dispatchJob('/api/journal/analyze', { entryId }, analyzeJournalEntry)
+}
+
+export interface AcceptedSuggestions {
+  mood?: boolean
+  tags?: string[]
+}
+
+/**
+ * Apply suggestions the user accepted to their entry (saving a revision like any edit) and remove
+ * them from the pending suggestions. Returns the updated entry, or null if there is no such entry.
+ */
+export async function acceptJournalSuggestions(userId: string, id: string, accepted: AcceptedSuggestions) {
+  const entry = await prisma.journalEntry.findFirst({
+    where: { id, userId },
+    select: { mood: true, tags: true, suggestedMood: true, suggestedTags: true }
+  })
+
+  if (!entry) {
+    return null
+  }
+
+  const mood = accepted.mood && entry.suggestedMood ? entry.suggestedMood : undefined
+  const tags = (accepted.tags ?? []).filter(tag => entry.suggestedTags.includes(tag))
+
+  await prisma.journalEntry.update({
+    where: { id },
+    data: {
+      ...(mood && { suggestedMood: null }),
+      suggestedTags: entry.suggestedTags.filter(tag => !tags.includes(tag))
+    }
+  })
+
+  return updateJournalEntry(userId, id, {
+    ...(mood && { mood }),
+    ...(tags.length > 0 && { tags: [...entry.tags, ...tags.filter(tag => !entry.tags.includes(tag))] })
+  })
+}
+
+/**
+ * Drop an entry's pending mood and tag suggestions. The sentiment score is kept: it has no
+ * user-set counterpart. Returns false if there is no such entry.
+ */
+export async function dismissJournalSuggestions(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.journalEntry.updateMany({
+    where: { id, userId },
+    data: { suggestedMood: null, suggestedTags: [] }
+  })
+  return count > 0
+}
@@ -4,16 +4,22 @@ export interface MoodOption {
   value: string
   emoji: string
   color: string
+  // Position on a 1 (Difficult) to 5 (Great) scale, for averages and trends
+  score: number
 }
 
 export const MOOD_OPTIONS: MoodOption[] = [
-  { value: 'Great', emoji: '😊', color: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-800' },
-  { value: 'Good', emoji: '🙂', color: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 border-blue-200 dark:border-blue-800' },
-  { value: 'Okay', emoji: '😐', color: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-800' },
-  { value: 'Struggling', emoji: '😔', color: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 border-orange-200 dark:border-orange-800' },
-  { value: 'Difficult', emoji: '😢', color: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-200 dark:border-red-800' },
+  { value: 'Great', emoji: '😊', color: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-800', score: 5 },
+  { value: 'Good', emoji: '🙂', color: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 border-blue-200 dark:border-blue-800', score: 4 },
+  { value: 'Okay', emoji: '😐', color: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-800', score: 3 },
+  { value: 'Struggling', emoji: '😔', color: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 border-orange-200 dark:border-orange-800', score: 2 },
+  { value: 'Difficult', emoji: '😢', color: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-200 dark:border-red-800', score: 1 },
 ]
 
+export function moodScore(mood: string | null | undefined): number | null {
+  return MOOD_OPTIONS.find(option => option.value === mood)?.score ?? null
+}
+
 // Mood config for entry cards with different styling structure
 export const MOOD_CONFIG: Record<string, { emoji: string; color: string }> = {
   'Great': { emoji: '😊', color: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' },
@@ -37,7 +43,8 @@ export const PROSE_CLASSES = `prose prose-amber dark:prose-invert prose-sm max-w
   prose-blockquote:text-amber-800 dark:prose-blockquote:text-gray-300
   prose-code:text-amber-700 dark:prose-code:text-violet-400
   prose-code:bg-amber-100/50 dark:prose-code:bg-gray-800
-  prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded prose-code:font-mono prose-code:text-sm`
+  prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded prose-code:font-mono prose-code:text-sm
+  prose-img:rounded-lg prose-img:my-2 prose-img:max-h-96`
 
 // Full page editor prose classes with larger text
 export const PROSE_CLASSES_FULLPAGE = `prose prose-amber dark:prose-invert prose-lg max-w-none
@@ -50,7 +57,8 @@ export const PROSE_CLASSES_FULLPAGE = `prose prose-amber dark:prose-invert prose
   prose-blockquote:border-amber-300 dark:prose-blockquote:border-gray-600
   prose-blockquote:bg-amber-50/50 dark:prose-blockquote:bg-gray-800/50
   prose-blockquote:rounded-r-lg prose-blockquote:py-2 prose-blockquote:pr-4 prose-blockquote:my-3
-  prose-blockquote:text-amber-800 dark:prose-blockquote:text-gray-300`
+  prose-blockquote:text-amber-800 dark:prose-blockquote:text-gray-300
+  prose-img:rounded-lg prose-img:my-3 prose-img:max-h-[32rem]`
 
 // Helper to validate URLs - blocks dangerous protocols
 export function isValidUrl(url: string): boolean {
@@ -88,3 +96,17 @@ export function isValidUrl(url: string): boolean {
     return false
   }
 }
+
+// Journal export formats (GET /api/journal/export)
+export const JOURNAL_EXPORT_FORMATS = ['md', 'html', 'pdf'] as const
+export type JournalExportFormat = typeof JOURNAL_EXPORT_FORMATS[number]
+
+export const JOURNAL_EXPORT_FORMAT_LABELS: Record<JournalExportFormat, { name: string; description: string }> = {
+  pdf: { name: 'PDF', description: 'Typeset and ready to print' },
+  html: { name: 'Web page', description: 'Opens in any browser, keeps your formatting' },
+  md: { name: 'Markdown', description: 'Plain text for notes apps and editors' }
+}
+
+export function isJournalExportFormat(value: unknown): value is JournalExportFormat {
+  return typeof value === 'string' && (JOURNAL_EXPORT_FORMATS as readonly string[]).includes(value)
+}
@@ -0,0 +1,163 @@
+import { unified } from 'unified'
+import rehypeParse from 'rehype-parse'
+import rehypeRemark from 'rehype-remark'
+import rehypeSanitize, { Options as SanitizeSchema } from 'rehype-sanitize'
+import rehypeStringify from 'rehype-stringify'
+import remarkParse from 'remark-parse'
+import remarkRehype from 'remark-rehype'
+import remarkStringify from 'remark-stringify'
+import type { Element, Root, RootContent } from 'hast'
+import { CSS_NAMED_COLORS } from './css-colors'
+import { htmlToPlainText } from './html'
+
+/**
+ * Journal content arrives as HTML from the contentEditable editors (web and Android). Before it
+ * is stored it is sanitized against an allowlist and put in a canonical form, and a Markdown copy
+ * is derived for everything that isn't the editor: AI prompts, search and exports.
+ */
+
+const COLOR_STYLE_PATTERN = /^color: (#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\))$/i
+// Images can only be the user's own attachments (see lib/attachment-constants.ts)
+const ATTACHMENT_SRC_PATTERN = /^\/api\/attachments\/[a-z0-9]+(\/thumbnail)?$/
+
+// Only what the editors' toolbars (and attachment uploads) can produce
+export const JOURNAL_SANITIZE_SCHEMA: SanitizeSchema = {
+  tagNames: [
+    'p', 'br', 'div', 'span', 'strong', 'em', 'u', 'del',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'a', 'hr', 'img'
+  ],
+  attributes: {
+    a: ['href', 'title'],
+    img: [['src', ATTACHMENT_SRC_PATTERN], 'alt'],
+    span: [['style', COLOR_STYLE_PATTERN]]
+  },
+  protocols: {
+    href: ['http', 'https', 'mailto', 'tel']
+  },
+  strip: ['script', 'style', 'template']
+}
+
+// execCommand output that has a semantic equivalent
+const CANONICAL_TAG_NAMES: Record<string, string> = {
+  b: 'strong',
+  i: 'em',
+  s: 'del',
+  strike: 'del'
+}
+
+function canonicalizeElement(element: Element): void {
+  element.tagName = CANONICAL_TAG_NAMES[element.tagName] ?? element.tagName
+
+  // execCommand('foreColor') writes <font color> in some browsers
+  if (element.tagName === 'font') {
+    const color = element.properties.color
+    element.tagName = 'span'
+    element.properties = typeof color === 'string' ? { style: `color: ${color}` } : {}
+  }
+
+  // Of inline styles only the text color is kept, with named colors (`red`) turned into hex
+  if (typeof element.properties.style === 'string') {
+    const color = /(?:^|;)\s*color\s*:\s*([^;]+)/i.exec(element.properties.style)
+    element.properties.style = color ? `color: ${canonicalColor(color[1].trim())}` : undefined
+  }
+}
+
+function canonicalColor(color: string): string {
+  const name = color.toLowerCase()
+  return Object.hasOwn(CSS_NAMED_COLORS, name) ? CSS_NAMED_COLORS[name] : color
+}
+
+function canonicalizeChildren(children: RootContent[]): void {
+  for (const child of children) {
+    if (child.type === 'element') {
+      canonicalizeElement(child)
+      canonicalizeChildren(child.children)
+    }
+  }
+}
+
+function rehypeCanonicalize() {
+  return (tree: Root) => {
+    canonicalizeChildren(tree.children)
+  }
+}
+
+// Images whose src the sanitizer removed (anything but an attachment) would be left empty
+function removeEmptyImages(parent: { children: RootContent[] }): void {
+  parent.children = parent.children.filter(child =>
+    !(child.type === 'element' && child.tagName === 'img' && !child.properties.src)
+  )
+  for (const child of parent.children) {
+    if (child.type === 'element') {
+      removeEmptyImages(child as { children: RootContent[] })
+    }
+  }
+}
+
+function rehypeRemoveEmptyImages() {
+  return (tree: Root) => {
+    removeEmptyImages(tree)
+  }
+}
+
+const sanitizer = unified()
+  .use(rehypeParse, { fragment: true })
+  .use(rehypeCanonicalize)
+  .use(rehypeSanitize, JOURNAL_SANITIZE_SCHEMA)
+  .use(rehypeRemoveEmptyImages)
+  .use(rehypeStringify)
+  .freeze()
+
+const markdownConverter = unified()
+  .use(rehypeParse, { fragment: true })
+  .use(rehypeRemark)
+  .use(remarkStringify)
+  .freeze()
+
+const markdownRenderer = unified()
+  .use(remarkParse)
+  .use(remarkRehype)
+  .use(rehypeCanonicalize)
+  .use(rehypeSanitize, JOURNAL_SANITIZE_SCHEMA)
+  .use(rehypeRemoveEmptyImages)
+  .use(rehypeStringify)
+  .freeze()
+
+export function sanitizeJournalHtml(html: string): string {
+  return String(sanitizer.processSync(html)).trim()
+}
+
+export function journalHtmlToMarkdown(html: string): string {
+  return String(markdownConverter.processSync(html)).trim()
+}
+
+/**
+ * Render Markdown (e.g. from an import) as sanitized journal HTML. Raw HTML in the Markdown is
+ * dropped rather than passed through.
+ */
+export function markdownToJournalHtml(markdown: string): string {
+  return String(markdownRenderer.processSync(markdown)).trim()
+}
+
+/**
+ * The Markdown copy of a decrypted entry. Entries saved before it was stored don't have one, so it
+ * is derived from their content instead.
+ */
+export function journalEntryMarkdown(entry: { content: string; contentMarkdown?: string | null }): string {
+  return entry.contentMarkdown ?? journalHtmlToMarkdown(entry.content)
+}
+
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' })
+
+/**
+ * Number of words in sanitized journal HTML. Words are found with the Unicode segmentation
+ * rules, so languages written without spaces are counted too.
+ */
+export function countJournalWords(html: string): number {
+  let words = 0
+  for (const segment of wordSegmenter.segment(htmlToPlainText(html))) {
+    if (segment.isWordLike) words++
+  }
+  return words
+}
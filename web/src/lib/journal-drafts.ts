@@ -0,0 +1,163 @@
+import { prisma } from './prisma'
+import { decryptContent, encryptContent } from './encryption'
+import { sanitizeJournalHtml } from './journal-content'
+
+/**
+ * Server-side drafts of the full-page journal editor, so unsaved writing survives a closed tab
+ * and can be picked up on another device. A user has at most one draft per entry being edited
+ * plus one for a new entry, addressed by key: 'new' or the entry's id.
+ *
+ * Saves are versioned rather than last-write-wins: each save names the version it replaces, and
+ * if another device got there first the save is refused with the newer draft, leaving the user to
+ * choose between the two.
+ */
+
+export const NEW_DRAFT_KEY = 'new'
+
+// Drafts are autosaved every few seconds; anything larger isn't a journal entry
+const MAX_DRAFT_CONTENT_LENGTH = 500_000
+
+export interface JournalDraft {
+  key: string
+  journalEntryId: string | null
+  content: string
+  mood: string | null
+  tags: string[]
+  version: number
+  updatedAt: Date
+}
+
+export interface JournalDraftInput {
+  content: string
+  mood: string | null
+  tags: string[]
+  // The version this save replaces; 0 when the editor has no draft yet
+  baseVersion: number
+}
+
+export type SaveJournalDraftResult =
+  | { draft: JournalDraft }
+  // The draft was changed or discarded elsewhere since `baseVersion`; null when it's gone
+  | { conflict: JournalDraft | null }
+
+export function parseJournalDraftInput(body: unknown): { data: JournalDraftInput } | { error: string } {
+  if (typeof body !== 'object' || body === null) {
+    return { error: 'Invalid draft' }
+  }
+
+  const { content, mood, tags, baseVersion } = body as Record<string, unknown>
+
+  if (typeof content !== 'string') {
+    return { error: 'content must be a string' }
+  }
+
+  if (content.length > MAX_DRAFT_CONTENT_LENGTH) {
+    return { error: 'Draft is too long' }
+  }
+
+  if (mood !== undefined && mood !== null && typeof mood !== 'string') {
+    return { error: 'mood must be a string or null' }
+  }
+
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+    return { error: 'tags must be an array of strings' }
+  }
+
+  if (typeof baseVersion !== 'number' || !Number.isInteger(baseVersion) || baseVersion < 0) {
+    return { error: 'baseVersion must be a non-negative integer' }
+  }
+
+  return {
+    data: {
+      content,
+      mood: mood ?? null,
+      tags: (tags as string[] | undefined) ?? [],
+      baseVersion
+    }
+  }
+}
+
+/**
+ * Whether `key` can hold a draft for the user: 'new', or the id of one of their entries.
+ */
+async function isValidDraftKey(userId: string, key: string): Promise<boolean> {
+  if (key === NEW_DRAFT_KEY) {
+    return true
+  }
+
+  const entry = await prisma.journalEntry.findFirst({
+    where: { id: key, userId },
+    select: { id: true }
+  })
+  return entry !== null
+}
+
+export async function getJournalDraft(userId: string, key: string): Promise<JournalDraft | null> {
+  const draft = await prisma.journalDraft.findUnique({
+    where: { userId_key: { userId, key } }
+  })
+
+  if (!draft) {
+    return null
+  }
+
+  return {
+    key: draft.key,
+    journalEntryId: draft.journalEntryId,
+    content: await decryptContent(userId, draft.content),
+    mood: draft.mood,
+    tags: draft.tags,
+    version: draft.version,
+    updatedAt: draft.updatedAt
+  }
+}
+
+/**
+ * Save a draft over version `input.baseVersion`. Returns null if the key names no entry of the
+ * user's.
+ */
+export async function saveJournalDraft(
+  userId: string,
+  key: string,
+  input: JournalDraftInput
+): Promise<SaveJournalDraftResult | null> {
+  if (!(await isValidDraftKey(userId, key))) {
+    return null
+  }
+
+  const data = {
+    content: await encryptContent(userId, sanitizeJournalHtml(input.content)),
+    mood: input.mood,
+    tags: input.tags
+  }
+
+  // Compare-and-set on the version, so two devices saving at once can't both succeed
+  const { count } = input.baseVersion === 0
+    ? await prisma.journalDraft.createMany({
+        data: { ...data, userId, key, journalEntryId: key === NEW_DRAFT_KEY ? null : key },
+        skipDuplicates: true
+      })
+    : await prisma.journalDraft.updateMany({
+        where: { userId, key, version: input.baseVersion },
+        data: { ...data, version: { increment: 1 } }
+      })
+
+  const draft = await getJournalDraft(userId, key)
+
+  return count > 0 && draft ? { draft } : { conflict: draft }
+}
+
+/**
+ * Delete a draft. With `upToVersion`, only if it hasn't been saved past that version, so saving
+ * an entry on one device doesn't throw away writing that continued on another.
+ */
+export async function discardJournalDraft(userId: string, key: string, upToVersion?: number): Promise<boolean> {
+  const { count } = await prisma.journalDraft.deleteMany({
+    where: {
+      userId,
+      key,
+      ...(upToVersion !== undefined && { version: { lte: upToVersion } })
+    }
+  })
+  return count > 0
+}
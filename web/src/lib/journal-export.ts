@@ -0,0 +1,499 @@
+import PDFDocument from 'pdfkit'
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import type { PhrasingContent, RootContent } from 'mdast'
+import { prisma } from './prisma'
+import { escapeHtml } from './html'
+import { decryptJournalEntries } from './journal-templates'
+import { journalEntryMarkdown, sanitizeJournalHtml } from './journal-content'
+import { JournalExportFormat, MOOD_CONFIG, isJournalExportFormat } from './journal-constants'
+import { PdfFontStyle, PdfFonts, registerUnicodeFonts } from './pdf-fonts'
+import { isDay, nextDay, startOfDay } from './timezone'
+
+/**
+ * Journal export as a single document for reading or printing (as opposed to the account export,
+ * which is a machine-readable archive of everything). Markdown comes from the stored Markdown copy,
+ * HTML from the sanitized content, and the PDF is typeset from the Markdown.
+ */
+
+export const JOURNAL_EXPORT_CONTENT_TYPES: Record<JournalExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf'
+}
+
+const MAX_TAGS = 20
+
+export interface JournalExportQuery {
+  format: JournalExportFormat
+  // Inclusive days (YYYY-MM-DD) in the user's timezone
+  from: string | null
+  to: string | null
+  tags: string[]
+}
+
+interface ExportEntry {
+  date: Date
+  mood: string | null
+  tags: string[]
+  // Sanitized HTML
+  content: string
+  markdown: string
+}
+
+interface JournalExport {
+  query: JournalExportQuery
+  timeZone: string
+  // ISO 639-1, for the PDF's fonts
+  language: string | null
+  entries: ExportEntry[]
+}
+
+export function parseJournalExportQuery(searchParams: URLSearchParams): { data: JournalExportQuery } | { error: string } {
+  const format = searchParams.get('format') ?? 'md'
+  const from = searchParams.get('from') || null
+  const to = searchParams.get('to') || null
+  const tags = (searchParams.get('tags') ?? '')
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean)
+
+  if (!isJournalExportFormat(format)) {
+    return { error: 'format must be md, html or pdf' }
+  }
+
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (value !== null && !isDay(value)) {
+      return { error: `${name} must be a date (YYYY-MM-DD)` }
+    }
+  }
+
+  if (from && to && from > to) {
+    return { error: 'from must not be after to' }
+  }
+
+  if (tags.length > MAX_TAGS) {
+    return { error: `At most ${MAX_TAGS} tags can be given` }
+  }
+
+  return { data: { format, from, to, tags } }
+}
+
+/**
+ * Load and decrypt the entries in the requested range, oldest first. Entries match when they have
+ * any of the requested tags.
+ */
+export async function loadJournalExport(userId: string, query: JournalExportQuery): Promise<JournalExport> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true, preferredLanguage: true }
+  })
+  const timeZone = user?.timezone ?? 'UTC'
+
+  const entries = await prisma.journalEntry.findMany({
+    where: {
+      userId,
+      ...((query.from || query.to) && {
+        date: {
+          ...(query.from && { gte: startOfDay(query.from, timeZone) }),
+          ...(query.to && { lt: startOfDay(nextDay(query.to), timeZone) })
+        }
+      }),
+      ...(query.tags.length > 0 && { tags: { hasSome: query.tags } })
+    },
+    orderBy: { date: 'asc' }
+  })
+
+  const decrypted = await decryptJournalEntries(userId, entries)
+
+  return {
+    query,
+    timeZone,
+    language: user?.preferredLanguage ?? null,
+    entries: decrypted.map(entry => ({
+      date: entry.date,
+      mood: entry.mood,
+      tags: entry.tags,
+      // Entries saved before content was sanitized on the server are cleaned up here
+      content: sanitizeJournalHtml(entry.content),
+      markdown: journalEntryMarkdown(entry)
+    }))
+  }
+}
+
+export function journalExportFileName(query: JournalExportQuery): string {
+  const range = query.from || query.to
+    ? `${query.from ?? 'start'}-to-${query.to ?? new Date().toISOString().slice(0, 10)}`
+    : new Date().toISOString().slice(0, 10)
+  return `journal-${range}.${query.format}`
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T12:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+}
+
+function formatEntryDate(date: Date, timeZone: string): string {
+  const day = date.toLocaleDateString('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+  const time = date.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' })
+  return `${day} · ${time}`
+}
+
+// "January 1, 2026 – January 31, 2026 · #work, #family"
+function describeQuery(query: JournalExportQuery): string {
+  const range = query.from && query.to
+    ? `${formatDay(query.from)} – ${formatDay(query.to)}`
+    : query.from
+      ? `Since ${formatDay(query.from)}`
+      : query.to
+        ? `Until ${formatDay(query.to)}`
+        : 'All entries'
+  return query.tags.length > 0
+    ? `${range} · ${query.tags.map(tag => `#${tag}`).join(', ')}`
+    : range
+}
+
+function moodLabel(mood: string): string {
+  const emoji = MOOD_CONFIG[mood]?.emoji
+  return emoji ? `${emoji} ${mood}` : mood
+}
+
+function renderMarkdown({ query, timeZone, entries }: JournalExport): string {
+  const sections = entries.map(entry => {
+    const meta = [
+      entry.mood && moodLabel(entry.mood),
+      entry.tags.length > 0 && entry.tags.map(tag => `#${tag}`).join(' ')
+    ].filter(Boolean).join(' · ')
+
+    return [
+      `## ${formatEntryDate(entry.date, timeZone)}`,
+      meta,
+      entry.markdown
+    ].filter(Boolean).join('\n\n')
+  })
+
+  return [
+    `# Journal\n\n_${describeQuery(query)}_`,
+    ...(sections.length > 0 ? sections : ['No entries.'])
+  ].join('\n\n---\n\n') + '\n'
+}
+
+const HTML_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #1f2937; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; }
+  header.document { margin-bottom: 2rem; }
+  header.document p { color: #6b7280; font-style: italic; }
+  article { border-top: 1px solid #e5e7eb; padding-top: 1.5rem; margin-top: 1.5rem; }
+  article h2.date { font-size: 1.1rem; margin: 0; }
+  .meta { color: #6b7280; font-size: 0.9rem; margin: 0.25rem 0 1rem; }
+  .tag { margin-right: 0.5rem; }
+  blockquote { border-left: 3px solid #d1d5db; margin-left: 0; padding-left: 1rem; color: #4b5563; }
+  pre, code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    article { break-inside: avoid-page; }
+  }
+`
+
+function renderHtml({ query, timeZone, entries }: JournalExport): string {
+  const articles = entries.map(entry => {
+    const meta = [
+      entry.mood && `<span class="mood">${escapeHtml(moodLabel(entry.mood))}</span>`,
+      ...entry.tags.map(tag => `<span class="tag">#${escapeHtml(tag)}</span>`)
+    ].filter(Boolean).join(' ')
+
+    return `<article>
+<h2 class="date">${escapeHtml(formatEntryDate(entry.date, timeZone))}</h2>
+${meta ? `<p class="meta">${meta}</p>\n` : ''}<div class="content">${entry.content}</div>
+</article>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Journal</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header class="document">
+<h1>Journal</h1>
+<p>${escapeHtml(describeQuery(query))}</p>
+</header>
+${articles.length > 0 ? articles.join('\n') : '<p>No entries.</p>'}
+</body>
+</html>
+`
+}
+
+const PDF_MARGIN = 64
+const PDF_TEXT_SIZE = 11
+const PDF_HEADING_SIZES = [18, 16, 14, 13, 12, 11]
+const PDF_TEXT_COLOR = '#1f2937'
+const PDF_MUTED_COLOR = '#6b7280'
+const PDF_LINK_COLOR = '#b45309'
+const PDF_RULE_COLOR = '#e5e7eb'
+const PDF_LIST_INDENT = 16
+
+interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  strike?: boolean
+  code?: boolean
+  link?: string
+}
+
+interface BlockStyle {
+  indent: number
+  color: string
+  italic: boolean
+  // Space after each paragraph, in lines; lists that aren't spread out are kept tight
+  gap: number
+}
+
+const markdownParser = unified().use(remarkParse).freeze()
+
+function collectRuns(nodes: PhrasingContent[], style: Omit<TextRun, 'text'>, runs: TextRun[]): TextRun[] {
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        runs.push({ ...style, text: node.value })
+        break
+      case 'inlineCode':
+        runs.push({ ...style, code: true, text: node.value })
+        break
+      case 'break':
+        runs.push({ ...style, text: '\n' })
+        break
+      case 'strong':
+        collectRuns(node.children, { ...style, bold: true }, runs)
+        break
+      case 'emphasis':
+        collectRuns(node.children, { ...style, italic: true }, runs)
+        break
+      case 'delete':
+        collectRuns(node.children, { ...style, strike: true }, runs)
+        break
+      case 'link':
+        collectRuns(node.children, { ...style, link: node.url }, runs)
+        break
+      default:
+        // Inline HTML and images can't come out of sanitized content
+        if ('children' in node) {
+          collectRuns(node.children, style, runs)
+        }
+    }
+  }
+  return runs
+}
+
+function runFont(run: TextRun): PdfFontStyle {
+  if (run.code) return 'code'
+  if (run.bold && run.italic) return 'boldItalic'
+  if (run.bold) return 'bold'
+  if (run.italic) return 'italic'
+  return 'regular'
+}
+
+// Text in one font style, switching between the fonts for its scripts as one paragraph
+function writeText(
+  doc: PDFKit.PDFDocument,
+  fonts: PdfFonts,
+  text: string,
+  font: PdfFontStyle,
+  x?: number,
+  y?: number,
+  options: PDFKit.Mixins.TextOptions = {}
+): void {
+  const segments = fonts(text, font)
+
+  segments.forEach((segment, index) => {
+    doc
+      .font(segment.font)
+      .text(segment.text, index === 0 ? x : undefined, index === 0 ? y : undefined, {
+        ...options,
+        continued: index < segments.length - 1 || options.continued
+      })
+  })
+}
+
+function writeRuns(doc: PDFKit.PDFDocument, fonts: PdfFonts, runs: TextRun[], style: BlockStyle, size: number): void {
+  const segments = runs.flatMap(run =>
+    fonts(run.text, runFont({ ...run, italic: run.italic || style.italic })).map(segment => ({ run, segment }))
+  )
+  if (segments.length === 0) return
+
+  const x = PDF_MARGIN + style.indent
+  const width = doc.page.width - PDF_MARGIN * 2 - style.indent
+
+  segments.forEach(({ run, segment }, index) => {
+    doc
+      .font(segment.font)
+      .fontSize(run.code ? size - 1 : size)
+      .fillColor(run.link ? PDF_LINK_COLOR : style.color)
+      .text(segment.text, index === 0 ? x : undefined, undefined, {
+        width,
+        continued: index < segments.length - 1,
+        link: run.link ?? null,
+        underline: Boolean(run.link),
+        strike: Boolean(run.strike)
+      })
+  })
+}
+
+function writeBlocks(doc: PDFKit.PDFDocument, fonts: PdfFonts, nodes: RootContent[], style: BlockStyle): void {
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'heading':
+        doc.moveDown(0.3)
+        writeRuns(doc, fonts, collectRuns(node.children, { bold: true }, []), style, PDF_HEADING_SIZES[node.depth - 1])
+        doc.moveDown(0.3)
+        break
+      case 'paragraph':
+        writeRuns(doc, fonts, collectRuns(node.children, {}, []), style, PDF_TEXT_SIZE)
+        doc.moveDown(style.gap)
+        break
+      case 'blockquote':
+        writeBlocks(doc, fonts, node.children, { ...style, indent: style.indent + PDF_LIST_INDENT, color: PDF_MUTED_COLOR, italic: true })
+        break
+      case 'list':
+        node.children.forEach((item, index) => {
+          const marker = node.ordered ? `${(node.start ?? 1) + index}.` : '•'
+          const y = doc.y
+          doc.fontSize(PDF_TEXT_SIZE).fillColor(style.color)
+          writeText(doc, fonts, marker, 'regular', PDF_MARGIN + style.indent, y, { width: PDF_LIST_INDENT, lineBreak: false })
+          doc.y = y
+          writeBlocks(doc, fonts, item.children, { ...style, indent: style.indent + PDF_LIST_INDENT, gap: node.spread ? 0.5 : 0.15 })
+        })
+        doc.moveDown(0.35)
+        break
+      case 'code':
+        doc.fontSize(PDF_TEXT_SIZE - 1).fillColor(style.color)
+        writeText(doc, fonts, node.value, 'code', PDF_MARGIN + style.indent, undefined, {
+          width: doc.page.width - PDF_MARGIN * 2 - style.indent
+        })
+        doc.moveDown(style.gap)
+        break
+      case 'thematicBreak':
+        writeRule(doc)
+        break
+      default:
+        if ('children' in node) {
+          writeBlocks(doc, fonts, node.children as RootContent[], style)
+        }
+    }
+  }
+}
+
+function writeRule(doc: PDFKit.PDFDocument): void {
+  doc.moveDown(0.5)
+  doc
+    .moveTo(PDF_MARGIN, doc.y)
+    .lineTo(doc.page.width - PDF_MARGIN, doc.y)
+    .lineWidth(0.5)
+    .strokeColor(PDF_RULE_COLOR)
+    .stroke()
+  doc.moveDown(0.75)
+}
+
+function writeEntryHeader(doc: PDFKit.PDFDocument, fonts: PdfFonts, entry: ExportEntry, timeZone: string): void {
+  // Keep the date with at least the first lines of the entry
+  if (doc.y > doc.page.height - PDF_MARGIN - 96) {
+    doc.addPage()
+  }
+
+  doc.fontSize(13).fillColor(PDF_TEXT_COLOR)
+  writeText(doc, fonts, formatEntryDate(entry.date, timeZone), 'bold', PDF_MARGIN)
+
+  const tags = entry.tags.map(tag => `#${tag}`).join('  ')
+  const emoji = entry.mood ? MOOD_CONFIG[entry.mood]?.emoji : undefined
+  const mood = emoji ? `${emoji} ${entry.mood}` : entry.mood
+
+  if (mood || tags) {
+    doc.moveDown(0.2).fontSize(10).fillColor(PDF_MUTED_COLOR)
+    writeText(doc, fonts, [mood, tags].filter(Boolean).join('   ·   '), 'regular', PDF_MARGIN)
+  }
+
+  doc.moveDown(0.6)
+}
+
+function writePageNumbers(doc: PDFKit.PDFDocument, fonts: PdfFonts): void {
+  const { start, count } = doc.bufferedPageRange()
+
+  for (let index = start; index < start + count; index++) {
+    doc.switchToPage(index)
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottom = doc.page.margins.bottom
+    doc.page.margins.bottom = 0
+    doc.fontSize(9).fillColor(PDF_MUTED_COLOR)
+    writeText(doc, fonts, `${index + 1} / ${count}`, 'regular', PDF_MARGIN, doc.page.height - PDF_MARGIN / 2, {
+      width: doc.page.width - PDF_MARGIN * 2,
+      align: 'center',
+      lineBreak: false
+    })
+    doc.page.margins.bottom = bottom
+  }
+}
+
+function renderPdf({ query, timeZone, language, entries }: JournalExport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PDF_MARGIN,
+      bufferPages: true,
+      info: { Title: 'Journal', Subject: describeQuery(query) }
+    })
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    const fonts = registerUnicodeFonts(doc, language)
+
+    doc.fontSize(24).fillColor(PDF_TEXT_COLOR)
+    writeText(doc, fonts, 'Journal', 'bold')
+    doc.fontSize(11).fillColor(PDF_MUTED_COLOR)
+    writeText(doc, fonts, describeQuery(query), 'italic')
+
+    if (entries.length === 0) {
+      doc.moveDown().fillColor(PDF_TEXT_COLOR)
+      writeText(doc, fonts, 'No entries.', 'regular')
+    }
+
+    for (const entry of entries) {
+      writeRule(doc)
+      writeEntryHeader(doc, fonts, entry, timeZone)
+      writeBlocks(doc, fonts, markdownParser.parse(entry.markdown).children, {
+        indent: 0,
+        color: PDF_TEXT_COLOR,
+        italic: false,
+        gap: 0.5
+      })
+    }
+
+    writePageNumbers(doc, fonts)
+    doc.end()
+  })
+}
+
+export async function renderJournalExport(data: JournalExport): Promise<string | Buffer> {
+  switch (data.query.format) {
+    case 'md':
+      return renderMarkdown(data)
+    case 'html':
+      return renderHtml(data)
+    case 'pdf':
+      return renderPdf(data)
+  }
+}
@@ -0,0 +1,33 @@
+// Client-safe journal import definitions (shared by the import API and the import pages)
+
+export const JOURNAL_IMPORT_SOURCES = ['dayone', 'markdown', 'text'] as const
+export type JournalImportSource = typeof JOURNAL_IMPORT_SOURCES[number]
+
+export const JOURNAL_IMPORT_SOURCE_LABELS: Record<JournalImportSource, { name: string; description: string; accept: string }> = {
+  dayone: {
+    name: 'Day One',
+    description: 'The JSON export (a .json file, or the .zip Day One creates)',
+    accept: '.json,.zip'
+  },
+  markdown: {
+    name: 'Markdown files',
+    description: 'A folder or .zip of .md files, dated by a "date:" front-matter field or the file name',
+    accept: '.md,.markdown,.zip'
+  },
+  text: {
+    name: 'Plain text files',
+    description: 'A folder or .zip of .txt files, dated by the file name (2024-01-31.txt) or their first line',
+    accept: '.txt,.zip'
+  }
+}
+
+export const JOURNAL_IMPORT_STATUSES = ['PARSED', 'PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'] as const
+export type JournalImportStatus = typeof JOURNAL_IMPORT_STATUSES[number]
+
+// Upload limits, checked again on the server
+export const JOURNAL_IMPORT_MAX_BYTES = 25 * 1024 * 1024
+export const JOURNAL_IMPORT_MAX_ENTRIES = 5000
+
+export function isJournalImportSource(value: unknown): value is JournalImportSource {
+  return typeof value === 'string' && (JOURNAL_IMPORT_SOURCES as readonly string[]).includes(value)
+}
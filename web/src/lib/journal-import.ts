@@ -0,0 +1,577 @@
+import { strFromU8, unzipSync } from 'fflate'
+import { prisma } from './prisma'
+import { decryptContent, decryptRecords, encryptContent } from './encryption'
+import { dispatchJob } from './background-jobs'
+import { recordAuditEvent } from './audit'
+import { htmlToPlainText, textToHtml } from './html'
+import { countJournalWords, journalHtmlToMarkdown, markdownToJournalHtml } from './journal-content'
+import { MOOD_OPTIONS } from './journal-constants'
+import { indexJournalEntry } from './search'
+import { resolveLinksTo, updateLinks } from './links'
+import { isDay } from './timezone'
+import { JOURNAL_IMPORT_MAX_ENTRIES, JournalImportSource } from './journal-import-sources'
+
+/**
+ * Importing journals from other apps.
+ *
+ * An upload is parsed straight away and kept (encrypted) on a JournalImport record, so the user
+ * can preview it. Committing queues a background job that creates the entries in batches,
+ * skipping any the journal already has, and records its progress on the import.
+ */
+
+// Limits on what archives unpack to, checked before anything is inflated: a small upload can
+// hold a zip bomb. Sizes come from the archive's directory, and fflate never inflates past them.
+const MAX_UNPACKED_BYTES = 200 * 1024 * 1024
+const MAX_UNPACKED_FILES = 20_000
+
+export interface ImportFile {
+  name: string
+  data: Uint8Array
+}
+
+export interface ImportedEntry {
+  // ISO 8601
+  date: string
+  // Sanitized HTML, like entries written in the editor
+  content: string
+  mood: string | null
+  tags: string[]
+  // The file the entry came from, for the preview
+  sourceName: string
+}
+
+interface ParsedImport {
+  entries: ImportedEntry[]
+  skipped: number
+}
+
+const PREVIEW_SIZE = 50
+const BATCH_SIZE = 50
+// Entries with the same text this close together are treated as the same entry
+const DUPLICATE_WINDOW_MS = 36 * 60 * 60 * 1000
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const FILE_NAME_DATE_PATTERN = /(\d{4}-\d{2}-\d{2})/
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+// Photos and other attachments in a Day One export aren't imported
+const DAY_ONE_MOMENT_PATTERN = /!\[[^\]]*\]\(dayone-moment:[^)]*\)/g
+
+function parseImportDate(value: string): Date | null {
+  const trimmed = value.trim()
+
+  // A bare date is put at noon UTC so it stays on the same day in every timezone
+  if (DATE_ONLY_PATTERN.test(trimmed)) {
+    return isDay(trimmed) ? new Date(`${trimmed}T12:00:00Z`) : null
+  }
+
+  const date = new Date(trimmed)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function dateFromFileName(name: string): Date | null {
+  const baseName = name.split('/').pop() ?? name
+  const match = FILE_NAME_DATE_PATTERN.exec(baseName)
+  return match ? parseImportDate(match[1]) : null
+}
+
+/**
+ * Use a tag or front-matter value as the entry's mood when it names one of our moods.
+ */
+function matchMood(value: string): string | null {
+  const option = MOOD_OPTIONS.find(mood => mood.value.toLowerCase() === value.trim().toLowerCase())
+  return option ? option.value : null
+}
+
+function cleanTags(tags: unknown[]): string[] {
+  return [...new Set(
+    tags.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.trim()).filter(Boolean)
+  )]
+}
+
+function isHiddenPath(name: string): boolean {
+  return name.split('/').some(part => part.startsWith('.') || part === '__MACOSX')
+}
+
+/**
+ * Unpack ZIP archives, so a folder can be uploaded either as files or zipped. Returns null if
+ * they would unpack to more than MAX_UNPACKED_BYTES or MAX_UNPACKED_FILES.
+ */
+function expandArchives(files: ImportFile[]): ImportFile[] | null {
+  let unpackedBytes = 0
+  let unpackedFiles = 0
+  let tooLarge = false
+
+  const expanded = files.flatMap((file) => {
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+      return [file]
+    }
+
+    const entries = unzipSync(file.data, {
+      filter: ({ name, originalSize }) => {
+        if (tooLarge || name.endsWith('/') || isHiddenPath(name)) {
+          return false
+        }
+
+        unpackedBytes += originalSize
+        unpackedFiles++
+        tooLarge = unpackedBytes > MAX_UNPACKED_BYTES || unpackedFiles > MAX_UNPACKED_FILES
+        return !tooLarge
+      }
+    })
+
+    return Object.entries(entries).map(([name, data]) => ({ name, data }))
+  })
+
+  return tooLarge ? null : expanded
+}
+
+function hasExtension(name: string, extensions: string[]): boolean {
+  const lower = name.toLowerCase()
+  return extensions.some(extension => lower.endsWith(extension))
+}
+
+function parseDayOne(files: ImportFile[]): ParsedImport {
+  const entries: ImportedEntry[] = []
+  let skipped = 0
+
+  for (const file of files.filter(f => hasExtension(f.name, ['.json']))) {
+    let journal: unknown
+    try {
+      journal = JSON.parse(strFromU8(file.data))
+    } catch {
+      skipped++
+      continue
+    }
+
+    const items = (journal as { entries?: unknown }).entries
+    if (!Array.isArray(items)) {
+      skipped++
+      continue
+    }
+
+    for (const item of items as Record<string, unknown>[]) {
+      const date = typeof item.creationDate === 'string' ? parseImportDate(item.creationDate) : null
+      const text = typeof item.text === 'string' ? item.text.replace(DAY_ONE_MOMENT_PATTERN, '').trim() : ''
+
+      if (!date || !text) {
+        skipped++
+        continue
+      }
+
+      // Day One has no moods; a tag that names one of ours becomes the mood
+      const tags = cleanTags(Array.isArray(item.tags) ? item.tags : [])
+      const moodTag = tags.find(tag => matchMood(tag))
+
+      entries.push({
+        date: date.toISOString(),
+        content: markdownToJournalHtml(text),
+        mood: moodTag ? matchMood(moodTag) : null,
+        tags: tags.filter(tag => tag !== moodTag),
+        sourceName: file.name
+      })
+    }
+  }
+
+  return { entries, skipped }
+}
+
+/**
+ * Read the simple YAML front matter journaling apps write: "key: value" lines, with lists either
+ * inline ([a, b]) or as "- item" lines.
+ */
+function parseFrontMatter(text: string): { fields: Record<string, string | string[]>; body: string } {
+  const match = FRONT_MATTER_PATTERN.exec(text)
+  if (!match) {
+    return { fields: {}, body: text }
+  }
+
+  const fields: Record<string, string | string[]> = {}
+  let listKey: string | null = null
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s*-\s+(.*)$/.exec(line)
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1]))
+      continue
+    }
+
+    const field = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/.exec(line)
+    if (!field) continue
+
+    const key = field[1].toLowerCase()
+    const value = field[2].trim()
+    listKey = null
+
+    if (value === '') {
+      fields[key] = []
+      listKey = key
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean)
+    } else {
+      fields[key] = unquote(value)
+    }
+  }
+
+  return { fields, body: text.slice(match[0].length) }
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2')
+}
+
+function fieldText(value: string | string[] | undefined): string | null {
+  return typeof value === 'string' && value ? value : null
+}
+
+function parseMarkdown(files: ImportFile[]): ParsedImport {
+  const entries: ImportedEntry[] = []
+  let skipped = 0
+
+  for (const file of files.filter(f => hasExtension(f.name, ['.md', '.markdown']))) {
+    const { fields, body } = parseFrontMatter(strFromU8(file.data))
+    const dateField = fieldText(fields.date) ?? fieldText(fields.created)
+    const date = (dateField && parseImportDate(dateField)) || dateFromFileName(file.name)
+    const title = fieldText(fields.title)
+    const markdown = (title ? `## ${title}\n\n${body}` : body).trim()
+
+    if (!date || !markdown) {
+      skipped++
+      continue
+    }
+
+    const tags = typeof fields.tags === 'string' ? fields.tags.split(',') : fields.tags ?? []
+    const moodField = fieldText(fields.mood)
+    const mood = moodField ? matchMood(moodField) : null
+
+    entries.push({
+      date: date.toISOString(),
+      content: markdownToJournalHtml(markdown),
+      mood,
+      // A mood that isn't one of ours is kept as a tag rather than lost
+      tags: cleanTags(moodField && !mood ? [...tags, moodField] : tags),
+      sourceName: file.name
+    })
+  }
+
+  return { entries, skipped }
+}
+
+function parseText(files: ImportFile[]): ParsedImport {
+  const entries: ImportedEntry[] = []
+  let skipped = 0
+
+  for (const file of files.filter(f => hasExtension(f.name, ['.txt']))) {
+    let text = strFromU8(file.data).replace(/\r\n/g, '\n').trim()
+    let date = dateFromFileName(file.name)
+
+    // Otherwise the file may start with its date on a line of its own
+    if (!date) {
+      const [firstLine, ...rest] = text.split('\n')
+      if (firstLine.length <= 40 && /\d{4}/.test(firstLine)) {
+        date = parseImportDate(firstLine)
+        text = rest.join('\n').trim()
+      }
+    }
+
+    if (!date || !text) {
+      skipped++
+      continue
+    }
+
+    entries.push({
+      date: date.toISOString(),
+      content: textToHtml(text),
+      mood: null,
+      tags: [],
+      sourceName: file.name
+    })
+  }
+
+  return { entries, skipped }
+}
+
+const PARSERS: Record<JournalImportSource, (files: ImportFile[]) => ParsedImport> = {
+  dayone: parseDayOne,
+  markdown: parseMarkdown,
+  text: parseText
+}
+
+/**
+ * Parse uploaded files into journal entries, oldest first.
+ */
+export function parseImportFiles(
+  source: JournalImportSource,
+  files: ImportFile[]
+): { data: ParsedImport } | { error: string; status: number } {
+  let parsed: ParsedImport
+  try {
+    const expanded = expandArchives(files)
+    if (!expanded) {
+      return {
+        error: `Archives can unpack to at most ${MAX_UNPACKED_BYTES / (1024 * 1024)} MB in ${MAX_UNPACKED_FILES} files`,
+        status: 413
+      }
+    }
+    parsed = PARSERS[source](expanded)
+  } catch (error) {
+    console.error('Failed to parse journal import:', error)
+    return { error: 'The files could not be read. Check that they are the right kind of export.', status: 400 }
+  }
+
+  if (parsed.entries.length === 0) {
+    return { error: 'No dated entries were found in the files', status: 400 }
+  }
+  if (parsed.entries.length > JOURNAL_IMPORT_MAX_ENTRIES) {
+    return { error: `An import can have at most ${JOURNAL_IMPORT_MAX_ENTRIES} entries`, status: 400 }
+  }
+
+  parsed.entries.sort((a, b) => a.date.localeCompare(b.date))
+  return { data: parsed }
+}
+
+function comparableText(html: string): string {
+  return htmlToPlainText(html).replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Tracks which entries the journal has, by text and date. Entry content is encrypted, so the
+ * user's entries around the imported dates are decrypted and compared here rather than in SQL.
+ */
+class DuplicateIndex {
+  private datesByText = new Map<string, number[]>()
+
+  static async forEntries(userId: string, entries: ImportedEntry[]): Promise<DuplicateIndex> {
+    const index = new DuplicateIndex()
+    if (entries.length === 0) return index
+
+    const times = entries.map(entry => Date.parse(entry.date))
+    const existing = await prisma.journalEntry.findMany({
+      where: {
+        userId,
+        date: {
+          gte: new Date(Math.min(...times) - DUPLICATE_WINDOW_MS),
+          lte: new Date(Math.max(...times) + DUPLICATE_WINDOW_MS)
+        }
+      },
+      select: { id: true, content: true, date: true }
+    })
+
+    for (const entry of await decryptRecords(userId, existing)) {
+      index.add(entry.content, entry.date)
+    }
+    return index
+  }
+
+  add(content: string, date: Date | string): void {
+    const text = comparableText(content)
+    this.datesByText.set(text, [...(this.datesByText.get(text) ?? []), new Date(date).getTime()])
+  }
+
+  has(content: string, date: Date | string): boolean {
+    const time = new Date(date).getTime()
+    return (this.datesByText.get(comparableText(content)) ?? []).some(
+      existing => Math.abs(existing - time) < DUPLICATE_WINDOW_MS
+    )
+  }
+}
+
+type JournalImportRecord = {
+  id: string
+  status: string
+  source: string
+  fileName: string
+  total: number
+  processed: number
+  imported: number
+  duplicates: number
+  skipped: number
+  error: string | null
+  createdAt: Date
+}
+
+// Only the listed fields are returned - never the parsed entries themselves
+export function toJournalImportResponse(job: JournalImportRecord) {
+  return {
+    id: job.id,
+    status: job.status,
+    source: job.source,
+    fileName: job.fileName,
+    total: job.total,
+    processed: job.processed,
+    imported: job.imported,
+    duplicates: job.duplicates,
+    skipped: job.skipped,
+    error: job.error,
+    createdAt: job.createdAt
+  }
+}
+
+async function readImportedEntries(userId: string, stored: string | null): Promise<ImportedEntry[]> {
+  return stored ? JSON.parse(await decryptContent(userId, stored)) : []
+}
+
+/**
+ * Store a parsed upload for preview. Nothing is added to the journal until it is committed.
+ */
+export async function createJournalImport(
+  userId: string,
+  source: JournalImportSource,
+  fileName: string,
+  parsed: ParsedImport
+) {
+  return prisma.journalImport.create({
+    data: {
+      userId,
+      source,
+      fileName,
+      entries: await encryptContent(userId, JSON.stringify(parsed.entries)),
+      total: parsed.entries.length,
+      skipped: parsed.skipped
+    }
+  })
+}
+
+/**
+ * The first entries of a parsed import, each marked if the journal already has it, and the
+ * number of duplicates overall.
+ */
+export async function previewJournalImport(userId: string, stored: string | null) {
+  const entries = await readImportedEntries(userId, stored)
+  const existing = await DuplicateIndex.forEntries(userId, entries)
+  const duplicate = entries.map(entry => existing.has(entry.content, entry.date))
+
+  return {
+    duplicates: duplicate.filter(Boolean).length,
+    entries: entries.slice(0, PREVIEW_SIZE).map((entry, index) => ({
+      date: entry.date,
+      mood: entry.mood,
+      tags: entry.tags,
+      sourceName: entry.sourceName,
+      excerpt: htmlToPlainText(entry.content).slice(0, 200),
+      duplicate: duplicate[index]
+    }))
+  }
+}
+
+/**
+ * Create the entries of a committed import. Runs from the QStash callback (or in-process when
+ * QStash isn't configured). A retried job carries on after the last finished batch; entries from
+ * a batch that was cut short are recognized as duplicates.
+ */
+export async function processJournalImport({ importId }: { importId: string }): Promise<void> {
+  const job = await prisma.journalImport.findUnique({ where: { id: importId } })
+
+  if (!job) {
+    throw new Error(`Import ${importId} not found`)
+  }
+
+  if (job.status !== 'PENDING' && job.status !== 'PROCESSING') {
+    return
+  }
+
+  await prisma.journalImport.update({
+    where: { id: importId },
+    data: { status: 'PROCESSING' }
+  })
+
+  try {
+    const entries = await readImportedEntries(job.userId, job.entries)
+    const existing = await DuplicateIndex.forEntries(job.userId, entries)
+    let { processed, imported, duplicates } = job
+
+    while (processed < entries.length) {
+      const batch = entries.slice(processed, processed + BATCH_SIZE)
+      const toCreate = batch.filter((entry) => {
+        if (existing.has(entry.content, entry.date)) {
+          duplicates++
+          return false
+        }
+        // Also catches the same entry twice in one import
+        existing.add(entry.content, entry.date)
+        return true
+      })
+
+      const prepared = await Promise.all(toCreate.map(async (entry) => {
+        const markdown = journalHtmlToMarkdown(entry.content)
+        return {
+          markdown,
+          data: {
+            userId: job.userId,
+            content: await encryptContent(job.userId, entry.content),
+            contentMarkdown: await encryptContent(job.userId, markdown),
+            wordCount: countJournalWords(entry.content),
+            mood: entry.mood,
+            tags: entry.tags,
+            date: new Date(entry.date)
+          }
+        }
+      }))
+
+      const created = await prisma.journalEntry.createManyAndReturn({
+        data: prepared.map(entry => entry.data),
+        select: { id: true }
+      })
+
+      for (const [index, entry] of created.entries()) {
+        await indexJournalEntry(job.userId, entry.id, prepared[index].markdown)
+        await updateLinks(job.userId, { type: 'journal', id: entry.id }, toCreate[index].content)
+        await resolveLinksTo(job.userId, { type: 'journal', id: entry.id })
+      }
+
+      processed += batch.length
+      imported += created.length
+
+      await prisma.journalImport.update({
+        where: { id: importId },
+        data: { processed, imported, duplicates }
+      })
+    }
+
+    await prisma.journalImport.update({
+      where: { id: importId },
+      data: { status: 'COMPLETED', entries: null }
+    })
+
+    await recordAuditEvent({
+      userId: job.userId,
+      action: 'data.journal_imported',
+      resourceType: 'journalImport',
+      resourceId: importId,
+      metadata: { source: job.source, imported, duplicates }
+    })
+  } catch (error) {
+    await prisma.journalImport.update({
+      where: { id: importId },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Unknown import error'
+      }
+    })
+    throw error
+  }
+}
+
+/**
+ * Queue a parsed import to be added to the journal.
+ */
+export async function commitJournalImport(importId: string) {
+  const job = await prisma.journalImport.update({
+    where: { id: importId },
+    data: { status: 'PENDING' }
+  })
+
+  const qstashMessageId = await dispatchJob(
+    '/api/journal/import/process',
+    { importId },
+    processJournalImport
+  )
+
+  if (qstashMessageId) {
+    return prisma.journalImport.update({
+      where: { id: importId },
+      data: { qstashMessageId }
+    })
+  }
+
+  return job
+}
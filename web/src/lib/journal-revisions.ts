@@ -0,0 +1,191 @@
+import { diffWords } from 'diff'
+import { prisma } from './prisma'
+import { decryptContent, encryptContent, isEncryptedContent } from './encryption'
+import { htmlToPlainText } from './html'
+import { countJournalWords, journalHtmlToMarkdown, sanitizeJournalHtml } from './journal-content'
+import { indexJournalEntry } from './search'
+import { claimAttachments } from './attachments'
+import { updateLinks } from './links'
+import { attachmentIdsInContent } from './attachment-constants'
+import { TemplateAnswers } from './journal-template-schema'
+import {
+  decryptJournalEntries,
+  decryptJournalEntry,
+  decryptTemplateAnswers,
+  encryptTemplateAnswers
+} from './journal-templates'
+
+// Oldest revisions beyond this are dropped when an entry is saved
+const MAX_REVISIONS_PER_ENTRY = 50
+
+export interface JournalEntryChanges {
+  content?: string
+  mood?: string | null
+  tags?: string[]
+  templateAnswers?: TemplateAnswers
+}
+
+export interface DiffPart {
+  value: string
+  added?: boolean
+  removed?: boolean
+}
+
+function sameTags(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((tag, index) => tag === b[index])
+}
+
+/**
+ * Apply changes to a journal entry, first saving the current version as a revision.
+ * Returns the updated entry (decrypted), or null if the user has no such entry. A save that
+ * changes nothing doesn't create a revision.
+ */
+export async function updateJournalEntry(userId: string, id: string, changes: JournalEntryChanges) {
+  const entry = await prisma.journalEntry.findFirst({ where: { id, userId } })
+
+  if (!entry) {
+    return null
+  }
+
+  const current = await decryptJournalEntry(userId, entry)
+  const content = changes.content === undefined ? undefined : sanitizeJournalHtml(changes.content)
+  const contentChanged = content !== undefined && content !== '' && content !== current.content
+  const moodChanged = changes.mood !== undefined && changes.mood !== entry.mood
+  const tagsChanged = changes.tags !== undefined && !sameTags(changes.tags, entry.tags)
+  const answersChanged = changes.templateAnswers !== undefined &&
+    JSON.stringify(changes.templateAnswers) !== JSON.stringify(current.templateAnswers)
+
+  if (!contentChanged && !moodChanged && !tagsChanged && !answersChanged) {
+    return current
+  }
+
+  const contentMarkdown = contentChanged ? journalHtmlToMarkdown(content!) : undefined
+
+  const [, updated] = await prisma.$transaction([
+    prisma.journalEntryRevision.create({
+      data: {
+        journalEntryId: id,
+        // Rows written before at-rest encryption are still plaintext; don't copy that into history
+        content: isEncryptedContent(entry.content) ? entry.content : await encryptContent(userId, entry.content),
+        mood: entry.mood,
+        tags: entry.tags,
+        templateAnswers: entry.templateAnswers,
+        savedAt: entry.updatedAt
+      }
+    }),
+    prisma.journalEntry.update({
+      where: { id },
+      data: {
+        ...(contentChanged && {
+          content: await encryptContent(userId, content!),
+          contentMarkdown: await encryptContent(userId, contentMarkdown!),
+          wordCount: countJournalWords(content!)
+        }),
+        ...(moodChanged && { mood: changes.mood }),
+        ...(tagsChanged && { tags: changes.tags }),
+        ...(answersChanged && { templateAnswers: await encryptTemplateAnswers(userId, changes.templateAnswers!) })
+      }
+    })
+  ])
+
+  if (contentChanged) {
+    await indexJournalEntry(userId, id, contentMarkdown!)
+    await claimAttachments(userId, attachmentIdsInContent(content!), { journalEntryId: id })
+    await updateLinks(userId, { type: 'journal', id }, content!)
+  }
+
+  await pruneRevisions(id)
+
+  return decryptJournalEntry(userId, updated)
+}
+
+async function pruneRevisions(journalEntryId: string): Promise<void> {
+  const stale = await prisma.journalEntryRevision.findMany({
+    where: { journalEntryId },
+    orderBy: { createdAt: 'desc' },
+    skip: MAX_REVISIONS_PER_ENTRY,
+    select: { id: true }
+  })
+
+  if (stale.length > 0) {
+    await prisma.journalEntryRevision.deleteMany({
+      where: { id: { in: stale.map(revision => revision.id) } }
+    })
+  }
+}
+
+/**
+ * The entry's revisions, newest first, each with a word diff of its text against the version
+ * that replaced it (the next newer revision, or the current entry for the newest one).
+ * Returns null if the user has no such entry.
+ */
+export async function getJournalEntryRevisions(userId: string, id: string) {
+  const entry = await prisma.journalEntry.findFirst({
+    where: { id, userId },
+    include: { revisions: { orderBy: { createdAt: 'desc' } } }
+  })
+
+  if (!entry) {
+    return null
+  }
+
+  const current = await decryptJournalEntry(userId, entry)
+  const revisions = await decryptJournalEntries(userId, entry.revisions)
+
+  let newerText = htmlToPlainText(current.content)
+  const withDiffs = revisions.map((revision) => {
+    const text = htmlToPlainText(revision.content)
+    const diff: DiffPart[] = diffWords(text, newerText).map(({ value, added, removed }) => ({
+      value,
+      ...(added && { added }),
+      ...(removed && { removed })
+    }))
+    newerText = text
+
+    return {
+      id: revision.id,
+      content: revision.content,
+      mood: revision.mood,
+      tags: revision.tags,
+      templateAnswers: revision.templateAnswers,
+      savedAt: revision.savedAt,
+      replacedAt: revision.createdAt,
+      diff
+    }
+  })
+
+  return {
+    current: {
+      content: current.content,
+      mood: current.mood,
+      tags: current.tags,
+      templateId: current.templateId,
+      templateAnswers: current.templateAnswers,
+      savedAt: current.updatedAt
+    },
+    revisions: withDiffs
+  }
+}
+
+/**
+ * Make a revision the current version again. The version it replaces is kept as a revision, so
+ * a restore can itself be undone. Returns null if the entry or revision doesn't exist.
+ */
+export async function restoreJournalEntryRevision(userId: string, id: string, revisionId: string) {
+  const revision = await prisma.journalEntryRevision.findFirst({
+    where: { id: revisionId, journalEntryId: id, journalEntry: { userId } }
+  })
+
+  if (!revision) {
+    return null
+  }
+
+  return updateJournalEntry(userId, id, {
+    content: await decryptContent(userId, revision.content),
+    mood: revision.mood,
+    tags: revision.tags,
+    ...(revision.templateAnswers !== null && {
+      templateAnswers: (await decryptTemplateAnswers(userId, revision.templateAnswers))!
+    })
+  })
+}
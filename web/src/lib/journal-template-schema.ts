@@ -0,0 +1,292 @@
+// Client-safe journal template definitions (shared by the journal API and the entry editor)
+
+import { escapeHtml, textToHtml } from './html'
+
+export const TEMPLATE_FIELD_TYPES = ['text', 'scale', 'list', 'checkbox'] as const
+export type TemplateFieldType = typeof TEMPLATE_FIELD_TYPES[number]
+
+export const TEMPLATE_FIELD_TYPE_LABELS: Record<TemplateFieldType, string> = {
+  text: 'Text',
+  scale: 'Scale',
+  list: 'List',
+  checkbox: 'Checkbox'
+}
+
+export interface TemplateField {
+  // Key of the field's answer; unique within the template
+  id: string
+  label: string
+  type: TemplateFieldType
+  required?: boolean
+  help?: string
+  // text: show a multi-line input
+  multiline?: boolean
+  // scale: inclusive whole-number range
+  min?: number
+  max?: number
+}
+
+export type TemplateAnswer = string | number | boolean | string[]
+export type TemplateAnswers = Record<string, TemplateAnswer>
+
+export interface JournalTemplate {
+  id: string
+  name: string
+  description: string | null
+  fields: TemplateField[]
+  builtIn: boolean
+}
+
+export const TEMPLATE_NAME_MAX_LENGTH = 100
+export const TEMPLATE_DESCRIPTION_MAX_LENGTH = 500
+export const TEMPLATE_MAX_FIELDS = 30
+const FIELD_ID_PATTERN = /^[a-z0-9_-]{1,50}$/i
+const FIELD_LABEL_MAX_LENGTH = 200
+const TEXT_ANSWER_MAX_LENGTH = 20000
+const LIST_MAX_ITEMS = 50
+const LIST_ITEM_MAX_LENGTH = 500
+const DEFAULT_SCALE_MIN = 1
+const DEFAULT_SCALE_MAX = 10
+
+export const BUILT_IN_TEMPLATES: JournalTemplate[] = [
+  {
+    id: 'gratitude',
+    name: 'Gratitude',
+    description: 'Notice what went well and who you appreciate.',
+    builtIn: true,
+    fields: [
+      { id: 'grateful-for', label: 'Three things I am grateful for', type: 'list', required: true },
+      { id: 'person', label: 'Someone I appreciate and why', type: 'text', multiline: true },
+      { id: 'highlight', label: 'The best moment of today', type: 'text', multiline: true }
+    ]
+  },
+  {
+    id: 'cbt-thought-record',
+    name: 'CBT thought record',
+    description: 'Work through a difficult thought and find a more balanced view.',
+    builtIn: true,
+    fields: [
+      { id: 'situation', label: 'Situation', type: 'text', multiline: true, required: true, help: 'What happened? Where, when, with whom?' },
+      { id: 'automatic-thought', label: 'Automatic thought', type: 'text', multiline: true, required: true, help: 'What went through your mind?' },
+      { id: 'emotions', label: 'Emotions', type: 'list', help: 'Name each feeling' },
+      { id: 'intensity-before', label: 'Intensity before', type: 'scale', min: 0, max: 100 },
+      { id: 'evidence-for', label: 'Evidence for the thought', type: 'text', multiline: true },
+      { id: 'evidence-against', label: 'Evidence against the thought', type: 'text', multiline: true },
+      { id: 'balanced-thought', label: 'Balanced thought', type: 'text', multiline: true, required: true },
+      { id: 'intensity-after', label: 'Intensity after', type: 'scale', min: 0, max: 100 }
+    ]
+  },
+  {
+    id: 'morning-pages',
+    name: 'Morning pages',
+    description: 'Write freely first thing in the morning, without editing.',
+    builtIn: true,
+    fields: [
+      { id: 'pages', label: 'Morning pages', type: 'text', multiline: true, required: true, help: 'Keep the pen moving - whatever comes to mind' },
+      { id: 'energy', label: 'Energy level', type: 'scale', min: 1, max: 10 },
+      { id: 'intention', label: "Today's intention", type: 'text' }
+    ]
+  },
+  {
+    id: 'evening-review',
+    name: 'Evening review',
+    description: 'Look back on the day and set up tomorrow.',
+    builtIn: true,
+    fields: [
+      { id: 'day-rating', label: 'How was today?', type: 'scale', min: 1, max: 10, required: true },
+      { id: 'wins', label: 'Wins', type: 'list' },
+      { id: 'challenges', label: 'What was hard', type: 'text', multiline: true },
+      { id: 'lesson', label: 'What I learned', type: 'text', multiline: true },
+      { id: 'intention-kept', label: "I kept this morning's intention", type: 'checkbox' },
+      { id: 'tomorrow', label: 'Top priorities for tomorrow', type: 'list' }
+    ]
+  }
+]
+
+export function getBuiltInTemplate(id: string): JournalTemplate | undefined {
+  return BUILT_IN_TEMPLATES.find(template => template.id === id)
+}
+
+function isTemplateFieldType(value: unknown): value is TemplateFieldType {
+  return typeof value === 'string' && (TEMPLATE_FIELD_TYPES as readonly string[]).includes(value)
+}
+
+function scaleRange(field: TemplateField): { min: number; max: number } {
+  return { min: field.min ?? DEFAULT_SCALE_MIN, max: field.max ?? DEFAULT_SCALE_MAX }
+}
+
+function parseField(value: unknown, index: number): { data: TemplateField } | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: `Field ${index + 1} is invalid` }
+  }
+
+  const field = value as Record<string, unknown>
+  const label = typeof field.label === 'string' ? field.label.trim() : ''
+
+  if (typeof field.id !== 'string' || !FIELD_ID_PATTERN.test(field.id)) {
+    return { error: `Field ${index + 1} needs an id of letters, digits, "-" or "_"` }
+  }
+  if (!label || label.length > FIELD_LABEL_MAX_LENGTH) {
+    return { error: `Field ${index + 1} needs a label of at most ${FIELD_LABEL_MAX_LENGTH} characters` }
+  }
+  if (!isTemplateFieldType(field.type)) {
+    return { error: `Field "${label}" has an invalid type` }
+  }
+
+  const parsed: TemplateField = { id: field.id, label, type: field.type }
+
+  if (field.required === true) parsed.required = true
+  if (typeof field.help === 'string' && field.help.trim()) parsed.help = field.help.trim().slice(0, FIELD_LABEL_MAX_LENGTH)
+  if (field.type === 'text' && field.multiline === true) parsed.multiline = true
+
+  if (field.type === 'scale') {
+    const min = field.min ?? DEFAULT_SCALE_MIN
+    const max = field.max ?? DEFAULT_SCALE_MAX
+    if (!Number.isInteger(min) || !Number.isInteger(max) || (min as number) >= (max as number)) {
+      return { error: `Field "${label}" needs a whole-number range with min below max` }
+    }
+    parsed.min = min as number
+    parsed.max = max as number
+  }
+
+  return { data: parsed }
+}
+
+/**
+ * Validate a user-defined template from a request body.
+ */
+export function parseTemplateDefinition(
+  body: unknown
+): { data: { name: string; description: string | null; fields: TemplateField[] } } | { error: string } {
+  if (typeof body !== 'object' || body === null) {
+    return { error: 'Invalid request body' }
+  }
+
+  const { name, description, fields } = body as Record<string, unknown>
+  const trimmedName = typeof name === 'string' ? name.trim() : ''
+
+  if (!trimmedName || trimmedName.length > TEMPLATE_NAME_MAX_LENGTH) {
+    return { error: `Name is required and must be at most ${TEMPLATE_NAME_MAX_LENGTH} characters` }
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return { error: 'Description must be a string' }
+  }
+  if (typeof description === 'string' && description.length > TEMPLATE_DESCRIPTION_MAX_LENGTH) {
+    return { error: `Description must be at most ${TEMPLATE_DESCRIPTION_MAX_LENGTH} characters` }
+  }
+  if (!Array.isArray(fields) || fields.length === 0 || fields.length > TEMPLATE_MAX_FIELDS) {
+    return { error: `A template needs between 1 and ${TEMPLATE_MAX_FIELDS} fields` }
+  }
+
+  const parsedFields: TemplateField[] = []
+  for (const [index, value] of fields.entries()) {
+    const result = parseField(value, index)
+    if ('error' in result) {
+      return result
+    }
+    if (parsedFields.some(field => field.id === result.data.id)) {
+      return { error: `Field id "${result.data.id}" is used more than once` }
+    }
+    parsedFields.push(result.data)
+  }
+
+  return {
+    data: {
+      name: trimmedName,
+      description: typeof description === 'string' && description.trim() ? description.trim() : null,
+      fields: parsedFields
+    }
+  }
+}
+
+/**
+ * Check answers against a template's fields. Empty answers are dropped, as are answers to
+ * fields the template doesn't have.
+ */
+export function validateTemplateAnswers(
+  fields: TemplateField[],
+  answers: unknown
+): { data: TemplateAnswers } | { error: string } {
+  if (typeof answers !== 'object' || answers === null || Array.isArray(answers)) {
+    return { error: 'Template answers must be an object' }
+  }
+
+  const input = answers as Record<string, unknown>
+  const result: TemplateAnswers = {}
+
+  for (const field of fields) {
+    const value = input[field.id]
+
+    switch (field.type) {
+      case 'text': {
+        if (value !== undefined && value !== null && typeof value !== 'string') {
+          return { error: `"${field.label}" must be text` }
+        }
+        const text = typeof value === 'string' ? value.trim() : ''
+        if (text.length > TEXT_ANSWER_MAX_LENGTH) {
+          return { error: `"${field.label}" must be at most ${TEXT_ANSWER_MAX_LENGTH} characters` }
+        }
+        if (text) result[field.id] = text
+        break
+      }
+      case 'scale': {
+        if (value === undefined || value === null) break
+        const { min, max } = scaleRange(field)
+        if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+          return { error: `"${field.label}" must be a whole number from ${min} to ${max}` }
+        }
+        result[field.id] = value as number
+        break
+      }
+      case 'list': {
+        if (value !== undefined && value !== null && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+          return { error: `"${field.label}" must be a list of text items` }
+        }
+        const items = ((value as string[] | undefined) ?? []).map(item => item.trim()).filter(Boolean)
+        if (items.length > LIST_MAX_ITEMS || items.some(item => item.length > LIST_ITEM_MAX_LENGTH)) {
+          return { error: `"${field.label}" can have at most ${LIST_MAX_ITEMS} items of ${LIST_ITEM_MAX_LENGTH} characters` }
+        }
+        if (items.length > 0) result[field.id] = items
+        break
+      }
+      case 'checkbox': {
+        if (value !== undefined && value !== null && typeof value !== 'boolean') {
+          return { error: `"${field.label}" must be true or false` }
+        }
+        if (typeof value === 'boolean') result[field.id] = value
+        break
+      }
+    }
+
+    if (field.required && field.type !== 'checkbox' && result[field.id] === undefined) {
+      return { error: `"${field.label}" is required` }
+    }
+  }
+
+  return { data: result }
+}
+
+/**
+ * Render validated answers as entry HTML, one heading per answered field, so template entries
+ * read like any other entry everywhere content is shown.
+ */
+export function renderTemplateContent(template: JournalTemplate, answers: TemplateAnswers): string {
+  return template.fields
+    .filter(field => answers[field.id] !== undefined)
+    .map((field) => {
+      const answer = answers[field.id]
+      const heading = `<h3>${escapeHtml(field.label)}</h3>`
+
+      switch (field.type) {
+        case 'text':
+          return heading + textToHtml(answer as string)
+        case 'scale':
+          return `${heading}<p>${answer} / ${scaleRange(field).max}</p>`
+        case 'list':
+          return `${heading}<ul>${(answer as string[]).map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        case 'checkbox':
+          return `${heading}<p>${answer ? 'Yes' : 'No'}</p>`
+      }
+    })
+    .join('')
+}
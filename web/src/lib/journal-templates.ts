@@ -0,0 +1,86 @@
+import { Prisma } from '@/generated/prisma/client'
+import { prisma } from './prisma'
+import { decryptContent, encryptContent } from './encryption'
+import {
+  BUILT_IN_TEMPLATES,
+  JournalTemplate,
+  TemplateAnswers,
+  TemplateField,
+  getBuiltInTemplate
+} from './journal-template-schema'
+
+function toJournalTemplate(row: { id: string; name: string; description: string | null; fields: Prisma.JsonValue }): JournalTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    // Written only through parseTemplateDefinition
+    fields: row.fields as unknown as TemplateField[],
+    builtIn: false
+  }
+}
+
+/**
+ * Built-in templates followed by the user's own, oldest first.
+ */
+export async function listJournalTemplates(userId: string): Promise<JournalTemplate[]> {
+  const templates = await prisma.journalTemplate.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return [...BUILT_IN_TEMPLATES, ...templates.map(toJournalTemplate)]
+}
+
+/**
+ * Look up a built-in template or one of the user's templates.
+ */
+export async function getJournalTemplate(userId: string, id: string): Promise<JournalTemplate | null> {
+  const builtIn = getBuiltInTemplate(id)
+  if (builtIn) {
+    return builtIn
+  }
+
+  const template = await prisma.journalTemplate.findFirst({ where: { id, userId } })
+  return template ? toJournalTemplate(template) : null
+}
+
+export async function encryptTemplateAnswers(userId: string, answers: TemplateAnswers): Promise<string> {
+  return encryptContent(userId, JSON.stringify(answers))
+}
+
+export async function decryptTemplateAnswers(userId: string, stored: string | null): Promise<TemplateAnswers | null> {
+  return stored === null ? null : JSON.parse(await decryptContent(userId, stored))
+}
+
+interface StoredJournalEntry {
+  content: string
+  contentMarkdown?: string | null
+  templateAnswers: string | null
+}
+
+/**
+ * Decrypt journal entries (or revisions) for a response: the content and its Markdown copy, and
+ * the template answers parsed back into an object.
+ */
+export async function decryptJournalEntries<T extends StoredJournalEntry>(
+  userId: string,
+  entries: T[]
+): Promise<(Omit<T, 'templateAnswers'> & { templateAnswers: TemplateAnswers | null })[]> {
+  return Promise.all(
+    entries.map(async (entry) => ({
+      ...entry,
+      content: await decryptContent(userId, entry.content),
+      ...(entry.contentMarkdown && { contentMarkdown: await decryptContent(userId, entry.contentMarkdown) }),
+      templateAnswers: await decryptTemplateAnswers(userId, entry.templateAnswers)
+    }))
+  )
+}
+
+export async function decryptJournalEntry<T extends StoredJournalEntry>(
+  userId: string,
+  entry: T
+) {
+  const [decrypted] = await decryptJournalEntries(userId, [entry])
+  return decrypted
+}
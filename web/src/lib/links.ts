@@ -0,0 +1,458 @@
+import { Prisma } from '@/generated/prisma/client'
+import { prisma } from './prisma'
+import { decryptContent } from './encryption'
+import { htmlToPlainText } from './html'
+import { dayInTimezone, nextDay, startOfDay } from './timezone'
+import { TokenScope } from './token-scopes'
+import { getJournalDays } from './writing-stats'
+import {
+  LinkType,
+  WikiLinkReference,
+  formatWikiLink,
+  linkKey,
+  linkTypeUrl,
+  parseWikiLinks,
+  referenceMatchesType
+} from './wiki-links'
+
+/**
+ * Wiki-style links between journal entries, notes, goals and tasks (syntax in lib/wiki-links.ts).
+ *
+ * Links are resolved when their source is saved - titles to the user's notes, goals and tasks, days
+ * to the journal entries written on them - and stored in the Link table, so each record can show
+ * what mentions it without scanning (and decrypting) everything the user wrote. Each row keeps the
+ * reference it was written as (type and linkKey), and a reference that matches nothing is stored
+ * without a target. When a record is created or renamed, resolveLinksTo points the references to
+ * its title at it and returns the ones to its old title to unresolved.
+ */
+
+// Token scope needed to see records of each type
+export const LINK_TYPE_SCOPES: Record<LinkType, TokenScope> = {
+  journal: 'journal:read',
+  note: 'notes:read',
+  goal: 'goals:read',
+  task: 'tasks:read'
+}
+
+// Characters of context on each side of the link in a backlink's excerpt
+const EXCERPT_RADIUS = 80
+
+// Suggestions per type while completing a link
+const TARGET_SUGGESTIONS_PER_TYPE = 5
+
+// Records whose links are rebuilt per query by backfillLinks
+const LINK_BACKFILL_BATCH_SIZE = 100
+
+export interface LinkEndpoint {
+  type: LinkType
+  id: string
+}
+
+export interface ResolvedReference {
+  reference: WikiLinkReference
+  // Empty when no record matches
+  targets: LinkEndpoint[]
+}
+
+type LinkRow = {
+  id: string
+  sourceType: string
+  sourceId: string
+  referenceType: string | null
+  referenceKey: string
+}
+
+export interface Backlink {
+  type: LinkType
+  id: string
+  // Null for journal entries, which have no titles
+  title: string | null
+  // Plain text around the link
+  excerpt: string
+  date: Date
+  // Web page showing the record
+  url: string
+}
+
+export interface LinkTarget {
+  type: LinkType
+  // A title, or a day for journal entries
+  title: string
+  // The text to insert, e.g. "[[goal:Run a marathon]]"
+  link: string
+}
+
+async function getUserTimezone(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true }
+  })
+  return user?.timezone ?? 'UTC'
+}
+
+function titleFilter(references: WikiLinkReference[], type: LinkType) {
+  return references
+    .filter(reference => reference.type === type || reference.type === null)
+    .map(reference => ({ title: { equals: reference.target, mode: 'insensitive' as const } }))
+}
+
+/**
+ * The records each reference points to. A title shared by several records links to all of them.
+ */
+export async function resolveWikiLinks(userId: string, references: WikiLinkReference[]): Promise<ResolvedReference[]> {
+  if (references.length === 0) {
+    return []
+  }
+
+  const days = references.filter(reference => reference.type === 'journal').map(reference => reference.target)
+  const notes = titleFilter(references, 'note')
+  const goals = titleFilter(references, 'goal')
+  const tasks = titleFilter(references, 'task')
+  const timeZone = days.length > 0 ? await getUserTimezone(userId) : 'UTC'
+  const select = { id: true, title: true }
+
+  const [entries, noteRows, goalRows, taskRows] = await Promise.all([
+    days.length > 0
+      ? prisma.journalEntry.findMany({
+          where: {
+            userId,
+            OR: days.map(day => ({ date: { gte: startOfDay(day, timeZone), lt: startOfDay(nextDay(day), timeZone) } }))
+          },
+          select: { id: true, date: true }
+        })
+      : [],
+    notes.length > 0 ? prisma.note.findMany({ where: { userId, OR: notes }, select }) : [],
+    goals.length > 0 ? prisma.goal.findMany({ where: { userId, OR: goals }, select }) : [],
+    tasks.length > 0 ? prisma.task.findMany({ where: { userId, OR: tasks }, select }) : []
+  ])
+
+  const records = [
+    ...entries.map(({ id, date }) => ({ type: 'journal' as const, id, key: linkKey(dayInTimezone(date, timeZone)) })),
+    ...noteRows.map(({ id, title }) => ({ type: 'note' as const, id, key: linkKey(title) })),
+    ...goalRows.map(({ id, title }) => ({ type: 'goal' as const, id, key: linkKey(title) })),
+    ...taskRows.map(({ id, title }) => ({ type: 'task' as const, id, key: linkKey(title) }))
+  ]
+
+  return references.map(reference => ({
+    reference,
+    targets: records
+      .filter(record => record.key === linkKey(reference.target) && referenceMatchesType(reference.type, record.type))
+      .map(({ type, id }) => ({ type, id }))
+  }))
+}
+
+/**
+ * Replace the links from a record with those written in its text: journal HTML, a note's content
+ * or a goal's or task's description.
+ */
+export async function updateLinks(userId: string, source: LinkEndpoint, text: string): Promise<void> {
+  const plainText = source.type === 'journal' ? htmlToPlainText(text) : text
+  const resolved = await resolveWikiLinks(userId, parseWikiLinks(plainText))
+
+  const data = resolved.flatMap(({ reference, targets }) => {
+    const link = {
+      userId,
+      sourceType: source.type,
+      sourceId: source.id,
+      referenceType: reference.type,
+      referenceKey: linkKey(reference.target)
+    }
+    const others = targets.filter(target => target.type !== source.type || target.id !== source.id)
+    // Unresolved references are kept, for resolveLinksTo to resolve when a record gets the title
+    return others.length > 0
+      ? others.map(target => ({ ...link, targetType: target.type, targetId: target.id }))
+      : [link]
+  })
+
+  await prisma.$transaction([
+    prisma.link.deleteMany({ where: { sourceType: source.type, sourceId: source.id } }),
+    prisma.link.createMany({ data })
+  ])
+}
+
+/**
+ * Take links off their target. A link that was the only one made from its reference becomes
+ * unresolved instead, so it's resolved again if a record takes the title.
+ */
+async function unlinkRows(tx: Prisma.TransactionClient, links: LinkRow[]): Promise<void> {
+  for (const link of links) {
+    const others = await tx.link.count({
+      where: {
+        sourceType: link.sourceType,
+        sourceId: link.sourceId,
+        referenceType: link.referenceType,
+        referenceKey: link.referenceKey,
+        id: { not: link.id }
+      }
+    })
+
+    if (others > 0) {
+      await tx.link.delete({ where: { id: link.id } })
+    } else {
+      await tx.link.update({ where: { id: link.id }, data: { targetType: null, targetId: null } })
+    }
+  }
+}
+
+/**
+ * Point the references that name a record at it, after the record is created or its title changes
+ * (a journal entry's is its day). Links made from a title it no longer has are taken off it.
+ */
+export async function resolveLinksTo(userId: string, target: LinkEndpoint): Promise<void> {
+  const label = await getLinkLabel(userId, target, await getUserTimezone(userId))
+
+  if (label === null) {
+    return
+  }
+
+  const key = linkKey(label)
+  const linkRow = { id: true, sourceType: true, sourceId: true, referenceType: true, referenceKey: true } as const
+
+  await prisma.$transaction(async (tx) => {
+    await unlinkRows(tx, await tx.link.findMany({
+      where: { userId, targetType: target.type, targetId: target.id, referenceKey: { not: key } },
+      select: linkRow
+    }))
+
+    // Bare [[Title]] references match notes, goals and tasks (see referenceMatchesType)
+    const references = await tx.link.findMany({
+      where: {
+        userId,
+        referenceKey: key,
+        OR: target.type === 'journal'
+          ? [{ referenceType: 'journal' }]
+          : [{ referenceType: target.type }, { referenceType: null }]
+      },
+      select: { ...linkRow, targetType: true, targetId: true }
+    })
+
+    // One link per source and reference; the ones already pointing at the record are left alone
+    const referenceOf = (link: LinkRow) => `${link.sourceType}:${link.sourceId}:${link.referenceType}`
+    const linked = new Set(
+      references
+        .filter(link => link.targetType === target.type && link.targetId === target.id)
+        .map(referenceOf)
+    )
+    const toLink = new Map<string, LinkRow>()
+    for (const link of references) {
+      const isSelf = link.sourceType === target.type && link.sourceId === target.id
+      if (!isSelf && !linked.has(referenceOf(link))) {
+        toLink.set(referenceOf(link), link)
+      }
+    }
+
+    if (toLink.size === 0) {
+      return
+    }
+
+    const links = [...toLink.values()]
+    await tx.link.deleteMany({
+      where: {
+        userId,
+        referenceKey: key,
+        targetId: null,
+        OR: links.map(link => ({ sourceType: link.sourceType, sourceId: link.sourceId, referenceType: link.referenceType }))
+      }
+    })
+    await tx.link.createMany({
+      data: links.map(link => ({
+        userId,
+        sourceType: link.sourceType,
+        sourceId: link.sourceId,
+        referenceType: link.referenceType,
+        referenceKey: key,
+        targetType: target.type,
+        targetId: target.id
+      }))
+    })
+  })
+}
+
+/**
+ * Forget the links from a deleted record, and unresolve the links to it.
+ */
+export async function removeLinks(endpoint: LinkEndpoint): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.link.deleteMany({ where: { sourceType: endpoint.type, sourceId: endpoint.id } })
+    await unlinkRows(tx, await tx.link.findMany({
+      where: { targetType: endpoint.type, targetId: endpoint.id },
+      select: { id: true, sourceType: true, sourceId: true, referenceType: true, referenceKey: true }
+    }))
+  })
+}
+
+async function rebuildLinksFrom(
+  userId: string,
+  type: LinkType,
+  loadTexts: (where: { userId: string; id?: { gt: string } }) => Promise<{ id: string; text: string }[]>
+): Promise<void> {
+  let lastId: string | undefined
+
+  for (;;) {
+    const records = await loadTexts({ userId, ...(lastId && { id: { gt: lastId } }) })
+
+    if (records.length === 0) return
+
+    for (const record of records) {
+      await updateLinks(userId, { type, id: record.id }, record.text)
+    }
+    lastId = records[records.length - 1].id
+  }
+}
+
+/**
+ * Rebuild the user's links from everything they wrote: once for links stored before references
+ * were kept, and again after their timezone (which decides an entry's day) changes.
+ */
+async function backfillLinks(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { linksRebuiltAt: true } })
+
+  if (!user || user.linksRebuiltAt) {
+    return
+  }
+
+  const page = { orderBy: { id: 'asc' as const }, take: LINK_BACKFILL_BATCH_SIZE }
+
+  await rebuildLinksFrom(userId, 'journal', async (where) => Promise.all(
+    (await prisma.journalEntry.findMany({ where, select: { id: true, content: true }, ...page }))
+      .map(async (entry) => ({ id: entry.id, text: await decryptContent(userId, entry.content) }))
+  ))
+  await rebuildLinksFrom(userId, 'note', async (where) => Promise.all(
+    (await prisma.note.findMany({ where, select: { id: true, content: true }, ...page }))
+      .map(async (note) => ({ id: note.id, text: await decryptContent(userId, note.content) }))
+  ))
+  await rebuildLinksFrom(userId, 'goal', async (where) =>
+    (await prisma.goal.findMany({ where, select: { id: true, description: true }, ...page }))
+      .map(goal => ({ id: goal.id, text: goal.description }))
+  )
+  await rebuildLinksFrom(userId, 'task', async (where) =>
+    (await prisma.task.findMany({ where, select: { id: true, description: true }, ...page }))
+      .map(task => ({ id: task.id, text: task.description }))
+  )
+
+  await prisma.user.update({ where: { id: userId }, data: { linksRebuiltAt: new Date() } })
+}
+
+/**
+ * What a link to the record is written as: its title, or an entry's day. Null if the user has no
+ * such record.
+ */
+async function getLinkLabel(userId: string, target: LinkEndpoint, timeZone: string): Promise<string | null> {
+  const where = { id: target.id, userId }
+
+  switch (target.type) {
+    case 'journal': {
+      const entry = await prisma.journalEntry.findFirst({ where, select: { date: true } })
+      return entry ? dayInTimezone(entry.date, timeZone) : null
+    }
+    case 'note':
+      return (await prisma.note.findFirst({ where, select: { title: true } }))?.title ?? null
+    case 'goal':
+      return (await prisma.goal.findFirst({ where, select: { title: true } }))?.title ?? null
+    case 'task':
+      return (await prisma.task.findFirst({ where, select: { title: true } }))?.title ?? null
+  }
+}
+
+/**
+ * The text around the link to `label`, or around the first link when it was written differently.
+ */
+function excerptAround(text: string, label: string): string {
+  const links = [...text.matchAll(/\[\[([^[\]\n]+)\]\]/g)]
+  const link = links.find(match => parseWikiLinks(match[0])[0]?.target.toLowerCase() === label.toLowerCase()) ?? links[0]
+  const index = link?.index ?? 0
+  const start = Math.max(0, index - EXCERPT_RADIUS)
+  const end = Math.min(text.length, index + (link?.[0].length ?? 0) + EXCERPT_RADIUS)
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`
+}
+
+/**
+ * The records of `sourceTypes` that link to the target, newest first. Null if the user has no
+ * such target.
+ */
+export async function getBacklinks(userId: string, target: LinkEndpoint, sourceTypes: LinkType[]): Promise<Backlink[] | null> {
+  await backfillLinks(userId)
+
+  const timeZone = await getUserTimezone(userId)
+  const label = await getLinkLabel(userId, target, timeZone)
+
+  if (label === null) {
+    return null
+  }
+
+  const links = await prisma.link.findMany({
+    where: { userId, targetType: target.type, targetId: target.id, sourceType: { in: sourceTypes } },
+    select: { sourceType: true, sourceId: true }
+  })
+  const idsOf = (type: LinkType) => links.filter(link => link.sourceType === type).map(link => link.sourceId)
+  const where = (type: LinkType) => ({ userId, id: { in: idsOf(type) } })
+
+  const [entries, notes, goals, tasks] = await Promise.all([
+    prisma.journalEntry.findMany({ where: where('journal'), select: { id: true, content: true, date: true } }),
+    prisma.note.findMany({ where: where('note'), select: { id: true, title: true, content: true, updatedAt: true } }),
+    prisma.goal.findMany({ where: where('goal'), select: { id: true, title: true, description: true, updatedAt: true } }),
+    prisma.task.findMany({ where: where('task'), select: { id: true, title: true, description: true, updatedAt: true } })
+  ])
+
+  const backlinks: Backlink[] = [
+    ...await Promise.all(entries.map(async (entry) => ({
+      type: 'journal' as const,
+      id: entry.id,
+      title: null,
+      excerpt: excerptAround(htmlToPlainText(await decryptContent(userId, entry.content)), label),
+      date: entry.date,
+      url: linkTypeUrl('journal', entry.id)
+    }))),
+    ...await Promise.all(notes.map(async (note) => ({
+      type: 'note' as const,
+      id: note.id,
+      title: note.title,
+      excerpt: excerptAround(await decryptContent(userId, note.content), label),
+      date: note.updatedAt,
+      url: linkTypeUrl('note', note.id)
+    }))),
+    ...[...goals.map(goal => ({ ...goal, type: 'goal' as const })), ...tasks.map(task => ({ ...task, type: 'task' as const }))]
+      .map(record => ({
+        type: record.type,
+        id: record.id,
+        title: record.title,
+        excerpt: excerptAround(record.description, label),
+        date: record.updatedAt,
+        url: linkTypeUrl(record.type, record.id)
+      }))
+  ]
+
+  return backlinks.sort((a, b) => b.date.getTime() - a.date.getTime())
+}
+
+/**
+ * Records whose title contains the query, for completing a link as it's typed. Days with journal
+ * entries are suggested when the query looks like the start of a date.
+ */
+export async function searchLinkTargets(userId: string, query: string, types: LinkType[]): Promise<LinkTarget[]> {
+  const titled = {
+    where: { userId, title: { contains: query, mode: 'insensitive' as const } },
+    select: { title: true },
+    orderBy: { updatedAt: 'desc' as const },
+    take: TARGET_SUGGESTIONS_PER_TYPE
+  }
+  const wants = (type: LinkType) => types.includes(type)
+  const wantsDays = wants('journal') && /^\d[\d-]*$/.test(query)
+
+  const [days, goals, notes, tasks] = await Promise.all([
+    wantsDays ? getUserTimezone(userId).then(timeZone => getJournalDays(userId, timeZone)) : [],
+    wants('goal') ? prisma.goal.findMany(titled) : [],
+    wants('note') ? prisma.note.findMany(titled) : [],
+    wants('task') ? prisma.task.findMany(titled) : []
+  ])
+
+  const target = (type: LinkType, title: string): LinkTarget => ({ type, title, link: formatWikiLink(type, title) })
+
+  return [
+    ...days.filter(day => day.startsWith(query)).reverse().slice(0, TARGET_SUGGESTIONS_PER_TYPE).map(day => target('journal', day)),
+    ...goals.map(goal => target('goal', goal.title)),
+    ...notes.map(note => target('note', note.title)),
+    ...tasks.map(task => target('task', task.title))
+  ]
+}
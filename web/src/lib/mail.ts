@@ -0,0 +1,99 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+const mailFrom = process.env.MAIL_FROM || 'Personal Coach <no-reply@localhost>'
+
+// Logs messages to the server console - the default for local development
+class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+// Writes each message as a JSON file so flows can be tested without an SMTP provider
+class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: mailFrom, sentAt: new Date().toISOString(), ...message }, null, 2)
+    )
+  }
+}
+
+class SmtpMailTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter
+
+  constructor(smtpUrl: string) {
+    this.transporter = nodemailer.createTransport(smtpUrl)
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: mailFrom, ...message })
+  }
+}
+
+/**
+ * Select the mail transport from MAIL_TRANSPORT ('console', 'file' or 'smtp').
+ * Defaults to SMTP when SMTP_URL is set, otherwise to the console sink.
+ */
+function createMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_URL ? 'smtp' : 'console')
+
+  switch (transport) {
+    case 'smtp':
+      if (!process.env.SMTP_URL) {
+        throw new Error('MAIL_TRANSPORT is smtp but SMTP_URL is not set')
+      }
+      return new SmtpMailTransport(process.env.SMTP_URL)
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'))
+    case 'console':
+      return new ConsoleMailTransport()
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`)
+  }
+}
+
+const globalForMail = globalThis as unknown as {
+  mailTransport: MailTransport | undefined
+}
+
+export const mailTransport = globalForMail.mailTransport ?? createMailTransport()
+
+if (process.env.NODE_ENV !== 'production') globalForMail.mailTransport = mailTransport
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await mailTransport.send(message)
+}
+
+/**
+ * Get the base URL used for links in outgoing emails.
+ * Always configured, never taken from the request: the Host header is attacker-controlled,
+ * and a reset or verification link pointing elsewhere would hand over its token.
+ */
+export function getAppBaseUrl(): string {
+  const baseUrl = process.env.NEXTAUTH_URL
+    || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : null)
+
+  if (!baseUrl) {
+    throw new Error('No app URL configured. Set NEXTAUTH_URL or VERCEL_URL.')
+  }
+
+  return baseUrl.replace(/\/$/, '')
+}
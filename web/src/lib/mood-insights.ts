@@ -0,0 +1,170 @@
+import { prisma } from './prisma'
+import { MOOD_OPTIONS, moodScore } from './journal-constants'
+import { addDays, dayInTimezone, daysBetween, isDay, nextDay, startOfDay, startOfWeek } from './timezone'
+
+/**
+ * Mood, tag and activity trends over a range of days, for the dashboard charts. Days are
+ * calendar days in the user's timezone and weeks start on Monday. Only the mood and tags the user
+ * set count; pending suggestions (see lib/journal-analysis.ts) don't.
+ */
+
+const DEFAULT_RANGE_DAYS = 90
+const MAX_RANGE_DAYS = 731
+
+// Tags charted over time, most used first
+const MAX_TAGS = 10
+
+export interface MoodInsightsQuery {
+  // Inclusive days (YYYY-MM-DD); default to the 90 days up to today
+  from: string | null
+  to: string | null
+}
+
+export interface MoodBucket {
+  entries: number
+  // Average on the MOOD_OPTIONS scale, over entries that have a mood
+  averageMood: number | null
+  // Average sentiment (-1..1) inferred for the entries
+  averageSentiment: number | null
+  // Entries per mood
+  moods: Record<string, number>
+}
+
+export interface MoodInsights {
+  from: string
+  to: string
+  timeZone: string
+  scale: { mood: string; emoji: string; score: number }[]
+  summary: MoodBucket
+  // Every day of the range, including days without entries
+  days: (MoodBucket & { date: string })[]
+  // Every week overlapping the range, by its Monday
+  weeks: (MoodBucket & { start: string })[]
+  // The most used tags, with their count in each of `weeks`
+  tags: { tag: string; total: number; weeks: number[] }[]
+}
+
+export function parseMoodInsightsQuery(searchParams: URLSearchParams): { data: MoodInsightsQuery } | { error: string } {
+  const from = searchParams.get('from') || null
+  const to = searchParams.get('to') || null
+
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (value !== null && !isDay(value)) {
+      return { error: `${name} must be a date (YYYY-MM-DD)` }
+    }
+  }
+
+  if (from && to && from > to) {
+    return { error: 'from must not be after to' }
+  }
+
+  if (from && to && daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    return { error: `The range can be at most ${MAX_RANGE_DAYS} days` }
+  }
+
+  return { data: { from, to } }
+}
+
+interface BucketEntry {
+  mood: string | null
+  sentiment: number | null
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+function toBucket(entries: BucketEntry[]): MoodBucket {
+  const moods: Record<string, number> = {}
+  const scores: number[] = []
+
+  for (const entry of entries) {
+    const score = moodScore(entry.mood)
+    if (score !== null) {
+      moods[entry.mood!] = (moods[entry.mood!] ?? 0) + 1
+      scores.push(score)
+    }
+  }
+
+  return {
+    entries: entries.length,
+    averageMood: average(scores),
+    averageSentiment: average(entries.flatMap(entry => entry.sentiment === null ? [] : [entry.sentiment])),
+    moods
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const group = groups.get(key(item))
+    if (group) {
+      group.push(item)
+    } else {
+      groups.set(key(item), [item])
+    }
+  }
+  return groups
+}
+
+export async function getMoodInsights(userId: string, query: MoodInsightsQuery): Promise<MoodInsights> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true }
+  })
+  const timeZone = user?.timezone ?? 'UTC'
+
+  const to = query.to ?? dayInTimezone(new Date(), timeZone)
+  // A start far in the past without an end is capped at the longest range
+  const from = [query.from ?? addDays(to, -(DEFAULT_RANGE_DAYS - 1)), addDays(to, -(MAX_RANGE_DAYS - 1))].sort()[1]
+
+  const rows = await prisma.journalEntry.findMany({
+    where: {
+      userId,
+      date: { gte: startOfDay(from, timeZone), lt: startOfDay(nextDay(to), timeZone) }
+    },
+    select: { date: true, mood: true, tags: true, sentiment: true },
+    orderBy: { date: 'asc' }
+  })
+
+  const entries = rows.map(row => ({ ...row, day: dayInTimezone(row.date, timeZone) }))
+  const byDay = groupBy(entries, entry => entry.day)
+  const byWeek = groupBy(entries, entry => startOfWeek(entry.day))
+
+  const days: MoodInsights['days'] = []
+  for (let day = from; day <= to; day = nextDay(day)) {
+    days.push({ date: day, ...toBucket(byDay.get(day) ?? []) })
+  }
+
+  const weeks: MoodInsights['weeks'] = []
+  for (let week = startOfWeek(from); week <= to; week = addDays(week, 7)) {
+    weeks.push({ start: week, ...toBucket(byWeek.get(week) ?? []) })
+  }
+
+  const tagTotals = new Map<string, number>()
+  for (const entry of entries) {
+    for (const tag of new Set(entry.tags)) {
+      tagTotals.set(tag, (tagTotals.get(tag) ?? 0) + 1)
+    }
+  }
+
+  const tags = [...tagTotals]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, MAX_TAGS)
+    .map(([tag, total]) => ({
+      tag,
+      total,
+      weeks: weeks.map(week => (byWeek.get(week.start) ?? []).filter(entry => entry.tags.includes(tag)).length)
+    }))
+
+  return {
+    from,
+    to,
+    timeZone,
+    scale: MOOD_OPTIONS.map(({ value, emoji, score }) => ({ mood: value, emoji, score })),
+    summary: toBucket(entries),
+    days,
+    weeks,
+    tags
+  }
+}
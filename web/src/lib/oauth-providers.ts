@@ -0,0 +1,97 @@
+import type { Provider } from 'next-auth/providers/index'
+import type { OAuthConfig } from 'next-auth/providers/oauth'
+import GoogleProvider from 'next-auth/providers/google'
+import GitHubProvider from 'next-auth/providers/github'
+
+/**
+ * OAuth/OIDC sign-in providers, enabled by environment variables:
+ *
+ * - Google: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET
+ * - GitHub: GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET
+ * - Generic OIDC: OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET, optional OIDC_PROVIDER_NAME
+ *
+ * The generic provider works with any spec-compliant issuer (Keycloak, Authentik, Auth0, ...)
+ * and with the local stand-in in scripts/mock-oidc-server.mjs for development.
+ */
+
+interface OidcProfile {
+  sub: string
+  email?: string
+  email_verified?: boolean
+  name?: string
+  preferred_username?: string
+  picture?: string
+}
+
+function createOidcProvider(): OAuthConfig<OidcProfile> | null {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/$/, '')
+  const clientId = process.env.OIDC_CLIENT_ID
+  const clientSecret = process.env.OIDC_CLIENT_SECRET
+
+  if (!issuer || !clientId || !clientSecret) {
+    return null
+  }
+
+  return {
+    id: 'oidc',
+    name: process.env.OIDC_PROVIDER_NAME || 'Single Sign-On',
+    type: 'oauth',
+    wellKnown: `${issuer}/.well-known/openid-configuration`,
+    clientId,
+    clientSecret,
+    idToken: true,
+    checks: ['pkce', 'state'],
+    authorization: { params: { scope: 'openid email profile' } },
+    profile(profile) {
+      return {
+        id: profile.sub,
+        name: profile.name ?? profile.preferred_username ?? null,
+        email: profile.email ?? null,
+        image: profile.picture ?? null
+      }
+    }
+  }
+}
+
+function buildOAuthProviders(): Provider[] {
+  const providers: Provider[] = []
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.push(GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET
+    }))
+  }
+
+  if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+    providers.push(GitHubProvider({
+      clientId: process.env.GITHUB_CLIENT_ID,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET
+    }))
+  }
+
+  const oidcProvider = createOidcProvider()
+  if (oidcProvider) {
+    providers.push(oidcProvider)
+  }
+
+  return providers
+}
+
+export const oauthProviders = buildOAuthProviders()
+
+// Provider ids and display names for the settings UI
+export function getOAuthProviderSummaries(): { id: string; name: string }[] {
+  return oauthProviders.map(provider => ({ id: provider.id, name: provider.name }))
+}
+
+/**
+ * Whether the provider vouches for the profile's email address.
+ * Only OIDC-style `email_verified` claims count; GitHub and other plain OAuth
+ * providers don't guarantee ownership, so they never auto-link by email.
+ */
+export function isProviderEmailVerified(profile: unknown): boolean {
+  return typeof profile === 'object'
+    && profile !== null
+    && (profile as { email_verified?: unknown }).email_verified === true
+}
@@ -0,0 +1,169 @@
+/**
+ * Offline writes for the browser. Journal, note and task changes made without a connection are
+ * queued in IndexedDB and sent in order once the device is back online: by the service worker
+ * through Background Sync where the browser supports it, otherwise from the page when it comes
+ * back online or is next opened.
+ *
+ * public/sw.js can't import this module, so it repeats the database layout and the replay loop;
+ * keep the two in step.
+ */
+
+const OUTBOX_DB_NAME = 'personal-coach-offline'
+const OUTBOX_DB_VERSION = 1
+const OUTBOX_STORE = 'outbox'
+
+// Background Sync tag the service worker replays the outbox on
+const OUTBOX_SYNC_TAG = 'outbox'
+
+// Web Lock held while replaying, so the page and the service worker don't send a change twice
+const OUTBOX_LOCK = 'outbox-replay'
+
+// Cache the service worker keeps recently viewed journal responses in (see public/sw.js)
+const OFFLINE_API_CACHE = 'personal-coach-api'
+
+// Dispatched on window whenever the outbox changes, here or in the service worker
+export const OUTBOX_CHANGE_EVENT = 'outbox-change'
+
+// Only these APIs are safe to replay later: their changes don't depend on when they're sent
+const QUEUEABLE_PATHS = /^\/api\/(journal|notes|tasks)(\/|$)/
+
+export type OutboxMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface OutboxItem {
+  id: number
+  url: string
+  method: OutboxMethod
+  body: string | null
+  queuedAt: string
+}
+
+function openOutbox(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openOutbox()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(OUTBOX_STORE, mode).objectStore(OUTBOX_STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+function notifyOutboxChange(): void {
+  window.dispatchEvent(new Event(OUTBOX_CHANGE_EVENT))
+}
+
+/**
+ * Queued changes, oldest first.
+ */
+export function listOutbox(): Promise<OutboxItem[]> {
+  return withStore('readonly', store => store.getAll() as IDBRequest<OutboxItem[]>)
+}
+
+export function countOutbox(): Promise<number> {
+  return withStore('readonly', store => store.count())
+}
+
+async function requestBackgroundSync(): Promise<void> {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+  // Not in the DOM typings yet; browsers without it replay from the page instead
+  const sync = (registration as { sync?: { register(tag: string): Promise<void> } } | undefined)?.sync
+
+  if (sync) {
+    await sync.register(OUTBOX_SYNC_TAG).catch(() => {})
+  }
+}
+
+/**
+ * Send a journal, note or task change, queueing it when the device is offline. Resolves to the
+ * response, or to null when the change was queued to be sent later.
+ */
+export async function sendMutation(url: string, init: { method: OutboxMethod; body?: unknown }): Promise<Response | null> {
+  if (!QUEUEABLE_PATHS.test(url)) {
+    throw new Error(`Changes to ${url} can't be queued offline`)
+  }
+
+  const body = init.body === undefined ? null : JSON.stringify(init.body)
+  const headers = body === null ? undefined : { 'Content-Type': 'application/json' }
+
+  if (navigator.onLine) {
+    try {
+      return await fetch(url, { method: init.method, headers, body })
+    } catch (error) {
+      // fetch rejects with a TypeError when the request never reached the server
+      if (!(error instanceof TypeError)) {
+        throw error
+      }
+    }
+  }
+
+  await withStore('readwrite', store => store.add({ url, method: init.method, body, queuedAt: new Date().toISOString() }))
+  notifyOutboxChange()
+  await requestBackgroundSync()
+
+  return null
+}
+
+/**
+ * Send queued changes in order, stopping at the first that can't be sent yet. A change the server
+ * refuses outright (say, an edit to an entry deleted on another device) is dropped so it doesn't
+ * hold up the rest.
+ */
+export async function replayOutbox(): Promise<void> {
+  const replay = async () => {
+    for (const item of await listOutbox()) {
+      let res: Response
+
+      try {
+        res = await fetch(item.url, {
+          method: item.method,
+          headers: item.body === null ? undefined : { 'Content-Type': 'application/json' },
+          body: item.body
+        })
+      } catch {
+        return
+      }
+
+      // Signed out, rate limited or a server error: worth trying again later
+      if (res.status === 401 || res.status === 429 || res.status >= 500) {
+        return
+      }
+
+      if (!res.ok) {
+        console.error(`Dropping queued ${item.method} ${item.url}: ${res.status}`)
+      }
+
+      await withStore('readwrite', store => store.delete(item.id))
+    }
+  }
+
+  try {
+    await (navigator.locks ? navigator.locks.request(OUTBOX_LOCK, replay) : replay())
+  } finally {
+    notifyOutboxChange()
+  }
+}
+
+/**
+ * Forget queued changes and cached journal responses, so they don't outlive the session on a
+ * shared device.
+ */
+export async function clearOfflineData(): Promise<void> {
+  await withStore('readwrite', store => store.clear())
+  if ('caches' in window) {
+    await caches.delete(OFFLINE_API_CACHE)
+  }
+  notifyOutboxChange()
+}
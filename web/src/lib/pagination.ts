@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server'
+
+/**
+ * Cursor pagination for list endpoints.
+ *
+ * Query: limit, cursor (the id of the last item of the previous page), sort and order (asc|desc).
+ * Lists are still returned as a JSON array - the Android app reads them that way - and the cursor
+ * for the next page is sent in the X-Next-Cursor header, which is absent on the last page.
+ *
+ * That header is the only next-page contract: every paginated endpoint goes through these helpers,
+ * and none puts a `nextCursor` in its body. Clients pass the header's value back as `cursor`.
+ */
+
+export const NEXT_CURSOR_HEADER = 'X-Next-Cursor'
+export const MAX_PAGE_SIZE = 100
+
+export type SortOrder = 'asc' | 'desc'
+
+export interface ListParams<F extends string> {
+  limit: number
+  cursor: string | null
+  sort: F
+  order: SortOrder
+}
+
+export interface ListOptions<F extends string> {
+  // Without a limit a page is as big as the endpoint's list used to be
+  defaultLimit: number
+  // Non-null columns only: rows with a null sort value would break the cursor
+  sortFields: readonly F[]
+  defaultSort: F
+  defaultOrder: SortOrder
+}
+
+export function parseListParams<F extends string>(
+  searchParams: URLSearchParams,
+  options: ListOptions<F>
+): { data: ListParams<F> } | { error: string } {
+  const limitParam = searchParams.get('limit')
+  const limit = limitParam === null ? options.defaultLimit : Number(limitParam)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` }
+  }
+
+  const sort = searchParams.get('sort') ?? options.defaultSort
+  if (!(options.sortFields as readonly string[]).includes(sort)) {
+    return { error: `sort must be one of: ${options.sortFields.join(', ')}` }
+  }
+
+  const order = searchParams.get('order') ?? options.defaultOrder
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' }
+  }
+
+  return {
+    data: {
+      limit,
+      cursor: searchParams.get('cursor') || null,
+      sort: sort as F,
+      order
+    }
+  }
+}
+
+/**
+ * findMany arguments for one page. One extra row is fetched to tell whether another page follows,
+ * and ties on the sort field are broken by id so pages never overlap.
+ */
+export function pageQuery<F extends string>({ limit, cursor, sort, order }: ListParams<F>) {
+  return {
+    orderBy: [{ [sort]: order } as { [K in F]?: SortOrder }, { id: order }],
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 })
+  }
+}
+
+export function paginate<T extends { id: string }>(
+  records: T[],
+  limit: number
+): { items: T[]; nextCursor: string | null } {
+  const items = records.slice(0, limit)
+  return {
+    items,
+    nextCursor: records.length > limit ? items[items.length - 1].id : null
+  }
+}
+
+export function listResponse<T>(items: T[], nextCursor: string | null): NextResponse {
+  return NextResponse.json(items, nextCursor ? { headers: { [NEXT_CURSOR_HEADER]: nextCursor } } : undefined)
+}
+
+/**
+ * Parse an optional true/false query parameter. Returns undefined when absent, null when invalid.
+ */
+export function parseBooleanParam(value: string | null): boolean | undefined | null {
+  if (value === null) return undefined
+  if (value === 'true') return true
+  if (value === 'false') return false
+  return null
+}
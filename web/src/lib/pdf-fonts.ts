@@ -0,0 +1,150 @@
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * Fonts for PDF text in any script. The standard PDF fonts only cover Latin-1, so text is set in
+ * Noto Sans, falling back to Noto Sans JP, KR and SC for Chinese, Japanese and Korean and to
+ * Noto Emoji. Fontsource splits each font into subsets by Unicode range (the files a browser picks
+ * between with unicode-range), so text is cut into segments by the first subset that has each
+ * character, and a document only embeds the subsets it uses. next.config.ts includes the files in
+ * the deployment.
+ */
+
+const FONTSOURCE_DIR = path.join(process.cwd(), 'node_modules/@fontsource')
+
+export type PdfFontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic' | 'code'
+
+export interface PdfTextSegment {
+  // Name the font is registered under in the document
+  font: string
+  text: string
+}
+
+// Splits text into the segments to write with each font
+export type PdfFonts = (text: string, style: PdfFontStyle) => PdfTextSegment[]
+
+interface FontFamily {
+  // Fontsource package, which is also the prefix of its file names
+  name: string
+  bold: boolean
+  italic: boolean
+}
+
+interface FontSubset {
+  font: string
+  file: string
+  ranges: [number, number][]
+}
+
+const TEXT_FAMILY: FontFamily = { name: 'noto-sans', bold: true, italic: true }
+const EMOJI_FAMILY: FontFamily = { name: 'noto-emoji', bold: false, italic: false }
+
+// Keyed by ISO 639-1 code; the writer's language goes first so shared Han characters take its forms
+const CJK_FAMILIES: Record<string, FontFamily> = {
+  ja: { name: 'noto-sans-jp', bold: true, italic: false },
+  ko: { name: 'noto-sans-kr', bold: true, italic: false },
+  zh: { name: 'noto-sans-sc', bold: true, italic: false }
+}
+
+// Code is set in Courier while it has the characters: printable Latin-1
+const CODE_FONT: FontSubset = { font: 'Courier', file: '', ranges: [[0x20, 0x7e], [0xa0, 0xff]] }
+
+// Marks, control characters (line breaks) and joiners stay with the character before them
+const JOINING_CHARACTER = /^[\p{M}\p{Cc}\u200d]$/u
+
+const subsetCache = new Map<string, FontSubset[]>()
+
+// "U+0000-00FF,U+0131" into [[0x0, 0xff], [0x131, 0x131]]
+function parseUnicodeRanges(value: string): [number, number][] {
+  return value.split(',').map(range => {
+    const [start, end = start] = range.trim().replace(/^U\+/i, '').split('-')
+    return [parseInt(start, 16), parseInt(end, 16)]
+  })
+}
+
+function familySubsets(family: FontFamily, bold: boolean, italic: boolean): FontSubset[] {
+  const weight = bold && family.bold ? 700 : 400
+  const slant = italic && family.italic ? 'italic' : 'normal'
+  const key = `${family.name}-${weight}-${slant}`
+
+  let subsets = subsetCache.get(key)
+  if (!subsets) {
+    const unicode: Record<string, string> = JSON.parse(
+      fs.readFileSync(path.join(FONTSOURCE_DIR, family.name, 'unicode.json'), 'utf8')
+    )
+    // Subsets are named "latin", "cyrillic", ... or numbered "[0]", "[1]", ...
+    subsets = Object.entries(unicode).map(([subset, ranges]) => {
+      const font = `${family.name}-${subset.replace(/[[\]]/g, '')}-${weight}-${slant}`
+      return {
+        font,
+        file: path.join(FONTSOURCE_DIR, family.name, 'files', `${font}.woff`),
+        ranges: parseUnicodeRanges(ranges)
+      }
+    })
+    subsetCache.set(key, subsets)
+  }
+  return subsets
+}
+
+function fontChain(style: PdfFontStyle, language: string | null): FontSubset[] {
+  const bold = style === 'bold' || style === 'boldItalic'
+  const italic = style === 'italic' || style === 'boldItalic'
+  const cjk = Object.entries(CJK_FAMILIES)
+    .sort(([a], [b]) => Number(b === language) - Number(a === language))
+    .map(([, family]) => family)
+
+  return [
+    ...(style === 'code' ? [CODE_FONT] : []),
+    ...[TEXT_FAMILY, ...cjk, EMOJI_FAMILY].flatMap(family => familySubsets(family, bold, italic))
+  ]
+}
+
+/**
+ * Set up Unicode text for a document. `language` is the writer's preferred language, which picks
+ * the CJK font tried first. Subsets are registered with the document as they're first used.
+ */
+export function registerUnicodeFonts(doc: PDFKit.PDFDocument, language: string | null): PdfFonts {
+  const chains = new Map<PdfFontStyle, { subsets: FontSubset[]; found: Map<number, FontSubset | null> }>()
+  const registered = new Set<string>()
+
+  const subsetFor = (style: PdfFontStyle, codePoint: number): FontSubset | null => {
+    let chain = chains.get(style)
+    if (!chain) {
+      chain = { subsets: fontChain(style, language), found: new Map() }
+      chains.set(style, chain)
+    }
+
+    let subset = chain.found.get(codePoint)
+    if (subset === undefined) {
+      subset = chain.subsets.find(candidate =>
+        candidate.ranges.some(([start, end]) => codePoint >= start && codePoint <= end)
+      ) ?? null
+      chain.found.set(codePoint, subset)
+    }
+    return subset
+  }
+
+  return (text, style) => {
+    const segments: PdfTextSegment[] = []
+
+    for (const character of text) {
+      const current = segments[segments.length - 1]
+      const subset = JOINING_CHARACTER.test(character) ? null : subsetFor(style, character.codePointAt(0)!)
+
+      // Characters no font has are left to the current font, which draws them as a box
+      if (current && (!subset || subset.font === current.font)) {
+        current.text += character
+        continue
+      }
+
+      const next = subset ?? subsetFor(style, 0x20)!
+      if (next.file && !registered.has(next.font)) {
+        doc.registerFont(next.font, next.file)
+        registered.add(next.font)
+      }
+      segments.push({ font: next.font, text: character })
+    }
+
+    return segments
+  }
+}
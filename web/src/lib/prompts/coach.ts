@@ -1,3 +1,5 @@
+import { CoachTone, LANGUAGES, isCoachTone, isLanguage } from '../user-preferences'
+
 export const COACH_SYSTEM_PROMPT = `You are a supportive and insightful personal coach and journaling companion. Your role is to:
 
 1. **Active Listening**: Pay close attention to what the user shares about their day, feelings, and experiences. Ask thoughtful follow-up questions.
@@ -87,6 +89,51 @@ export function getTimeOfDay(date: Date = new Date(), timezone?: string | null):
   return 'night'
 }
 
+export interface UserPromptPreferences {
+  name?: string | null
+  timezone?: string | null
+  preferredLanguage?: string | null
+  coachTone?: string | null
+}
+
+const COACH_TONE_INSTRUCTIONS: Record<CoachTone, string> = {
+  gentle: 'Be especially gentle and encouraging. Lead with validation and keep any suggestions soft.',
+  balanced: 'Balance warmth with honest observations.',
+  direct: 'Be direct and concise. Skip pleasantries, name patterns plainly and suggest concrete next steps.'
+}
+
+/**
+ * Describe the user's profile settings (name, local time, language and tone) for a system prompt.
+ * Times are rendered in the user's timezone when one is set.
+ */
+export function buildUserPreferencesContext(preferences: UserPromptPreferences, now: Date = new Date()): string {
+  const lines: string[] = []
+
+  if (preferences.name) {
+    lines.push(`- Name: ${preferences.name}`)
+  }
+
+  const localTime = now.toLocaleString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(preferences.timezone && { timeZone: preferences.timezone })
+  })
+  lines.push(`- Local time: ${localTime} (${getTimeOfDay(now, preferences.timezone)})${preferences.timezone ? ` in ${preferences.timezone}` : ''}`)
+
+  if (preferences.preferredLanguage && preferences.preferredLanguage !== 'en' && isLanguage(preferences.preferredLanguage)) {
+    lines.push(`- Language: Always write your replies in ${LANGUAGES[preferences.preferredLanguage]}.`)
+  }
+
+  if (isCoachTone(preferences.coachTone)) {
+    lines.push(`- Tone: ${COACH_TONE_INSTRUCTIONS[preferences.coachTone]}`)
+  }
+
+  return `## About the User\n${lines.join('\n')}`
+}
+
 export const NOTIFICATION_SYSTEM_PROMPT = `You are a supportive personal coach generating a brief push notification message.
 
 Your task is to create a personalized, caring notification that:
@@ -151,7 +151,7 @@ const MOOD_DISPLAY_NAMES: Record<string, string> = {
 }
 
 interface JournalEntry {
-  content: string
+  content: string  // Markdown (see lib/journal-content.ts), not the editor's HTML
   mood: string | null
   tags: string[]
   date: Date | string  // Can be Date (from DB) or string (from client API call)
@@ -196,10 +196,7 @@ export function buildDailyToolUserPrompt(
 
   // Format journal entries
   const formattedEntries = entries.map((entry, index) => {
-    // Remove HTML tags and limit length
-    const cleanContent = entry.content
-      .replace(/<[^>]*>/g, '')
-      .substring(0, 500)
+    const cleanContent = entry.content.substring(0, 500)
 
     const moodDisplay = entry.mood ? (MOOD_DISPLAY_NAMES[entry.mood.toUpperCase()] || entry.mood) : 'Not specified'
     const tagsDisplay = entry.tags.length > 0 ? entry.tags.join(', ') : 'None'
@@ -0,0 +1,29 @@
+import { MOOD_OPTIONS } from '../journal-constants'
+
+export const JOURNAL_ANALYSIS_SYSTEM_PROMPT = `You read a single journal entry and describe it so the user can find and reflect on it later.
+
+Respond with ONLY a JSON object, no other text:
+{
+  "mood": one of ${MOOD_OPTIONS.map(option => `"${option.value}"`).join(', ')},
+  "sentiment": a number from -1 (very negative) to 1 (very positive), 0 being neutral,
+  "tags": up to 5 short lowercase tags for the entry's main topics
+}
+
+Guidelines:
+- Judge the mood from how the writer feels, not from the events they describe
+- Tags name topics (people, places, activities, themes), not feelings - the mood covers those
+- Prefer the user's existing tags when one fits; only invent a new tag for a topic none of them covers
+- Write tags in the language of the entry, as single words or hyphenated phrases without "#"
+- An entry too short to judge gets "Okay", 0 and no tags`
+
+export function buildJournalAnalysisPrompt(entry: string, existingTags: string[]): string {
+  let prompt = ''
+
+  if (existingTags.length > 0) {
+    prompt += `The user's existing tags: ${existingTags.join(', ')}\n\n`
+  }
+
+  prompt += `Journal entry:\n\n${entry}`
+
+  return prompt
+}
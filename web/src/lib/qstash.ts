@@ -1,3 +1,4 @@
+import { NextRequest } from 'next/server'
 import { Client } from '@upstash/qstash'
 
 const globalForQStash = globalThis as unknown as {
@@ -32,3 +33,29 @@ export function getQStashCallbackUrl(): string {
 
   return callbackUrl
 }
+
+// QStash signature verification is loaded dynamically to avoid build-time errors
+// when QSTASH_CURRENT_SIGNING_KEY is not set
+let verifySignatureAppRouter: typeof import('@upstash/qstash/nextjs').verifySignatureAppRouter | null = null
+
+/**
+ * Wrap a QStash callback handler with signature verification.
+ * Verification is required whenever signing keys are configured; without them
+ * (local development) the handler runs directly.
+ */
+export function withQStashVerification(
+  handler: (request: NextRequest) => Promise<Response>
+): (request: NextRequest) => Promise<Response> {
+  return async (request: NextRequest) => {
+    if (process.env.QSTASH_CURRENT_SIGNING_KEY || process.env.QSTASH_NEXT_SIGNING_KEY) {
+      if (!verifySignatureAppRouter) {
+        const qstashModule = await import('@upstash/qstash/nextjs')
+        verifySignatureAppRouter = qstashModule.verifySignatureAppRouter
+      }
+      return verifySignatureAppRouter(handler)(request)
+    }
+
+    console.warn('QStash signature verification disabled - QSTASH_CURRENT_SIGNING_KEY not set')
+    return handler(request)
+  }
+}
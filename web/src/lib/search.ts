@@ -0,0 +1,298 @@
+import { Prisma } from '@/generated/prisma/client'
+import { prisma } from './prisma'
+import { decryptContent, hashSearchTerms } from './encryption'
+import { escapeHtml, htmlToPlainText } from './html'
+import { TokenScope } from './token-scopes'
+import { linkTypeUrl } from './wiki-links'
+
+/**
+ * Full-text search across a user's content.
+ *
+ * Goals, tasks and summaries have generated `searchVector` columns (Postgres text search, "english"
+ * config). Journal entries, notes and chat messages are encrypted, so the app writes their vectors
+ * whenever the content changes (indexJournalEntry, indexNote, indexMessage), as a blind index: the
+ * lexemes are keyed hashes of the words (hashSearchTerms in lib/encryption.ts) rather than the
+ * words. The database sees which rows share a word and how often it occurs, but not the words.
+ * Queries are hashed the same way, so a search needs the user's key. Words are matched exactly,
+ * after Unicode (NFKC) and case folding; there's no stemming, as there is for the plaintext types.
+ *
+ * Ranking happens in SQL. Snippets of goals, tasks and summaries are highlighted with ts_headline;
+ * decrypted text never goes back to the database, so snippets of encrypted types are highlighted
+ * here.
+ */
+
+export const SEARCH_RESULT_TYPES = ['journal', 'note', 'goal', 'task', 'message', 'summary'] as const
+export type SearchResultType = typeof SEARCH_RESULT_TYPES[number]
+
+// Token scope needed to see each type of result
+export const SEARCH_TYPE_SCOPES: Record<SearchResultType, TokenScope> = {
+  journal: 'journal:read',
+  note: 'notes:read',
+  goal: 'goals:read',
+  task: 'tasks:read',
+  message: 'coach:read',
+  summary: 'summaries:read'
+}
+
+export const SEARCH_QUERY_MAX_LENGTH = 200
+
+const ENCRYPTED_TYPES: SearchResultType[] = ['journal', 'note', 'message']
+
+// Limits of a tsvector: positions above 16383 are clamped, and only 256 are kept per lexeme
+const MAX_POSITION = 16383
+const MAX_POSITIONS_PER_LEXEME = 256
+
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' })
+
+// Snippet text is HTML-escaped before highlighting, so <mark> is the only markup in a snippet
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+
+// Characters of context around the first match in a snippet of an encrypted type
+const SNIPPET_RADIUS = 100
+
+export function isSearchResultType(value: unknown): value is SearchResultType {
+  return typeof value === 'string' && (SEARCH_RESULT_TYPES as readonly string[]).includes(value)
+}
+
+export interface SearchResult {
+  type: SearchResultType
+  id: string
+  title: string | null
+  snippet: string
+  date: Date
+  // Web page showing the result
+  url: string
+}
+
+interface SearchRow {
+  type: SearchResultType
+  id: string
+  title: string | null
+  text: string
+  date: Date
+  conversationId: string | null
+  rank: number
+}
+
+// One SELECT per type; every branch returns the columns of SearchRow and reads the query from "q",
+// which has the plaintext query and its hashed form for the blind index
+const SOURCES: Record<SearchResultType, (userId: string) => Prisma.Sql> = {
+  journal: (userId) => Prisma.sql`
+    SELECT 'journal' AS "type", e."id", NULL AS "title", e."content" AS "text", e."date",
+           NULL AS "conversationId", ts_rank(e."searchVector", q.hashed) AS "rank"
+    FROM "JournalEntry" e, q
+    WHERE e."userId" = ${userId} AND e."searchVector" @@ q.hashed`,
+  note: (userId) => Prisma.sql`
+    SELECT 'note', n."id", n."title", n."content", n."updatedAt", NULL, ts_rank(n."searchVector", q.hashed)
+    FROM "Note" n, q
+    WHERE n."userId" = ${userId} AND n."searchVector" @@ q.hashed`,
+  goal: (userId) => Prisma.sql`
+    SELECT 'goal', g."id", g."title", g."description", g."updatedAt", NULL, ts_rank(g."searchVector", q.query)
+    FROM "Goal" g, q
+    WHERE g."userId" = ${userId} AND g."searchVector" @@ q.query`,
+  task: (userId) => Prisma.sql`
+    SELECT 'task', t."id", t."title", t."description", t."updatedAt", NULL, ts_rank(t."searchVector", q.query)
+    FROM "Task" t, q
+    WHERE t."userId" = ${userId} AND t."searchVector" @@ q.query`,
+  message: (userId) => Prisma.sql`
+    SELECT 'message', m."id", c."title", m."content", m."createdAt", m."conversationId", ts_rank(m."searchVector", q.hashed)
+    FROM q, "Message" m JOIN "Conversation" c ON c."id" = m."conversationId"
+    WHERE c."userId" = ${userId} AND m."searchVector" @@ q.hashed`,
+  summary: (userId) => Prisma.sql`
+    SELECT 'summary', s."id", initcap(s."type") || ' summary', s."content", s."startDate", NULL, ts_rank(s."searchVector", q.query)
+    FROM "Summary" s, q
+    WHERE s."userId" = ${userId} AND s."searchVector" @@ q.query`
+}
+
+function resultUrl(row: SearchRow): string {
+  switch (row.type) {
+    case 'message':
+      return `/coach?conversationId=${row.conversationId}`
+    case 'summary':
+      return `/summaries#summary-${row.id}`
+    default:
+      return linkTypeUrl(row.type, row.id)
+  }
+}
+
+// The words of a text as they're indexed: Unicode word segmentation after NFKC and case folding
+function searchWords(text: string): string[] {
+  const words: string[] = []
+  for (const segment of wordSegmenter.segment(text.normalize('NFKC').toLowerCase())) {
+    if (segment.isWordLike) words.push(segment.segment)
+  }
+  return words
+}
+
+/**
+ * A tsvector literal of the hashed words of `parts`, numbered across the parts as `||` would.
+ * Each part's positions carry its weight, as setweight does.
+ */
+async function blindVector(userId: string, parts: { text: string; weight?: 'A' | 'B' }[]): Promise<string> {
+  const positions = new Map<string, string[]>()
+  let position = 0
+
+  for (const { text, weight = '' } of parts) {
+    for (const word of searchWords(text)) {
+      position = Math.min(position + 1, MAX_POSITION)
+      const wordPositions = positions.get(word) ?? []
+      if (wordPositions.length < MAX_POSITIONS_PER_LEXEME) {
+        wordPositions.push(`${position}${weight}`)
+      }
+      positions.set(word, wordPositions)
+    }
+  }
+
+  const hashes = await hashSearchTerms(userId, [...positions.keys()])
+  return [...positions.values()].map((wordPositions, index) => `'${hashes[index]}':${wordPositions.join(',')}`).join(' ')
+}
+
+/**
+ * A tsquery literal of a web search query over hashed words, with the meaning
+ * websearch_to_tsquery gives it: terms are ANDed, `or` between terms ORs them (binding tighter
+ * than AND), `-term` excludes a term, and a quoted phrase (or a term that splits into several
+ * words) matches the words in sequence. Null when the query has no words.
+ */
+async function blindQuery(userId: string, query: string): Promise<string | null> {
+  const operands: { words: string[]; negated: boolean; or: boolean }[] = []
+  let or = false
+
+  for (const [, negation, phrase, term] of query.matchAll(/(-?)(?:"([^"]*)"?|(\S+))/g)) {
+    if (!negation && term?.toLowerCase() === 'or') {
+      or = operands.length > 0
+      continue
+    }
+    const words = searchWords(phrase ?? term)
+    if (words.length > 0) {
+      operands.push({ words, negated: negation === '-', or })
+      or = false
+    }
+  }
+
+  if (operands.length === 0) {
+    return null
+  }
+
+  const words = [...new Set(operands.flatMap(operand => operand.words))]
+  const hashes = new Map((await hashSearchTerms(userId, words)).map((hash, index) => [words[index], hash]))
+
+  const groups: string[][] = []
+  for (const { words, negated, or } of operands) {
+    const sequence = words.map(word => `'${hashes.get(word)}'`).join(' <-> ')
+    const expression = `${negated ? '!' : ''}${words.length > 1 ? `(${sequence})` : sequence}`
+    if (or) {
+      groups[groups.length - 1].push(expression)
+    } else {
+      groups.push([expression])
+    }
+  }
+
+  return groups.map(group => group.length > 1 ? `(${group.join(' | ')})` : group[0]).join(' & ')
+}
+
+// The words to highlight: the query's words, without `or` and excluded (-word) terms
+function queryTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .filter(token => !token.startsWith('-'))
+    .flatMap(searchWords)
+    .filter(term => term !== 'or')
+}
+
+/**
+ * An HTML-escaped excerpt around the first match, with the query's words wrapped in <mark>.
+ * Cruder than ts_headline, but the text stays in the app.
+ */
+function highlightSnippet(text: string, query: string): string {
+  const terms = queryTerms(query).map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+    : null
+  const index = pattern ? text.search(pattern) : -1
+  const start = Math.max(0, index - SNIPPET_RADIUS)
+  const end = Math.min(text.length, Math.max(index, 0) + SNIPPET_RADIUS * 2)
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim()
+
+  let snippet = ''
+  let last = 0
+  for (const match of pattern ? excerpt.matchAll(pattern) : []) {
+    snippet += `${escapeHtml(excerpt.slice(last, match.index))}<mark>${escapeHtml(match[0])}</mark>`
+    last = match.index + match[0].length
+  }
+  snippet += escapeHtml(excerpt.slice(last))
+
+  return `${start > 0 ? '… ' : ''}${snippet}${end < text.length ? ' …' : ''}`
+}
+
+/**
+ * Search the user's content. `query` uses web search syntax: quoted phrases, `or` and `-word`.
+ */
+export async function searchUserContent(
+  userId: string,
+  query: string,
+  types: SearchResultType[],
+  limit: number
+): Promise<SearchResult[]> {
+  if (types.length === 0) {
+    return []
+  }
+
+  const hashedQuery = types.some(type => ENCRYPTED_TYPES.includes(type)) ? await blindQuery(userId, query) : null
+
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS query, ${hashedQuery}::tsquery AS hashed)
+    SELECT * FROM (${Prisma.join(types.map(type => SOURCES[type](userId)), ' UNION ALL ')}) AS results
+    ORDER BY "rank" DESC, "date" DESC
+    LIMIT ${limit}`
+
+  if (rows.length === 0) {
+    return []
+  }
+
+  // Goals, tasks and summaries are stored in the clear, so highlighting them in SQL reveals nothing
+  const plaintextRows = rows.filter(row => !ENCRYPTED_TYPES.includes(row.type))
+  const headlines = plaintextRows.length > 0
+    ? await prisma.$queryRaw<{ snippet: string }[]>`
+        SELECT ts_headline('english', t.text, websearch_to_tsquery('english', ${query}), ${HEADLINE_OPTIONS}) AS "snippet"
+        FROM unnest(${plaintextRows.map(row => escapeHtml(row.text))}::text[]) WITH ORDINALITY AS t(text, position)
+        ORDER BY t.position`
+    : []
+
+  return Promise.all(rows.map(async (row) => {
+    let snippet: string
+    if (ENCRYPTED_TYPES.includes(row.type)) {
+      const text = await decryptContent(userId, row.text)
+      snippet = highlightSnippet(row.type === 'journal' ? htmlToPlainText(text) : text, query)
+    } else {
+      snippet = headlines[plaintextRows.indexOf(row)].snippet
+    }
+
+    return {
+      type: row.type,
+      id: row.id,
+      title: row.title,
+      snippet,
+      date: row.date,
+      url: resultUrl(row)
+    }
+  }))
+}
+
+// Indexed from the entry's Markdown copy (see lib/journal-content.ts) rather than its HTML
+export async function indexJournalEntry(userId: string, id: string, markdown: string): Promise<void> {
+  const vector = await blindVector(userId, [{ text: markdown }])
+  await prisma.$executeRaw`UPDATE "JournalEntry" SET "searchVector" = ${vector}::tsvector WHERE "id" = ${id}`
+}
+
+export async function indexNote(userId: string, id: string, title: string, content: string): Promise<void> {
+  const vector = await blindVector(userId, [{ text: title, weight: 'A' }, { text: content, weight: 'B' }])
+  await prisma.$executeRaw`UPDATE "Note" SET "searchVector" = ${vector}::tsvector WHERE "id" = ${id}`
+}
+
+export async function indexMessage(userId: string, id: string, content: string): Promise<void> {
+  const vector = await blindVector(userId, [{ text: content }])
+  await prisma.$executeRaw`
+    UPDATE "Message" m SET "searchVector" = ${vector}::tsvector
+    FROM "Conversation" c
+    WHERE m."id" = ${id} AND c."id" = m."conversationId" AND c."userId" = ${userId}`
+}
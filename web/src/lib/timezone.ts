@@ -0,0 +1,67 @@
+// Calendar days (YYYY-MM-DD) in a user's timezone
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Round-tripped, so impossible dates like 2026-02-31 aren't rolled over into the next month
+export function isDay(value: string): boolean {
+  if (!DAY_PATTERN.test(value)) return false
+  const date = new Date(value)
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+/**
+ * Milliseconds the given timezone is ahead of UTC at that moment.
+ */
+function timezoneOffset(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  )
+  const local = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+  return local - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// Midnight at the start of a day in the given timezone
+export function startOfDay(day: string, timeZone: string): Date {
+  const midnightUtc = new Date(`${day}T00:00:00Z`)
+  return new Date(midnightUtc.getTime() - timezoneOffset(midnightUtc, timeZone))
+}
+
+// The day a moment falls on in the given timezone
+export function dayInTimezone(date: Date, timeZone: string): string {
+  return new Date(date.getTime() + timezoneOffset(date, timeZone)).toISOString().slice(0, 10)
+}
+
+// The hour (0-23) on the clock in the given timezone at that moment
+export function hourInTimezone(date: Date, timeZone: string): number {
+  return new Date(date.getTime() + timezoneOffset(date, timeZone)).getUTCHours()
+}
+
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+export function nextDay(day: string): string {
+  return addDays(day, 1)
+}
+
+// Whole days from one day to another (negative when `to` is earlier)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000))
+}
+
+// The Monday of the week a day falls in
+export function startOfWeek(day: string): string {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay()
+  return addDays(day, -((weekday + 6) % 7))
+}
@@ -0,0 +1,29 @@
+// Client-safe scope definitions for personal access tokens (shared by the API and settings UI)
+
+// Resources a personal access token can be granted access to
+export const TOKEN_RESOURCES = [
+  'profile',
+  'journal',
+  'coach',
+  'summaries',
+  'agenda',
+  'daily-tools',
+  'notes',
+  'goals',
+  'tasks',
+  'notifications'
+] as const
+
+export type TokenResource = typeof TOKEN_RESOURCES[number]
+
+// Scopes are "<resource>:read" or "<resource>:write" (write implies read)
+export type TokenScope = `${TokenResource}:${'read' | 'write'}`
+
+export const TOKEN_SCOPES: TokenScope[] = TOKEN_RESOURCES.flatMap(resource => [
+  `${resource}:read` as TokenScope,
+  `${resource}:write` as TokenScope
+])
+
+export function isTokenScope(value: unknown): value is TokenScope {
+  return typeof value === 'string' && (TOKEN_SCOPES as string[]).includes(value)
+}
@@ -0,0 +1,113 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 second steps),
+// the defaults every authenticator app supports
+const TOTP_DIGITS = 6
+const TOTP_STEP_SECONDS = 30
+// Accept codes from one step before/after to tolerate clock drift
+const TOTP_WINDOW = 1
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 character')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = createHmac('sha1', secret).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+// 160-bit secret, as recommended by RFC 4226
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer = 'Personal Coach'): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/**
+ * Check a TOTP code against the secret.
+ * Returns the matched time step (to be stored for replay protection) or null.
+ * Steps at or before `lastUsedStep` are rejected so a code can only be used once.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null,
+  now = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null
+  }
+
+  const key = base32Decode(secret)
+  const currentStep = Math.floor(now / 1000 / TOTP_STEP_SECONDS)
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset
+    if (lastUsedStep != null && step <= lastUsedStep) {
+      continue
+    }
+    if (timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(normalized))) {
+      return step
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,84 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from './prisma'
+import { verifyTotp } from './totp'
+
+const RECOVERY_CODE_COUNT = 10
+
+// How long a password-verified sign-in may wait for its second factor
+export const TWO_FACTOR_CHALLENGE_MINUTES = 5
+
+// Recovery codes are compared case-insensitively and without separators
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+const RECOVERY_CODE_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+// e.g. "k3f7q-2mzta" - 50 bits of entropy per code
+function generateRecoveryCode(): string {
+  const code = Array.from(randomBytes(10), byte => RECOVERY_CODE_ALPHABET[byte & 31]).join('')
+  return `${code.slice(0, 5)}-${code.slice(5)}`
+}
+
+/**
+ * Replace the user's recovery codes with a fresh set.
+ * Returns the plaintext codes, which are only shown to the user once.
+ */
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) }))
+    })
+  ])
+
+  return codes
+}
+
+/**
+ * Check a second-factor code for a user with two-factor enabled.
+ * Accepts a current TOTP code or an unused recovery code (which is then consumed).
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true }
+  })
+
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return false
+  }
+
+  const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep)
+  if (step !== null) {
+    // Conditional update so two concurrent requests can't both use the same code
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }]
+      },
+      data: { totpLastUsedStep: step }
+    })
+    return updated.count > 0
+  }
+
+  const consumed = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() }
+  })
+  return consumed.count > 0
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpEnabledAt: true }
+  })
+  return Boolean(user?.totpEnabledAt)
+}
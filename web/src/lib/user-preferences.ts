@@ -0,0 +1,129 @@
+// Client-safe profile and preference definitions (shared by /api/me and the settings UI)
+
+export const COACH_TONES = ['gentle', 'balanced', 'direct'] as const
+export type CoachTone = typeof COACH_TONES[number]
+
+export const COACH_TONE_LABELS: Record<CoachTone, string> = {
+  gentle: 'Gentle - warm and encouraging',
+  balanced: 'Balanced - supportive with honest observations',
+  direct: 'Direct - concise and to the point'
+}
+
+// Languages the coach can reply in, keyed by ISO 639-1 code
+export const LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+  it: 'Italiano',
+  pt: 'Português',
+  nl: 'Nederlands',
+  pl: 'Polski',
+  sv: 'Svenska',
+  ja: '日本語',
+  ko: '한국어',
+  zh: '中文'
+}
+
+export const NAME_MAX_LENGTH = 100
+
+// Bounds for the default event notification timing, in minutes
+export const NOTIFY_MINUTES_MIN = 1
+export const NOTIFY_MINUTES_MAX = 24 * 60
+
+export interface UserProfile {
+  email: string
+  name: string | null
+  timezone: string | null
+  preferredLanguage: string | null
+  coachTone: CoachTone
+  remindersEnabled: boolean
+  streakReminders: boolean
+  notifyMinutesBefore: number
+  notifyMinutesAfter: number
+}
+
+export type ProfileUpdate = Partial<Omit<UserProfile, 'email'>>
+
+export function isCoachTone(value: unknown): value is CoachTone {
+  return typeof value === 'string' && (COACH_TONES as readonly string[]).includes(value)
+}
+
+// Own keys only, so "constructor" or "toString" aren't taken for languages
+export function isLanguage(value: unknown): value is string {
+  return typeof value === 'string' && Object.hasOwn(LANGUAGES, value)
+}
+
+export function isValidTimezone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isNotifyMinutes(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= NOTIFY_MINUTES_MIN && (value as number) <= NOTIFY_MINUTES_MAX
+}
+
+/**
+ * Validate a partial profile update. Fields that are absent are left unchanged;
+ * name, timezone and preferredLanguage can be cleared with null.
+ */
+export function parseProfileUpdate(body: Record<string, unknown>): { data: ProfileUpdate } | { error: string } {
+  const data: ProfileUpdate = {}
+
+  if (body.name !== undefined) {
+    if (body.name !== null && typeof body.name !== 'string') {
+      return { error: 'name must be a string' }
+    }
+    const name = body.name?.trim() || null
+    if (name && name.length > NAME_MAX_LENGTH) {
+      return { error: `name must be at most ${NAME_MAX_LENGTH} characters` }
+    }
+    data.name = name
+  }
+
+  if (body.timezone !== undefined) {
+    if (body.timezone !== null && !isValidTimezone(body.timezone)) {
+      return { error: 'timezone must be an IANA timezone such as Europe/London' }
+    }
+    data.timezone = body.timezone
+  }
+
+  if (body.preferredLanguage !== undefined) {
+    if (body.preferredLanguage !== null && !isLanguage(body.preferredLanguage)) {
+      return { error: `preferredLanguage must be one of: ${Object.keys(LANGUAGES).join(', ')}` }
+    }
+    data.preferredLanguage = body.preferredLanguage
+  }
+
+  if (body.coachTone !== undefined) {
+    if (!isCoachTone(body.coachTone)) {
+      return { error: `coachTone must be one of: ${COACH_TONES.join(', ')}` }
+    }
+    data.coachTone = body.coachTone
+  }
+
+  for (const field of ['remindersEnabled', 'streakReminders'] as const) {
+    if (body[field] !== undefined) {
+      if (typeof body[field] !== 'boolean') {
+        return { error: `${field} must be a boolean` }
+      }
+      data[field] = body[field]
+    }
+  }
+
+  for (const field of ['notifyMinutesBefore', 'notifyMinutesAfter'] as const) {
+    if (body[field] !== undefined) {
+      if (!isNotifyMinutes(body[field])) {
+        return { error: `${field} must be a whole number between ${NOTIFY_MINUTES_MIN} and ${NOTIFY_MINUTES_MAX}` }
+      }
+      data[field] = body[field]
+    }
+  }
+
+  return { data }
+}
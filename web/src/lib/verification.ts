@@ -0,0 +1,78 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from './prisma'
+
+export type VerificationPurpose = 'verify-email' | 'reset-password' | 'passkey-registration' | 'passkey-login'
+
+// How long each kind of token stays valid
+const TOKEN_TTL_MINUTES: Record<VerificationPurpose, number> = {
+  'verify-email': 24 * 60,
+  'reset-password': 60,
+  // WebAuthn challenges only need to outlive the browser prompt
+  'passkey-registration': 5,
+  'passkey-login': 5
+}
+
+// Only a hash of the token is stored, so a database leak cannot be used to take over accounts
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// VerificationToken.identifier is "<purpose>:<subject>" - the email for email flows,
+// the user id for passkey registration
+function buildIdentifier(purpose: VerificationPurpose, subject: string): string {
+  return `${purpose}:${subject}`
+}
+
+/**
+ * Issue a new single-use token for the given purpose and subject.
+ * Any previous tokens for the same purpose and subject are invalidated.
+ * Returns the raw token to embed in the emailed link (or use as a WebAuthn challenge).
+ */
+export async function createVerificationToken(
+  purpose: VerificationPurpose,
+  subject: string
+): Promise<string> {
+  const identifier = buildIdentifier(purpose, subject)
+  const token = randomBytes(32).toString('hex')
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: {
+        identifier,
+        token: hashToken(token),
+        expires: new Date(Date.now() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000)
+      }
+    })
+  ])
+
+  return token
+}
+
+/**
+ * Consume a token for the given purpose.
+ * Returns the subject it was issued for, or null if the token is unknown, expired or for another purpose.
+ */
+export async function consumeVerificationToken(
+  purpose: VerificationPurpose,
+  token: string
+): Promise<string | null> {
+  const record = await prisma.verificationToken.findUnique({
+    where: { token: hashToken(token) }
+  })
+
+  if (!record || !record.identifier.startsWith(`${purpose}:`)) {
+    return null
+  }
+
+  // Single use - delete before checking expiry so stale tokens are cleaned up too
+  const deleted = await prisma.verificationToken.deleteMany({
+    where: { token: record.token }
+  })
+
+  if (deleted.count === 0 || record.expires < new Date()) {
+    return null
+  }
+
+  return record.identifier.slice(purpose.length + 1)
+}
@@ -0,0 +1,54 @@
+import webpush from 'web-push'
+import { prisma } from './prisma'
+
+// Configure web-push with VAPID keys
+const vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+const vapidPrivateKey = process.env.VAPID_PRIVATE_KEY
+const vapidSubject = process.env.VAPID_SUBJECT || 'mailto:admin@example.com'
+
+if (vapidPublicKey && vapidPrivateKey) {
+  webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey)
+}
+
+export interface PushPayload {
+  title: string
+  body: string
+  icon?: string
+  badge?: string
+  // Replaces an earlier notification with the same tag
+  tag?: string
+  data?: { url: string }
+}
+
+export function isWebPushConfigured(): boolean {
+  return Boolean(vapidPublicKey && vapidPrivateKey)
+}
+
+/**
+ * Send a notification to each of a user's devices. Subscriptions the push service reports as
+ * gone are removed. Returns the number of devices it was delivered to.
+ */
+export async function sendPushToUser(userId: string, payload: PushPayload): Promise<number> {
+  const subscriptions = await prisma.pushSubscription.findMany({ where: { userId } })
+  const body = JSON.stringify({ icon: '/icons/icon-192.svg', badge: '/icons/icon-192.svg', ...payload })
+  let sent = 0
+
+  for (const sub of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+        body
+      )
+      sent++
+    } catch (error: unknown) {
+      const webpushError = error as { statusCode?: number }
+      if (webpushError.statusCode === 410 || webpushError.statusCode === 404) {
+        await prisma.pushSubscription.delete({ where: { id: sub.id } })
+      } else {
+        console.error(`Failed to send push notification to ${sub.endpoint}:`, error)
+      }
+    }
+  }
+
+  return sent
+}
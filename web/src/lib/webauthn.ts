@@ -0,0 +1,191 @@
+import { randomUUID } from 'crypto'
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON
+} from '@simplewebauthn/server'
+import { prisma } from './prisma'
+import { getAppBaseUrl } from './mail'
+import { consumeVerificationToken, createVerificationToken } from './verification'
+
+/**
+ * Passkey (WebAuthn) registration and sign-in.
+ *
+ * Challenges are single-use verification tokens, so each options request can only be
+ * answered once. The relying party ID defaults to the app host (NEXTAUTH_URL) and can be
+ * overridden with WEBAUTHN_RP_ID, e.g. to share passkeys across subdomains.
+ *
+ * Locally, Chrome DevTools (More tools > WebAuthn) or a CDP virtual authenticator
+ * (`WebAuthn.addVirtualAuthenticator` with hasResidentKey and hasUserVerification)
+ * can stand in for a real device on http://localhost.
+ */
+
+const RP_NAME = 'Personal Coach'
+
+function getRelyingParty(): { rpID: string; origin: string } {
+  const origin = getAppBaseUrl()
+  return {
+    origin,
+    rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname
+  }
+}
+
+// Challenges are issued from verification tokens; the browser echoes them back base64url-encoded
+function decodeChallenge(challenge: string): string {
+  return Buffer.from(challenge, 'base64url').toString('utf8')
+}
+
+export async function createPasskeyRegistrationOptions(
+  user: { id: string; email: string; name: string | null }
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  const { rpID } = getRelyingParty()
+
+  const existing = await prisma.passkey.findMany({
+    where: { userId: user.id },
+    select: { credentialId: true, transports: true }
+  })
+
+  return generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID,
+    userName: user.email,
+    userDisplayName: user.name ?? user.email,
+    userID: new TextEncoder().encode(user.id),
+    challenge: await createVerificationToken('passkey-registration', user.id),
+    // Don't register the same authenticator twice
+    excludeCredentials: existing.map(passkey => ({
+      id: passkey.credentialId,
+      transports: passkey.transports as AuthenticatorTransportFuture[]
+    })),
+    // Discoverable credentials let the login page offer passkeys without asking for an email
+    authenticatorSelection: {
+      residentKey: 'required',
+      userVerification: 'preferred'
+    }
+  })
+}
+
+/**
+ * Verify a registration response and store the new passkey.
+ * Returns false if the response doesn't match an outstanding challenge for this user.
+ */
+export async function verifyPasskeyRegistration(
+  userId: string,
+  response: RegistrationResponseJSON,
+  name: string
+): Promise<boolean> {
+  const { rpID, origin } = getRelyingParty()
+
+  let verification
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: async (challenge) =>
+        (await consumeVerificationToken('passkey-registration', decodeChallenge(challenge))) === userId,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false
+    })
+  } catch (error) {
+    console.error('Passkey registration failed verification:', error)
+    return false
+  }
+
+  if (!verification.verified) {
+    return false
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo
+
+  await prisma.passkey.create({
+    data: {
+      userId,
+      credentialId: credential.id,
+      publicKey: credential.publicKey,
+      counter: credential.counter,
+      transports: credential.transports ?? [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      name
+    }
+  })
+
+  return true
+}
+
+export async function createPasskeyLoginOptions(): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  const { rpID } = getRelyingParty()
+
+  // Login challenges aren't tied to a user yet - the passkey the browser picks identifies them
+  return generateAuthenticationOptions({
+    rpID,
+    challenge: await createVerificationToken('passkey-login', randomUUID()),
+    userVerification: 'required'
+  })
+}
+
+/**
+ * Verify a sign-in assertion.
+ * Returns the id of the passkey's owner, or null if the assertion is invalid.
+ */
+export async function verifyPasskeyLogin(
+  response: AuthenticationResponseJSON
+): Promise<string | null> {
+  const { rpID, origin } = getRelyingParty()
+
+  const passkey = await prisma.passkey.findUnique({
+    where: { credentialId: response.id }
+  })
+
+  if (!passkey) {
+    return null
+  }
+
+  // The user handle is the user id we registered the credential with
+  if (response.response.userHandle
+    && Buffer.from(response.response.userHandle, 'base64url').toString('utf8') !== passkey.userId) {
+    return null
+  }
+
+  let verification
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: async (challenge) =>
+        (await consumeVerificationToken('passkey-login', decodeChallenge(challenge))) !== null,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      credential: {
+        id: passkey.credentialId,
+        publicKey: new Uint8Array(passkey.publicKey),
+        counter: passkey.counter,
+        transports: passkey.transports as AuthenticatorTransportFuture[]
+      },
+      requireUserVerification: true
+    })
+  } catch (error) {
+    console.error('Passkey sign-in failed verification:', error)
+    return null
+  }
+
+  if (!verification.verified) {
+    return null
+  }
+
+  await prisma.passkey.update({
+    where: { id: passkey.id },
+    data: {
+      counter: verification.authenticationInfo.newCounter,
+      backedUp: verification.authenticationInfo.credentialBackedUp,
+      lastUsedAt: new Date()
+    }
+  })
+
+  return passkey.userId
+}
@@ -0,0 +1,92 @@
+// Client-safe [[wiki link]] syntax, shared by the editor's autocomplete and lib/links.ts
+
+import { isDay } from './timezone'
+
+// Records that can link to and be linked from one another
+export const LINK_TYPES = ['journal', 'note', 'goal', 'task'] as const
+export type LinkType = typeof LINK_TYPES[number]
+
+export const LINK_TYPE_LABELS: Record<LinkType, string> = {
+  journal: 'Entry',
+  note: 'Note',
+  goal: 'Goal',
+  task: 'Task'
+}
+
+// The web page showing a record
+export function linkTypeUrl(type: LinkType, id: string): string {
+  return `/${type === 'journal' ? 'journal' : `${type}s`}/${id}`
+}
+
+export function isLinkType(value: unknown): value is LinkType {
+  return typeof value === 'string' && (LINK_TYPES as readonly string[]).includes(value)
+}
+
+// [[Title]], [[goal:Title]] or [[2026-10-19]]; brackets and line breaks can't appear inside
+const WIKI_LINK_PATTERN = /\[\[([^[\]\n]{1,200})\]\]/g
+
+// "[[" and whatever has been typed after it, directly before the caret
+const OPEN_WIKI_LINK_PATTERN = /\[\[([^[\]\n]{0,100})$/
+
+const TYPE_PREFIX_PATTERN = /^(journal|note|goal|task):\s*(.+)$/i
+
+export interface WikiLinkReference {
+  // Only records of this type match; null matches notes, goals and tasks by title
+  type: LinkType | null
+  // A title, or a YYYY-MM-DD day for journal entries
+  target: string
+}
+
+/**
+ * The links written in a piece of plain text, without duplicates. A bare day links to the
+ * journal entries written that day.
+ */
+export function parseWikiLinks(text: string): WikiLinkReference[] {
+  const seen = new Set<string>()
+  const references: WikiLinkReference[] = []
+
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const inner = match[1].trim()
+    const prefixed = TYPE_PREFIX_PATTERN.exec(inner)
+    const target = (prefixed ? prefixed[2] : inner).trim()
+    const type = prefixed ? prefixed[1].toLowerCase() as LinkType : isDay(target) ? 'journal' : null
+
+    // Journal entries have no titles, only days
+    if (!target || (type === 'journal' && !isDay(target))) continue
+
+    const key = `${type}:${target.toLowerCase()}`
+    if (!seen.has(key)) {
+      seen.add(key)
+      references.push({ type, target })
+    }
+  }
+
+  return references
+}
+
+/**
+ * What a link's target is matched on: titles compare case-insensitively, days as written.
+ */
+export function linkKey(target: string): string {
+  return target.trim().toLowerCase()
+}
+
+// Whether a reference (see WikiLinkReference) can point at records of the type
+export function referenceMatchesType(referenceType: LinkType | null, type: LinkType): boolean {
+  return referenceType === null ? type !== 'journal' : referenceType === type
+}
+
+/**
+ * The link text for a record, typed so it keeps pointing at the same kind of record.
+ */
+export function formatWikiLink(type: LinkType, title: string): string {
+  return type === 'journal' ? `[[${title}]]` : `[[${type}:${title}]]`
+}
+
+/**
+ * What's been typed of an unfinished link directly before the caret ("run" in "... [[run"), or
+ * null when the caret isn't in one.
+ */
+export function openWikiLinkQuery(textBeforeCaret: string): string | null {
+  return OPEN_WIKI_LINK_PATTERN.exec(textBeforeCaret)?.[1] ?? null
+}
@@ -0,0 +1,154 @@
+import { prisma } from './prisma'
+import { decryptContent } from './encryption'
+import { countJournalWords } from './journal-content'
+import { addDays, dayInTimezone, daysBetween, startOfDay, startOfWeek } from './timezone'
+
+/**
+ * Journaling consistency: streaks of consecutive days with an entry, words written and entries
+ * per week. Days are calendar days in the user's timezone, so an entry written at 23:30 counts
+ * for that day wherever the server runs.
+ */
+
+// Weeks of history in the stats, the current week included
+const STATS_WEEKS = 12
+
+// Entries saved before word counts were stored are counted in batches of this size
+const WORD_COUNT_BATCH_SIZE = 100
+
+export interface Streaks {
+  // Consecutive days up to today, or up to yesterday while today can still continue it
+  current: number
+  longest: number
+  writtenToday: boolean
+  // The current streak ends tonight unless the user writes today
+  atRisk: boolean
+  lastDay: string | null
+}
+
+export interface WritingStats {
+  timeZone: string
+  today: string
+  streak: Streaks
+  totals: {
+    entries: number
+    words: number
+    averageWords: number | null
+  }
+  // Average over `weeks`
+  entriesPerWeek: number
+  // The last 12 weeks by their Monday, oldest first
+  weeks: { start: string; entries: number; words: number }[]
+}
+
+/**
+ * Streaks from the days (YYYY-MM-DD, ascending, no duplicates) the user wrote on. Entries dated
+ * after today don't count.
+ */
+export function computeStreaks(writtenDays: string[], today: string): Streaks {
+  const days = writtenDays.filter(day => day <= today)
+  let longest = 0
+  let run = 0
+
+  days.forEach((day, index) => {
+    run = index > 0 && daysBetween(days[index - 1], day) === 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+  })
+
+  const lastDay = days.at(-1) ?? null
+  const writtenToday = lastDay === today
+  const current = lastDay && daysBetween(lastDay, today) <= 1 ? run : 0
+
+  return { current, longest, writtenToday, atRisk: current > 0 && !writtenToday, lastDay }
+}
+
+/**
+ * The days a user wrote on, in their timezone, oldest first.
+ */
+export async function getJournalDays(userId: string, timeZone: string): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ day: string }[]>`
+    SELECT DISTINCT to_char(("date" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}, 'YYYY-MM-DD') AS day
+    FROM "JournalEntry"
+    WHERE "userId" = ${userId}
+    ORDER BY day
+  `
+  return rows.map(row => row.day)
+}
+
+/**
+ * Count the words of entries saved before word counts were stored.
+ */
+async function backfillWordCounts(userId: string): Promise<void> {
+  for (;;) {
+    const entries = await prisma.journalEntry.findMany({
+      where: { userId, wordCount: null },
+      select: { id: true, content: true },
+      take: WORD_COUNT_BATCH_SIZE
+    })
+
+    if (entries.length === 0) return
+
+    const counted = await Promise.all(entries.map(async (entry) => ({
+      id: entry.id,
+      wordCount: countJournalWords(await decryptContent(userId, entry.content))
+    })))
+
+    await prisma.$transaction(counted.map(({ id, wordCount }) =>
+      prisma.journalEntry.update({ where: { id }, data: { wordCount } })
+    ))
+  }
+}
+
+export async function getWritingStats(userId: string, now = new Date()): Promise<WritingStats> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true }
+  })
+  const timeZone = user?.timezone ?? 'UTC'
+  const today = dayInTimezone(now, timeZone)
+  const firstWeek = addDays(startOfWeek(today), -7 * (STATS_WEEKS - 1))
+
+  await backfillWordCounts(userId)
+
+  const [days, totals, recent] = await Promise.all([
+    getJournalDays(userId, timeZone),
+    prisma.journalEntry.aggregate({
+      where: { userId },
+      _count: true,
+      _sum: { wordCount: true }
+    }),
+    prisma.journalEntry.findMany({
+      where: { userId, date: { gte: startOfDay(firstWeek, timeZone) } },
+      select: { date: true, wordCount: true }
+    })
+  ])
+
+  const weeks = Array.from({ length: STATS_WEEKS }, (_, index) => ({
+    start: addDays(firstWeek, 7 * index),
+    entries: 0,
+    words: 0
+  }))
+
+  for (const entry of recent) {
+    const week = weeks.find(w => w.start === startOfWeek(dayInTimezone(entry.date, timeZone)))
+    // Entries dated in the future have no week here
+    if (week) {
+      week.entries++
+      week.words += entry.wordCount ?? 0
+    }
+  }
+
+  const words = totals._sum.wordCount ?? 0
+
+  return {
+    timeZone,
+    today,
+    streak: computeStreaks(days, today),
+    totals: {
+      entries: totals._count,
+      words,
+      averageWords: totals._count > 0 ? Math.round(words / totals._count) : null
+    },
+    entriesPerWeek: weeks.reduce((sum, week) => sum + week.entries, 0) / STATS_WEEKS,
+    weeks
+  }
+}
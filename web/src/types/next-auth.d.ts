@@ -1,4 +1,5 @@
 import 'next-auth'
+import 'next-auth/jwt'
 
 declare module 'next-auth' {
   interface Session {
@@ -8,5 +9,18 @@ declare module 'next-auth' {
       name?: string | null
       image?: string | null
     }
+    // Password was accepted but the TOTP challenge hasn't been completed yet
+    twoFactorPending?: boolean
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id?: string
+    // Set instead of `id` until the second factor is verified
+    pendingUserId?: string
+    twoFactorExpiresAt?: number
+    // The user's sessionVersion when the token was issued; a newer one revokes the token
+    sessionVersion?: number
   }
 }